@@ -108,6 +108,59 @@ describe('Blueprint Validation API (Mocha)', function () {
     });
   });
 
+  describe('Blueprint data validation', function () {
+    it('should reject blueprints with overlapping buildings', async function () {
+      const response = await TestSetup.request()
+        .post('/api/uploadblueprint')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'Overlapping Blueprint',
+          blueprint: {
+            blueprintItems: [
+              { id: 'Wire', position: { x: 0, y: 0 } },
+              { id: 'Wire', position: { x: 0, y: 0 } },
+            ],
+          },
+          thumbnail: 'base64thumbnail',
+          overwrite: false,
+        });
+
+      expect(response.status).to.equal(500);
+      expect(response.body.saveBlueprintResult).to.equal('ERROR');
+      expect(response.body.validationIssues[0].type).to.equal('Overlap');
+    });
+
+    it('should reject blueprints with unknown buildings', async function () {
+      const response = await TestSetup.request()
+        .post('/api/uploadblueprint')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'Unknown Building Blueprint',
+          blueprint: { blueprintItems: [{ id: 'NotARealBuilding', position: { x: 0, y: 0 } }] },
+          thumbnail: 'base64thumbnail',
+          overwrite: false,
+        });
+
+      expect(response.status).to.equal(500);
+      expect(response.body.validationIssues[0].type).to.equal('UnknownBuilding');
+    });
+
+    it('should accept blueprints that only have warnings', async function () {
+      const response = await TestSetup.request()
+        .post('/api/uploadblueprint')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'Floating Generator',
+          blueprint: { blueprintItems: [{ id: 'ManualGenerator', position: { x: 0, y: 0 } }] },
+          thumbnail: 'base64thumbnail',
+          overwrite: false,
+        });
+
+      expect(response.status).to.equal(200);
+      expect(response.body.id).to.exist;
+    });
+  });
+
   describe('Blueprint duplicate handling', function () {
     it('should return overwrite flag when blueprint name already exists', async function () {
       // First, create a blueprint
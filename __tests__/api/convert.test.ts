@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import dotenv from 'dotenv';
+
+import path from 'path';
+
+// Load test environment first
+dotenv.config({ path: path.resolve(__dirname, '../../.env.test') });
+process.env.NODE_ENV = 'test';
+
+import { TestSetup } from '../setup/testSetup';
+import { BinaryBlueprint } from '../../lib';
+
+describe('Blueprint Convert API (Mocha)', function () {
+  const yamlTemplate = [
+    'name: convert test',
+    'buildings:',
+    '- id: Wire',
+    '  location_x: 0',
+    '  location_y: 0',
+    '  element: Copper',
+    '  temperature: 300',
+    '  connections: 2',
+    '- id: NotARealBuilding',
+    '  location_x: 3',
+    '  location_y: 4',
+    '  element: Copper',
+    '  temperature: 300',
+    '- id: NotARealBuilding',
+    '  location_x: 5',
+    '  location_y: 4',
+    '  element: Copper',
+    '  temperature: 300',
+    'cells: []',
+  ].join('\n');
+
+  it('should convert yaml to bni and report unrecognized buildings', async function () {
+    const response = await TestSetup.request()
+      .post('/api/convert?from=yaml&to=bni')
+      .set('Content-Type', 'application/octet-stream')
+      .send(Buffer.from(yamlTemplate));
+
+    expect(response.status).to.equal(200);
+    expect(response.body.name).to.equal('convert test');
+    expect(response.body.format).to.equal('bni');
+    expect(response.body.nbItems).to.equal(1);
+    expect(response.body.data.buildings).to.have.length(1);
+    expect(response.body.data.buildings[0].buildingdef).to.equal('Wire');
+    expect(response.body.unrecognizedBuildings).to.deep.equal([
+      {
+        id: 'NotARealBuilding',
+        count: 2,
+        positions: [
+          { x: 3, y: 4 },
+          { x: 5, y: 4 },
+        ],
+      },
+    ]);
+  });
+
+  it('should convert a json bni blueprint to binary', async function () {
+    const response = await TestSetup.request()
+      .post('/api/convert?from=bni&to=binary')
+      .send({
+        friendlyname: 'json test',
+        buildings: [{ buildingdef: 'Wire', offset: { x: 1, y: 2 }, orientation: 0, flags: 1 }],
+      });
+
+    expect(response.status).to.equal(200);
+    const bniBlueprint = BinaryBlueprint.read(Buffer.from(response.body.data, 'base64'));
+    expect(bniBlueprint.friendlyname).to.equal('json test');
+    expect(bniBlueprint.buildings).to.have.length(1);
+    expect(bniBlueprint.buildings[0].offset.x).to.equal(1);
+    expect(bniBlueprint.buildings[0].offset.y).to.equal(2);
+    expect(bniBlueprint.buildings[0].flags).to.equal(1);
+  });
+
+  it('should reject unknown formats', async function () {
+    const response = await TestSetup.request()
+      .post('/api/convert?from=yaml&to=png')
+      .set('Content-Type', 'application/octet-stream')
+      .send(Buffer.from(yamlTemplate));
+
+    expect(response.status).to.equal(400);
+  });
+
+  it('should return an error for unreadable files', async function () {
+    const response = await TestSetup.request()
+      .post('/api/convert?from=bni&to=yaml')
+      .set('Content-Type', 'application/octet-stream')
+      .send(Buffer.from('not json'));
+
+    expect(response.status).to.equal(400);
+    expect(response.body.convertBlueprint).to.equal('Unreadable file');
+  });
+
+  it('should reject files without the buildings of their format', async function () {
+    const scalarYaml = await TestSetup.request()
+      .post('/api/convert?from=yaml&to=bni')
+      .set('Content-Type', 'application/octet-stream')
+      .send(Buffer.from('hello'));
+    expect(scalarYaml.status).to.equal(400);
+    expect(scalarYaml.body.convertBlueprint).to.equal('Invalid file');
+
+    const emptyBni = await TestSetup.request().post('/api/convert?from=bni&to=yaml').send({});
+    expect(emptyBni.status).to.equal(400);
+    expect(emptyBni.body.convertBlueprint).to.equal('Invalid file');
+
+    const emptyMdb = await TestSetup.request()
+      .post('/api/convert?from=mdb&to=yaml')
+      .send({ buildings: [] });
+    expect(emptyMdb.status).to.equal(400);
+    expect(emptyMdb.body.convertBlueprint).to.equal('Invalid file');
+  });
+
+  it('should skip and report the buildings that can not be read', async function () {
+    const response = await TestSetup.request()
+      .post('/api/convert?from=bni&to=bni')
+      .send({
+        friendlyname: 'partly broken',
+        buildings: [null, { buildingdef: 'Wire', offset: { x: 1, y: 2 }, orientation: 0 }],
+      });
+
+    expect(response.status).to.equal(200);
+    expect(response.body.nbItems).to.equal(1);
+    expect(response.body.data.buildings[0].buildingdef).to.equal('Wire');
+    expect(response.body.unrecognizedBuildings).to.have.length(1);
+  });
+});
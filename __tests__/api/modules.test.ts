@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import dotenv from 'dotenv';
+
+import path from 'path';
+
+// Load test environment first
+dotenv.config({ path: path.resolve(__dirname, '../../.env.test') });
+process.env.NODE_ENV = 'test';
+
+import { TestSetup } from '../setup/testSetup';
+
+describe('Module Library API (Mocha)', function () {
+  let testData: any;
+  let authToken: string;
+
+  const floorModule = {
+    name: 'Floor',
+    anchor: { x: 0, y: 0 },
+    fragment: {
+      blueprintItems: [
+        { id: 'Tile', position: { x: 0, y: 0 } },
+        { id: 'Tile', position: { x: 1, y: 0 } },
+      ],
+    },
+  };
+
+  // Global setup
+  before(async function () {
+    this.timeout(10000);
+    // Give the app time to initialize
+    await new Promise(resolve => setTimeout(resolve, 2000));
+  });
+
+  beforeEach(async function () {
+    this.timeout(5000);
+    testData = await TestSetup.beforeEach();
+
+    // Register a user and get auth token
+    const registerResponse = await TestSetup.request().post('/api/register').send({
+      username: 'testuser_modules',
+      email: 'testuser_modules@test.com',
+      password: 'testpassword123',
+    });
+
+    expect(registerResponse.status).to.equal(200);
+    authToken = registerResponse.body.token;
+  });
+
+  afterEach(async function () {
+    this.timeout(5000);
+    await TestSetup.afterEach();
+  });
+
+  it('should save, list and delete the modules of the user', async function () {
+    const saveResponse = await TestSetup.request()
+      .post('/api/savemodule')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send(floorModule);
+    expect(saveResponse.status).to.equal(200);
+    const moduleId = saveResponse.body.id;
+
+    const listResponse = await TestSetup.request()
+      .get('/api/getmodules')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(listResponse.status).to.equal(200);
+    expect(listResponse.body.modules).to.have.length(1);
+    expect(listResponse.body.modules[0].id).to.equal(moduleId);
+    expect(listResponse.body.modules[0].fragment.blueprintItems).to.have.length(2);
+
+    const deleteResponse = await TestSetup.request()
+      .post('/api/deletemodule')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ moduleId });
+    expect(deleteResponse.status).to.equal(200);
+
+    const emptyResponse = await TestSetup.request()
+      .get('/api/getmodules')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(emptyResponse.body.modules).to.have.length(0);
+  });
+
+  it('should rename a module saved with its id', async function () {
+    const saveResponse = await TestSetup.request()
+      .post('/api/savemodule')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send(floorModule);
+
+    const renameResponse = await TestSetup.request()
+      .post('/api/savemodule')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ...floorModule, id: saveResponse.body.id, name: 'Metal floor' });
+    expect(renameResponse.status).to.equal(200);
+    expect(renameResponse.body.id).to.equal(saveResponse.body.id);
+
+    const listResponse = await TestSetup.request()
+      .get('/api/getmodules')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(listResponse.body.modules.map((m: any) => m.name)).to.deep.equal(['Metal floor']);
+  });
+
+  it('should reject modules with overlapping or unknown buildings', async function () {
+    const overlapping = await TestSetup.request()
+      .post('/api/savemodule')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        ...floorModule,
+        fragment: {
+          blueprintItems: [
+            { id: 'Tile', position: { x: 0, y: 0 } },
+            { id: 'Tile', position: { x: 0, y: 0 } },
+          ],
+        },
+      });
+    expect(overlapping.status).to.equal(400);
+
+    const unknown = await TestSetup.request()
+      .post('/api/savemodule')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ...floorModule, fragment: { blueprintItems: [{ id: 'NotABuilding' }] } });
+    expect(unknown.status).to.equal(400);
+  });
+
+  it('should require a logged in user', async function () {
+    const response = await TestSetup.request().get('/api/getmodules');
+
+    expect(response.status).to.equal(401);
+  });
+});
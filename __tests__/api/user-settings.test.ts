@@ -0,0 +1,83 @@
+import { expect } from 'chai';
+import dotenv from 'dotenv';
+
+import path from 'path';
+
+// Load test environment first
+dotenv.config({ path: path.resolve(__dirname, '../../.env.test') });
+process.env.NODE_ENV = 'test';
+
+import { TestSetup } from '../setup/testSetup';
+
+describe('User Settings API (Mocha)', function () {
+  let testData: any;
+  let authToken: string;
+
+  // Global setup
+  before(async function () {
+    this.timeout(10000);
+    // Give the app time to initialize
+    await new Promise(resolve => setTimeout(resolve, 2000));
+  });
+
+  beforeEach(async function () {
+    this.timeout(5000);
+    testData = await TestSetup.beforeEach();
+
+    // Register a user and get auth token
+    const registerResponse = await TestSetup.request().post('/api/register').send({
+      username: 'testuser_settings',
+      email: 'testuser_settings@test.com',
+      password: 'testpassword123',
+    });
+
+    expect(registerResponse.status).to.equal(200);
+    authToken = registerResponse.body.token;
+  });
+
+  afterEach(async function () {
+    this.timeout(5000);
+    await TestSetup.afterEach();
+  });
+
+  describe('keybindings', function () {
+    it('should start without any changed shortcut', async function () {
+      const response = await TestSetup.request()
+        .get('/api/getkeybindings')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).to.equal(200);
+      expect(response.body.keybindings).to.deep.equal({});
+    });
+
+    it('should save the shortcuts of the user', async function () {
+      const keybindings = { Rotate: 'R', Undo: '', 'Build:Tile': '1 Q' };
+
+      const saveResponse = await TestSetup.request()
+        .post('/api/savekeybindings')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ keybindings });
+      expect(saveResponse.status).to.equal(200);
+
+      const response = await TestSetup.request()
+        .get('/api/getkeybindings')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(response.body.keybindings).to.deep.equal(keybindings);
+    });
+
+    it('should reject keybindings that are not strings', async function () {
+      const response = await TestSetup.request()
+        .post('/api/savekeybindings')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ keybindings: { Rotate: { $set: 'R' } } });
+
+      expect(response.status).to.equal(400);
+    });
+
+    it('should require a logged in user', async function () {
+      const response = await TestSetup.request().get('/api/getkeybindings');
+
+      expect(response.status).to.equal(401);
+    });
+  });
+});
@@ -303,6 +303,36 @@ describe('Extract Export Pipeline Tests', () => {
       }
     });
 
+    it('should validate buildingPower configuration', () => {
+      const powerPath = path.join(__dirname, '../../assets/manual-buildingPower.json');
+      const database = JSON.parse(fs.readFileSync(path.join(__dirname, '../../assets/database/database.json'), 'utf-8'));
+      const powerConfig = JSON.parse(fs.readFileSync(powerPath, 'utf-8'));
+
+      expect(powerConfig.buildings).to.be.an('array');
+      powerConfig.buildings.forEach((entry: any, index: number) => {
+        expect(entry, `Buildings[${index}] should have 'buildingId' property`).to.have.property('buildingId');
+        expect(
+          database.buildings.find((b: any) => b.prefabId == entry.buildingId),
+          `Buildings[${index}] should reference an exported building : ${entry.buildingId}`
+        ).to.exist;
+      });
+    });
+
+    it('should validate buildingConduitFlow configuration', () => {
+      const flowPath = path.join(__dirname, '../../assets/manual-buildingConduitFlow.json');
+      const database = JSON.parse(fs.readFileSync(path.join(__dirname, '../../assets/database/database.json'), 'utf-8'));
+      const flowConfig = JSON.parse(fs.readFileSync(flowPath, 'utf-8'));
+
+      expect(flowConfig.buildings).to.be.an('array');
+      flowConfig.buildings.forEach((entry: any, index: number) => {
+        expect(entry, `Buildings[${index}] should have 'buildingId' property`).to.have.property('buildingId');
+        expect(
+          database.buildings.find((b: any) => b.prefabId == entry.buildingId),
+          `Buildings[${index}] should reference an exported building : ${entry.buildingId}`
+        ).to.exist;
+      });
+    });
+
     it('should ensure directories exist before processing', () => {
       const requiredDirs = [
         path.join(__dirname, '../../assets'),
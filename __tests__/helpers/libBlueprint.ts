@@ -0,0 +1,18 @@
+import { Blueprint, BlueprintHelpers, BlueprintItem, Vector2 } from '../../lib';
+
+export class LibBlueprintHelper {
+  // Creates a building at a position and adds it to the blueprint.
+  // The connections of wires and pipes are the bits of DrawHelpers.connectionBits
+  static addItem(
+    blueprint: Blueprint,
+    id: string,
+    x: number,
+    y: number,
+    connections?: number
+  ): BlueprintItem {
+    const item = BlueprintHelpers.createInstance(id);
+    item.importMdbBuilding({ id: id, position: new Vector2(x, y), connections: connections });
+    blueprint.addBlueprintItem(item);
+    return item;
+  }
+}
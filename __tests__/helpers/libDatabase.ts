@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BBuilding,
+  BExport,
+  BSpriteInfo,
+  BSpriteModifier,
+  BuildableElement,
+  BuildMenuCategory,
+  BuildMenuItem,
+  ImageSource,
+  OniItem,
+  SpriteInfo,
+  SpriteModifier,
+} from '../../lib';
+
+export class LibDatabaseHelper {
+  // Same loading sequence as the backend (app/app.ts)
+  static load() {
+    const databasePath = path.join(__dirname, '../../assets/database/database.json');
+    const json: BExport = JSON.parse(fs.readFileSync(databasePath, 'utf-8'));
+
+    ImageSource.init();
+
+    BuildableElement.init();
+    BuildableElement.load(json.elements);
+
+    BuildMenuCategory.init();
+    BuildMenuCategory.load(json.buildMenuCategories);
+
+    BuildMenuItem.init();
+    BuildMenuItem.load(json.buildMenuItems);
+
+    let uiSprites: BSpriteInfo[] = json.uiSprites;
+    SpriteInfo.init();
+    SpriteInfo.load(uiSprites);
+
+    let spriteModifiers: BSpriteModifier[] = json.spriteModifiers;
+    SpriteModifier.init();
+    SpriteModifier.load(spriteModifiers);
+
+    let buildings: BBuilding[] = json.buildings;
+    OniItem.init();
+    OniItem.load(buildings);
+  }
+}
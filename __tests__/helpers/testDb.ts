@@ -1,5 +1,6 @@
 import { UserModel } from '../../app/api/models/user';
 import { BlueprintModel } from '../../app/api/models/blueprint';
+import { ModuleModel } from '../../app/api/models/module';
 import { TestDataFactory, TestUser, TestBlueprint } from '../factories/testData';
 import { Types } from 'mongoose';
 
@@ -120,6 +121,7 @@ export class TestDbHelper {
   static async cleanDatabase() {
     try {
       await BlueprintModel.model.deleteMany({});
+      await ModuleModel.model.deleteMany({});
       await UserModel.model.deleteMany({});
       TestDataFactory.reset();
     } catch (error) {
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import { BillOfMaterials, Blueprint, OniTemplate } from '../../lib';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Bill Of Materials', () => {
+  const building = (id: string, x: number, y: number, element: string) => {
+    return {
+      id: id,
+      location_x: x,
+      location_y: y,
+      element: element,
+      temperature: 300,
+      rotationOrientation: 'Neutral',
+      connections: 0,
+    };
+  };
+
+  const template: OniTemplate = {
+    name: 'bill of materials',
+    buildings: [
+      building('ManualGenerator', 0, 0, 'Copper'),
+      building('Wire', 0, 2, 'Copper'),
+      building('Wire', 1, 2, 'Iron'),
+      building('Tile', 0, -1, 'SandStone'),
+      building('Tile', 1, -1, 'SandStone'),
+    ],
+    cells: [{ element: 'Water', mass: 800, temperature: 300, location_x: 3, location_y: 0 }],
+  };
+
+  let blueprint: Blueprint;
+
+  before(() => {
+    LibDatabaseHelper.load();
+
+    blueprint = new Blueprint();
+    blueprint.importFromOni(template);
+  });
+
+  it('should count buildings and their materials', () => {
+    const bill = BillOfMaterials.fromItems(blueprint.blueprintItems);
+
+    const wires = bill.buildings.find(b => b.oniItem.id == 'Wire')!;
+    expect(wires.count).to.equal(2);
+    expect(wires.materials.map(m => [m.buildableElement.id, m.mass])).to.deep.equal([
+      ['Copper', 25],
+      ['Iron', 25],
+    ]);
+
+    expect(bill.buildings.find(b => b.oniItem.id == 'Tile')!.count).to.equal(2);
+    expect(bill.buildings.find(b => b.oniItem.isElement)).to.be.undefined;
+  });
+
+  it('should total the mass of every element', () => {
+    const bill = BillOfMaterials.fromItems(blueprint.blueprintItems);
+
+    const totals = new Map(bill.elements.map(e => [e.buildableElement.id, e.mass]));
+    expect(totals.get('Copper')).to.equal(225);
+    expect(totals.get('Iron')).to.equal(25);
+    expect(totals.get('SandStone')).to.equal(400);
+    expect(totals.get('Water')).to.equal(800);
+    expect(bill.totalMass).to.equal(1450);
+  });
+
+  it('should count tiles and cells to dig', () => {
+    const bill = BillOfMaterials.fromItems(blueprint.blueprintItems);
+
+    expect(bill.tileCount).to.equal(2);
+    // 2x2 generator and two wires
+    expect(bill.digCount).to.equal(6);
+  });
+
+  it('should only count the given items', () => {
+    const wires = blueprint.blueprintItems.filter(item => item.oniItem.id == 'Wire');
+    const bill = BillOfMaterials.fromItems(wires);
+
+    expect(bill.buildings.length).to.equal(1);
+    expect(bill.totalMass).to.equal(50);
+    expect(bill.tileCount).to.equal(0);
+  });
+
+  it('should export to csv and json', () => {
+    const bill = BillOfMaterials.fromItems(blueprint.blueprintItems);
+    const lines = bill.toCsv().trim().split('\n');
+
+    expect(lines[0]).to.equal('Type,Id,Name,Count,Element,Mass');
+    expect(lines).to.include('Tiles,,,2,,');
+    expect(lines).to.include('Dig,,,6,,');
+
+    const json = bill.toJson();
+    expect(json.tileCount).to.equal(2);
+    expect(json.totalMass).to.equal(1450);
+    expect(json.buildings.find((b: any) => b.id == 'Wire').count).to.equal(2);
+  });
+});
@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import {
+  BinaryBlueprint,
+  BniBlueprint,
+  BniBuilding,
+  Blueprint,
+  BlueprintItemWire,
+  BuildableElement,
+  Orientation,
+  Vector2,
+} from '../../lib';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Binary Blueprint', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const createBniBlueprint = (): BniBlueprint => {
+    const bniBlueprint = new BniBlueprint();
+    bniBlueprint.friendlyname = 'Binary ümlaut test';
+
+    const wire = new BniBuilding();
+    wire.buildingdef = 'Wire';
+    wire.offset = new Vector2(-3, 7);
+    wire.flags = 3;
+    wire.selected_elements = [BuildableElement.getElement('Gold').tag];
+    bniBlueprint.buildings.push(wire);
+
+    const conditioner = new BniBuilding();
+    conditioner.buildingdef = 'AirConditioner';
+    conditioner.offset = new Vector2(2, 0);
+    conditioner.orientation = Orientation.FlipH;
+    conditioner.selected_elements = [BuildableElement.getElement('Aluminum').tag];
+    bniBlueprint.buildings.push(conditioner);
+
+    return bniBlueprint;
+  };
+
+  it('should read back exactly what was written', () => {
+    const bniBlueprint = createBniBlueprint();
+
+    const read = BinaryBlueprint.read(BinaryBlueprint.write(bniBlueprint));
+
+    expect(read.friendlyname).to.equal(bniBlueprint.friendlyname);
+    expect(read.buildings).to.have.length(2);
+    for (let index = 0; index < read.buildings.length; index++) {
+      expect(read.buildings[index].buildingdef).to.equal(bniBlueprint.buildings[index].buildingdef);
+      expect(read.buildings[index].offset.x).to.equal(bniBlueprint.buildings[index].offset.x);
+      expect(read.buildings[index].offset.y).to.equal(bniBlueprint.buildings[index].offset.y);
+      expect(read.buildings[index].orientation).to.equal(bniBlueprint.buildings[index].orientation);
+      expect(read.buildings[index].flags).to.equal(bniBlueprint.buildings[index].flags);
+      expect(read.buildings[index].selected_elements).to.deep.equal(
+        bniBlueprint.buildings[index].selected_elements
+      );
+    }
+  });
+
+  it('should keep selected elements, orientation and connections through a blueprint', () => {
+    const blueprint = new Blueprint();
+    blueprint.importFromBni(createBniBlueprint());
+
+    const reimported = new Blueprint();
+    reimported.importFromBinary(blueprint.toBinaryBlueprint('Binary'));
+
+    const wire = reimported.blueprintItems.find(item => item.id == 'Wire') as BlueprintItemWire;
+    expect(wire.buildableElements[0].id).to.equal('Gold');
+    expect(wire.connections).to.equal(3);
+
+    const conditioner = reimported.blueprintItems.find(item => item.id == 'AirConditioner')!;
+    expect(conditioner.buildableElements[0].id).to.equal('Aluminum');
+    expect(conditioner.orientation).to.equal(Orientation.FlipH);
+  });
+});
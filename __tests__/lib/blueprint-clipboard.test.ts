@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { Blueprint, BlueprintClipboard, BlueprintItemWire, Vector2 } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Blueprint Clipboard', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  it('should store positions relative to the bottom left of the items', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 10, 5);
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 12, 7);
+
+    const fragment = BlueprintClipboard.copy(blueprint.blueprintItems);
+
+    expect(fragment.blueprintItems.map(b => [b.position!.x, b.position!.y])).to.deep.equal([
+      [0, 0],
+      [2, 2],
+    ]);
+  });
+
+  it('should drop connections to wires that were not copied', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 0, 0, 2);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 1, 0, 1 | 2);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 2, 0, 1);
+
+    const fragment = BlueprintClipboard.copy(blueprint.blueprintItems.slice(0, 2));
+
+    expect(fragment.blueprintItems.map(b => b.connections)).to.deep.equal([2, 1]);
+  });
+
+  it('should round trip through text', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 0, 0, 2);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 1, 0, 1);
+
+    const text = BlueprintClipboard.toText(BlueprintClipboard.copy(blueprint.blueprintItems));
+    const items = BlueprintClipboard.createItems(
+      BlueprintClipboard.fromText(text)!,
+      new Vector2(5, 3)
+    );
+
+    expect(items.map(i => [i.position.x, i.position.y])).to.deep.equal([
+      [5, 3],
+      [6, 3],
+    ]);
+    expect((items[1] as BlueprintItemWire).connections).to.equal(1);
+  });
+
+  it('should reject text that is not a fragment', () => {
+    expect(BlueprintClipboard.fromText('hello')).to.be.undefined;
+    expect(BlueprintClipboard.fromText('{"name":"x"}')).to.be.undefined;
+    expect(BlueprintClipboard.fromText('{"blueprintItems":[{"x":1}]}')).to.be.undefined;
+  });
+
+  it('should skip unknown buildings', () => {
+    const fragment = { blueprintItems: [{ id: 'NotABuilding' }, { id: 'Tile' }] };
+
+    expect(BlueprintClipboard.createItems(fragment, Vector2.zero()).length).to.equal(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import { Blueprint, BlueprintHistory, BlueprintItemWire, HistoryAction, Vector2 } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Blueprint History', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const wireAt = (blueprint: Blueprint, x: number, y: number): BlueprintItemWire => {
+    return blueprint
+      .getBlueprintItemsAt(new Vector2(x, y))
+      .find(item => item.oniItem.isWire) as BlueprintItemWire;
+  };
+
+  it('should record and undo a build', () => {
+    const blueprint = new Blueprint();
+    const history = new BlueprintHistory(blueprint);
+
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 0, 0);
+
+    expect(history.commands.length).to.equal(1);
+    expect(history.commands[0].action).to.equal(HistoryAction.Build);
+    expect(history.commands[0].itemId).to.equal('Tile');
+
+    history.undo();
+    expect(blueprint.blueprintItems.length).to.equal(0);
+
+    history.redo();
+    expect(blueprint.blueprintItems.length).to.equal(1);
+    expect(blueprint.blueprintItems[0].position).to.deep.equal(new Vector2(0, 0));
+  });
+
+  it('should group the changes of a transaction', () => {
+    const blueprint = new Blueprint();
+    const history = new BlueprintHistory(blueprint);
+
+    history.beginTransaction();
+    for (let x = 0; x < 12; x++) LibBlueprintHelper.addItem(blueprint, 'GasConduit', x, 0);
+    history.endTransaction();
+
+    expect(history.commands.length).to.equal(1);
+    expect(history.commands[0].count).to.equal(12);
+
+    history.undo();
+    expect(blueprint.blueprintItems.length).to.equal(0);
+  });
+
+  it('should not record the changes made while suspended', () => {
+    const blueprint = new Blueprint();
+    const history = new BlueprintHistory(blueprint);
+
+    history.suspend();
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 0, 0);
+    history.resume();
+    history.reset();
+    expect(history.commands.length).to.equal(0);
+
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 1, 0);
+    expect(history.commands.length).to.equal(1);
+    expect(history.commands[0].count).to.equal(1);
+  });
+
+  it('should restore the connections of neighbouring wires', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 0, 0, 2);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 1, 0, 1);
+    const history = new BlueprintHistory(blueprint);
+
+    blueprint.destroyBlueprintItem(wireAt(blueprint, 1, 0));
+
+    expect(wireAt(blueprint, 0, 0).connections).to.equal(0);
+    expect(history.commands[0].action).to.equal(HistoryAction.Destroy);
+    expect(history.commands[0].count).to.equal(1);
+
+    history.undo();
+    expect(wireAt(blueprint, 0, 0).connections).to.equal(2);
+    expect(wireAt(blueprint, 1, 0).connections).to.equal(1);
+
+    history.redo();
+    expect(wireAt(blueprint, 0, 0).connections).to.equal(0);
+    expect(wireAt(blueprint, 1, 0)).to.be.undefined;
+  });
+
+  it('should record modifications of marked items', () => {
+    const blueprint = new Blueprint();
+    const item = LibBlueprintHelper.addItem(blueprint, 'Tile', 0, 0);
+    const history = new BlueprintHistory(blueprint);
+
+    history.markModified([item]);
+    item.temperature = 350;
+    blueprint.emitBlueprintChanged();
+
+    expect(history.commands[0].action).to.equal(HistoryAction.Modify);
+
+    history.undo();
+    expect(blueprint.blueprintItems[0].temperature).to.not.equal(350);
+  });
+
+  it('should drop the redos and jump across commands', () => {
+    const blueprint = new Blueprint();
+    const history = new BlueprintHistory(blueprint);
+
+    for (let x = 0; x < 3; x++) LibBlueprintHelper.addItem(blueprint, 'Tile', x, 0);
+    history.undo();
+    LibBlueprintHelper.addItem(blueprint, 'Ladder', 5, 0);
+
+    expect(history.commands.length).to.equal(3);
+    expect(history.commands[2].itemId).to.equal('Ladder');
+
+    history.goTo(0);
+    expect(blueprint.blueprintItems.length).to.equal(0);
+
+    history.goTo(3);
+    expect(blueprint.blueprintItems.length).to.equal(3);
+    expect(history.canRedo).to.be.false;
+  });
+});
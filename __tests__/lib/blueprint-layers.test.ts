@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import { Blueprint, BlueprintLayer, BlueprintLayers, OniItem } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Blueprint Layers', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  it('should group the buildings by layer', () => {
+    const layerOf = (id: string) => BlueprintLayers.getLayer(OniItem.getOniItem(id));
+
+    expect(layerOf('Battery')).to.equal(BlueprintLayer.Buildings);
+    expect(layerOf('Tile')).to.equal(BlueprintLayer.Tiles);
+    expect(layerOf('ExteriorWall')).to.equal(BlueprintLayer.Backwalls);
+    expect(layerOf(OniItem.elementId)).to.equal(BlueprintLayer.Elements);
+    expect(layerOf('Wire')).to.equal(BlueprintLayer.Power);
+    expect(layerOf('WireBridge')).to.equal(BlueprintLayer.Power);
+    expect(layerOf('LiquidConduit')).to.equal(BlueprintLayer.Liquid);
+    expect(layerOf('GasConduitBridge')).to.equal(BlueprintLayer.Gas);
+    expect(layerOf('SolidConduit')).to.equal(BlueprintLayer.Conveyor);
+    expect(layerOf('LogicWire')).to.equal(BlueprintLayer.Automation);
+  });
+
+  it('should not let hidden or locked items be edited', () => {
+    const blueprint = new Blueprint();
+    const wire = LibBlueprintHelper.addItem(blueprint, 'Wire', 0, 0);
+    const pipe = LibBlueprintHelper.addItem(blueprint, 'GasConduit', 0, 0);
+    const battery = LibBlueprintHelper.addItem(blueprint, 'Battery', 2, 0);
+
+    blueprint.layers.setHidden(BlueprintLayer.Power, true);
+    blueprint.layers.setLocked(BlueprintLayer.Gas, true);
+
+    expect(blueprint.layers.isItemVisible(wire)).to.be.false;
+    expect(blueprint.layers.isItemVisible(pipe)).to.be.true;
+    expect(blueprint.layers.isItemEditable(wire)).to.be.false;
+    expect(blueprint.layers.isItemEditable(pipe)).to.be.false;
+    expect(blueprint.layers.isItemEditable(battery)).to.be.true;
+  });
+
+  it('should save the layers with the blueprint', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Battery', 0, 0);
+    expect(blueprint.toMdbBlueprint().view).to.be.undefined;
+
+    blueprint.layers.setHidden(BlueprintLayer.Automation, true);
+    blueprint.layers.setLocked(BlueprintLayer.Tiles, true);
+
+    const loaded = new Blueprint();
+    loaded.importFromMdb(blueprint.toMdbBlueprint());
+    expect(loaded.layers.isHidden(BlueprintLayer.Automation)).to.be.true;
+    expect(loaded.layers.isLocked(BlueprintLayer.Tiles)).to.be.true;
+    expect(loaded.layers.isHidden(BlueprintLayer.Tiles)).to.be.false;
+
+    // Blueprints saved before the layers existed show everything
+    loaded.importFromMdb({ blueprintItems: [] });
+    expect(loaded.layers.isHidden(BlueprintLayer.Automation)).to.be.false;
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { Blueprint, BlueprintClipboard, BlueprintModules, ModuleAnchor, Vector2 } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Blueprint Modules', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const createBlueprint = () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 10, 5);
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 14, 5);
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 10, 7);
+    return blueprint;
+  };
+
+  it('should place the anchor on the chosen corner', () => {
+    const items = createBlueprint().blueprintItems;
+
+    expect(BlueprintModules.create('Floor', items, ModuleAnchor.BottomLeft).anchor).to.deep.equal({
+      x: 0,
+      y: 0,
+    });
+    expect(BlueprintModules.create('Floor', items, ModuleAnchor.TopRight).anchor).to.deep.equal({
+      x: 4,
+      y: 2,
+    });
+    expect(BlueprintModules.create('Floor', items, ModuleAnchor.Center).anchor).to.deep.equal({
+      x: 2,
+      y: 1,
+    });
+  });
+
+  it('should build the module with the anchor under the mouse', () => {
+    const mdbModule = BlueprintModules.create(
+      'Floor',
+      createBlueprint().blueprintItems,
+      ModuleAnchor.TopRight
+    );
+
+    const items = BlueprintClipboard.createItems(
+      BlueprintModules.getAnchoredFragment(mdbModule),
+      new Vector2(20, 20)
+    );
+    expect(items.map(item => [item.position.x, item.position.y])).to.deep.equal([
+      [16, 18],
+      [20, 18],
+      [16, 20],
+    ]);
+
+    // The saved fragment is not moved
+    expect(mdbModule.fragment.blueprintItems[0].position).to.deep.equal(new Vector2(0, 0));
+  });
+
+  it('should only accept modules with a name and buildings', () => {
+    const mdbModule = BlueprintModules.create(
+      'Floor',
+      createBlueprint().blueprintItems,
+      ModuleAnchor.BottomLeft
+    );
+
+    expect(BlueprintModules.isMdbModule(mdbModule)).to.be.true;
+    expect(BlueprintModules.isMdbModule({ ...mdbModule, name: ' ' })).to.be.false;
+    expect(BlueprintModules.isMdbModule({ ...mdbModule, anchor: { x: 0.5, y: 0 } })).to.be.false;
+    expect(BlueprintModules.isMdbModule({ ...mdbModule, fragment: { blueprintItems: [] } })).to.be
+      .false;
+    expect(BlueprintModules.isMdbModule(null)).to.be.false;
+  });
+});
@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import {
+  BlueprintValidator,
+  MdbBlueprint,
+  PlacementFailure,
+  ValidationIssueType,
+  ValidationSeverity,
+  Vector2,
+} from '../../lib';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Blueprint Validator', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const issueTypes = (mdbBlueprint: MdbBlueprint) =>
+    BlueprintValidator.validateMdbBlueprint(mdbBlueprint).map(issue => issue.type);
+
+  it('should not report anything for a valid blueprint', () => {
+    const issues = BlueprintValidator.validateMdbBlueprint({
+      blueprintItems: [
+        { id: 'Tile', position: new Vector2(0, -1) },
+        { id: 'Tile', position: new Vector2(1, -1) },
+        { id: 'ManualGenerator', position: new Vector2(0, 0) },
+        { id: 'Wire', position: new Vector2(0, 3), connections: 2 },
+        { id: 'Wire', position: new Vector2(1, 3), connections: 1 },
+      ],
+    });
+
+    expect(issues).to.deep.equal([]);
+  });
+
+  it('should report overlapping buildings on the same object layer as errors', () => {
+    const issues = BlueprintValidator.validateMdbBlueprint({
+      blueprintItems: [
+        { id: 'Wire', position: new Vector2(0, 0) },
+        { id: 'Wire', position: new Vector2(0, 0) },
+        { id: 'Tile', position: new Vector2(0, 0) },
+      ],
+    });
+
+    expect(issues).to.have.length(1);
+    expect(issues[0].type).to.equal(ValidationIssueType.Overlap);
+    expect(issues[0].severity).to.equal(ValidationSeverity.Error);
+    expect(BlueprintValidator.hasErrors(issues)).to.be.true;
+  });
+
+  it('should report unknown buildings and elements', () => {
+    expect(issueTypes({ blueprintItems: [{ id: 'NotARealBuilding' }] })).to.deep.equal([
+      ValidationIssueType.UnknownBuilding,
+    ]);
+    expect(
+      issueTypes({ blueprintItems: [{ id: 'Wire', elements: ['NotARealElement'] }] })
+    ).to.deep.equal([ValidationIssueType.UnknownElement]);
+  });
+
+  it('should report unsatisfied rules and dangling wires as warnings', () => {
+    const issues = BlueprintValidator.validateMdbBlueprint({
+      blueprintItems: [
+        { id: 'ManualGenerator', position: new Vector2(0, 0) },
+        { id: 'Wire', position: new Vector2(0, 3), connections: 4 },
+      ],
+    });
+
+    expect(issues.map(issue => issue.type)).to.have.members([
+      ValidationIssueType.PlacementRule,
+      ValidationIssueType.DanglingConnection,
+    ]);
+    expect(issues.find(issue => issue.placementFailure != undefined)!.placementFailure).to.equal(
+      PlacementFailure.NeedsFloor
+    );
+    expect(BlueprintValidator.hasErrors(issues)).to.be.false;
+  });
+});
@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { Blueprint, BlueprintHelpers, BuildShapes, Vector2 } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Build Shapes', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const coordinates = (positions: Vector2[]) => positions.map(p => [p.x, p.y]);
+
+  it('should snap lines to the main direction', () => {
+    expect(coordinates(BuildShapes.line(new Vector2(0, 0), new Vector2(3, 1)))).to.deep.equal([
+      [0, 0],
+      [1, 0],
+      [2, 0],
+      [3, 0],
+    ]);
+    expect(coordinates(BuildShapes.line(new Vector2(0, 0), new Vector2(1, -2)))).to.deep.equal([
+      [0, 0],
+      [0, -1],
+      [0, -2],
+    ]);
+  });
+
+  it('should build hollow and filled rectangles', () => {
+    const outline = BuildShapes.rectangle(new Vector2(2, 2), new Vector2(0, 0), false);
+    expect(outline.length).to.equal(8);
+    expect(coordinates(outline)).to.not.deep.include([1, 1]);
+
+    // Every tile of the outline touches the next one
+    outline.forEach((position, i) => {
+      const next = outline[(i + 1) % outline.length];
+      expect(Math.abs(next.x - position.x) + Math.abs(next.y - position.y)).to.equal(1);
+    });
+
+    expect(BuildShapes.rectangle(new Vector2(0, 0), new Vector2(2, 2), true).length).to.equal(9);
+    expect(BuildShapes.rectangle(new Vector2(0, 0), new Vector2(0, 3), false).length).to.equal(4);
+  });
+
+  it('should flood fill inside walls', () => {
+    const blueprint = new Blueprint();
+    for (let position of BuildShapes.rectangle(new Vector2(0, 0), new Vector2(4, 3), false))
+      LibBlueprintHelper.addItem(blueprint, 'Tile', position.x, position.y);
+
+    const fill = BuildShapes.floodFill(
+      blueprint,
+      new Vector2(1, 1),
+      BlueprintHelpers.createInstance('Tile')
+    );
+    expect(fill!.length).to.equal(6);
+
+    const outside = BuildShapes.floodFill(
+      blueprint,
+      new Vector2(10, 10),
+      BlueprintHelpers.createInstance('Tile')
+    );
+    expect(outside).to.be.undefined;
+
+    const onWall = BuildShapes.floodFill(
+      blueprint,
+      new Vector2(0, 0),
+      BlueprintHelpers.createInstance('Tile')
+    );
+    expect(onWall).to.be.empty;
+  });
+
+  it('should connect the neighbouring tiles of a shape', () => {
+    const line = BuildShapes.line(new Vector2(0, 0), new Vector2(2, 0));
+
+    // Left = 1, Right = 2
+    expect(BuildShapes.getConnections(line)).to.deep.equal([2, 3, 1]);
+  });
+});
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { Blueprint, BlueprintItemElement, BrushGradient, ElementBrush, Vector2 } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Element Brush', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const cells = (blueprint: Blueprint) =>
+    blueprint.blueprintItems.filter(item => item.oniItem.isElement) as BlueprintItemElement[];
+
+  it('should paint round discs', () => {
+    expect(ElementBrush.disc(new Vector2(3, 3), 0).length).to.equal(1);
+    expect(ElementBrush.disc(new Vector2(3, 3), 1).length).to.equal(5);
+    expect(ElementBrush.disc(new Vector2(3, 3), 2).length).to.equal(21);
+  });
+
+  it('should interpolate along the drag', () => {
+    const start = new Vector2(0, 0);
+    const end = new Vector2(4, 0);
+
+    expect(ElementBrush.interpolate(start, end, new Vector2(0, 3), 100, 300)).to.equal(100);
+    expect(ElementBrush.interpolate(start, end, new Vector2(2, 1), 100, 300)).to.equal(200);
+    expect(ElementBrush.interpolate(start, end, new Vector2(6, 0), 100, 300)).to.equal(300);
+    expect(ElementBrush.interpolate(start, start, new Vector2(6, 0), 100, 300)).to.equal(100);
+
+    const paints = ElementBrush.getPaints(
+      [new Vector2(0, 0), new Vector2(4, 0)],
+      2,
+      300,
+      BrushGradient.Temperature,
+      start,
+      end,
+      400
+    );
+    expect(paints.map(paint => paint.temperature)).to.deep.equal([300, 400]);
+    expect(paints.map(paint => paint.mass)).to.deep.equal([2, 2]);
+  });
+
+  it('should repaint cells and skip solid tiles', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 1, 0);
+
+    const positions = [new Vector2(0, 0), new Vector2(1, 0), new Vector2(2, 0)];
+    ElementBrush.paint(blueprint, 'Oxygen', ElementBrush.getPaints(positions, 1, 300));
+    expect(cells(blueprint).map(cell => cell.position.x)).to.deep.equal([0, 2]);
+
+    const repainted = ElementBrush.paint(
+      blueprint,
+      'Hydrogen',
+      ElementBrush.getPaints([new Vector2(0, 0)], 5, 350)
+    );
+    expect(repainted.length).to.equal(1);
+    expect(cells(blueprint).length).to.equal(2);
+    expect(cells(blueprint)[0].buildableElements[0].id).to.equal('Hydrogen');
+    expect(cells(blueprint)[0].mass).to.equal(5);
+    expect(cells(blueprint)[0].temperature).to.equal(350);
+  });
+
+  it('should only erase element cells', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 5, 5);
+    ElementBrush.paint(
+      blueprint,
+      'Oxygen',
+      ElementBrush.getPaints(ElementBrush.disc(new Vector2(0, 0), 1), 1, 300)
+    );
+
+    const erased = ElementBrush.erase(blueprint, ElementBrush.disc(new Vector2(0, 0), 2));
+    expect(erased).to.equal(5);
+    expect(cells(blueprint).length).to.equal(0);
+    expect(blueprint.blueprintItems.length).to.equal(1);
+  });
+});
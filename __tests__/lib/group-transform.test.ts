@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import {
+  Blueprint,
+  BlueprintHistory,
+  BlueprintItem,
+  BlueprintItemWire,
+  GroupTransform,
+  Orientation,
+  Vector2,
+} from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Group Transform', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const positions = (items: BlueprintItem[]) => items.map(i => [i.position.x, i.position.y]);
+
+  it('should move the items and record a single undo step', () => {
+    const blueprint = new Blueprint();
+    const items = [
+      LibBlueprintHelper.addItem(blueprint, 'Tile', 0, 0),
+      LibBlueprintHelper.addItem(blueprint, 'Tile', 1, 0),
+    ];
+    const history = new BlueprintHistory(blueprint);
+
+    const moved = GroupTransform.move(blueprint, items, new Vector2(3, 2))!;
+
+    expect(positions(moved)).to.deep.equal([
+      [3, 2],
+      [4, 2],
+    ]);
+    expect(blueprint.getBlueprintItemsAt(new Vector2(0, 0))).to.be.empty;
+    expect(history.commands.length).to.equal(1);
+
+    history.undo();
+    expect(blueprint.getBlueprintItemsAt(new Vector2(0, 0)).length).to.equal(1);
+  });
+
+  it('should rotate wire connections with the group', () => {
+    const blueprint = new Blueprint();
+    const items = [
+      LibBlueprintHelper.addItem(blueprint, 'Wire', 0, 0, 2),
+      LibBlueprintHelper.addItem(blueprint, 'Wire', 1, 0, 1),
+    ];
+
+    const rotated = GroupTransform.rotate(blueprint, items) as BlueprintItemWire[];
+
+    // A horizontal wire becomes vertical, turning clockwise
+    expect(positions(rotated)).to.deep.equal([
+      [0, 0],
+      [0, -1],
+    ]);
+    expect(rotated.map(w => w.connections)).to.deep.equal([8, 4]);
+  });
+
+  it('should only use the permitted orientations', () => {
+    const blueprint = new Blueprint();
+    const door = LibBlueprintHelper.addItem(blueprint, 'Door', 0, 0);
+    const bridge = LibBlueprintHelper.addItem(blueprint, 'GasConduitBridge', 4, 0);
+
+    const rotated = GroupTransform.rotate(blueprint, [door, bridge])!;
+    expect(rotated[0].orientation).to.equal(Orientation.R90);
+    expect(rotated[1].orientation).to.equal(Orientation.R90);
+
+    const turned = GroupTransform.rotate(blueprint, rotated)!;
+    // Doors only have two orientations
+    expect(turned[0].orientation).to.equal(Orientation.Neutral);
+    expect(turned[1].orientation).to.equal(Orientation.R180);
+  });
+
+  it('should flip positions and orientations', () => {
+    const blueprint = new Blueprint();
+    const items = [
+      LibBlueprintHelper.addItem(blueprint, 'Tile', 0, 0),
+      LibBlueprintHelper.addItem(blueprint, 'Tile', 1, 0),
+      LibBlueprintHelper.addItem(blueprint, 'AirConditioner', 4, 2),
+    ];
+
+    const flipped = GroupTransform.flip(blueprint, items, true)!;
+
+    expect(flipped[0].position.x).to.equal(5);
+    expect(flipped[1].position.x).to.equal(4);
+    expect(flipped[2].orientation).to.equal(Orientation.FlipH);
+    expect(GroupTransform.getBounds(flipped)).to.deep.equal(GroupTransform.getBounds(items));
+  });
+
+  it('should keep the buildings that can not turn inside the transformed footprint', () => {
+    const blueprint = new Blueprint();
+    const generator = LibBlueprintHelper.addItem(blueprint, 'ManualGenerator', 0, 0);
+    const wire = LibBlueprintHelper.addItem(blueprint, 'Wire', 5, 0);
+
+    // The generator covers 0..1, it ends on 4..5 with the group flipped
+    const flipped = GroupTransform.flip(blueprint, [generator, wire], true)!;
+    expect(flipped[0].orientation).to.equal(Orientation.Neutral);
+    expect([flipped[0].topLeft.x, flipped[0].bottomRight.x]).to.deep.equal([4, 5]);
+    expect(flipped[1].position.x).to.equal(0);
+    expect(GroupTransform.getBounds(flipped)).to.deep.equal(
+      GroupTransform.getBounds([generator, wire])
+    );
+
+    const rotated = GroupTransform.rotate(blueprint, flipped)!;
+    const bounds = GroupTransform.getBounds(rotated);
+    expect(rotated[0].orientation).to.equal(Orientation.Neutral);
+    expect(bounds[1].x - bounds[0].x).to.equal(1);
+    expect(bounds[1].y - bounds[0].y).to.equal(5);
+  });
+
+  it('should refuse to overlap other buildings', () => {
+    const blueprint = new Blueprint();
+    const items = [LibBlueprintHelper.addItem(blueprint, 'Tile', 0, 0)];
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 1, 0);
+
+    expect(GroupTransform.move(blueprint, items, new Vector2(1, 0))).to.be.undefined;
+    expect(blueprint.blueprintItems.length).to.equal(2);
+  });
+
+  it('should mirror an item across an axis', () => {
+    const blueprint = new Blueprint();
+    const wire = LibBlueprintHelper.addItem(blueprint, 'Wire', 1, 0, 2) as BlueprintItemWire;
+    const conditioner = LibBlueprintHelper.addItem(blueprint, 'AirConditioner', 4, 2);
+
+    // Between the tiles 2 and 3
+    const mirroredWire = GroupTransform.mirror(wire, { vertical: true, position: 2.5 });
+    expect(mirroredWire.position).to.deep.equal(new Vector2(4, 0));
+    expect((mirroredWire as BlueprintItemWire).connections).to.equal(1);
+
+    // The conditioner can not be flipped upside down, it covers the mirrored tiles instead
+    const mirrored = GroupTransform.mirror(conditioner, { vertical: false, position: 0 });
+    expect(mirrored.orientation).to.equal(Orientation.Neutral);
+    expect(mirrored.topLeft.y).to.equal(-conditioner.bottomRight.y);
+    expect(mirrored.bottomRight.y).to.equal(-conditioner.topLeft.y);
+
+    const flipped = GroupTransform.mirror(conditioner, { vertical: true, position: 0 });
+    expect(flipped.orientation).to.equal(Orientation.FlipH);
+    expect(flipped.topLeft.x).to.equal(-conditioner.bottomRight.x);
+    expect(blueprint.blueprintItems.length).to.equal(2);
+  });
+});
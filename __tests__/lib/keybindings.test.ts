@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import { BuildMenuItem, KeyAction, Keybindings } from '../../lib';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Keybindings', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const keyEvent = (key: string, modifiers: { ctrl?: boolean; shift?: boolean } = {}) => ({
+    key: key,
+    ctrlKey: modifiers.ctrl == true,
+    altKey: false,
+    shiftKey: modifiers.shift == true,
+  });
+
+  it('should write the keys of an event', () => {
+    expect(Keybindings.eventToKeys(keyEvent('z', { ctrl: true }))).to.equal('Ctrl+Z');
+    expect(Keybindings.eventToKeys(keyEvent('F', { shift: true }))).to.equal('Shift+F');
+    expect(Keybindings.eventToKeys(keyEvent('F2', { shift: true }))).to.equal('Shift+F2');
+    expect(Keybindings.eventToKeys(keyEvent('+', { shift: true }))).to.equal('+');
+    expect(Keybindings.eventToKeys(keyEvent(' '))).to.equal('Space');
+    expect(Keybindings.eventToKeys(keyEvent('Control', { ctrl: true }))).to.be.undefined;
+  });
+
+  it('should give the buildings the shortcuts of the game', () => {
+    const keybindings = new Keybindings();
+
+    expect(keybindings.getBinding(KeyAction[KeyAction.Rotate])).to.equal('O');
+    expect(keybindings.getBinding(KeyAction[KeyAction.OverlayPower])).to.equal('F2');
+    expect(keybindings.getBinding('Build:Ladder')).to.equal('1 L');
+    expect(keybindings.getBinding('Build:Tile')).to.equal('1 T');
+    expect(keybindings.getBinding('Build:MineralDeoxidizer')).to.equal('2 M');
+
+    // No two buildings share a shortcut
+    const keys = keybindings.actionIds.map(actionId => keybindings.getBinding(actionId));
+    const bound = keys.filter(k => k != '');
+    expect(new Set(bound).size).to.equal(bound.length);
+  });
+
+  it('should find the action at the end of a sequence', () => {
+    const keybindings = new Keybindings();
+
+    expect(keybindings.press('1')).to.be.undefined;
+    expect(keybindings.pendingKeys).to.equal('1');
+    expect(keybindings.press('T')).to.equal('Build:Tile');
+    expect(keybindings.pendingKeys).to.equal('');
+
+    // A stroke that does not continue the sequence is read on its own
+    expect(keybindings.press('1')).to.be.undefined;
+    expect(keybindings.press('F2')).to.equal(KeyAction[KeyAction.OverlayPower]);
+    expect(keybindings.press('Ctrl+Q')).to.be.undefined;
+
+    expect(Keybindings.getAction('Rotate')).to.equal(KeyAction.Rotate);
+    expect(Keybindings.getAction('Build:Tile')).to.be.undefined;
+    expect(Keybindings.getBuildingId('Build:Tile')).to.equal('Tile');
+  });
+
+  it('should detect conflicts', () => {
+    const keybindings = new Keybindings();
+    const rotate = KeyAction[KeyAction.Rotate];
+
+    expect(keybindings.getConflicts(rotate, 'F1')).to.deep.equal([
+      KeyAction[KeyAction.OverlayBase],
+    ]);
+    expect(keybindings.getConflicts(rotate, '1')).to.include('Build:Tile');
+    expect(keybindings.getConflicts('Build:Tile', '1 T')).to.deep.equal([]);
+    expect(keybindings.getConflicts(rotate, 'Ctrl+Q')).to.deep.equal([]);
+  });
+
+  it('should only store the changed shortcuts', () => {
+    const keybindings = new Keybindings();
+    const rotate = KeyAction[KeyAction.Rotate];
+    const undo = KeyAction[KeyAction.Undo];
+
+    keybindings.setBinding(rotate, 'R');
+    keybindings.setBinding(undo, '');
+    keybindings.setBinding('Build:Tile', '1 T');
+    expect(keybindings.toMdb()).to.deep.equal({ Rotate: 'R', Undo: '' });
+
+    const loaded = new Keybindings();
+    loaded.importMdb(keybindings.toMdb());
+    expect(loaded.getBinding(rotate)).to.equal('R');
+    expect(loaded.getBinding(undo)).to.equal('');
+    expect(loaded.press('Ctrl+Z')).to.be.undefined;
+
+    loaded.resetToDefaults();
+    expect(loaded.getBinding(rotate)).to.equal('O');
+  });
+
+  it('should keep the building shortcuts read before the database', () => {
+    const buildMenuItems = BuildMenuItem.buildMenuItems;
+    (BuildMenuItem as any).buildMenuItems = null;
+
+    // Like the browser shortcuts, read when the app starts
+    const keybindings = new Keybindings();
+    try {
+      keybindings.importMdb({ 'Build:Tile': '' });
+    } finally {
+      BuildMenuItem.buildMenuItems = buildMenuItems;
+    }
+
+    keybindings.loadDefaults();
+    expect(keybindings.getDefault('Build:Tile')).to.equal('1 T');
+    expect(keybindings.getBinding('Build:Tile')).to.equal('');
+    expect(keybindings.toMdb()).to.deep.equal({ 'Build:Tile': '' });
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { Blueprint, BlueprintItem, LogicSimulator, UiSaveSettings } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Logic Simulator', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const LEFT = 1;
+  const RIGHT = 2;
+
+  const setSetting = (item: BlueprintItem, id: string, value: number) => {
+    const settings = new UiSaveSettings(id);
+    settings.values.push(value);
+    item.uiSaveSettings.push(settings);
+  };
+
+  // Switch -> wire -> gate input, and a single wire on the gate output
+  const addGate = (blueprint: Blueprint, gateId: string) => {
+    const logicSwitch = LibBlueprintHelper.addItem(blueprint, 'LogicSwitch', 0, 0);
+    const gate = LibBlueprintHelper.addItem(blueprint, gateId, 2, 0);
+    const inputWire = LibBlueprintHelper.addItem(blueprint, 'LogicWire', 0, 0, RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'LogicWire', 1, 0, LEFT | RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'LogicWire', 2, 0, LEFT);
+    const outputWire = LibBlueprintHelper.addItem(blueprint, 'LogicWire', 3, 0);
+    return { logicSwitch, gate, inputWire, outputWire };
+  };
+
+  it('should send the sensor outputs toggled by hand through the gates', () => {
+    const blueprint = new Blueprint();
+    const { logicSwitch, inputWire, outputWire } = addGate(blueprint, 'LogicGateNOT');
+    const simulator = new LogicSimulator(blueprint);
+
+    expect(simulator.isManual(logicSwitch)).to.be.true;
+    expect(simulator.getSegmentValue(inputWire)).to.equal(0);
+    expect(simulator.getSegmentValue(outputWire)).to.equal(0);
+
+    simulator.step();
+    expect(simulator.getSegmentValue(outputWire)).to.equal(1);
+
+    simulator.toggleOutput(logicSwitch);
+    expect(simulator.getSegmentValue(inputWire)).to.equal(1);
+    expect(simulator.getSegmentValue(outputWire)).to.equal(1);
+
+    simulator.step();
+    expect(simulator.getSegmentValue(outputWire)).to.equal(0);
+    expect(simulator.tick).to.equal(2);
+  });
+
+  it('should hold the buffer output and wait on the filter input', () => {
+    const blueprint = new Blueprint();
+    const buffer = addGate(blueprint, 'LogicGateBUFFER');
+    setSetting(buffer.gate, 'SingleSliderSideScreen', 0.2);
+    const simulator = new LogicSimulator(blueprint);
+
+    simulator.toggleOutput(buffer.logicSwitch);
+    simulator.step();
+    simulator.toggleOutput(buffer.logicSwitch);
+    const outputs: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      simulator.step();
+      outputs.push(simulator.getSegmentValue(buffer.outputWire)!);
+    }
+    expect(outputs).to.deep.equal([1, 1, 0]);
+
+    const filterBlueprint = new Blueprint();
+    const filter = addGate(filterBlueprint, 'LogicGateFILTER');
+    setSetting(filter.gate, 'SingleSliderSideScreen', 0.2);
+    const filterSimulator = new LogicSimulator(filterBlueprint);
+
+    filterSimulator.toggleOutput(filter.logicSwitch);
+    outputs.length = 0;
+    for (let i = 0; i < 3; i++) {
+      filterSimulator.step();
+      outputs.push(filterSimulator.getSegmentValue(filter.outputWire)!);
+    }
+    expect(outputs).to.deep.equal([0, 0, 1]);
+  });
+
+  it('should carry the bits of a ribbon from a writer to a reader', () => {
+    const blueprint = new Blueprint();
+    const logicSwitch = LibBlueprintHelper.addItem(blueprint, 'LogicSwitch', 0, 0);
+    LibBlueprintHelper.addItem(blueprint, 'LogicWire', 0, 0);
+    const writer = LibBlueprintHelper.addItem(blueprint, 'LogicRibbonWriter', 0, 0);
+    const ribbon = LibBlueprintHelper.addItem(blueprint, 'LogicRibbon', 1, 0, RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'LogicRibbon', 2, 0, LEFT);
+    const reader = LibBlueprintHelper.addItem(blueprint, 'LogicRibbonReader', 2, 0);
+    const outputWire = LibBlueprintHelper.addItem(blueprint, 'LogicWire', 3, 0);
+    setSetting(writer, 'LogicBitSelectorSideScreen', 2);
+    setSetting(reader, 'LogicBitSelectorSideScreen', 2);
+    const simulator = new LogicSimulator(blueprint);
+
+    simulator.toggleOutput(logicSwitch);
+    simulator.step();
+    expect(simulator.getSegmentValue(ribbon)).to.equal(4);
+    simulator.step();
+    expect(simulator.getSegmentValue(outputWire)).to.equal(1);
+
+    reader.getUiSettings('LogicBitSelectorSideScreen')!.values[0] = 1;
+    simulator.step();
+    expect(simulator.getSegmentValue(outputWire)).to.equal(0);
+  });
+
+  it('should keep the toggled outputs when the blueprint changes', () => {
+    const blueprint = new Blueprint();
+    const { logicSwitch, outputWire } = addGate(blueprint, 'LogicGateBUFFER');
+    const simulator = new LogicSimulator(blueprint);
+
+    simulator.toggleOutput(logicSwitch);
+    simulator.step();
+    LibBlueprintHelper.addItem(blueprint, 'LogicWire', 4, 0);
+    simulator.analyze();
+
+    expect(simulator.getSegmentValue(outputWire)).to.equal(1);
+    expect(simulator.isManual(logicSwitch)).to.be.true;
+
+    simulator.reset();
+    expect(simulator.getSegmentValue(outputWire)).to.equal(0);
+    expect(simulator.tick).to.equal(0);
+  });
+});
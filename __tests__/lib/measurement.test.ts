@@ -0,0 +1,40 @@
+import { expect } from 'chai';
+import { Blueprint, Measurement, OniItem, Vector2 } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Measurement', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  it('should measure between two tiles', () => {
+    const ruler = Measurement.ruler(new Vector2(5, 1), new Vector2(2, 5));
+
+    expect(ruler.dx).to.equal(3);
+    expect(ruler.dy).to.equal(4);
+    expect(ruler.distance).to.equal(5);
+  });
+
+  it('should measure a box and count the buildings inside', () => {
+    const blueprint = new Blueprint();
+    for (let x = 0; x < 6; x++) LibBlueprintHelper.addItem(blueprint, 'Wire', x, 0);
+    LibBlueprintHelper.addItem(blueprint, 'Battery', 1, 1);
+    LibBlueprintHelper.addItem(blueprint, OniItem.elementId, 2, 2);
+    LibBlueprintHelper.addItem(blueprint, 'Battery', 10, 0);
+
+    // The corners are in any order
+    const box = Measurement.box(blueprint, new Vector2(4, 0), new Vector2(0, 3));
+
+    expect(box.topLeft).to.deep.equal(new Vector2(0, 3));
+    expect(box.bottomRight).to.deep.equal(new Vector2(4, 0));
+    expect(box.width).to.equal(5);
+    expect(box.height).to.equal(4);
+    expect(box.area).to.equal(20);
+
+    expect(box.items.map(i => [i.oniItem.id, i.count])).to.deep.equal([
+      ['Wire', 5],
+      ['Battery', 1],
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { Blueprint, NetworkAnalyzer, Overlay, Vector2 } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Network Analyzer', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const LEFT = 1;
+  const RIGHT = 2;
+
+  it('should find producers and consumers on a wire', () => {
+    const blueprint = new Blueprint();
+    const generator = LibBlueprintHelper.addItem(blueprint, 'ManualGenerator', 0, 0);
+    const light = LibBlueprintHelper.addItem(blueprint, 'CeilingLight', 2, 0);
+    const firstWire = LibBlueprintHelper.addItem(blueprint, 'Wire', 0, 0, RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 1, 0, LEFT | RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 2, 0, LEFT);
+
+    const analysis = NetworkAnalyzer.analyzeOverlay(blueprint, Overlay.Power);
+
+    expect(analysis.networks.length).to.equal(1);
+    const network = analysis.getNetworkOf(firstWire)!;
+    expect(network.segments.length).to.equal(3);
+    expect(network.producers.map(port => port.blueprintItem)).to.deep.equal([generator]);
+    expect(network.consumers.map(port => port.blueprintItem)).to.deep.equal([light]);
+    expect(network.danglingEnds.length).to.equal(0);
+    expect(analysis.unconnectedPorts.length).to.equal(0);
+  });
+
+  it('should split networks when wires are not connected', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 0, 0);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 1, 0);
+
+    const analysis = NetworkAnalyzer.analyzeOverlay(blueprint, Overlay.Power);
+
+    expect(analysis.networks.length).to.equal(2);
+  });
+
+  it('should join wire segments through a bridge', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 3, 0, RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 4, 0, LEFT);
+    const bridge = LibBlueprintHelper.addItem(blueprint, 'WireBridge', 5, 0);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 6, 0, RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 7, 0, LEFT);
+
+    const analysis = NetworkAnalyzer.analyzeOverlay(blueprint, Overlay.Power);
+
+    expect(analysis.networks.length).to.equal(1);
+    const network = analysis.getNetworkOf(bridge)!;
+    expect(network.segments.length).to.equal(5);
+    expect(network.danglingEnds).to.deep.include(new Vector2(3, 0));
+    expect(network.danglingEnds).to.deep.include(new Vector2(7, 0));
+    expect(network.danglingEnds.length).to.equal(2);
+  });
+
+  it('should report building ports without a wire', () => {
+    const blueprint = new Blueprint();
+    const light = LibBlueprintHelper.addItem(blueprint, 'CeilingLight', 0, 0);
+
+    const analysis = NetworkAnalyzer.analyzeOverlay(blueprint, Overlay.Power);
+
+    expect(analysis.networks.length).to.equal(0);
+    expect(analysis.unconnectedPorts.length).to.equal(1);
+    expect(analysis.unconnectedPorts[0].blueprintItem).to.equal(light);
+  });
+
+  it('should only look at the requested overlay', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 0, 0);
+    LibBlueprintHelper.addItem(blueprint, 'GasConduit', 1, 0);
+
+    expect(NetworkAnalyzer.analyzeOverlay(blueprint, Overlay.Gas).networks.length).to.equal(1);
+    expect(NetworkAnalyzer.analyze(blueprint).networks.length).to.equal(2);
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { Blueprint, BlueprintItemElement, BlueprintItemWire, OniTemplate } from '../../lib';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Oni Template Export', () => {
+  const template: OniTemplate = {
+    name: 'round trip',
+    buildings: [
+      {
+        id: 'ManualGenerator',
+        location_x: 0,
+        location_y: 0,
+        element: 'Copper',
+        temperature: 300,
+        rotationOrientation: 'Neutral',
+        connections: 0,
+      },
+      {
+        id: 'AirConditioner',
+        location_x: 4,
+        location_y: 0,
+        element: 'Copper',
+        temperature: 300,
+        rotationOrientation: 'FlipH',
+        connections: 0,
+      },
+      {
+        id: 'Wire',
+        location_x: 0,
+        location_y: 2,
+        element: 'Copper',
+        temperature: 300,
+        rotationOrientation: 'Neutral',
+        connections: 3,
+      },
+    ],
+    cells: [
+      {
+        element: 'Water',
+        mass: 800,
+        temperature: 290,
+        location_x: 1,
+        location_y: 3,
+      },
+    ],
+  };
+
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  it('should export buildings with orientation, element and connections', () => {
+    const blueprint = new Blueprint();
+    blueprint.importFromOni(template);
+
+    const exported = blueprint.toOniTemplate('round trip');
+
+    expect(exported.name).to.equal('round trip');
+    expect(exported.buildings).to.have.length(3);
+    expect(exported.buildings).to.deep.include(template.buildings[1]);
+    expect(exported.buildings).to.deep.include(template.buildings[2]);
+    expect(exported.cells).to.deep.equal(template.cells);
+  });
+
+  it('should be re-importable without losing information', () => {
+    const blueprint = new Blueprint();
+    blueprint.importFromOni(template);
+
+    const reimported = new Blueprint();
+    reimported.importFromOni(blueprint.toOniTemplate('round trip'));
+
+    expect(reimported.blueprintItems).to.have.length(blueprint.blueprintItems.length);
+    for (const item of blueprint.blueprintItems) {
+      const match = reimported
+        .getBlueprintItemsAt(item.position)
+        .find(candidate => candidate.id == item.id);
+
+      expect(match, item.id).to.not.be.undefined;
+      expect(match!.orientation).to.equal(item.orientation);
+      expect(match!.temperature).to.equal(item.temperature);
+      expect(match!.buildableElements[0].id).to.equal(item.buildableElements[0].id);
+      if (item instanceof BlueprintItemWire)
+        expect((match as BlueprintItemWire).connections).to.equal(item.connections);
+      if (item instanceof BlueprintItemElement)
+        expect((match as BlueprintItemElement).mass).to.equal(item.mass);
+    }
+  });
+
+  it('should describe the template size and area', () => {
+    const blueprint = new Blueprint();
+    blueprint.importFromOni(template);
+
+    const exported = blueprint.toOniTemplate('round trip');
+
+    expect(exported.info).to.not.be.undefined;
+    expect(exported.info!.size.X).to.be.greaterThan(0);
+    expect(exported.info!.size.Y).to.be.greaterThan(0);
+    expect(exported.info!.area).to.be.greaterThan(0);
+  });
+
+  it('should keep the natural solid cells', () => {
+    const blueprint = new Blueprint();
+    blueprint.importFromOni({
+      name: 'natural tiles',
+      buildings: [],
+      cells: [
+        { element: 'Katairite', mass: 1840, temperature: 300, location_x: 0, location_y: 0 },
+        { element: 'Unobtanium', mass: 10000, temperature: 0, location_x: 1, location_y: 0 },
+        { element: 'Oxygen', mass: 2, temperature: 300, location_x: 0, location_y: 1 },
+      ],
+    });
+
+    const cells = blueprint.blueprintItems as BlueprintItemElement[];
+    expect(cells.map(cell => cell.isSolid)).to.deep.equal([true, true, false]);
+
+    const exported = blueprint.toOniTemplate('natural tiles');
+    expect(exported.cells.map(cell => [cell.element, cell.mass])).to.deep.equal([
+      ['Katairite', 1840],
+      ['Unobtanium', 10000],
+      ['Oxygen', 2],
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import { Blueprint, BlueprintItem, Overlay, PipeFlow, PipeNetworkFlow } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Pipe Flow', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const LEFT = 1;
+  const RIGHT = 2;
+  const UP = 4;
+  const DOWN = 8;
+
+  const getBuildingFlow = (flow: PipeNetworkFlow, item: BlueprintItem) =>
+    flow.consumers.concat(flow.producers).find(building => building.blueprintItem == item)!;
+
+  // The liquid pump sends its packets from (1, 1)
+  it('should limit the throughput to what the consumer takes', () => {
+    const blueprint = new Blueprint();
+    const pump = LibBlueprintHelper.addItem(blueprint, 'LiquidPump', 0, 0);
+    const firstPipe = LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 1, 1, RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 2, 1, LEFT | RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 3, 1, LEFT);
+    const electrolyzer = LibBlueprintHelper.addItem(blueprint, 'Electrolyzer', 3, 1);
+
+    const flows = PipeFlow.analyzeOverlay(blueprint, Overlay.Liquid);
+    expect(flows.length).to.equal(1);
+
+    const flow = flows[0];
+    expect(flow.capacity).to.equal(PipeFlow.liquidCapacity);
+    expect(flow.throughput).to.be.closeTo(1, 0.001);
+    expect(getBuildingFlow(flow, electrolyzer).starved).to.be.false;
+    expect(getBuildingFlow(flow, pump).sent).to.be.closeTo(1, 0.001);
+    expect(getBuildingFlow(flow, pump).blocked).to.be.true;
+
+    const firstPipeFlow = flow.getSegmentFlow(firstPipe)!;
+    expect(firstPipeFlow.load).to.be.closeTo(0.1, 0.001);
+    expect(firstPipeFlow.backedUp).to.be.true;
+    expect(flow.backedUpSegments.length).to.equal(3);
+  });
+
+  it('should report the consumers starved by a small pump', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'LiquidMiniPump', 0, 0);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 0, 1, RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 1, 1, LEFT | RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 2, 1, LEFT);
+    const purifier = LibBlueprintHelper.addItem(blueprint, 'WaterPurifier', 3, -1);
+
+    const flow = PipeFlow.analyzeOverlay(blueprint, Overlay.Liquid)[0];
+    const purifierFlow = getBuildingFlow(flow, purifier);
+
+    expect(purifierFlow.demand).to.equal(5);
+    expect(purifierFlow.received).to.be.closeTo(1, 0.001);
+    expect(flow.starvedConsumers).to.deep.equal([purifierFlow]);
+    expect(flow.backedUpSegments.length).to.equal(0);
+  });
+
+  it('should fill the branch of the closest consumer first', () => {
+    const blueprint = new Blueprint();
+    const pump = LibBlueprintHelper.addItem(blueprint, 'LiquidPump', 0, 0);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 1, 1, RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 2, 1, LEFT | RIGHT | UP);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 3, 1, LEFT);
+    const electrolyzer = LibBlueprintHelper.addItem(blueprint, 'Electrolyzer', 3, 1);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 2, 2, DOWN | UP);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 2, 3, DOWN | RIGHT);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 3, 3, LEFT);
+    const vent = LibBlueprintHelper.addItem(blueprint, 'LiquidVent', 3, 3);
+
+    const flow = PipeFlow.analyzeOverlay(blueprint, Overlay.Liquid)[0];
+
+    expect(getBuildingFlow(flow, electrolyzer).received).to.be.closeTo(1, 0.001);
+    expect(getBuildingFlow(flow, vent).received).to.be.closeTo(9, 0.001);
+    expect(getBuildingFlow(flow, pump).sent).to.be.closeTo(10, 0.001);
+    expect(getBuildingFlow(flow, pump).blocked).to.be.false;
+    expect(flow.starvedConsumers.length).to.equal(0);
+  });
+
+  it('should only move packets through a bridge from its input to its output', () => {
+    const blueprint = new Blueprint();
+    LibBlueprintHelper.addItem(blueprint, 'LiquidPump', 0, 0);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 1, 1);
+    const bridge = LibBlueprintHelper.addItem(blueprint, 'LiquidConduitBridge', 2, 1);
+    LibBlueprintHelper.addItem(blueprint, 'LiquidConduit', 3, 1);
+    const electrolyzer = LibBlueprintHelper.addItem(blueprint, 'Electrolyzer', 3, 1);
+
+    const flow = PipeFlow.analyzeOverlay(blueprint, Overlay.Liquid)[0];
+    expect(flow.getSegmentFlow(bridge)!.throughput).to.be.closeTo(1, 0.001);
+    expect(getBuildingFlow(flow, electrolyzer).received).to.be.closeTo(1, 0.001);
+
+    // Turned around, the pump output is on the bridge output
+    const reversed = new Blueprint();
+    LibBlueprintHelper.addItem(reversed, 'LiquidPump', 0, 0);
+    LibBlueprintHelper.addItem(reversed, 'LiquidConduit', 1, 1);
+    const reversedBridge = LibBlueprintHelper.addItem(reversed, 'LiquidConduitBridge', 0, 1);
+    LibBlueprintHelper.addItem(reversed, 'LiquidConduit', -1, 1);
+    LibBlueprintHelper.addItem(reversed, 'Electrolyzer', -1, 1);
+
+    const reversedFlows = PipeFlow.analyzeOverlay(reversed, Overlay.Liquid);
+    const reversedFlow = reversedFlows.find(f => f.getSegmentFlow(reversedBridge) != undefined)!;
+    expect(reversedFlow.getSegmentFlow(reversedBridge)!.throughput).to.equal(0);
+    expect(reversedFlow.throughput).to.equal(0);
+  });
+});
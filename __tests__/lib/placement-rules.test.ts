@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+import {
+  Blueprint,
+  BlueprintHelpers,
+  BlueprintItem,
+  Orientation,
+  PlacementFailure,
+  PlacementRules,
+  Vector2,
+} from '../../lib';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Placement Rules', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const createItem = (
+    id: string,
+    x: number,
+    y: number,
+    orientation?: Orientation
+  ): BlueprintItem => {
+    const item = BlueprintHelpers.createInstance(id);
+    item.importMdbBuilding({ id: id, position: new Vector2(x, y), orientation: orientation });
+    return item;
+  };
+
+  const addTiles = (blueprint: Blueprint, positions: [number, number][]) => {
+    for (const position of positions)
+      blueprint.addBlueprintItem(createItem('Tile', position[0], position[1]));
+  };
+
+  it('should require a floor under OnFloor buildings', () => {
+    const blueprint = new Blueprint();
+    const generator = createItem('ManualGenerator', 0, 0);
+
+    expect(PlacementRules.check(blueprint, generator)).to.equal(PlacementFailure.NeedsFloor);
+
+    addTiles(blueprint, [[0, -1]]);
+    expect(PlacementRules.check(blueprint, generator)).to.equal(PlacementFailure.NeedsFloor);
+
+    addTiles(blueprint, [[1, -1]]);
+    expect(PlacementRules.check(blueprint, generator)).to.equal(PlacementFailure.None);
+  });
+
+  it('should require a ceiling above OnCeiling buildings', () => {
+    const blueprint = new Blueprint();
+    const light = createItem('CeilingLight', 0, 0);
+
+    expect(PlacementRules.check(blueprint, light)).to.equal(PlacementFailure.NeedsCeiling);
+
+    addTiles(blueprint, [[0, 1]]);
+    expect(PlacementRules.check(blueprint, light)).to.equal(PlacementFailure.None);
+  });
+
+  it('should require a ceiling and a wall for InCorner buildings', () => {
+    const blueprint = new Blueprint();
+    const moulding = createItem('CornerMoulding', 0, 0);
+
+    addTiles(blueprint, [[0, 1]]);
+    expect(PlacementRules.check(blueprint, moulding)).to.equal(PlacementFailure.NeedsCorner);
+
+    addTiles(blueprint, [[-1, 0]]);
+    expect(PlacementRules.check(blueprint, moulding)).to.equal(PlacementFailure.None);
+  });
+
+  it('should not allow NotInTiles buildings inside tiles', () => {
+    const blueprint = new Blueprint();
+    const wire = createItem('HighWattageWire', 0, 0);
+
+    expect(PlacementRules.check(blueprint, wire)).to.equal(PlacementFailure.None);
+
+    addTiles(blueprint, [[0, 0]]);
+    expect(PlacementRules.check(blueprint, wire)).to.equal(PlacementFailure.InsideTile);
+  });
+
+  it('should rotate the foundation of OnFoundationRotatable buildings', () => {
+    const blueprint = new Blueprint();
+    addTiles(blueprint, [[0, -1]]);
+
+    const sensor = createItem('LogicDuplicantSensor', 0, 0);
+    expect(PlacementRules.check(blueprint, sensor)).to.equal(PlacementFailure.None);
+
+    const upsideDown = createItem('LogicDuplicantSensor', 0, 0, Orientation.R180);
+    expect(PlacementRules.check(blueprint, upsideDown)).to.equal(PlacementFailure.NeedsFoundation);
+  });
+
+  it('should stand on natural solid cells but not on gas cells', () => {
+    const blueprint = new Blueprint();
+    const generator = createItem('ManualGenerator', 0, 0);
+
+    const gas = createItem('Element', 0, -1);
+    gas.setElement('Oxygen', 0);
+    blueprint.addBlueprintItem(gas);
+    expect(PlacementRules.check(blueprint, generator)).to.equal(PlacementFailure.NeedsFloor);
+
+    for (const x of [1, 2]) {
+      const rock = createItem('Element', x, -1);
+      rock.setElement('Katairite', 0);
+      blueprint.addBlueprintItem(rock);
+    }
+    expect(PlacementRules.check(blueprint, generator)).to.equal(PlacementFailure.NeedsFloor);
+
+    gas.setElement('Obsidian', 0);
+    expect(PlacementRules.check(blueprint, generator)).to.equal(PlacementFailure.None);
+
+    const wire = createItem('HighWattageWire', 1, -1);
+    expect(PlacementRules.check(blueprint, wire)).to.equal(PlacementFailure.InsideTile);
+  });
+});
@@ -0,0 +1,83 @@
+import { expect } from 'chai';
+import {
+  Blueprint,
+  BlueprintItem,
+  ConnectionType,
+  PowerBudget,
+  PowerWarningType,
+  Vector2,
+} from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Power Budget', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  // Runs a straight wire along y = 0 between x = 0 and x = length - 1
+  const addWire = (blueprint: Blueprint, id: string, length: number) => {
+    for (let x = 0; x < length; x++)
+      LibBlueprintHelper.addItem(blueprint, id, x, 0, (x > 0 ? 1 : 0) | (x < length - 1 ? 2 : 0));
+  };
+
+  // Moves a building so its power port ends up on the given cell
+  const addOnPort = (blueprint: Blueprint, id: string, port: Vector2): BlueprintItem => {
+    const item = LibBlueprintHelper.addItem(blueprint, id, 0, 0);
+    const connection = item.oniItem.utilityConnections.find(
+      c => c.type == ConnectionType.POWER_INPUT || c.type == ConnectionType.POWER_OUTPUT
+    )!;
+    const offset = item.getConnectionPosition(connection);
+    blueprint.destroyBlueprintItem(item);
+    return LibBlueprintHelper.addItem(blueprint, id, port.x - offset.x, port.y - offset.y);
+  };
+
+  it('should sum generation, consumption and wire capacity', () => {
+    const blueprint = new Blueprint();
+    addWire(blueprint, 'Wire', 4);
+    addOnPort(blueprint, 'ManualGenerator', new Vector2(0, 0));
+    addOnPort(blueprint, 'CeilingLight', new Vector2(2, 0));
+    addOnPort(blueprint, 'CeilingLight', new Vector2(3, 0));
+
+    const budgets = PowerBudget.analyze(blueprint);
+
+    expect(budgets.length).to.equal(1);
+    expect(budgets[0].generation).to.equal(400);
+    expect(budgets[0].consumption).to.equal(20);
+    expect(budgets[0].capacity).to.equal(1000);
+    expect(budgets[0].warnings).to.deep.equal([]);
+  });
+
+  it('should warn when the wire tier is exceeded', () => {
+    const blueprint = new Blueprint();
+    addWire(blueprint, 'Wire', 2);
+    addOnPort(blueprint, 'ManualGenerator', new Vector2(0, 0));
+    addOnPort(blueprint, 'ArcadeMachine', new Vector2(1, 0));
+
+    const budgets = PowerBudget.analyze(blueprint);
+
+    expect(budgets[0].warnings).to.deep.equal([PowerWarningType.Overloaded]);
+  });
+
+  it('should use the rating of the weakest segment', () => {
+    const blueprint = new Blueprint();
+    addWire(blueprint, 'HighWattageWire', 3);
+
+    expect(PowerBudget.analyze(blueprint)[0].capacity).to.equal(20000);
+
+    blueprint.destroyBlueprintItem(blueprint.getBlueprintItemsAt(new Vector2(1, 0))[0]);
+    LibBlueprintHelper.addItem(blueprint, 'Wire', 1, 0, 1 | 2);
+
+    expect(PowerBudget.analyze(blueprint)[0].capacity).to.equal(1000);
+  });
+
+  it('should warn when a circuit has consumers but no generator', () => {
+    const blueprint = new Blueprint();
+    addWire(blueprint, 'Wire', 2);
+    addOnPort(blueprint, 'CeilingLight', new Vector2(1, 0));
+
+    const budgets = PowerBudget.analyze(blueprint);
+
+    expect(budgets[0].warnings).to.deep.equal([PowerWarningType.NoGenerator]);
+  });
+});
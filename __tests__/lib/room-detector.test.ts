@@ -0,0 +1,73 @@
+import { expect } from 'chai';
+import {
+  Blueprint,
+  BuildShapes,
+  RoomDetector,
+  RoomRequirementType,
+  RoomTypeId,
+  Vector2,
+} from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Room Detector', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  // Walls of tiles around the area from (1, 1) to (width, height)
+  const addWalls = (blueprint: Blueprint, width: number, height: number) => {
+    for (let position of BuildShapes.rectangle(
+      new Vector2(0, 0),
+      new Vector2(width + 1, height + 1),
+      false
+    ))
+      LibBlueprintHelper.addItem(blueprint, 'Tile', position.x, position.y);
+  };
+
+  it('should detect a latrine', () => {
+    const blueprint = new Blueprint();
+    addWalls(blueprint, 4, 4);
+    LibBlueprintHelper.addItem(blueprint, 'Outhouse', 1, 1);
+    LibBlueprintHelper.addItem(blueprint, 'WashBasin', 3, 1);
+
+    const rooms = RoomDetector.detect(blueprint);
+    expect(rooms.length).to.equal(1);
+    expect(rooms[0].size).to.equal(16);
+    expect(rooms[0].roomType!.id).to.equal(RoomTypeId.Latrine);
+    expect(rooms[0].valid).to.be.true;
+    expect(rooms[0].contains(new Vector2(2, 2))).to.be.true;
+    expect(rooms[0].contains(new Vector2(0, 0))).to.be.false;
+  });
+
+  it('should not detect open areas', () => {
+    const blueprint = new Blueprint();
+    addWalls(blueprint, 4, 4);
+    blueprint.destroyBlueprintItem(blueprint.getBlueprintItemsAt(new Vector2(5, 2))[0]);
+
+    expect(RoomDetector.detect(blueprint)).to.be.empty;
+  });
+
+  it('should report the missing requirements', () => {
+    const blueprint = new Blueprint();
+    addWalls(blueprint, 4, 4);
+    LibBlueprintHelper.addItem(blueprint, 'Outhouse', 1, 1);
+
+    const room = RoomDetector.detect(blueprint)[0];
+    expect(room.roomType!.id).to.equal(RoomTypeId.Latrine);
+    expect(room.valid).to.be.false;
+    expect(room.missingRequirements).to.deep.equal([RoomRequirementType.WashStation]);
+  });
+
+  it('should check the size of the room', () => {
+    const blueprint = new Blueprint();
+    addWalls(blueprint, 3, 3);
+    LibBlueprintHelper.addItem(blueprint, 'Bed', 1, 1);
+
+    const room = RoomDetector.detect(blueprint)[0];
+    expect(room.roomType!.id).to.equal(RoomTypeId.Barracks);
+    expect(room.valid).to.be.false;
+    expect(room.tooSmall).to.be.true;
+    expect(room.missingRequirements).to.be.empty;
+  });
+});
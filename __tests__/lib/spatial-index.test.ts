@@ -0,0 +1,90 @@
+import { expect } from 'chai';
+import { Blueprint, BlueprintItemTile, DrawHelpers, SpatialIndex, Vector2 } from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Spatial Index', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  it('should give every position its own tile index', () => {
+    const positions = [
+      new Vector2(0, 0),
+      new Vector2(-1, 0),
+      new Vector2(500, -500),
+      new Vector2(-501, 1001),
+      new Vector2(123456, -654321),
+    ];
+
+    const indexes = positions.map(position => DrawHelpers.getTileIndex(position));
+    expect(new Set(indexes).size).to.equal(positions.length);
+    indexes.forEach((index, i) =>
+      expect(DrawHelpers.getTilePosition(index)).to.deep.equal(positions[i])
+    );
+  });
+
+  it('should not mix up items far from the origin', () => {
+    const blueprint = new Blueprint();
+    const far = LibBlueprintHelper.addItem(blueprint, 'Tile', 1501, 0);
+    const near = LibBlueprintHelper.addItem(blueprint, 'Tile', 500, 1);
+
+    expect(blueprint.getBlueprintItemsAt(new Vector2(1501, 0))).to.deep.equal([far]);
+    expect(blueprint.getBlueprintItemsAt(new Vector2(500, 1))).to.deep.equal([near]);
+    expect(blueprint.getBlueprintItemsAt(new Vector2(-500, 2))).to.be.empty;
+  });
+
+  it('should find the items in a rectangle once', () => {
+    const blueprint = new Blueprint();
+    const tiles = [
+      LibBlueprintHelper.addItem(blueprint, 'Tile', -20, 5),
+      LibBlueprintHelper.addItem(blueprint, 'Tile', 30, -5),
+    ];
+    LibBlueprintHelper.addItem(blueprint, 'Tile', 31, -5);
+    LibBlueprintHelper.addItem(blueprint, 'Tile', -2000, 3000);
+    const ladder = LibBlueprintHelper.addItem(blueprint, 'Ladder', 0, 0);
+
+    const found = blueprint.getBlueprintItemsInRectangle(new Vector2(-20, 5), new Vector2(30, -5));
+    expect(found).to.have.members([...tiles, ladder]);
+    expect(found.length).to.equal(3);
+
+    const everything = blueprint.getBlueprintItemsInRectangle(
+      new Vector2(-1000000, 1000000),
+      new Vector2(1000000, -1000000)
+    );
+    expect(everything.length).to.equal(5);
+  });
+
+  it('should list the neighbours of a tile', () => {
+    const index = new SpatialIndex<string>();
+    index.getAt(new Vector2(15, 0)).push('left');
+    index.getAt(new Vector2(16, 1)).push('up');
+
+    const neighbours = index.getNeighbours(new Vector2(16, 0));
+    expect(neighbours).to.deep.equal([['left'], [], ['up'], []]);
+  });
+
+  it('should only return the values of dirty chunks', () => {
+    const index = new SpatialIndex<string>();
+    index.getAt(new Vector2(0, 0)).push('a');
+    index.getAt(new Vector2(100, 0)).push('b');
+    index.getAt(new Vector2(16, 0)).push('c');
+
+    // The neighbour on the right is in the next chunk
+    index.markDirty(new Vector2(15, 0));
+    expect(index.takeDirty()).to.have.members(['a', 'c']);
+    expect(index.takeDirty()).to.be.empty;
+  });
+
+  it('should update the tileables across chunks', () => {
+    const blueprint = new Blueprint();
+    const left = LibBlueprintHelper.addItem(blueprint, 'Tile', 15, 0) as BlueprintItemTile;
+    const right = LibBlueprintHelper.addItem(blueprint, 'Tile', 16, 0) as BlueprintItemTile;
+
+    expect(left.tileConnections).to.equal(2);
+    expect(right.tileConnections).to.equal(1);
+
+    blueprint.destroyBlueprintItem(right);
+    expect(left.tileConnections).to.equal(0);
+  });
+});
@@ -0,0 +1,36 @@
+import { expect } from 'chai';
+import { StringHelpers } from '../../lib';
+
+describe('String Helpers', () => {
+  it('should only match the letters of the query in order', () => {
+    expect(StringHelpers.fuzzyScore('gp', 'Gas Pump')).to.not.be.undefined;
+    expect(StringHelpers.fuzzyScore('pg', 'Gas Pump')).to.be.undefined;
+    expect(StringHelpers.fuzzyScore('gpx', 'Gas Pump')).to.be.undefined;
+    expect(StringHelpers.fuzzyScore('', 'Gas Pump')).to.equal(0);
+  });
+
+  it('should ignore the case, the accents and the spaces', () => {
+    expect(StringHelpers.fuzzyScore('GASPUMP', 'Gas Pump')).to.not.be.undefined;
+    expect(StringHelpers.fuzzyScore('electrolyseur', 'Électrolyseur')).to.not.be.undefined;
+  });
+
+  it('should rank the closest matches first', () => {
+    const rank = (query: string, texts: string[]) =>
+      texts
+        .slice()
+        .sort(
+          (t1, t2) =>
+            (StringHelpers.fuzzyScore(query, t2) ?? -1) -
+            (StringHelpers.fuzzyScore(query, t1) ?? -1)
+        );
+
+    expect(rank('gas pump', ['Mini Gas Pump', 'Gas Pump'])).to.deep.equal([
+      'Gas Pump',
+      'Mini Gas Pump',
+    ]);
+    expect(rank('gp', ['Gantry Platform', 'Geyser Plug', 'Gas Pump'])[2]).to.equal(
+      'Gantry Platform'
+    );
+    expect(rank('export', ['Expert Porter', 'Export images'])[0]).to.equal('Export images');
+  });
+});
@@ -0,0 +1,118 @@
+import { expect } from 'chai';
+import {
+  Blueprint,
+  BlueprintItem,
+  BlueprintItemWire,
+  ConnectionType,
+  DrawHelpers,
+  NetworkAnalyzer,
+  Overlay,
+  UtilityConnectionTracker,
+  UtilityRouter,
+  Vector2,
+} from '../../lib';
+import { LibBlueprintHelper } from '../helpers/libBlueprint';
+import { LibDatabaseHelper } from '../helpers/libDatabase';
+
+describe('Utility Router', () => {
+  before(() => {
+    LibDatabaseHelper.load();
+  });
+
+  const portOf = (
+    blueprint: Blueprint,
+    item: BlueprintItem,
+    type: ConnectionType
+  ): UtilityConnectionTracker => {
+    const connection = item.oniItem.utilityConnections.find(c => c.type == type)!;
+    return blueprint
+      .getUtilityConnectionsAtIndex(
+        DrawHelpers.getTileIndex(item.getConnectionPosition(connection))
+      )
+      .find(tracker => tracker.blueprintItem == item && tracker.utilityConnection == connection)!;
+  };
+
+  it('should only link ports of the same overlay', () => {
+    const blueprint = new Blueprint();
+    const battery = LibBlueprintHelper.addItem(blueprint, 'Battery', 0, 0);
+    const vent = LibBlueprintHelper.addItem(blueprint, 'GasVent', 6, 3);
+
+    const route = UtilityRouter.route(
+      blueprint,
+      portOf(blueprint, battery, ConnectionType.POWER_OUTPUT),
+      portOf(blueprint, vent, ConnectionType.GAS_INPUT),
+      'Wire',
+      false
+    );
+
+    expect(route).to.be.undefined;
+  });
+
+  it('should find the shortest gas pipe between two vents', () => {
+    const blueprint = new Blueprint();
+    const start = LibBlueprintHelper.addItem(blueprint, 'GasVent', 0, 0);
+    const end = LibBlueprintHelper.addItem(blueprint, 'GasVent', 4, 2);
+
+    const route = UtilityRouter.route(
+      blueprint,
+      portOf(blueprint, start, ConnectionType.GAS_INPUT),
+      portOf(blueprint, end, ConnectionType.GAS_INPUT),
+      'GasConduit',
+      false
+    )!;
+
+    expect(route.path.length).to.equal(7);
+    expect(route.bridges).to.equal(0);
+
+    UtilityRouter.build(blueprint, route);
+    const analysis = NetworkAnalyzer.analyzeOverlay(blueprint, Overlay.Gas);
+    expect(analysis.networks.length).to.equal(1);
+    expect(analysis.networks[0].segments.length).to.equal(7);
+
+    const first = route.items[0] as BlueprintItemWire;
+    const last = route.items[route.items.length - 1] as BlueprintItemWire;
+    expect([1, 2, 4, 8]).to.include(first.connections);
+    expect([1, 2, 4, 8]).to.include(last.connections);
+  });
+
+  it('should go around existing pipes', () => {
+    const blueprint = new Blueprint();
+    const start = LibBlueprintHelper.addItem(blueprint, 'GasVent', 0, 0);
+    const end = LibBlueprintHelper.addItem(blueprint, 'GasVent', 4, 0);
+    for (let y = -1; y <= 1; y++) LibBlueprintHelper.addItem(blueprint, 'GasConduit', 2, y);
+
+    const route = UtilityRouter.route(
+      blueprint,
+      portOf(blueprint, start, ConnectionType.GAS_INPUT),
+      portOf(blueprint, end, ConnectionType.GAS_INPUT),
+      'GasConduit',
+      false
+    )!;
+
+    expect(route.path.length).to.equal(9);
+    expect(route.path.find(p => p.x == 2 && Math.abs(p.y) <= 1)).to.be.undefined;
+  });
+
+  it('should use a bridge when the crossing is unavoidable', () => {
+    const blueprint = new Blueprint();
+    UtilityRouter.margin = 2;
+    const start = LibBlueprintHelper.addItem(blueprint, 'GasVent', 0, 0);
+    const end = LibBlueprintHelper.addItem(blueprint, 'GasVent', 4, 0);
+    for (let y = -5; y <= 5; y++)
+      LibBlueprintHelper.addItem(blueprint, 'GasConduit', 2, y, y == -5 ? 4 : y == 5 ? 8 : 12);
+
+    const ports = [
+      portOf(blueprint, start, ConnectionType.GAS_INPUT),
+      portOf(blueprint, end, ConnectionType.GAS_INPUT),
+    ];
+
+    expect(UtilityRouter.route(blueprint, ports[0], ports[1], 'GasConduit', false)).to.be.undefined;
+
+    const route = UtilityRouter.route(blueprint, ports[0], ports[1], 'GasConduit', true)!;
+    UtilityRouter.margin = 10;
+
+    expect(route.bridges).to.equal(1);
+    const bridge = route.items.find(item => item.id == 'GasConduitBridge')!;
+    expect(bridge.position).to.deep.equal(new Vector2(2, 0));
+  });
+});
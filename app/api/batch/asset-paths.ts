@@ -72,6 +72,12 @@ export class AssetPaths {
   static get buildMenuRename(): string {
     return this.absolute('assets/manual-buildMenuRename.json');
   }
+  static get buildingPower(): string {
+    return this.absolute('assets/manual-buildingPower.json');
+  }
+  static get buildingConduitFlow(): string {
+    return this.absolute('assets/manual-buildingConduitFlow.json');
+  }
 
   // Frontend paths (deployment targets)
   static get frontendAssets(): string {
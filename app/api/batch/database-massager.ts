@@ -7,6 +7,19 @@ interface BuildMenuItem {
   buildingId: string;
 }
 
+interface BuildingPower {
+  buildingId: string;
+  energyConsumptionWhenActive?: number;
+  generatorWattageRating?: number;
+  maxWattageRating?: number;
+}
+
+interface BuildingConduitFlow {
+  buildingId: string;
+  conduitInputRate?: number;
+  conduitOutputRate?: number;
+}
+
 interface BuildingTranslator {
   buildMenuItems: {
     from: BuildMenuItem;
@@ -38,3 +51,35 @@ export const renameBuildings = (database: BExport, instructionsPath: string) =>
   });
   return database;
 };
+
+// Fills the power fields of buildings from a list of known values.
+// Values already present in the export take precedence.
+export const addBuildingPower = (database: BExport, powerPath: string) => {
+  const power = readJson(powerPath) as { buildings: BuildingPower[] };
+  power.buildings.forEach(entry => {
+    const building = database.buildings.find(b => b.prefabId == entry.buildingId);
+    if (building == undefined) return;
+
+    if (building.energyConsumptionWhenActive == null)
+      building.energyConsumptionWhenActive = entry.energyConsumptionWhenActive || 0;
+    if (building.generatorWattageRating == null)
+      building.generatorWattageRating = entry.generatorWattageRating || 0;
+    if (building.maxWattageRating == null) building.maxWattageRating = entry.maxWattageRating || 0;
+  });
+  return database;
+};
+
+// Fills the pipe rates of buildings from a list of known values.
+// Values already present in the export take precedence.
+export const addBuildingConduitFlow = (database: BExport, flowPath: string) => {
+  const flow = readJson(flowPath) as { buildings: BuildingConduitFlow[] };
+  flow.buildings.forEach(entry => {
+    const building = database.buildings.find(b => b.prefabId == entry.buildingId);
+    if (building == undefined) return;
+
+    if (building.conduitInputRate == null) building.conduitInputRate = entry.conduitInputRate || 0;
+    if (building.conduitOutputRate == null)
+      building.conduitOutputRate = entry.conduitOutputRate || 0;
+  });
+  return database;
+};
@@ -8,7 +8,12 @@ import { GenerateIcons } from './generate-icons';
 import { GenerateGroups } from './generate-groups';
 import { GenerateWhite } from './generate-white';
 import { GenerateRepack } from './generate-repack';
-import { renameBuildings, updateJsonFile } from './database-massager';
+import {
+  addBuildingConduitFlow,
+  addBuildingPower,
+  renameBuildings,
+  updateJsonFile,
+} from './database-massager';
 import { AssetPaths } from './asset-paths';
 import { AssetLogger } from './asset-logger';
 import { AssetValidator } from './asset-validator';
@@ -199,6 +204,20 @@ export class EnhancedExtractExport {
         });
       }
 
+      // Fill power values the export does not provide
+      if (fs.existsSync(AssetPaths.buildingPower)) {
+        updateJsonFile(AssetPaths.exportDatabase, (database: BExport) => {
+          return addBuildingPower(database, AssetPaths.buildingPower);
+        });
+      }
+
+      // Same for the pipe rates
+      if (fs.existsSync(AssetPaths.buildingConduitFlow)) {
+        updateJsonFile(AssetPaths.exportDatabase, (database: BExport) => {
+          return addBuildingConduitFlow(database, AssetPaths.buildingConduitFlow);
+        });
+      }
+
       AssetLogger.info('✓ Database generated successfully');
       return true;
     } catch (error) {
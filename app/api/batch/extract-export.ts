@@ -10,7 +10,12 @@ import { GenerateIcons } from './generate-icons';
 import { GenerateGroups } from './generate-groups';
 import { GenerateWhite } from './generate-white';
 import { GenerateRepack } from './generate-repack';
-import { renameBuildings, updateJsonFile } from './database-massager';
+import {
+  addBuildingConduitFlow,
+  addBuildingPower,
+  renameBuildings,
+  updateJsonFile,
+} from './database-massager';
 import { AssetPaths } from './asset-paths';
 import { AssetLogger } from './asset-logger';
 import { AssetValidator } from './asset-validator';
@@ -59,6 +64,12 @@ const generateDatabase = (): boolean => {
     updateJsonFile(AssetPaths.exportDatabase, (database: BExport) => {
       return renameBuildings(database, AssetPaths.buildMenuRename);
     });
+    updateJsonFile(AssetPaths.exportDatabase, (database: BExport) => {
+      return addBuildingPower(database, AssetPaths.buildingPower);
+    });
+    updateJsonFile(AssetPaths.exportDatabase, (database: BExport) => {
+      return addBuildingConduitFlow(database, AssetPaths.buildingConduitFlow);
+    });
 
     AssetLogger.info('✓ Database generated successfully');
     return true;
@@ -11,12 +11,21 @@ import {
   Overlay,
   ImageSource,
   BlueprintDelete,
+  BlueprintConvertResponse,
+  BlueprintConvertUnrecognized,
+  BinaryBlueprint,
+  BniBlueprint,
+  OniTemplate,
+  BlueprintValidator,
+  ValidationIssue,
+  ValidationIssueType,
 } from '../../lib/index';
 import { Blueprint as sharedBlueprint } from '../../lib/index';
 import { UserModel, User, UserJwt } from './models/user';
 import { UpdateBasedOn } from './batch/update-based-on';
 import { BatchUtils } from './batch/batch-utils';
 import { use } from 'passport';
+import * as yaml from 'js-yaml';
 
 export class BlueprintController {
   public uploadBlueprint(req: Request, res: Response) {
@@ -39,6 +48,28 @@ export class BlueprintController {
         return;
       }
 
+      // Reject corrupt data (unknown ids, overlapping buildings, etc)
+      if (data != null && Array.isArray(data.blueprintItems)) {
+        let issues: ValidationIssue[] = [];
+        try {
+          issues = BlueprintValidator.validateMdbBlueprint(data as MdbBlueprint);
+        } catch (err) {
+          console.log('Blueprint data could not be read');
+          console.log(err);
+          res.status(500).json({ saveBlueprintResult: 'ERROR' });
+          return;
+        }
+
+        if (BlueprintValidator.hasErrors(issues)) {
+          console.log('Blueprint data failed validation');
+          res.status(500).json({
+            saveBlueprintResult: 'ERROR',
+            validationIssues: BlueprintController.toValidationReport(issues),
+          });
+          return;
+        }
+      }
+
       BlueprintModel.model
         .find({ owner: ownerId, name: name })
         .then(blueprints => {
@@ -78,6 +109,17 @@ export class BlueprintController {
     }
   }
 
+  private static toValidationReport(issues: ValidationIssue[]) {
+    return issues.map(issue => {
+      return {
+        type: ValidationIssueType[issue.type],
+        itemId: issue.itemId,
+        position: { x: issue.position.x, y: issue.position.y },
+        detail: issue.detail,
+      };
+    });
+  }
+
   public deleteBlueprint(req: Request, res: Response) {
     console.log('deleteBlueprint' + req.clientIp);
     if (BlueprintModel.model == null) res.status(503).send();
@@ -247,6 +289,136 @@ export class BlueprintController {
     }
   }
 
+  public convertBlueprint(req: Request, res: Response) {
+    console.log('convertBlueprint' + req.clientIp);
+
+    let from = req.query.from as string;
+    let to = req.query.to as string;
+    if (
+      BlueprintController.convertFormats.indexOf(from) == -1 ||
+      BlueprintController.convertFormats.indexOf(to) == -1
+    ) {
+      res.status(400).json({ convertBlueprint: 'Invalid format parameters' });
+      return;
+    }
+
+    if (req.body == null || (Buffer.isBuffer(req.body) && req.body.length == 0)) {
+      res.status(400).json({ convertBlueprint: 'Missing file' });
+      return;
+    }
+
+    // A file that can not be read is the client's mistake
+    let content: OniTemplate | BniBlueprint | MdbBlueprint;
+    try {
+      content = BlueprintController.parseConverted(from, req.body);
+    } catch (err) {
+      console.log('convertBlueprint parse error');
+      console.log(err);
+      res.status(400).json({ convertBlueprint: 'Unreadable file' });
+      return;
+    }
+
+    if (!BlueprintController.isValidConverted(from, content)) {
+      res.status(400).json({ convertBlueprint: 'Invalid file' });
+      return;
+    }
+
+    try {
+      let angularBlueprint = new sharedBlueprint();
+      let name = BlueprintController.importConverted(angularBlueprint, from, content);
+      if (typeof req.query.name == 'string') name = req.query.name;
+
+      let data: string | BniBlueprint | MdbBlueprint;
+      if (to == 'yaml') data = yaml.dump(angularBlueprint.toOniTemplate(name));
+      else if (to == 'bni') data = angularBlueprint.toBniBlueprint(name);
+      else if (to == 'binary')
+        data = Buffer.from(angularBlueprint.toBinaryBlueprint(name)).toString('base64');
+      else data = angularBlueprint.toMdbBlueprint();
+
+      let unrecognizedBuildings: BlueprintConvertUnrecognized[] = [];
+      for (let unrecognized of angularBlueprint.unrecognizedBuildings) {
+        let report = unrecognizedBuildings.find(r => r.id == unrecognized.id);
+        if (report == undefined) {
+          report = { id: unrecognized.id, count: 0, positions: [] };
+          unrecognizedBuildings.push(report);
+        }
+
+        report.count++;
+        report.positions.push({ x: unrecognized.position.x, y: unrecognized.position.y });
+      }
+
+      let response: BlueprintConvertResponse = {
+        name: name,
+        format: to,
+        data: data,
+        nbItems: angularBlueprint.blueprintItems.length,
+        unrecognizedBuildings: unrecognizedBuildings,
+      };
+
+      res.json(response);
+    } catch (err) {
+      console.log('convertBlueprint error');
+      console.log(err);
+      res.status(500).json({ convertBlueprint: 'ERROR' });
+    }
+  }
+
+  private static convertFormats = ['yaml', 'bni', 'binary', 'mdb'];
+
+  // Reads the uploaded file, throws if it is not valid for its format
+  private static parseConverted(
+    from: string,
+    body: any
+  ): OniTemplate | BniBlueprint | MdbBlueprint {
+    if (!Buffer.isBuffer(body) && (from == 'binary' || from == 'yaml'))
+      throw new Error('BlueprintController.parseConverted : ' + from + ' must be sent raw');
+
+    if (from == 'binary') return BinaryBlueprint.read(new Uint8Array(body));
+    else if (!Buffer.isBuffer(body)) return body;
+
+    let text = body.toString('utf-8');
+    if (from == 'yaml') return yaml.load(text) as OniTemplate;
+    else return JSON.parse(text);
+  }
+
+  // The parsed file must at least hold the list of buildings of its format
+  private static isValidConverted(
+    from: string,
+    content: OniTemplate | BniBlueprint | MdbBlueprint
+  ): boolean {
+    if (content == null || typeof content != 'object') return false;
+
+    if (from == 'yaml') {
+      let oniTemplate = content as OniTemplate;
+      return (
+        Array.isArray(oniTemplate.buildings) &&
+        (oniTemplate.cells == undefined || Array.isArray(oniTemplate.cells))
+      );
+    } else if (from == 'bni' || from == 'binary')
+      return Array.isArray((content as BniBlueprint).buildings);
+    else return Array.isArray((content as MdbBlueprint).blueprintItems);
+  }
+
+  // Returns the name stored in the source file, if the format has one
+  private static importConverted(
+    angularBlueprint: sharedBlueprint,
+    from: string,
+    content: OniTemplate | BniBlueprint | MdbBlueprint
+  ): string {
+    if (from == 'yaml') {
+      let oniTemplate = content as OniTemplate;
+      angularBlueprint.importFromOni(oniTemplate);
+      return oniTemplate.name;
+    } else if (from == 'bni' || from == 'binary') {
+      let bniBlueprint = content as BniBlueprint;
+      angularBlueprint.importFromBni(bniBlueprint);
+      return bniBlueprint.friendlyname;
+    } else {
+      angularBlueprint.importFromMdb(content as MdbBlueprint);
+      return 'converted blueprint';
+    }
+  }
+
   public getBlueprintThumbnail(req: Request, res: Response) {
     console.log('getBlueprintThumbnail' + req.clientIp);
     if (BlueprintModel.model == null) res.status(503).send();
@@ -1,6 +1,7 @@
 import mongoose from 'mongoose';
 import { UserModel } from './models/user';
 import { BlueprintModel } from './models/blueprint';
+import { ModuleModel } from './models/module';
 
 export class Database {
   constructor() {
@@ -18,6 +19,7 @@ export class Database {
       }
       UserModel.init();
       BlueprintModel.init();
+      ModuleModel.init();
     });
     mongoose.connection.on('error', err => {
       if (process.env.NODE_ENV !== 'test') {
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Modules of the module library, they belong to a user and are not shared
+export interface Module extends Document {
+  owner: string;
+  name: string;
+  createdAt: Date;
+  anchor: { x: number; y: number };
+  thumbnail: string;
+  data: any;
+}
+
+export class ModuleModel {
+  static model: Model<Module>;
+  public static init() {
+    let moduleSchema = new mongoose.Schema({
+      owner: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+      },
+      name: {
+        type: String,
+        required: true,
+      },
+      createdAt: Date,
+      anchor: { x: Number, y: Number },
+      thumbnail: String,
+      data: Object,
+    });
+
+    ModuleModel.model = mongoose.model<Module>('Module', moduleSchema);
+  }
+}
@@ -2,6 +2,7 @@ import mongoose, { Schema, Document, Model } from 'mongoose';
 import dotenv from 'dotenv';
 import crypto from 'crypto-js';
 import jwt from 'jsonwebtoken';
+import { MdbKeybindings } from '../../../lib/index';
 
 export interface User extends Document {
   email?: string;
@@ -11,6 +12,7 @@ export interface User extends Document {
   salt: string;
   resetToken?: string;
   resetTokenExpiration?: Date;
+  keybindings?: MdbKeybindings;
 
   setPassword(password: string): void;
   validPassword(password: string): boolean;
@@ -35,6 +37,7 @@ export class UserModel {
       salt: String,
       resetToken: String,
       resetTokenExpiration: Date,
+      keybindings: Object,
     });
 
     userSchema.methods.setPassword = function (password: string): void {
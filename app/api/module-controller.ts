@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { ModuleModel, Module } from './models/module';
+import { UserJwt } from './models/user';
+import {
+  BlueprintModules,
+  BlueprintValidator,
+  MdbModule,
+  ModuleDelete,
+  ModuleListResponse,
+  ModuleSaveResponse,
+  ValidationIssue,
+} from '../../lib/index';
+
+export class ModuleController {
+  public static maxModules: number = 200;
+  public static maxThumbnailLength: number = 200000;
+
+  public async getModules(req: Request, res: Response) {
+    if (ModuleModel.model == null) {
+      res.status(503).send();
+      return;
+    }
+
+    try {
+      let user = req.user as UserJwt;
+      let modules = await ModuleModel.model.find({ owner: user._id }).sort({ createdAt: 1 });
+
+      let response: ModuleListResponse = {
+        modules: modules.map(moduleDocument => ModuleController.toMdbModule(moduleDocument)),
+      };
+      res.json(response);
+    } catch (error) {
+      console.log('getModules error');
+      console.log(error);
+      res.status(500).json({ getModules: 'ERROR' });
+    }
+  }
+
+  // Saving a module with an id replaces it
+  public async saveModule(req: Request, res: Response) {
+    if (ModuleModel.model == null) {
+      res.status(503).send();
+      return;
+    }
+
+    let mdbModule = req.body as MdbModule;
+    if (
+      !BlueprintModules.isMdbModule(mdbModule) ||
+      (mdbModule.id != null && !mongoose.isValidObjectId(mdbModule.id)) ||
+      (mdbModule.thumbnail != null &&
+        mdbModule.thumbnail.length > ModuleController.maxThumbnailLength)
+    ) {
+      res.status(400).json({ saveModule: 'Invalid module' });
+      return;
+    }
+
+    // Same checks as the blueprints : unknown ids, overlapping buildings, etc
+    let issues: ValidationIssue[] = [];
+    try {
+      issues = BlueprintValidator.validateMdbBlueprint(mdbModule.fragment);
+    } catch (error) {
+      res.status(400).json({ saveModule: 'Invalid module' });
+      return;
+    }
+    if (BlueprintValidator.hasErrors(issues)) {
+      res.status(400).json({ saveModule: 'Invalid module' });
+      return;
+    }
+
+    try {
+      let user = req.user as UserJwt;
+      let moduleDocument: Module | null = null;
+
+      if (mdbModule.id != null) {
+        moduleDocument = await ModuleModel.model.findOne({ _id: mdbModule.id, owner: user._id });
+        if (moduleDocument == null) {
+          res.status(404).json({ saveModule: 'ERROR' });
+          return;
+        }
+      } else {
+        let count = await ModuleModel.model.countDocuments({ owner: user._id });
+        if (count >= ModuleController.maxModules) {
+          res.status(400).json({ saveModule: 'Too many modules' });
+          return;
+        }
+
+        moduleDocument = new ModuleModel.model({ owner: user._id, createdAt: new Date() });
+      }
+
+      moduleDocument.name = mdbModule.name;
+      moduleDocument.anchor = { x: mdbModule.anchor.x, y: mdbModule.anchor.y };
+      moduleDocument.thumbnail = mdbModule.thumbnail as string;
+      moduleDocument.data = mdbModule.fragment;
+      await moduleDocument.save();
+
+      let response: ModuleSaveResponse = { id: (moduleDocument._id as any).toString() };
+      res.json(response);
+    } catch (error) {
+      console.log('saveModule error');
+      console.log(error);
+      res.status(500).json({ saveModule: 'ERROR' });
+    }
+  }
+
+  public async deleteModule(req: Request, res: Response) {
+    if (ModuleModel.model == null) {
+      res.status(503).send();
+      return;
+    }
+
+    let moduleDelete = req.body as ModuleDelete;
+    if (moduleDelete == null || !mongoose.isValidObjectId(moduleDelete.moduleId)) {
+      res.status(400).json({ deleteModule: 'ERROR' });
+      return;
+    }
+
+    try {
+      let user = req.user as UserJwt;
+      let result = await ModuleModel.model.deleteOne({
+        _id: moduleDelete.moduleId,
+        owner: user._id,
+      });
+
+      if (result.deletedCount == 0) res.status(404).json({ deleteModule: 'ERROR' });
+      else res.json({ deleteModule: 'OK' });
+    } catch (error) {
+      console.log('deleteModule error');
+      console.log(error);
+      res.status(500).json({ deleteModule: 'ERROR' });
+    }
+  }
+
+  private static toMdbModule(moduleDocument: Module): MdbModule {
+    return {
+      id: (moduleDocument._id as any).toString(),
+      name: moduleDocument.name,
+      fragment: moduleDocument.data,
+      anchor: { x: moduleDocument.anchor.x, y: moduleDocument.anchor.y },
+      thumbnail: moduleDocument.thumbnail,
+    };
+  }
+}
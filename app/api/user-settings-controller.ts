@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import { MdbKeybindings, UserKeybindings } from '../../lib/index';
+import { UserModel, UserJwt } from './models/user';
+
+export class UserSettingsController {
+  // Far more than the actions and buildings, only there to keep the user documents small
+  public static maxKeybindings: number = 1000;
+  public static maxKeybindingLength: number = 100;
+
+  public async getKeybindings(req: Request, res: Response) {
+    if (UserModel.model == null) {
+      res.status(503).send();
+      return;
+    }
+
+    try {
+      let userJwt = req.user as UserJwt;
+      let user = await UserModel.model.findById(userJwt._id);
+      if (user == null) {
+        res.status(404).json({ getKeybindings: 'ERROR' });
+        return;
+      }
+
+      let response: UserKeybindings = { keybindings: user.keybindings || {} };
+      res.json(response);
+    } catch (error) {
+      console.log('getKeybindings error');
+      console.log(error);
+      res.status(500).json({ getKeybindings: 'ERROR' });
+    }
+  }
+
+  public async saveKeybindings(req: Request, res: Response) {
+    if (UserModel.model == null) {
+      res.status(503).send();
+      return;
+    }
+
+    let keybindings = (req.body as UserKeybindings).keybindings;
+    if (!UserSettingsController.isValidKeybindings(keybindings)) {
+      res.status(400).json({ saveKeybindings: 'Invalid keybindings' });
+      return;
+    }
+
+    try {
+      let userJwt = req.user as UserJwt;
+      let user = await UserModel.model.findById(userJwt._id);
+      if (user == null) {
+        res.status(404).json({ saveKeybindings: 'ERROR' });
+        return;
+      }
+
+      user.keybindings = keybindings;
+      user.markModified('keybindings');
+      await user.save();
+      res.json({ saveKeybindings: 'OK' });
+    } catch (error) {
+      console.log('saveKeybindings error');
+      console.log(error);
+      res.status(500).json({ saveKeybindings: 'ERROR' });
+    }
+  }
+
+  private static isValidKeybindings(keybindings: MdbKeybindings): boolean {
+    if (keybindings == null || typeof keybindings != 'object' || Array.isArray(keybindings))
+      return false;
+
+    let actionIds = Object.keys(keybindings);
+    if (actionIds.length > UserSettingsController.maxKeybindings) return false;
+
+    for (let actionId of actionIds) {
+      let keys = keybindings[actionId];
+      if (
+        actionId.length > UserSettingsController.maxKeybindingLength ||
+        actionId.startsWith('$') ||
+        actionId.indexOf('.') != -1 ||
+        typeof keys != 'string' ||
+        keys.length > UserSettingsController.maxKeybindingLength
+      )
+        return false;
+    }
+
+    return true;
+  }
+}
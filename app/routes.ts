@@ -9,6 +9,8 @@ import { RegisterController } from './api/register-controller';
 import { DuplicateCheckController } from './api/duplicate-check-controller';
 import { BlueprintController } from './api/blueprint-controller';
 import { VersionController } from './api/version-controller';
+import { UserSettingsController } from './api/user-settings-controller';
+import { ModuleController } from './api/module-controller';
 var Recaptcha = require('express-recaptcha').RecaptchaV3;
 export class Routes {
   public staticController = new StaticController();
@@ -17,6 +19,8 @@ export class Routes {
   public duplicateCheckController = new DuplicateCheckController();
   public uploadBlueprintController = new BlueprintController();
   public versionController = new VersionController();
+  public userSettingsController = new UserSettingsController();
+  public moduleController = new ModuleController();
 
   public routes(app: Application): void {
     // Initialize authentication middleware
@@ -60,6 +64,12 @@ export class Routes {
     app.route('/api/checkusername').get(this.duplicateCheckController.checkUsername);
     app.route('/api/getblueprint/:id').get(this.uploadBlueprintController.getBlueprint);
     app.route('/api/getblueprintmod/:id').get(this.uploadBlueprintController.getBlueprintMod);
+    app
+      .route('/api/convert')
+      .post(
+        express.raw({ type: () => true, limit: '1mb' }),
+        this.uploadBlueprintController.convertBlueprint
+      );
     app
       .route('/api/getblueprintthumbnail/:id')
       .get(this.uploadBlueprintController.getBlueprintThumbnail);
@@ -71,6 +81,11 @@ export class Routes {
     app.route('/api/uploadblueprint').post(auth, this.uploadBlueprintController.uploadBlueprint);
     app.route('/api/likeblueprint').post(auth, this.uploadBlueprintController.likeBlueprint);
     app.route('/api/deleteblueprint').post(auth, this.uploadBlueprintController.deleteBlueprint);
+    app.route('/api/getkeybindings').get(auth, this.userSettingsController.getKeybindings);
+    app.route('/api/savekeybindings').post(auth, this.userSettingsController.saveKeybindings);
+    app.route('/api/getmodules').get(auth, this.moduleController.getModules);
+    app.route('/api/savemodule').post(auth, this.moduleController.saveModule);
+    app.route('/api/deletemodule').post(auth, this.moduleController.deleteModule);
 
     app.get('/', this.staticController.getHome);
     app.get('/b/:blueprintId', this.staticController.getBlueprint);
@@ -0,0 +1,11 @@
+// Files generated in the browser are saved through a temporary link
+export class DownloadHelper {
+  static downloadFile(filename: string, content: BlobPart) {
+    let a = document.createElement("a");
+    document.body.append(a);
+    a.download = filename;
+    a.href = URL.createObjectURL(new Blob([content], {}));
+    a.click();
+    a.remove();
+  }
+}
@@ -1,19 +1,27 @@
 import { BlueprintService } from "../../services/blueprint-service";
 import {
+  Blueprint,
+  BlueprintClipboard,
   BlueprintHelpers,
   BlueprintItemWire,
   BlueprintItem,
+  BuildShapes,
   CameraService,
   DrawHelpers,
+  KeyAction,
   Vector2,
   PixiUtil,
   BuildCandidateResult,
   BuildLocationRule,
   ConnectionHelper,
+  PlacementFailure,
+  PlacementRules,
+  MdbBlueprint,
 } from "../../../../../../lib/index";
 import { Injectable, ApplicationRef } from "@angular/core";
 import { ITool, IChangeTool, ToolType } from "./tool";
 import { DrawPixi } from "../../drawing/draw-pixi";
+import { MirrorService } from "../../services/mirror-service";
 
 @Injectable()
 export class BuildTool implements ITool {
@@ -24,6 +32,7 @@ export class BuildTool implements ITool {
 
   constructor(
     private blueprintService: BlueprintService,
+    private mirrorService: MirrorService,
     private appRef: ApplicationRef
   ) {
     this.observers = [];
@@ -41,25 +50,30 @@ export class BuildTool implements ITool {
   }
 
   private updateBuildCandidateResult() {
-    let previousCanBuild =
-      this.templateItemToBuild.buildCandidateResult.canBuild.valueOf();
+    // The mousemouse is outside the angular zone, so we have to force a full update here.
+    if (this.checkBuildCandidate(this.templateItemToBuild)) this.appRef.tick();
+  }
+
+  // Returns true if the result changed
+  private checkBuildCandidate(
+    candidate: BlueprintItem,
+    checkPlacement: boolean = true
+  ): boolean {
+    let previousCanBuild = candidate.buildCandidateResult.canBuild.valueOf();
     let previousCantBuildReason =
-      this.templateItemToBuild.buildCandidateResult.cantBuildReason.valueOf();
+      candidate.buildCandidateResult.cantBuildReason.valueOf();
 
-    this.templateItemToBuild.buildCandidateResult.canBuild = true;
-    this.templateItemToBuild.buildCandidateResult.cantBuildReason = "";
+    candidate.buildCandidateResult.canBuild = true;
+    candidate.buildCandidateResult.cantBuildReason = "";
 
     // First : iterate all the buildings on each tile of this building
 
     let isBridge =
-      this.templateItemToBuild.oniItem.buildLocationRule ==
-        BuildLocationRule.Conduit ||
-      this.templateItemToBuild.oniItem.buildLocationRule ==
-        BuildLocationRule.WireBridge ||
-      this.templateItemToBuild.oniItem.buildLocationRule ==
-        BuildLocationRule.LogicBridge;
-
-    for (let tileIndex of this.templateItemToBuild.tileIndexes) {
+      candidate.oniItem.buildLocationRule == BuildLocationRule.Conduit ||
+      candidate.oniItem.buildLocationRule == BuildLocationRule.WireBridge ||
+      candidate.oniItem.buildLocationRule == BuildLocationRule.LogicBridge;
+
+    for (let tileIndex of candidate.tileIndexes) {
       for (let templateItem of this.blueprintService.blueprint.getBlueprintItemsAtIndex(
         tileIndex
       )) {
@@ -67,17 +81,15 @@ export class BuildTool implements ITool {
         // We skip this step for bridges, who only care about their utility ports
         if (
           !isBridge &&
-          this.templateItemToBuild.oniItem.objectLayer ==
-            templateItem.oniItem.objectLayer
+          candidate.oniItem.objectLayer == templateItem.oniItem.objectLayer
         ) {
-          this.templateItemToBuild.buildCandidateResult.canBuild = false;
-          this.templateItemToBuild.buildCandidateResult.cantBuildReason = $localize`Can\'t build here : ${templateItem.oniItem.name} is in the way`;
+          candidate.buildCandidateResult.canBuild = false;
+          candidate.buildCandidateResult.cantBuildReason = $localize`Can\'t build here : ${templateItem.oniItem.name} is in the way`;
         }
       }
     }
 
-    for (let connectionToBuild of this.templateItemToBuild.oniItem
-      .utilityConnections) {
+    for (let connectionToBuild of candidate.oniItem.utilityConnections) {
       // We rotate and scale the offset, and add to the position
       let connectionToBuildPosition = Vector2.cloneNullToZero(
         connectionToBuild.offset
@@ -85,15 +97,15 @@ export class BuildTool implements ITool {
       connectionToBuildPosition = DrawHelpers.rotateVector2(
         connectionToBuildPosition,
         Vector2.Zero,
-        this.templateItemToBuild.rotation
+        candidate.rotation
       );
       connectionToBuildPosition = DrawHelpers.scaleVector2(
         connectionToBuildPosition,
         Vector2.Zero,
-        this.templateItemToBuild.scale
+        candidate.scale
       );
-      connectionToBuildPosition.x += this.templateItemToBuild.position.x;
-      connectionToBuildPosition.y += this.templateItemToBuild.position.y;
+      connectionToBuildPosition.x += candidate.position.x;
+      connectionToBuildPosition.y += candidate.position.y;
 
       let utilitiesAtIndex =
         this.blueprintService.blueprint.getUtilityConnectionsAtIndex(
@@ -106,24 +118,59 @@ export class BuildTool implements ITool {
             trackedUtilities.utilityConnection.type
           )
         ) {
-          this.templateItemToBuild.buildCandidateResult.canBuild = false;
+          candidate.buildCandidateResult.canBuild = false;
           const connection = ConnectionHelper.getConnectionName(
             trackedUtilities.utilityConnection.type
           );
           const itemName = trackedUtilities.blueprintItem.oniItem.name;
-          this.templateItemToBuild.buildCandidateResult.cantBuildReason = $localize`Can\'t build here : The ${connection} from ${itemName} is in the way`;
+          candidate.buildCandidateResult.cantBuildReason = $localize`Can\'t build here : The ${connection} from ${itemName} is in the way`;
         }
       }
     }
 
-    if (
-      previousCanBuild !=
-        this.templateItemToBuild.buildCandidateResult.canBuild ||
-      previousCantBuildReason !=
-        this.templateItemToBuild.buildCandidateResult.cantBuildReason
-    ) {
-      // The mousemouse is outside the angular zone, so we have to force a full update here.
-      this.appRef.tick();
+    // Finally : check the building has the support it needs (floor, wall, etc)
+    if (checkPlacement && candidate.buildCandidateResult.canBuild) {
+      let placementFailure = PlacementRules.check(
+        this.blueprintService.blueprint,
+        candidate
+      );
+      if (placementFailure != PlacementFailure.None) {
+        candidate.buildCandidateResult.canBuild = false;
+        candidate.buildCandidateResult.cantBuildReason =
+          BuildTool.getPlacementFailureReason(placementFailure);
+      }
+    }
+
+    return (
+      previousCanBuild != candidate.buildCandidateResult.canBuild ||
+      previousCantBuildReason != candidate.buildCandidateResult.cantBuildReason
+    );
+  }
+
+  static getPlacementFailureReason(placementFailure: PlacementFailure): string {
+    switch (placementFailure) {
+      case PlacementFailure.NeedsFloor:
+        return $localize`Can\'t build here : Must be built on the floor`;
+      case PlacementFailure.NeedsCeiling:
+        return $localize`Can\'t build here : Must be built on the ceiling`;
+      case PlacementFailure.NeedsWall:
+        return $localize`Can\'t build here : Must be built against a wall`;
+      case PlacementFailure.NeedsCorner:
+        return $localize`Can\'t build here : Must be built in a corner`;
+      case PlacementFailure.NeedsFoundation:
+        return $localize`Can\'t build here : Must be attached to a tile`;
+      case PlacementFailure.NeedsFloorAndWall:
+        return $localize`Can\'t build here : Must be built on the floor, against a wall`;
+      case PlacementFailure.NeedsAttachPoint:
+        return $localize`Can\'t build here : Must be attached to another building`;
+      case PlacementFailure.NeedsFloorOrAttachPoint:
+        return $localize`Can\'t build here : Must be built on the floor or another building`;
+      case PlacementFailure.InsideTile:
+        return $localize`Can\'t build here : Can\'t be built inside tiles`;
+      case PlacementFailure.LiquidConduitAtOrigin:
+        return $localize`Can\'t build here : A liquid pipe is in the way`;
+      default:
+        return "";
     }
   }
 
@@ -138,11 +185,30 @@ export class BuildTool implements ITool {
 
     newItem.prepareBoundingBox();
     newItem.updateTileables(this.blueprintService.blueprint);
+    this.blueprintService.blueprint.pauseChangeEvents();
     this.blueprintService.blueprint.addBlueprintItem(newItem);
+    this.buildMirror(newItem);
+    this.blueprintService.blueprint.resumeChangeEvents();
     this.blueprintService.blueprint.refreshOverlayInfo();
     this.updateBuildCandidateResult();
   }
 
+  // With a mirror axis, the mirrored building is built too if there is room for it
+  // The change events should be paused by the caller
+  private buildMirror(item: BlueprintItem) {
+    let mirrored = this.mirrorService.mirror(item);
+    if (mirrored == null) return;
+
+    this.checkBuildCandidate(mirrored);
+    if (!mirrored.buildCandidateResult.canBuild) {
+      mirrored.destroy();
+      return;
+    }
+
+    mirrored.updateTileables(this.blueprintService.blueprint);
+    this.blueprintService.blueprint.addBlueprintItem(mirrored);
+  }
+
   private connectAToB(a: BlueprintItemWire, b: BlueprintItemWire) {
     let bitMask = 0;
     if (a.position.x == b.position.x + 1 && a.position.y == b.position.y)
@@ -158,6 +224,8 @@ export class BuildTool implements ITool {
   }
 
   changeItem(item: BlueprintItem) {
+    this.destroyPasteItems();
+    this.destroyShapeItems();
     if (this.templateItemToBuild != null) this.templateItemToBuild.destroy();
 
     CameraService.cameraService.setOverlayForItem(item.oniItem);
@@ -180,43 +248,303 @@ export class BuildTool implements ITool {
     this.build();
 
     if (this.templateItemToBuild.oniItem.isWire) {
-      let itemsPrevious = this.blueprintService.blueprint
-        .getBlueprintItemsAt(tileStart)
-        .filter(
-          (i) =>
-            i.oniItem.objectLayer ==
-            this.templateItemToBuild.oniItem.objectLayer
+      let connected = this.connectTiles(tileStart, tileStop);
+      if (this.mirrorService.axis != null)
+        connected =
+          this.connectTiles(
+            this.mirrorService.mirrorPosition(tileStart),
+            this.mirrorService.mirrorPosition(tileStop)
+          ) || connected;
+
+      if (connected) this.blueprintService.blueprint.emitBlueprintChanged();
+    }
+  }
+
+  // Returns true if two wires were connected
+  private connectTiles(tileStart: Vector2, tileStop: Vector2): boolean {
+    let itemsPrevious = this.blueprintService.blueprint
+      .getBlueprintItemsAt(tileStart)
+      .filter(
+        (i) =>
+          i.oniItem.objectLayer == this.templateItemToBuild.oniItem.objectLayer
+      );
+    let itemsCurrent = this.blueprintService.blueprint
+      .getBlueprintItemsAt(tileStop)
+      .filter(
+        (i) =>
+          i.oniItem.objectLayer == this.templateItemToBuild.oniItem.objectLayer
+      );
+
+    if (
+      itemsPrevious != null &&
+      itemsPrevious.length > 0 &&
+      itemsCurrent != null &&
+      itemsCurrent.length > 0
+    ) {
+      let itemPrevious = itemsPrevious[0] as BlueprintItemWire;
+      let itemCurrent = itemsCurrent[0] as BlueprintItemWire;
+
+      this.connectAToB(itemPrevious, itemCurrent);
+      this.connectAToB(itemCurrent, itemPrevious);
+      itemPrevious.updateTileables(this.blueprintService.blueprint);
+      itemCurrent.updateTileables(this.blueprintService.blueprint);
+
+      return true;
+    }
+
+    return false;
+  }
+
+  // Items pasted from the clipboard, they follow the mouse and are built together
+  pasteItems: BlueprintItem[] = null;
+  private pasteOffsets: Vector2[];
+
+  paste(fragment: MdbBlueprint) {
+    let pasteItems = BlueprintClipboard.createItems(fragment, Vector2.zero());
+    if (pasteItems.length == 0) return;
+
+    this.destroyPasteItems();
+    if (this.templateItemToBuild != null)
+      this.templateItemToBuild.setInvisible();
+
+    this.pasteItems = pasteItems;
+    this.pasteOffsets = pasteItems.map((item) => Vector2.clone(item.position));
+    for (let item of this.pasteItems) {
+      item.isBuildCandidate = true;
+      item.alpha = 1;
+    }
+    this.movePasteItems(null);
+  }
+
+  private destroyPasteItems() {
+    if (this.pasteItems == null) return;
+
+    for (let item of this.pasteItems) item.destroy();
+    this.pasteItems = null;
+  }
+
+  // A null origin hides the pasted items
+  private movePasteItems(origin: Vector2) {
+    for (let index = 0; index < this.pasteItems.length; index++) {
+      let item = this.pasteItems[index];
+      if (origin == null) item.setInvisible();
+      else
+        item.position = new Vector2(
+          origin.x + this.pasteOffsets[index].x,
+          origin.y + this.pasteOffsets[index].y
+        );
+      item.prepareBoundingBox();
+    }
+
+    if (origin != null) this.updatePasteCandidateResults();
+  }
+
+  private updatePasteCandidateResults() {
+    // The pasted buildings can stand on each other
+    let pasted = new Blueprint();
+    pasted.pauseChangeEvents();
+    for (let item of this.pasteItems) pasted.addBlueprintItem(item);
+
+    let changed = false;
+    for (let item of this.pasteItems) {
+      changed = this.checkBuildCandidate(item, false) || changed;
+
+      if (item.buildCandidateResult.canBuild) {
+        let placementFailure = PlacementRules.check(
+          this.blueprintService.blueprint,
+          item
+        );
+        if (
+          placementFailure != PlacementFailure.None &&
+          PlacementRules.check(pasted, item) != PlacementFailure.None
+        ) {
+          item.buildCandidateResult.canBuild = false;
+          item.buildCandidateResult.cantBuildReason =
+            BuildTool.getPlacementFailureReason(placementFailure);
+          changed = true;
+        }
+      }
+    }
+
+    if (changed) this.appRef.tick();
+  }
+
+  // Buildings that are in the way are skipped
+  buildPaste() {
+    let blueprint = this.blueprintService.blueprint;
+
+    this.blueprintService.history.beginTransaction();
+    blueprint.pauseChangeEvents();
+    for (let item of this.pasteItems) {
+      if (!item.buildCandidateResult.canBuild) continue;
+
+      let newItem = BlueprintHelpers.cloneBlueprintItem(item, true, true);
+      newItem.prepareBoundingBox();
+      blueprint.addBlueprintItem(newItem);
+      this.buildMirror(newItem);
+    }
+    blueprint.resumeChangeEvents();
+    this.blueprintService.history.endTransaction();
+
+    blueprint.refreshOverlayInfo();
+    this.updatePasteCandidateResults();
+  }
+
+  // Tiles of the shape being built, for every build mode but drag
+  buildMode: BuildMode = BuildMode.Drag;
+  shapeItems: BlueprintItem[] = null;
+  private shapeStart: Vector2 = null;
+
+  // Only the buildings the game lets you drag can be built in shapes
+  get canBuildShapes() {
+    return (
+      this.templateItemToBuild != null &&
+      (this.templateItemToBuild.oniItem.dragBuild ||
+        this.templateItemToBuild.oniItem.isElement)
+    );
+  }
+
+  private get isBuildingShapes() {
+    return (
+      this.buildMode != BuildMode.Drag &&
+      this.pasteItems == null &&
+      this.canBuildShapes
+    );
+  }
+
+  changeBuildMode(buildMode: BuildMode) {
+    this.destroyShapeItems();
+    this.buildMode = buildMode;
+  }
+
+  private getShapePositions(tile: Vector2): Vector2[] {
+    switch (this.buildMode) {
+      case BuildMode.Line:
+        return BuildShapes.line(this.shapeStart, tile);
+      case BuildMode.Rectangle:
+        return BuildShapes.rectangle(this.shapeStart, tile, false);
+      case BuildMode.FilledRectangle:
+        return BuildShapes.rectangle(this.shapeStart, tile, true);
+      case BuildMode.FloodFill:
+        return BuildShapes.floodFill(
+          this.blueprintService.blueprint,
+          tile,
+          this.templateItemToBuild
         );
-      let itemsCurrent = this.blueprintService.blueprint
-        .getBlueprintItemsAt(tileStop)
-        .filter(
-          (i) =>
-            i.oniItem.objectLayer ==
-            this.templateItemToBuild.oniItem.objectLayer
+    }
+  }
+
+  private updateShape(tile: Vector2) {
+    let positions = this.getShapePositions(tile);
+
+    // An open area can't be filled, the candidate shows why
+    if (positions == undefined) {
+      this.destroyShapeItems();
+      this.templateItemToBuild.position = Vector2.clone(tile);
+      this.templateItemToBuild.prepareBoundingBox();
+      this.checkBuildCandidate(this.templateItemToBuild);
+      this.templateItemToBuild.buildCandidateResult.canBuild = false;
+      this.templateItemToBuild.buildCandidateResult.cantBuildReason = $localize`Can\'t fill here : The area is not closed`;
+      this.appRef.tick();
+      return;
+    }
+
+    this.templateItemToBuild.setInvisible();
+
+    // The previous candidates are reused, a fill can have a lot of them
+    if (this.shapeItems == null) this.shapeItems = [];
+    while (this.shapeItems.length > positions.length)
+      this.shapeItems.pop().destroy();
+    while (this.shapeItems.length < positions.length) {
+      let item = BlueprintHelpers.cloneBlueprintItem(
+        this.templateItemToBuild,
+        false,
+        true
+      );
+      item.isBuildCandidate = true;
+      item.alpha = 1;
+      this.shapeItems.push(item);
+    }
+
+    let connections = BuildShapes.getConnections(positions);
+    for (let index = 0; index < positions.length; index++) {
+      let item = this.shapeItems[index];
+      item.position = positions[index];
+      if (item.oniItem.isWire)
+        (item as BlueprintItemWire).connections = connections[index];
+      item.prepareBoundingBox();
+    }
+
+    this.updateShapeCandidateResults();
+  }
+
+  private updateShapeCandidateResults() {
+    // Candidates are also in the way of the next ones
+    let shape = new Blueprint();
+    shape.pauseChangeEvents();
+
+    let changed = false;
+    for (let item of this.shapeItems) {
+      changed = this.checkBuildCandidate(item) || changed;
+      if (!item.buildCandidateResult.canBuild) continue;
+
+      let inTheWay = item.tileIndexes
+        .map((tileIndex) => shape.getBlueprintItemsAtIndex(tileIndex))
+        .find(
+          (itemsAtTile) =>
+            itemsAtTile.find(
+              (other) => other.oniItem.objectLayer == item.oniItem.objectLayer
+            ) != undefined
         );
+      if (inTheWay != undefined) {
+        item.buildCandidateResult.canBuild = false;
+        item.buildCandidateResult.cantBuildReason = $localize`Can\'t build here : ${item.oniItem.name} is in the way`;
+        changed = true;
+      } else shape.addBlueprintItem(item);
+    }
+
+    for (let item of this.shapeItems) item.updateTileables(shape);
+
+    if (changed) this.appRef.tick();
+  }
 
-      if (
-        itemsPrevious != null &&
-        itemsPrevious.length > 0 &&
-        itemsCurrent != null &&
-        itemsCurrent.length > 0
-      ) {
-        let itemPrevious = itemsPrevious[0] as BlueprintItemWire;
-        let itemCurrent = itemsCurrent[0] as BlueprintItemWire;
-
-        this.connectAToB(itemPrevious, itemCurrent);
-        this.connectAToB(itemCurrent, itemPrevious);
-        itemPrevious.updateTileables(this.blueprintService.blueprint);
-        itemCurrent.updateTileables(this.blueprintService.blueprint);
-
-        this.blueprintService.blueprint.emitBlueprintChanged();
+  // Tiles that can't be built are skipped
+  buildShape() {
+    let blueprint = this.blueprintService.blueprint;
+
+    if (this.shapeItems != null) {
+      this.blueprintService.history.beginTransaction();
+      blueprint.pauseChangeEvents();
+      for (let item of this.shapeItems) {
+        if (!item.buildCandidateResult.canBuild) continue;
+
+        let newItem = BlueprintHelpers.cloneBlueprintItem(item, true, true);
+        newItem.prepareBoundingBox();
+        blueprint.addBlueprintItem(newItem);
+        this.buildMirror(newItem);
       }
+      blueprint.resumeChangeEvents();
+      this.blueprintService.history.endTransaction();
+
+      blueprint.refreshOverlayInfo();
     }
+
+    this.destroyShapeItems();
+  }
+
+  private destroyShapeItems() {
+    this.shapeStart = null;
+    if (this.shapeItems == null) return;
+
+    for (let item of this.shapeItems) item.destroy();
+    this.shapeItems = null;
   }
 
   // Tool interface :
   switchFrom() {
-    this.templateItemToBuild.destroy();
+    this.destroyPasteItems();
+    this.destroyShapeItems();
+    if (this.templateItemToBuild != null) this.templateItemToBuild.destroy();
   }
 
   switchTo() {
@@ -224,11 +552,26 @@ export class BuildTool implements ITool {
   }
 
   mouseOut() {
+    if (this.pasteItems != null) this.movePasteItems(null);
+    this.destroyShapeItems();
     if (this.templateItemToBuild != null)
       this.templateItemToBuild.setInvisible();
   }
 
   leftClick(tile: Vector2) {
+    if (this.pasteItems != null) {
+      this.buildPaste();
+      return;
+    }
+
+    // Without a drag, lines and rectangles are a single tile
+    if (this.isBuildingShapes) {
+      if (this.buildMode == BuildMode.FloodFill) this.updateShape(tile);
+      if (this.shapeItems != null) this.buildShape();
+      if (this.buildMode == BuildMode.FloodFill) this.updateShape(tile);
+      return;
+    }
+
     this.templateItemToBuild.position = tile;
     this.build();
   }
@@ -238,6 +581,18 @@ export class BuildTool implements ITool {
   }
 
   hover(tile: Vector2) {
+    if (this.pasteItems != null) {
+      this.movePasteItems(tile);
+      return;
+    }
+
+    // The fill is shown before clicking, the other shapes while dragging
+    if (this.isBuildingShapes && this.buildMode == BuildMode.FloodFill) {
+      this.updateShape(tile);
+      return;
+    }
+    if (this.isBuildingShapes && this.shapeStart != null) return;
+
     this.templateItemToBuild.position = Vector2.clone(tile);
     this.templateItemToBuild.prepareBoundingBox();
     this.templateItemToBuild.sortChildren();
@@ -245,17 +600,42 @@ export class BuildTool implements ITool {
   }
 
   drag(tileStart: Vector2, tileStop: Vector2) {
-    if (tileStart == null || tileStop == null) return;
+    if (tileStart == null || tileStop == null || this.pasteItems != null)
+      return;
+
+    if (this.isBuildingShapes) {
+      if (this.shapeStart != null)
+        this.updateShape(DrawHelpers.getIntegerTile(tileStop));
+      return;
+    }
 
     let tileStartInt = DrawHelpers.getIntegerTile(tileStart);
     let tileStopInt = DrawHelpers.getIntegerTile(tileStop);
 
     // Only drag if we are changing tiles
-    if (!tileStartInt.equals(tileStopInt))
+    if (!tileStartInt.equals(tileStopInt)) {
+      // Everything built during a drag is undone at once
+      if (!this.dragging) {
+        this.dragging = true;
+        this.blueprintService.history.beginTransaction();
+      }
+
       this.dragStepByStep(tileStart, tileStop);
+    }
   }
 
   mouseDown(tile: Vector2) {
+    // Pasted items are only built on click
+    if (this.pasteItems != null) return;
+
+    if (this.isBuildingShapes) {
+      if (this.buildMode != BuildMode.FloodFill) {
+        this.shapeStart = Vector2.clone(tile);
+        this.updateShape(tile);
+      }
+      return;
+    }
+
     this.templateItemToBuild.position = tile;
     this.build();
   }
@@ -394,15 +774,25 @@ export class BuildTool implements ITool {
     }
   }
 
+  private dragging: boolean = false;
   dragStop() {
-    // required for type
+    if (this.isBuildingShapes && this.buildMode != BuildMode.FloodFill)
+      this.buildShape();
+
+    if (this.dragging) {
+      this.dragging = false;
+      this.blueprintService.history.endTransaction();
+    }
   }
 
-  keyDown(keyCode: string) {
-    if (keyCode == "o") {
-      if (this.templateItemToBuild != null) {
+  keyDown(keyCode: string) {}
+
+  keyAction(action: KeyAction) {
+    if (action == KeyAction.Rotate) {
+      if (this.templateItemToBuild != null && this.pasteItems == null) {
         this.templateItemToBuild.nextOrientation();
         this.updateBuildCandidateResult();
+        this.destroyShapeItems();
       }
     }
   }
@@ -412,7 +802,11 @@ export class BuildTool implements ITool {
     //if (this.canBuild()) this.templateItemToBuild.drawPart.tint = DrawHelpers.whiteColor;
     //else this.templateItemToBuild.drawPart.tint = 0xD40000;
 
-    this.templateItemToBuild.drawPixi(camera, drawPixi);
+    if (this.pasteItems != null)
+      for (let item of this.pasteItems) item.drawPixi(camera, drawPixi);
+    else if (this.shapeItems != null)
+      for (let item of this.shapeItems) item.drawPixi(camera, drawPixi);
+    else this.templateItemToBuild.drawPixi(camera, drawPixi);
     // TODO correct red and alpha when building outside of overlay
   }
 
@@ -423,6 +817,14 @@ export class BuildTool implements ITool {
   toolGroup: number = 1;
 }
 
+export enum BuildMode {
+  Drag,
+  Line,
+  Rectangle,
+  FilledRectangle,
+  FloodFill,
+}
+
 export interface IObsBuildItemChanged {
   itemChanged(templateItem: BlueprintItem);
 }
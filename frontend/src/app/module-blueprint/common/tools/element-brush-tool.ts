@@ -0,0 +1,290 @@
+import { BlueprintService } from "../../services/blueprint-service";
+import {
+  BlueprintHelpers,
+  BlueprintItemElement,
+  BrushGradient,
+  BuildShapes,
+  CameraService,
+  DrawHelpers,
+  ElementBrush,
+  ElementPaint,
+  KeyAction,
+  OniItem,
+  Vector2,
+} from "../../../../../../lib/index";
+import { Injectable, ApplicationRef } from "@angular/core";
+import { ITool, IChangeTool, ToolType } from "./tool";
+import { DrawPixi } from "../../drawing/draw-pixi";
+
+export enum BrushMode {
+  brush,
+  rectangle,
+  eraser,
+}
+
+// Paints element cells with a round brush or in rectangles, and erases them.
+// In rectangles, the mass or the temperature can go from one value to another along the drag
+@Injectable()
+export class ElementBrushTool implements ITool {
+  mode: BrushMode = BrushMode.brush;
+  radius: number = 1;
+  gradient: BrushGradient = BrushGradient.None;
+
+  // Holds the element, mass and temperature painted, and the ones at the end of the gradient
+  paint: BlueprintItemElement = null;
+  gradientEnd: BlueprintItemElement = null;
+
+  hoverTile: Vector2 = null;
+  // Start and end of the rectangle being dragged
+  start: Vector2 = null;
+  end: Vector2 = null;
+  // A brush stroke is recorded as a single change in the history
+  private stroking: boolean = false;
+  private lastStrokeTile: Vector2 = null;
+
+  parent: IChangeTool;
+
+  constructor(
+    private blueprintService: BlueprintService,
+    private appRef: ApplicationRef
+  ) {}
+
+  get tooBig() {
+    return (
+      this.start != null &&
+      (Math.abs(this.end.x - this.start.x) + 1) *
+        (Math.abs(this.end.y - this.start.y) + 1) >
+        ElementBrush.maxTiles
+    );
+  }
+
+  // The elements are not loaded yet when the tool is created
+  private createPaint() {
+    if (this.paint != null) return;
+
+    this.paint = BlueprintHelpers.createInstance(
+      OniItem.elementId
+    ) as BlueprintItemElement;
+    this.paint.setElement("Oxygen", 0);
+    this.paint.mass = 1;
+    this.paint.cleanUp();
+
+    this.gradientEnd = BlueprintHelpers.createInstance(
+      OniItem.elementId
+    ) as BlueprintItemElement;
+    this.gradientEnd.setElement("Oxygen", 0);
+    this.gradientEnd.mass = 2;
+    this.gradientEnd.cleanUp();
+  }
+
+  setMode(mode: BrushMode) {
+    this.cancel();
+    this.mode = mode;
+  }
+
+  private get canPaint() {
+    return this.blueprintService.blueprint.layers.isItemEditable(this.paint);
+  }
+
+  private cancel() {
+    this.endStroke();
+    this.start = null;
+    this.end = null;
+  }
+
+  private getBrushTiles(tile: Vector2) {
+    return ElementBrush.disc(tile, this.radius);
+  }
+
+  private getPaints(positions: Vector2[]): ElementPaint[] {
+    let gradientEnd: number = undefined;
+    if (this.gradient == BrushGradient.Mass)
+      gradientEnd = this.gradientEnd.mass;
+    else if (this.gradient == BrushGradient.Temperature)
+      gradientEnd = this.gradientEnd.temperature;
+
+    return ElementBrush.getPaints(
+      positions,
+      this.paint.mass,
+      this.paint.temperature,
+      this.mode == BrushMode.rectangle ? this.gradient : BrushGradient.None,
+      this.start,
+      this.end,
+      gradientEnd
+    );
+  }
+
+  // Every paint of a stroke goes in the same history command
+  private beginStroke() {
+    this.stroking = true;
+    this.blueprintService.history.beginTransaction();
+  }
+
+  private endStroke() {
+    if (!this.stroking) return;
+
+    this.stroking = false;
+    this.lastStrokeTile = null;
+    this.blueprintService.history.endTransaction();
+  }
+
+  private apply(positions: Vector2[]) {
+    let blueprint = this.blueprintService.blueprint;
+
+    blueprint.pauseChangeEvents();
+    if (this.mode == BrushMode.eraser) ElementBrush.erase(blueprint, positions);
+    else
+      this.blueprintService.history.markModified(
+        ElementBrush.paint(
+          blueprint,
+          this.paint.buildableElements[0].id,
+          this.getPaints(positions)
+        )
+      );
+    blueprint.resumeChangeEvents();
+  }
+
+  private strokeAt(tile: Vector2) {
+    if (this.lastStrokeTile != null && this.lastStrokeTile.equals(tile)) return;
+
+    this.lastStrokeTile = Vector2.clone(tile);
+    this.apply(this.getBrushTiles(tile));
+  }
+
+  // Tool interface :
+  switchFrom() {
+    this.cancel();
+    this.hoverTile = null;
+  }
+
+  switchTo() {
+    this.createPaint();
+    this.cancel();
+    CameraService.cameraService.setOverlayForItem(this.paint.oniItem);
+  }
+
+  mouseOut() {
+    this.hoverTile = null;
+  }
+
+  mouseDown(tile: Vector2) {
+    if (!this.canPaint) return;
+
+    if (this.mode == BrushMode.rectangle) {
+      this.start = Vector2.clone(tile);
+      this.end = Vector2.clone(tile);
+    } else {
+      this.beginStroke();
+      this.strokeAt(tile);
+    }
+
+    this.appRef.tick();
+  }
+
+  leftClick(tile: Vector2) {}
+
+  rightClick(tile: Vector2) {
+    if (this.start != null) this.cancel();
+    else this.parent.changeTool(ToolType.select);
+  }
+
+  hover(tile: Vector2) {
+    this.hoverTile = Vector2.clone(tile);
+  }
+
+  drag(tileStart: Vector2, tileStop: Vector2) {
+    let stopTile = DrawHelpers.getIntegerTile(tileStop);
+    this.hoverTile = stopTile;
+
+    if (this.stroking) this.strokeAt(stopTile);
+    else if (this.start != null && !this.end.equals(stopTile)) {
+      this.end = stopTile;
+
+      // The mouse events are outside the angular zone
+      this.appRef.tick();
+    }
+  }
+
+  // Called for every mouse button released, and when the mouse leaves the canvas
+  dragStop() {
+    this.endStroke();
+    if (this.start == null) return;
+
+    if (!this.tooBig) {
+      this.blueprintService.history.beginTransaction();
+      this.apply(BuildShapes.rectangle(this.start, this.end, true));
+      this.blueprintService.history.endTransaction();
+    }
+
+    this.start = null;
+    this.end = null;
+    this.appRef.tick();
+  }
+
+  keyDown(keyCode: string) {
+    if (keyCode == "Escape") this.cancel();
+  }
+
+  keyAction(action: KeyAction) {}
+
+  draw(drawPixi: DrawPixi, camera: CameraService) {
+    if (this.paint == null) return;
+
+    let positions: Vector2[] = [];
+    if (this.start != null) {
+      if (!this.tooBig)
+        positions = BuildShapes.rectangle(this.start, this.end, true);
+    } else if (this.hoverTile != null && this.mode != BrushMode.rectangle)
+      positions = this.getBrushTiles(this.hoverTile);
+    else if (this.hoverTile != null) positions = [this.hoverTile];
+
+    let uiColor = this.paint.buildableElements[0].uiColor;
+    let paints = this.getPaints(positions);
+    let maxMass = Math.max(this.paint.mass, this.gradientEnd.mass, 1);
+
+    for (let paint of paints) {
+      let color = this.mode == BrushMode.eraser ? 0xff0000 : uiColor;
+      let alpha = 0.4;
+
+      // The preview shows the gradient being dragged
+      if (this.start != null && this.mode == BrushMode.rectangle) {
+        if (this.gradient == BrushGradient.Temperature)
+          color = DrawHelpers.temperatureToColor(paint.temperature);
+        else if (this.gradient == BrushGradient.Mass)
+          alpha = 0.1 + (0.6 * paint.mass) / maxMass;
+      }
+
+      drawPixi.drawTileRectangle(
+        camera,
+        paint.position,
+        new Vector2(paint.position.x + 1, paint.position.y - 1),
+        true,
+        0,
+        color,
+        color,
+        alpha,
+        0
+      );
+    }
+
+    if (
+      this.start != null &&
+      this.mode == BrushMode.rectangle &&
+      this.gradient != BrushGradient.None
+    )
+      drawPixi.drawTileLine(
+        camera,
+        new Vector2(this.start.x + 0.5, this.start.y - 0.5),
+        new Vector2(this.end.x + 0.5, this.end.y - 0.5),
+        2,
+        0xffffff,
+        1
+      );
+  }
+
+  toggleable: boolean = false;
+  visible: boolean = false;
+  captureInput: boolean = true;
+  toolType = ToolType.elementBrush;
+  toolGroup: number = 1;
+}
@@ -1,66 +1,61 @@
 import { BlueprintService } from "../../services/blueprint-service";
 import { Injectable } from "@angular/core";
 import {
-  BlueprintItemElement,
+  BillOfMaterials,
   BlueprintItem,
   IObsBlueprintChange,
   DrawHelpers,
   BuildableElement,
 } from "../../../../../../lib/index";
+import { IObsSelectionChanged, SelectTool } from "./select-tool";
 
 @Injectable()
-export class ElementReport implements IObsBlueprintChange {
+export class ElementReport
+  implements IObsBlueprintChange, IObsSelectionChanged
+{
   data: ElementReportDataItem[];
+  billOfMaterials: BillOfMaterials;
 
-  constructor(private blueprintService: BlueprintService) {
+  // Only count the buildings currently selected with the select tool
+  private selectionOnly_: boolean = false;
+  get selectionOnly() {
+    return this.selectionOnly_;
+  }
+  set selectionOnly(value: boolean) {
+    this.selectionOnly_ = value;
+    this.updateElementReport();
+  }
+
+  constructor(
+    private blueprintService: BlueprintService,
+    private selectTool: SelectTool
+  ) {
     this.data = [];
+    this.billOfMaterials = new BillOfMaterials();
 
     this.blueprintService.blueprint.subscribeBlueprintChanged(this);
+    this.selectTool.subscribeSelectionChanged(this);
   }
 
   updateElementReport() {
-    this.data = [];
+    let items: BlueprintItem[] = this.selectionOnly
+      ? this.selectTool.selectedItems
+      : this.blueprintService.blueprint.blueprintItems;
 
-    this.blueprintService.blueprint.blueprintItems.map((item) => {
-      if (item.oniItem.isElement)
-        this.addElementToReport(
-          item.buildableElements[0],
-          (item as BlueprintItemElement).mass
-        );
-      else
-        for (
-          let elementIndex = 0;
-          elementIndex < item.oniItem.buildableElementsArray.length;
-          elementIndex++
-        ) {
-          this.addElementToReport(
-            item.buildableElements[elementIndex],
-            item.oniItem.materialMass[elementIndex]
-          );
-        }
-    });
+    this.billOfMaterials = BillOfMaterials.fromItems(items);
 
-    this.data = this.data.sort((i1, i2) => {
-      return i2.totalMass - i1.totalMass;
+    this.data = this.billOfMaterials.elements.map((material) => {
+      return {
+        buildableElement: material.buildableElement,
+        colorString: DrawHelpers.colorToHex(material.buildableElement.color),
+        totalMass: material.mass,
+      };
     });
   }
 
-  private addElementToReport(buildableElement: BuildableElement, mass: number) {
-    let alreadyPresent = false;
-    this.data.map((dataItem) => {
-      if (dataItem.buildableElement == buildableElement) {
-        alreadyPresent = true;
-        dataItem.totalMass += mass;
-      }
-    });
-
-    if (!alreadyPresent) {
-      this.data.push({
-        buildableElement: buildableElement,
-        colorString: DrawHelpers.colorToHex(buildableElement.color),
-        totalMass: mass,
-      });
-    }
+  // Selection Change interface
+  selectionChanged() {
+    if (this.selectionOnly) this.updateElementReport();
   }
 
   // Blueprint Change interface
@@ -0,0 +1,124 @@
+import { BlueprintService } from "../../services/blueprint-service";
+import { Injectable } from "@angular/core";
+import {
+  BlueprintItem,
+  CameraService,
+  IObsBlueprintChange,
+  Overlay,
+  PipeFlow,
+  PipeNetworkFlow,
+  PipeSegmentFlow,
+  Vector2,
+} from "../../../../../../lib/index";
+import { DrawPixi } from "../../drawing/draw-pixi";
+
+@Injectable()
+export class FlowReport implements IObsBlueprintChange {
+  // The report follows the liquid and gas overlays
+  get visible() {
+    if (CameraService.cameraService == null) return false;
+    else return PipeFlow.overlays.indexOf(this.overlay) != -1;
+  }
+
+  get overlay() {
+    if (CameraService.cameraService == null) return null;
+    else return CameraService.cameraService.overlay;
+  }
+
+  // Pipes colored by how full they are
+  heatmap: boolean = true;
+
+  // Only recomputed when read after a change, or on the other pipe overlay
+  private dirty: boolean = true;
+  private dataOverlay: Overlay = null;
+  private data_: PipeNetworkFlow[] = [];
+  get data() {
+    if (this.dirty || this.dataOverlay != this.overlay) this.updateFlowReport();
+    return this.data_;
+  }
+
+  constructor(private blueprintService: BlueprintService) {
+    this.blueprintService.blueprint.subscribeBlueprintChanged(this);
+  }
+
+  updateFlowReport() {
+    this.dataOverlay = this.overlay;
+    this.data_ = PipeFlow.analyzeOverlay(
+      this.blueprintService.blueprint,
+      this.dataOverlay
+    );
+
+    // Networks with problems first, then the busiest
+    this.data_ = this.data_.sort((f1, f2) => {
+      let problems1 = FlowReport.getProblemCount(f1);
+      let problems2 = FlowReport.getProblemCount(f2);
+      if (problems1 != problems2) return problems2 - problems1;
+      return f2.throughput - f1.throughput;
+    });
+
+    this.dirty = false;
+  }
+
+  draw(drawPixi: DrawPixi, camera: CameraService) {
+    if (!this.heatmap) return;
+
+    for (let networkFlow of this.data)
+      for (let segmentFlow of networkFlow.segments) {
+        let segment = segmentFlow.segment;
+        let color = FlowReport.getLoadColor(segmentFlow);
+
+        // Bridges are drawn from one end to the other
+        if (segment.oniItem.isBridge) {
+          let ends = segment.oniItem.utilityConnections.map((connection) =>
+            segment.getConnectionPosition(connection)
+          );
+          if (ends.length == 2)
+            drawPixi.drawTileLine(
+              camera,
+              new Vector2(ends[0].x + 0.5, ends[0].y - 0.5),
+              new Vector2(ends[1].x + 0.5, ends[1].y - 0.5),
+              3,
+              color,
+              0.8
+            );
+        } else
+          drawPixi.drawTileRectangle(
+            camera,
+            segment.position,
+            new Vector2(segment.position.x + 1, segment.position.y - 1),
+            false,
+            segmentFlow.backedUp ? 2 : 0,
+            color,
+            FlowReport.backedUpColor,
+            0.4,
+            segmentFlow.backedUp ? 0.9 : 0
+          );
+      }
+  }
+
+  static backedUpColor: number = 0xd32f2f;
+
+  static getLoadColor(segmentFlow: PipeSegmentFlow): number {
+    if (segmentFlow.load <= PipeFlow.epsilon) return 0xaaaaaa;
+    else if (segmentFlow.load < 0.5) return 0x4cff00;
+    else if (segmentFlow.load < 0.9) return 0xffd000;
+    else return 0xff6a00;
+  }
+
+  static getProblemCount(networkFlow: PipeNetworkFlow) {
+    return (
+      networkFlow.starvedConsumers.length + networkFlow.backedUpSegments.length
+    );
+  }
+
+  // Blueprint Change interface
+  itemDestroyed() {
+    this.dirty = true;
+  }
+  itemAdded(blueprintItem: BlueprintItem) {
+    this.dirty = true;
+  }
+  blueprintChanged() {
+    this.dirty = true;
+  }
+}
@@ -0,0 +1,273 @@
+import { BlueprintService } from "../../services/blueprint-service";
+import {
+  BlueprintItem,
+  CameraService,
+  IObsBlueprintChange,
+  KeyAction,
+  LogicSimulator,
+  NetworkPort,
+  Overlay,
+  Vector2,
+} from "../../../../../../lib/index";
+import { Injectable, ApplicationRef } from "@angular/core";
+import { ITool, IChangeTool, ToolType } from "./tool";
+import { DrawPixi } from "../../drawing/draw-pixi";
+
+// Runs the automation networks of the blueprint : sensors are switched by clicking them,
+// and the wires show their signal while the simulation plays or is stepped
+@Injectable()
+export class LogicSimulatorTool implements ITool, IObsBlueprintChange {
+  static green: number = 0x6bd384;
+  static red: number = 0xe05b5b;
+
+  simulator: LogicSimulator = null;
+  playing: boolean = false;
+
+  // Building under the mouse, its ports are listed in the panel
+  hovered: BlueprintItem = null;
+
+  parent: IChangeTool;
+
+  private interval: any = null;
+  // The networks are only analyzed again when the simulation is used after a change
+  private dirty: boolean = false;
+
+  constructor(
+    private blueprintService: BlueprintService,
+    private appRef: ApplicationRef
+  ) {
+    this.blueprintService.blueprint.subscribeBlueprintChanged(this);
+  }
+
+  get seconds() {
+    if (this.simulator == null) return 0;
+    else return this.simulator.tick / LogicSimulator.ticksPerSecond;
+  }
+
+  get hoveredPorts(): NetworkPort[] {
+    if (this.simulator == null || this.hovered == null) return [];
+
+    let gate = this.simulator.getGate(this.hovered);
+    if (gate == undefined) return [];
+    else return gate.ports;
+  }
+
+  play() {
+    if (this.playing) return;
+
+    this.playing = true;
+    this.interval = setInterval(() => {
+      this.step();
+    }, 1000 / LogicSimulator.ticksPerSecond);
+  }
+
+  pause() {
+    if (!this.playing) return;
+
+    this.playing = false;
+    clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  step() {
+    this.update();
+    this.simulator.step();
+  }
+
+  reset() {
+    this.pause();
+    this.update();
+    this.simulator.reset();
+  }
+
+  private update() {
+    if (this.simulator == null)
+      this.simulator = new LogicSimulator(this.blueprintService.blueprint);
+    else if (this.dirty) this.simulator.analyze();
+
+    this.dirty = false;
+  }
+
+  // Tool interface :
+  switchFrom() {
+    this.pause();
+    this.hovered = null;
+  }
+
+  switchTo() {
+    this.update();
+    CameraService.cameraService.overlay = Overlay.Automation;
+  }
+
+  mouseOut() {
+    this.hovered = null;
+  }
+
+  mouseDown(tile: Vector2) {}
+
+  leftClick(tile: Vector2) {
+    this.update();
+
+    let manual = this.blueprintService.blueprint
+      .getBlueprintItemsAt(tile)
+      .find((item) => this.simulator.isManual(item));
+    if (manual == undefined) return;
+
+    this.simulator.toggleOutput(manual);
+
+    // The mouse events are outside the angular zone
+    this.appRef.tick();
+  }
+
+  rightClick(tile: Vector2) {
+    this.parent.changeTool(ToolType.select);
+  }
+
+  hover(tile: Vector2) {
+    if (this.simulator == null) return;
+
+    let hovered = this.blueprintService.blueprint
+      .getBlueprintItemsAt(tile)
+      .find((item) => this.simulator.getGate(item) != undefined);
+
+    if (hovered == undefined) hovered = null;
+    if (hovered != this.hovered) {
+      this.hovered = hovered;
+      this.appRef.tick();
+    }
+  }
+
+  drag(tileStart: Vector2, tileStop: Vector2) {}
+
+  dragStop() {}
+
+  keyDown(keyCode: string) {
+    if (keyCode == " ") {
+      if (this.playing) this.pause();
+      else this.play();
+    }
+  }
+
+  keyAction(action: KeyAction) {}
+
+  draw(drawPixi: DrawPixi, camera: CameraService) {
+    if (this.simulator == null) return;
+    this.update();
+
+    for (let network of this.simulator.analysis.networks) {
+      let value = this.simulator.getNetworkValue(network);
+
+      for (let segment of network.segments) {
+        let ribbon = LogicSimulator.isRibbonSegment(segment);
+
+        // Bridges are drawn from one end to the other
+        if (segment.oniItem.isBridge) {
+          let ends = segment.oniItem.utilityConnections.map((connection) =>
+            segment.getConnectionPosition(connection)
+          );
+          if (ends.length == 2)
+            drawPixi.drawTileLine(
+              camera,
+              new Vector2(ends[0].x + 0.5, ends[0].y - 0.5),
+              new Vector2(ends[1].x + 0.5, ends[1].y - 0.5),
+              3,
+              LogicSimulatorTool.getColor(ribbon ? value : value & 1),
+              0.8
+            );
+        } else if (ribbon)
+          this.drawRibbon(drawPixi, camera, segment.position, value);
+        else this.drawTile(drawPixi, camera, segment.position, value & 1);
+      }
+    }
+
+    // Ports show what they write or read
+    for (let gate of this.simulator.gates)
+      for (let port of gate.ports) {
+        let value = this.simulator.getPortValue(port);
+        let position = port.position;
+        let color = LogicSimulatorTool.getColor(value);
+
+        drawPixi.drawTileRectangle(
+          camera,
+          new Vector2(position.x + 0.3, position.y - 0.3),
+          new Vector2(position.x + 0.7, position.y - 0.7),
+          true,
+          gate.blueprintItem == this.hovered ? 2 : 1,
+          color,
+          0xffffff,
+          0.9,
+          0.8
+        );
+      }
+  }
+
+  // The four bits of a ribbon side by side
+  private drawRibbon(
+    drawPixi: DrawPixi,
+    camera: CameraService,
+    position: Vector2,
+    value: number
+  ) {
+    for (let bit = 0; bit < 4; bit++) {
+      let color = LogicSimulatorTool.getColor(
+        LogicSimulator.isBitActive(value, bit) ? 1 : 0
+      );
+
+      drawPixi.drawTileRectangle(
+        camera,
+        new Vector2(position.x + bit * 0.25, position.y),
+        new Vector2(position.x + (bit + 1) * 0.25, position.y - 1),
+        true,
+        0,
+        color,
+        color,
+        0.5,
+        0
+      );
+    }
+  }
+
+  private drawTile(
+    drawPixi: DrawPixi,
+    camera: CameraService,
+    position: Vector2,
+    value: number
+  ) {
+    let color = LogicSimulatorTool.getColor(value);
+
+    drawPixi.drawTileRectangle(
+      camera,
+      position,
+      new Vector2(position.x + 1, position.y - 1),
+      true,
+      0,
+      color,
+      color,
+      0.4,
+      0
+    );
+  }
+
+  static getColor(value: number) {
+    return value != 0 ? LogicSimulatorTool.green : LogicSimulatorTool.red;
+  }
+
+  // Blueprint Change interface
+  itemDestroyed() {
+    this.dirty = true;
+    this.hovered = null;
+  }
+  itemAdded(blueprintItem: BlueprintItem) {
+    this.dirty = true;
+  }
+  blueprintChanged() {
+    this.dirty = true;
+    this.hovered = null;
+  }
+
+  toggleable: boolean = false;
+  visible: boolean = false;
+  captureInput: boolean = true;
+  toolType = ToolType.logicSimulator;
+  toolGroup: number = 1;
+}
@@ -0,0 +1,203 @@
+import { BlueprintService } from "../../services/blueprint-service";
+import {
+  BoxMeasure,
+  CameraService,
+  DrawHelpers,
+  KeyAction,
+  Measurement,
+  RulerMeasure,
+  Vector2,
+} from "../../../../../../lib/index";
+import { Injectable, ApplicationRef } from "@angular/core";
+import { ITool, IChangeTool, ToolType } from "./tool";
+import { DrawPixi } from "../../drawing/draw-pixi";
+import {} from "pixi.js-legacy";
+
+export enum MeasureMode {
+  ruler,
+  box,
+}
+
+// Drag between two tiles to measure them. The measurement stays on screen,
+// and on the exported images, until the next one
+@Injectable()
+export class MeasureTool implements ITool {
+  mode: MeasureMode = MeasureMode.ruler;
+
+  start: Vector2 = null;
+  end: Vector2 = null;
+  ruler: RulerMeasure = null;
+  box: BoxMeasure = null;
+
+  parent: IChangeTool;
+
+  constructor(
+    private blueprintService: BlueprintService,
+    private appRef: ApplicationRef
+  ) {}
+
+  setMode(mode: MeasureMode) {
+    this.mode = mode;
+    this.measure();
+  }
+
+  reset() {
+    this.start = null;
+    this.end = null;
+    this.ruler = null;
+    this.box = null;
+  }
+
+  private measure() {
+    this.ruler = null;
+    this.box = null;
+    if (this.start == null || this.end == null) return;
+
+    if (this.mode == MeasureMode.ruler)
+      this.ruler = Measurement.ruler(this.start, this.end);
+    else
+      this.box = Measurement.box(
+        this.blueprintService.blueprint,
+        this.start,
+        this.end
+      );
+  }
+
+  // Tool interface :
+  switchFrom() {
+    this.reset();
+  }
+
+  switchTo() {
+    this.reset();
+  }
+
+  mouseOut() {}
+
+  // The measurement starts where the mouse is pressed
+  mouseDown(tile: Vector2) {
+    this.start = Vector2.clone(tile);
+    this.end = Vector2.clone(tile);
+    this.measure();
+    this.appRef.tick();
+  }
+
+  leftClick(tile: Vector2) {}
+
+  rightClick(tile: Vector2) {
+    if (this.start != null) this.reset();
+    else this.parent.changeTool(ToolType.select);
+  }
+
+  hover(tile: Vector2) {}
+
+  drag(tileStart: Vector2, tileStop: Vector2) {
+    let stopTile = DrawHelpers.getIntegerTile(tileStop);
+    if (this.start == null || this.end.equals(stopTile)) return;
+
+    this.end = stopTile;
+    this.measure();
+
+    // The mouse events are outside the angular zone
+    this.appRef.tick();
+  }
+
+  dragStop() {}
+
+  keyDown(keyCode: string) {
+    if (keyCode == "Escape") this.reset();
+  }
+
+  keyAction(action: KeyAction) {}
+
+  draw(drawPixi: DrawPixi, camera: CameraService) {
+    this.drawMeasure(drawPixi, camera, null, null);
+  }
+
+  // Draws the measurement on an image export
+  drawExport(
+    drawPixi: DrawPixi,
+    camera: CameraService,
+    container: PIXI.Container
+  ) {
+    if (this.ruler == null && this.box == null) return;
+
+    let graphics = drawPixi.getNewGraphics();
+    graphics.zIndex = 1000;
+    container.addChild(graphics);
+
+    this.drawMeasure(drawPixi, camera, graphics, container);
+  }
+
+  private drawMeasure(
+    drawPixi: DrawPixi,
+    camera: CameraService,
+    graphics: PIXI.Graphics,
+    container: PIXI.Container
+  ) {
+    let color = 0xffff00;
+
+    if (this.ruler != null) {
+      for (let tile of [this.start, this.end])
+        drawPixi.drawTileRectangle(
+          camera,
+          tile,
+          new Vector2(tile.x + 1, tile.y - 1),
+          true,
+          2,
+          color,
+          color,
+          0.2,
+          0.8,
+          graphics
+        );
+
+      // From the center of a tile to the center of the other
+      let start = new Vector2(this.start.x + 0.5, this.start.y - 0.5);
+      let end = new Vector2(this.end.x + 0.5, this.end.y - 0.5);
+      drawPixi.drawTileLine(camera, start, end, 2, color, 1, graphics);
+
+      drawPixi.drawTileText(
+        camera,
+        new Vector2((start.x + end.x) / 2, (start.y + end.y) / 2 + 0.5),
+        $localize`dx ${this.ruler.dx}, dy ${
+          this.ruler.dy
+        } : ${this.ruler.distance.toFixed(1)} tiles`,
+        color,
+        container
+      );
+    }
+
+    if (this.box != null) {
+      drawPixi.drawTileRectangle(
+        camera,
+        this.box.topLeft,
+        new Vector2(this.box.bottomRight.x + 1, this.box.bottomRight.y - 1),
+        true,
+        2,
+        color,
+        color,
+        0.15,
+        0.8,
+        graphics
+      );
+
+      drawPixi.drawTileText(
+        camera,
+        new Vector2(
+          (this.box.topLeft.x + this.box.bottomRight.x + 1) / 2,
+          this.box.topLeft.y + 0.5
+        ),
+        $localize`${this.box.width} x ${this.box.height} : ${this.box.area} tiles`,
+        color,
+        container
+      );
+    }
+  }
+
+  toggleable: boolean = false;
+  visible: boolean = false;
+  captureInput: boolean = true;
+  toolType = ToolType.measure;
+  toolGroup: number = 1;
+}
@@ -0,0 +1,55 @@
+import { BlueprintService } from "../../services/blueprint-service";
+import { Injectable } from "@angular/core";
+import {
+  BlueprintItem,
+  CameraService,
+  CircuitBudget,
+  IObsBlueprintChange,
+  Overlay,
+  PowerBudget,
+} from "../../../../../../lib/index";
+
+@Injectable()
+export class PowerReport implements IObsBlueprintChange {
+  // The report follows the power overlay
+  get visible() {
+    if (CameraService.cameraService == null) return false;
+    else return CameraService.cameraService.overlay == Overlay.Power;
+  }
+
+  // Only recomputed when read after a change
+  private dirty: boolean = true;
+  private data_: CircuitBudget[] = [];
+  get data() {
+    if (this.dirty) this.updatePowerReport();
+    return this.data_;
+  }
+
+  constructor(private blueprintService: BlueprintService) {
+    this.blueprintService.blueprint.subscribeBlueprintChanged(this);
+  }
+
+  updatePowerReport() {
+    this.data_ = PowerBudget.analyze(this.blueprintService.blueprint);
+
+    // Circuits with warnings first, then the biggest
+    this.data_ = this.data_.sort((b1, b2) => {
+      if (b1.warnings.length != b2.warnings.length)
+        return b2.warnings.length - b1.warnings.length;
+      return b2.consumption - b1.consumption;
+    });
+
+    this.dirty = false;
+  }
+
+  // Blueprint Change interface
+  itemDestroyed() {
+    this.dirty = true;
+  }
+  itemAdded(blueprintItem: BlueprintItem) {
+    this.dirty = true;
+  }
+  blueprintChanged() {
+    this.dirty = true;
+  }
+}
@@ -0,0 +1,94 @@
+import { BlueprintService } from "../../services/blueprint-service";
+import { Injectable } from "@angular/core";
+import {
+  BlueprintItem,
+  CameraService,
+  DrawHelpers,
+  IObsBlueprintChange,
+  Overlay,
+  Room,
+  RoomDetector,
+  Vector2,
+} from "../../../../../../lib/index";
+import { DrawPixi } from "../../drawing/draw-pixi";
+
+@Injectable()
+export class RoomReport implements IObsBlueprintChange {
+  // The report follows the room overlay
+  get visible() {
+    if (CameraService.cameraService == null) return false;
+    else return CameraService.cameraService.overlay == Overlay.Room;
+  }
+
+  // Room under the mouse in the report, drawn brighter
+  highlighted: Room = null;
+
+  // Only recomputed when read after a change
+  private dirty: boolean = true;
+  private data_: Room[] = [];
+  get data() {
+    if (this.dirty) this.updateRoomReport();
+    return this.data_;
+  }
+
+  constructor(private blueprintService: BlueprintService) {
+    this.blueprintService.blueprint.subscribeBlueprintChanged(this);
+  }
+
+  updateRoomReport() {
+    this.data_ = RoomDetector.detect(this.blueprintService.blueprint);
+
+    // Rooms with something to fix first, then the biggest
+    this.data_ = this.data_.sort((r1, r2) => {
+      let fix1 = RoomReport.needsFix(r1);
+      let fix2 = RoomReport.needsFix(r2);
+      if (fix1 != fix2) return fix1 ? -1 : 1;
+      return r2.size - r1.size;
+    });
+
+    this.highlighted = null;
+    this.dirty = false;
+  }
+
+  draw(drawPixi: DrawPixi, camera: CameraService) {
+    for (let room of this.data) {
+      let fillAlpha = room == this.highlighted ? 0.5 : 0.25;
+      let color = room.valid
+        ? 0x4cff00
+        : RoomReport.needsFix(room)
+        ? 0xff9900
+        : 0xaaaaaa;
+
+      for (let tileIndex of room.tileIndexes) {
+        let position = DrawHelpers.getTilePosition(tileIndex);
+        drawPixi.drawTileRectangle(
+          camera,
+          position,
+          new Vector2(position.x + 1, position.y - 1),
+          false,
+          0,
+          color,
+          color,
+          fillAlpha,
+          0
+        );
+      }
+    }
+  }
+
+  // Rooms without a type are fine, they are just not bonus rooms
+  static needsFix(room: Room) {
+    return room.roomType != undefined && !room.valid;
+  }
+
+  // Blueprint Change interface
+  itemDestroyed() {
+    this.dirty = true;
+  }
+  itemAdded(blueprintItem: BlueprintItem) {
+    this.dirty = true;
+  }
+  blueprintChanged() {
+    this.dirty = true;
+  }
+}
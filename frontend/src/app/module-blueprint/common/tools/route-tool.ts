@@ -0,0 +1,214 @@
+import { BlueprintService } from "../../services/blueprint-service";
+import {
+  BlueprintHelpers,
+  CameraService,
+  ConnectionHelper,
+  DrawHelpers,
+  KeyAction,
+  NetworkAnalyzer,
+  OniItem,
+  UtilityConnectionTracker,
+  UtilityRoute,
+  UtilityRouter,
+  Vector2,
+} from "../../../../../../lib/index";
+import { Injectable, ApplicationRef } from "@angular/core";
+import { ITool, IChangeTool, ToolType } from "./tool";
+import { DrawPixi } from "../../drawing/draw-pixi";
+
+// Links two utility ports with a conduit : click on the first port, then on the second one
+@Injectable()
+export class RouteTool implements ITool {
+  startPort: UtilityConnectionTracker = null;
+  endPort: UtilityConnectionTracker = null;
+  conduitId: string = null;
+
+  // Route to the port under the mouse, shown before it is built
+  route: UtilityRoute = null;
+  noRoute: boolean = false;
+
+  parent: IChangeTool;
+
+  constructor(
+    private blueprintService: BlueprintService,
+    private appRef: ApplicationRef
+  ) {}
+
+  get conduitName() {
+    return this.conduitId == null
+      ? ""
+      : OniItem.getOniItem(this.conduitId).name;
+  }
+
+  reset() {
+    this.destroyRoute();
+    this.startPort = null;
+    this.endPort = null;
+    this.conduitId = null;
+    this.noRoute = false;
+  }
+
+  private destroyRoute() {
+    if (this.route != null) for (let item of this.route.items) item.destroy();
+    this.route = null;
+  }
+
+  // Ports of the current overlay first, in case several ports share the tile
+  private getPortAt(tile: Vector2): UtilityConnectionTracker {
+    let ports = this.blueprintService.blueprint
+      .getUtilityConnectionsAtIndex(DrawHelpers.getTileIndex(tile))
+      .filter(
+        (port) =>
+          port != this.startPort &&
+          UtilityRouter.getDefaultConduitId(port.utilityConnection.type) !=
+            undefined
+      );
+
+    let overlay =
+      this.startPort != null
+        ? ConnectionHelper.getConnectionOverlay(
+            this.startPort.utilityConnection.type
+          )
+        : CameraService.cameraService.overlay;
+
+    let returnValue = ports.find(
+      (port) =>
+        ConnectionHelper.getConnectionOverlay(port.utilityConnection.type) ==
+        overlay
+    );
+    if (returnValue == undefined && this.startPort == null)
+      returnValue = ports[0];
+
+    return returnValue == undefined ? null : returnValue;
+  }
+
+  private updateRoute(tile: Vector2) {
+    let endPort = this.getPortAt(tile);
+    if (endPort == this.endPort) return;
+
+    this.destroyRoute();
+    this.endPort = endPort;
+    this.noRoute = false;
+
+    if (endPort != null) {
+      let blueprint = this.blueprintService.blueprint;
+
+      // Bridges are only offered when there is no other way
+      this.route = UtilityRouter.route(
+        blueprint,
+        this.startPort,
+        endPort,
+        this.conduitId,
+        false
+      );
+      if (this.route == undefined)
+        this.route = UtilityRouter.route(
+          blueprint,
+          this.startPort,
+          endPort,
+          this.conduitId,
+          true
+        );
+
+      if (this.route == undefined) {
+        this.route = null;
+        this.noRoute = true;
+      } else
+        for (let item of this.route.items) {
+          item.isBuildCandidate = true;
+          item.alpha = 1;
+        }
+    }
+
+    // The mouse events are outside the angular zone
+    this.appRef.tick();
+  }
+
+  // The previewed items are destroyed with the route, so copies of them are built
+  private buildRoute() {
+    this.blueprintService.history.beginTransaction();
+    UtilityRouter.build(this.blueprintService.blueprint, {
+      ...this.route,
+      items: this.route.items.map((item) =>
+        BlueprintHelpers.cloneBlueprintItem(item, true, true)
+      ),
+    });
+    this.blueprintService.history.endTransaction();
+
+    this.reset();
+  }
+
+  // Tool interface :
+  switchFrom() {
+    this.reset();
+  }
+
+  switchTo() {
+    this.reset();
+  }
+
+  mouseOut() {}
+
+  mouseDown(tile: Vector2) {}
+
+  leftClick(tile: Vector2) {
+    if (this.startPort == null) {
+      this.startPort = this.getPortAt(tile);
+      if (this.startPort == null) return;
+
+      this.conduitId = UtilityRouter.getDefaultConduitId(
+        this.startPort.utilityConnection.type
+      );
+      let overlay = ConnectionHelper.getConnectionOverlay(
+        this.startPort.utilityConnection.type
+      );
+      if (NetworkAnalyzer.overlays.indexOf(overlay) != -1)
+        CameraService.cameraService.overlay = overlay;
+    } else if (this.route != null) this.buildRoute();
+  }
+
+  rightClick(tile: Vector2) {
+    if (this.startPort != null) this.reset();
+    else this.parent.changeTool(ToolType.select);
+  }
+
+  hover(tile: Vector2) {
+    if (this.startPort != null) this.updateRoute(tile);
+  }
+
+  drag(tileStart: Vector2, tileStop: Vector2) {}
+
+  dragStop() {}
+
+  keyDown(keyCode: string) {
+    if (keyCode == "Escape") this.reset();
+  }
+
+  keyAction(action: KeyAction) {}
+
+  draw(drawPixi: DrawPixi, camera: CameraService) {
+    if (this.startPort == null) return;
+
+    let startPosition = UtilityRouter.getPortPosition(this.startPort);
+    drawPixi.drawTileRectangle(
+      camera,
+      startPosition,
+      startPosition,
+      true,
+      2,
+      0x4cff00,
+      0x2d9600,
+      0.4,
+      0.8
+    );
+
+    if (this.route != null)
+      for (let item of this.route.items) item.drawPixi(camera, drawPixi);
+  }
+
+  toggleable: boolean = false;
+  visible: boolean = false;
+  captureInput: boolean = true;
+  toolType = ToolType.route;
+  toolGroup: number = 1;
+}
@@ -4,29 +4,49 @@ import {
   BlueprintItem,
   CameraService,
   DrawHelpers,
+  GroupTransform,
   OniItem,
   Vector2,
   BuildableElement,
+  IObsBlueprintChange,
+  KeyAction,
+  NetworkAnalysis,
+  NetworkAnalyzer,
+  Overlay,
+  UtilityNetwork,
 } from "../../../../../../lib/index";
 import { Injectable } from "@angular/core";
 import { ITool, ToolType } from "./tool";
 import { DrawPixi } from "../../drawing/draw-pixi";
 import { SameItemCollection } from "./same-item-collection";
 import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import { ClipboardService } from "src/app/module-blueprint/services/clipboard-service";
+import { MirrorService } from "src/app/module-blueprint/services/mirror-service";
 
 @Injectable()
-export class SelectTool implements ITool {
+export class SelectTool implements ITool, IObsBlueprintChange {
   public sameItemCollections: SameItemCollection[];
 
+  // Network under the mouse, highlighted while its overlay is shown
+  public hoveredNetwork: UtilityNetwork = null;
+  private networkAnalysis: NetworkAnalysis = null;
+  private networkAnalysisOverlay: Overlay;
+
   public observersSelectionChanged: IObsSelectionChanged[] = [];
 
   parent: ToolService;
 
   private cameraService: CameraService;
-  constructor(private blueprintService: BlueprintService) {
+  constructor(
+    private blueprintService: BlueprintService,
+    private clipboardService: ClipboardService,
+    private mirrorService: MirrorService
+  ) {
     this.cameraService = CameraService.cameraService;
     // TODO also do this on blueprint loading
     this.reset();
+
+    this.blueprintService.blueprint.subscribeBlueprintChanged(this);
   }
 
   get showTool() {
@@ -62,8 +82,9 @@ export class SelectTool implements ITool {
 
     if (tileSelected.length > 0) {
       for (let tile of tileSelected) {
-        let itemsInTile =
-          this.blueprintService.blueprint.getBlueprintItemsAt(tile);
+        let itemsInTile = this.blueprintService.blueprint
+          .getBlueprintItemsAt(tile)
+          .filter((item) => this.isEditable(item));
         for (let item of itemsInTile) this.addToCollection(item);
       }
 
@@ -125,7 +146,8 @@ export class SelectTool implements ITool {
 
     this.blueprintService.blueprint.blueprintItems
       .filter((item) => {
-        if (original.oniItem.isElement)
+        if (!this.isEditable(item)) return false;
+        else if (original.oniItem.isElement)
           return (
             original.oniItem == item.oniItem &&
             original.buildableElements[0] == item.buildableElements[0]
@@ -219,10 +241,21 @@ export class SelectTool implements ITool {
     this.emitSelectionChanged();
   }
 
+  // Items in hidden or locked layers can't be selected or destroyed
+  private isEditable(blueprintItem: BlueprintItem): boolean {
+    return this.blueprintService.blueprint.layers.isItemEditable(blueprintItem);
+  }
+
   buildingsDestroy(itemCollection: SameItemCollection) {
+    let mirrored = this.mirrorService.getMirroredItems(
+      this.blueprintService.blueprint,
+      itemCollection.items
+    );
+
     this.blueprintService.blueprint.pauseChangeEvents();
-    for (let item of itemCollection.items)
-      this.blueprintService.blueprint.destroyBlueprintItem(item);
+    for (let item of itemCollection.items.concat(mirrored))
+      if (this.isEditable(item))
+        this.blueprintService.blueprint.destroyBlueprintItem(item);
     this.blueprintService.blueprint.resumeChangeEvents();
 
     this.sameItemCollections.splice(
@@ -279,10 +312,16 @@ export class SelectTool implements ITool {
 
   destroyAll() {
     if (this.sameItemCollections != null) {
+      let mirrored = this.mirrorService.getMirroredItems(
+        this.blueprintService.blueprint,
+        this.selectedItems
+      );
+
       this.blueprintService.blueprint.pauseChangeEvents();
 
-      for (let itemCollection of this.sameItemCollections)
-        itemCollection.destroyAll();
+      for (let item of this.selectedItems.concat(mirrored))
+        if (this.isEditable(item))
+          this.blueprintService.blueprint.destroyBlueprintItem(item);
 
       this.blueprintService.blueprint.resumeChangeEvents();
     }
@@ -290,6 +329,76 @@ export class SelectTool implements ITool {
     this.deselectAll();
   }
 
+  get selectedItems(): BlueprintItem[] {
+    let returnValue: BlueprintItem[] = [];
+    for (let itemCollection of this.sameItemCollections)
+      returnValue = returnValue.concat(itemCollection.items);
+
+    return returnValue;
+  }
+
+  copySelection() {
+    this.clipboardService.copy(this.selectedItems);
+  }
+
+  cutSelection() {
+    this.copySelection();
+    this.destroyAll();
+  }
+
+  rotateSelection() {
+    this.transformSelection((items) =>
+      GroupTransform.rotate(this.blueprintService.blueprint, items)
+    );
+  }
+
+  flipSelection(horizontal: boolean) {
+    this.transformSelection((items) =>
+      GroupTransform.flip(this.blueprintService.blueprint, items, horizontal)
+    );
+  }
+
+  moveSelection(offset: Vector2) {
+    if (offset.x == 0 && offset.y == 0) return;
+
+    this.transformSelection((items) =>
+      GroupTransform.move(this.blueprintService.blueprint, items, offset)
+    );
+  }
+
+  // The transformed items replace the selected ones, so they are selected again
+  private transformSelection(
+    transform: (items: BlueprintItem[]) => BlueprintItem[]
+  ) {
+    let items = this.selectedItems;
+    if (items.length == 0) return;
+
+    let activeIndex = this.currentMultipleSelectionIndex;
+    let activeOniItem =
+      activeIndex != -1 ? this.sameItemCollections[activeIndex].oniItem : null;
+
+    // Blocked by buildings outside of the selection
+    let newItems = transform(items);
+    if (newItems == undefined) return;
+
+    this.deselectAll();
+    for (let item of newItems) this.addToCollection(item);
+    this.currentMultipleSelectionIndex = this.sameItemCollections.findIndex(
+      (itemCollection) => itemCollection.oniItem == activeOniItem
+    );
+
+    this.emitSelectionChanged();
+  }
+
+  private isSelectedAt(tile: Vector2) {
+    let tileIndex = DrawHelpers.getTileIndex(tile);
+    return (
+      this.selectedItems.find(
+        (item) => item.tileIndexes.indexOf(tileIndex) != -1
+      ) != undefined
+    );
+  }
+
   // Tool interface :
   switchFrom() {
     this.deselectAll();
@@ -299,7 +408,9 @@ export class SelectTool implements ITool {
     this.deselectAll();
   }
 
-  mouseOut() {}
+  mouseOut() {
+    this.hoveredNetwork = null;
+  }
 
   mouseDown(tile: Vector2) {}
 
@@ -327,18 +438,61 @@ export class SelectTool implements ITool {
     this.deselectAll();
   }
 
-  hover(tile: Vector2) {}
+  hover(tile: Vector2) {
+    this.hoveredNetwork = null;
+
+    let overlay = this.cameraService.overlay;
+    if (NetworkAnalyzer.overlays.indexOf(overlay) == -1) return;
+
+    let segment = this.blueprintService.blueprint
+      .getBlueprintItemsAt(tile)
+      .find(
+        (item) =>
+          (item.oniItem.isWire || item.oniItem.isBridge) &&
+          item.oniItem.overlay == overlay
+      );
+    if (segment == undefined) return;
+
+    // The analysis is only redone after the blueprint changes
+    if (
+      this.networkAnalysis == null ||
+      this.networkAnalysisOverlay != overlay
+    ) {
+      this.networkAnalysis = NetworkAnalyzer.analyzeOverlay(
+        this.blueprintService.blueprint,
+        overlay
+      );
+      this.networkAnalysisOverlay = overlay;
+    }
+
+    let network = this.networkAnalysis.getNetworkOf(segment);
+    if (network != undefined) this.hoveredNetwork = network;
+  }
 
   beginSelection: Vector2 = null;
   endSelection: Vector2;
+  // Dragging from a selected item moves the selection instead of selecting a new box
+  moveOffset: Vector2 = null;
   drag(tileStart: Vector2, tileStop: Vector2) {
-    if (this.beginSelection == null)
-      this.beginSelection = Vector2.clone(tileStart);
-    this.endSelection = Vector2.clone(tileStop);
+    if (this.beginSelection == null && this.moveOffset == null) {
+      if (this.isSelectedAt(DrawHelpers.getIntegerTile(tileStart)))
+        this.moveOffset = Vector2.Zero;
+      else this.beginSelection = Vector2.clone(tileStart);
+    }
+
+    if (this.moveOffset != null) {
+      let beginTile = DrawHelpers.getIntegerTile(tileStart);
+      let endTile = DrawHelpers.getIntegerTile(tileStop);
+      this.moveOffset = new Vector2(
+        endTile.x - beginTile.x,
+        endTile.y - beginTile.y
+      );
+    } else this.endSelection = Vector2.clone(tileStop);
   }
 
   dragStop() {
-    if (this.beginSelection != null && this.endSelection != null) {
+    if (this.moveOffset != null) this.moveSelection(this.moveOffset);
+    else if (this.beginSelection != null && this.endSelection != null) {
       let beginTile = DrawHelpers.getIntegerTile(this.beginSelection);
       let endTile = DrawHelpers.getIntegerTile(this.endSelection);
 
@@ -356,23 +510,22 @@ export class SelectTool implements ITool {
     }
 
     this.beginSelection = null;
+    this.moveOffset = null;
   }
 
-  keyDown(keyCode: string) {
-    if (keyCode == "Delete") {
+  keyDown(keyCode: string) {}
+
+  keyAction(action: KeyAction) {
+    if (action == KeyAction.Delete) {
       let itemGroupToDestroyIndex = this.currentMultipleSelectionIndex;
       if (itemGroupToDestroyIndex != -1)
         this.buildingsDestroy(
           this.sameItemCollections[itemGroupToDestroyIndex]
         );
-    } else if (keyCode == "b") {
-      // ignore keypress when a textbox is active
-      let textboxElements = ["INPUT", "TEXTAREA"];
-      let activeElement = document.activeElement.tagName;
-      if (textboxElements.includes(activeElement)) {
-        return;
-      }
-
+    } else if (action == KeyAction.Rotate) this.rotateSelection();
+    else if (action == KeyAction.FlipHorizontal) this.flipSelection(true);
+    else if (action == KeyAction.FlipVertical) this.flipSelection(false);
+    else if (action == KeyAction.CopyBuilding) {
       // find the currently selected item
       let newItem = null;
       let itemGroupToDestroyIndex = this.currentMultipleSelectionIndex;
@@ -391,6 +544,9 @@ export class SelectTool implements ITool {
   }
 
   draw(drawPixi: DrawPixi, camera: CameraService) {
+    if (this.hoveredNetwork != null) this.drawNetwork(drawPixi, camera);
+    if (this.moveOffset != null) this.drawMove(drawPixi, camera);
+
     // Return
     if (this.beginSelection == null) return;
 
@@ -417,6 +573,96 @@ export class SelectTool implements ITool {
     );
   }
 
+  private drawMove(drawPixi: DrawPixi, camera: CameraService) {
+    let bounds = GroupTransform.getBounds(this.selectedItems);
+
+    drawPixi.drawTileRectangle(
+      camera,
+      new Vector2(
+        bounds[0].x + this.moveOffset.x,
+        bounds[1].y + this.moveOffset.y
+      ),
+      new Vector2(
+        bounds[1].x + this.moveOffset.x,
+        bounds[0].y + this.moveOffset.y
+      ),
+      true,
+      2,
+      0x4cff00,
+      0x2d9600,
+      0.25,
+      0.8
+    );
+  }
+
+  private drawNetwork(drawPixi: DrawPixi, camera: CameraService) {
+    for (let segment of this.hoveredNetwork.segments)
+      drawPixi.drawTileRectangle(
+        camera,
+        segment.topLeft,
+        segment.bottomRight,
+        true,
+        1,
+        0x00b4ff,
+        0x0078aa,
+        0.2,
+        0.6
+      );
+
+    for (let producer of this.hoveredNetwork.producers)
+      drawPixi.drawTileRectangle(
+        camera,
+        producer.position,
+        producer.position,
+        true,
+        2,
+        0x4cff00,
+        0x2d9600,
+        0.4,
+        0.8
+      );
+
+    for (let consumer of this.hoveredNetwork.consumers)
+      drawPixi.drawTileRectangle(
+        camera,
+        consumer.position,
+        consumer.position,
+        true,
+        2,
+        0xffa500,
+        0xb06f00,
+        0.4,
+        0.8
+      );
+
+    for (let danglingEnd of this.hoveredNetwork.danglingEnds)
+      drawPixi.drawTileRectangle(
+        camera,
+        danglingEnd,
+        danglingEnd,
+        true,
+        2,
+        0xff0000,
+        0x960000,
+        0.4,
+        0.8
+      );
+  }
+
+  // Blueprint Change interface
+  itemDestroyed() {
+    this.networkAnalysis = null;
+    this.hoveredNetwork = null;
+  }
+  itemAdded(blueprintItem: BlueprintItem) {
+    this.networkAnalysis = null;
+    this.hoveredNetwork = null;
+  }
+  blueprintChanged() {
+    this.networkAnalysis = null;
+    this.hoveredNetwork = null;
+  }
+
   toggleable: boolean = false;
   visible: boolean = false;
   captureInput: boolean = true;
@@ -1,10 +1,14 @@
-import { CameraService, Vector2 } from "../../../../../../lib/index";
+import { CameraService, KeyAction, Vector2 } from "../../../../../../lib/index";
 import { DrawPixi } from "../../drawing/draw-pixi";
 
 export enum ToolType {
   select,
   build,
   elementReport,
+  route,
+  measure,
+  elementBrush,
+  logicSimulator,
 }
 
 export interface ITool {
@@ -20,6 +24,7 @@ export interface ITool {
   drag(tileStart: Vector2, tileStop: Vector2);
   dragStop();
   keyDown(keyCode: string);
+  keyAction(action: KeyAction); // Shortcuts set in the keybindings
   draw(drawPixi: DrawPixi, camera: CameraService);
 
   // Tool switching
@@ -0,0 +1,40 @@
+import { BlueprintService } from "../../services/blueprint-service";
+import { Injectable } from "@angular/core";
+import {
+  BlueprintItem,
+  BlueprintValidator,
+  IObsBlueprintChange,
+  ValidationIssue,
+} from "../../../../../../lib/index";
+
+@Injectable()
+export class ValidationReport implements IObsBlueprintChange {
+  data: ValidationIssue[];
+
+  // The validation is only kept up to date while the panel is open
+  private visible_: boolean = false;
+  get visible() {
+    return this.visible_;
+  }
+  set visible(value: boolean) {
+    this.visible_ = value;
+    if (value) this.updateValidationReport();
+  }
+
+  constructor(private blueprintService: BlueprintService) {
+    this.data = [];
+
+    this.blueprintService.blueprint.subscribeBlueprintChanged(this);
+  }
+
+  updateValidationReport() {
+    this.data = BlueprintValidator.validate(this.blueprintService.blueprint);
+  }
+
+  // Blueprint Change interface
+  itemDestroyed() {}
+  itemAdded(blueprintItem: BlueprintItem) {}
+  blueprintChanged() {
+    if (this.visible) this.updateValidationReport();
+  }
+}
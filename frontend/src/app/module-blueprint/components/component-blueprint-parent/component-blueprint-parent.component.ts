@@ -9,6 +9,7 @@ import {
 // Library imports
 import { ActivatedRoute, Params, UrlSegment } from "@angular/router";
 import * as JSZip from "jszip";
+import * as yaml from "node_modules/js-yaml/lib/js-yaml";
 import { MessageService } from "primeng/api";
 import {} from "sanitize-filename";
 import {
@@ -21,6 +22,7 @@ import {
   BuildMenuItem,
   CameraService,
   ImageSource,
+  MdbModule,
   OniItem,
   Overlay,
   SpriteInfo,
@@ -28,6 +30,7 @@ import {
   Vector2,
 } from "../../../../../../lib/index";
 import { ToolType } from "../../common/tools/tool";
+import { DownloadHelper } from "../../common/download-helper";
 import { AuthenticationService } from "../../services/authentification-service";
 import {
   BlueprintService,
@@ -35,6 +38,8 @@ import {
   IObsBlueprintChanged,
 } from "../../services/blueprint-service";
 import { GameStringService } from "../../services/game-string-service";
+import { KeybindingService } from "../../services/keybinding-service";
+import { ModuleService } from "../../services/module-service";
 import { ToolService } from "../../services/tool-service";
 import { ComponentCanvasComponent } from "../component-canvas/component-canvas.component";
 import {
@@ -62,7 +67,6 @@ TODO Feature List before release :
 
  Less important stuff :
  * Unify returns in backend
- * dragBuild is not used
  * build drag on move with keyboard
  *
  *
@@ -113,11 +117,13 @@ export class ComponentBlueprintParentComponent
     private messageService: MessageService,
     private route: ActivatedRoute,
     private authService: AuthenticationService,
-    private blueprintService: BlueprintService,
+    public blueprintService: BlueprintService,
     public toolService: ToolService,
     private renderer: Renderer2,
     private http: HttpClient,
-    public gameStringService: GameStringService
+    public gameStringService: GameStringService,
+    private keybindingService: KeybindingService,
+    public moduleService: ModuleService
   ) {}
 
   get showElementReport() {
@@ -157,6 +163,8 @@ export class ComponentBlueprintParentComponent
       if (!this.forceSize) {
         this.buildTool.oniItemsLoaded();
       }
+      this.keybindingService.databaseLoaded();
+      this.moduleService.loadFromAccount();
 
       this.route.url.subscribe((url: UrlSegment[]) => {
         if (url != null && url.length > 0 && url[0].path == "browse") {
@@ -175,6 +183,8 @@ export class ComponentBlueprintParentComponent
       this.route.params.subscribe((params: Params): void => {
         if (params.id != null)
           this.blueprintService.openBlueprintFromId(params.id);
+        // The buildings must be loaded before an unsaved history can be restored
+        else this.blueprintService.resetUndoStates();
       });
     }); /*
       .catch((error) => {
@@ -327,6 +337,10 @@ export class ComponentBlueprintParentComponent
       this.saveBlueprint();
     else if (menuCommand.type == MenuCommandType.exportBlueprint)
       this.exportBlueprint();
+    else if (menuCommand.type == MenuCommandType.exportBlueprintBinary)
+      this.exportBlueprintBinary();
+    else if (menuCommand.type == MenuCommandType.exportBlueprintYaml)
+      this.exportBlueprintYaml();
     // Technical (repack, generate solid sprites, etc)
     else if (menuCommand.type == MenuCommandType.fetchIcons)
       this.canvas.fetchIcons();
@@ -379,35 +393,85 @@ export class ComponentBlueprintParentComponent
   }
 
   exportBlueprint() {
-    if (this.blueprintService.blueprint.blueprintItems.length == 0)
+    if (!this.checkCanExport()) return;
+
+    let friendlyname = this.getExportName();
+    let bniBlueprint =
+      this.blueprintService.blueprint.toBniBlueprint(friendlyname);
+
+    DownloadHelper.downloadFile(
+      sanitize(friendlyname) + ".blueprint",
+      JSON.stringify(bniBlueprint)
+    );
+  }
+
+  exportBlueprintBinary() {
+    if (!this.checkCanExport()) return;
+
+    let friendlyname = this.getExportName();
+    let binaryBlueprint =
+      this.blueprintService.blueprint.toBinaryBlueprint(friendlyname);
+
+    DownloadHelper.downloadFile(
+      sanitize(friendlyname) + ".blueprint",
+      binaryBlueprint
+    );
+  }
+
+  exportBlueprintYaml() {
+    if (!this.checkCanExport()) return;
+
+    let friendlyname = this.getExportName();
+    let oniTemplate =
+      this.blueprintService.blueprint.toOniTemplate(friendlyname);
+
+    DownloadHelper.downloadFile(
+      sanitize(friendlyname) + ".yaml",
+      yaml.safeDump(oniTemplate)
+    );
+  }
+
+  private checkCanExport(): boolean {
+    if (this.blueprintService.blueprint.blueprintItems.length == 0) {
       this.messageService.add({
         severity: "error",
         summary: $localize`Empty blueprint`,
         detail: $localize`Add some buildings before trying to save`,
       });
-    else {
-      let friendlyname = "new blueprint";
-      if (this.blueprintService.name != undefined)
-        friendlyname = this.blueprintService.name;
-
-      let bniBlueprint =
-        this.blueprintService.blueprint.toBniBlueprint(friendlyname);
-
-      let a = document.createElement("a");
-      document.body.append(a);
-      a.download = sanitize(friendlyname) + ".blueprint";
-      a.href = URL.createObjectURL(
-        new Blob([JSON.stringify(bniBlueprint)], {})
-      );
-      a.click();
-      a.remove();
+      return false;
     }
+
+    return true;
+  }
+
+  private getExportName(): string {
+    let friendlyname = "new blueprint";
+    if (this.blueprintService.name != undefined)
+      friendlyname = this.blueprintService.name;
+
+    return friendlyname;
   }
 
   updateThumbnail() {
     this.canvas.updateThumbnail();
   }
 
+  // The module preview is rendered by the canvas before it is stored
+  saveModule(mdbModule: MdbModule) {
+    let blueprint = new Blueprint();
+    blueprint.importFromMdb(mdbModule.fragment);
+
+    this.canvas.renderThumbnail(blueprint, 100).then((thumbnail) => {
+      mdbModule.thumbnail = thumbnail;
+      this.moduleService.add(mdbModule);
+
+      this.messageService.add({
+        severity: "success",
+        summary: $localize`Module saved: ${mdbModule.name}`,
+      });
+    });
+  }
+
   shareUrl() {
     if (this.blueprintService.id == null)
       this.messageService.add({
@@ -18,6 +18,7 @@ import { HttpClientModule, HttpClient } from "@angular/common/http";
 // Engine imports
 import {
   Blueprint,
+  BlueprintClipboard,
   IObsBlueprintChange,
   CameraService,
   IObsCameraChanged,
@@ -33,6 +34,8 @@ import {
   BSpriteModifier,
   Vector2,
   SpriteTag,
+  KeyAction,
+  Keybindings,
 } from "../../../../../../lib/index";
 
 // PrimeNg imports
@@ -45,6 +48,10 @@ import {
   ExportImageOptions,
 } from "../../services/blueprint-service";
 import { ToolService } from "../../services/tool-service";
+import {
+  IObsKeyAction,
+  KeybindingService,
+} from "../../services/keybinding-service";
 import { read } from "fs";
 
 import {} from "pixi.js-legacy";
@@ -56,7 +63,7 @@ declare var PIXI: any;
   styleUrls: ["./component-canvas.component.css"],
 })
 export class ComponentCanvasComponent
-  implements OnInit, OnDestroy, IObsCameraChanged
+  implements OnInit, OnDestroy, IObsCameraChanged, IObsKeyAction
 {
   width: number;
   height: number;
@@ -84,11 +91,13 @@ export class ComponentCanvasComponent
   constructor(
     private ngZone: NgZone,
     private blueprintService: BlueprintService,
-    private toolService: ToolService
+    private toolService: ToolService,
+    private keybindingService: KeybindingService
   ) {
     this.drawPixi = new DrawPixi();
     this.cameraService = new CameraService(this.drawPixi.getNewContainer());
     this.cameraService.subscribeCameraChange(this);
+    this.keybindingService.subscribeKeyAction(this);
   }
 
   private running: boolean;
@@ -248,23 +257,69 @@ export class ComponentCanvasComponent
     this.previousTileUnderMouse = currentTileUnderMouse;
   }
 
+  // Modules dragged from the module library are built where they are dropped
+  dragOver(event: DragEvent) {
+    if (!this.forceSize && event.dataTransfer.types.includes("text/plain"))
+      event.preventDefault();
+  }
+
+  drop(event: DragEvent) {
+    if (this.forceSize) return;
+
+    let fragment = BlueprintClipboard.fromText(
+      event.dataTransfer.getData("text/plain")
+    );
+    if (fragment == undefined) return;
+
+    event.preventDefault();
+    this.canvasRef.nativeElement.focus();
+    this.toolService.pasteFragment(fragment);
+    this.toolService.hover(this.getCurrentTile(event));
+  }
+
   keyPress(event: any) {
     //console.log(event.key)
     this.toolService.keyDown(event.key);
+    this.keybindingService.keyDown(event);
 
+    //this.canvasRef.nativeElement.click();
+  }
+
+  keyActionPressed(actionId: string) {
+    let action = Keybindings.getAction(actionId);
+
+    // The arrows also move in the lists and the dropdowns
     if (document.body == document.activeElement) {
-      if (event.key == "ArrowLeft") this.cameraService.cameraOffset.x += 1;
-      if (event.key == "ArrowRight") this.cameraService.cameraOffset.x -= 1;
-      if (event.key == "ArrowUp") this.cameraService.cameraOffset.y += 1;
-      if (event.key == "ArrowDown") this.cameraService.cameraOffset.y -= 1;
-      if (event.key == "+") this.cameraService.zoom(1, this.previousMouse);
-      if (event.key == "-") this.cameraService.zoom(-1, this.previousMouse);
+      if (action == KeyAction.CameraLeft)
+        this.cameraService.cameraOffset.x += 1;
+      if (action == KeyAction.CameraRight)
+        this.cameraService.cameraOffset.x -= 1;
+      if (action == KeyAction.CameraUp) this.cameraService.cameraOffset.y += 1;
+      if (action == KeyAction.CameraDown)
+        this.cameraService.cameraOffset.y -= 1;
+      if (action == KeyAction.ZoomIn)
+        this.cameraService.zoom(1, this.previousMouse);
+      if (action == KeyAction.ZoomOut)
+        this.cameraService.zoom(-1, this.previousMouse);
     }
 
-    if (event.key == "z" && event.ctrlKey) this.blueprintService.undo();
-    if (event.key == "y" && event.ctrlKey) this.blueprintService.redo();
-
-    //this.canvasRef.nativeElement.click();
+    if (action == KeyAction.Undo) this.blueprintService.undo();
+    if (action == KeyAction.Redo) this.blueprintService.redo();
+    if (action == KeyAction.Copy) this.toolService.selectTool.copySelection();
+    if (action == KeyAction.Cut) this.toolService.selectTool.cutSelection();
+    if (action == KeyAction.Paste) this.toolService.paste();
+
+    let overlays = [
+      { action: KeyAction.OverlayBase, overlay: Overlay.Base },
+      { action: KeyAction.OverlayPower, overlay: Overlay.Power },
+      { action: KeyAction.OverlayLiquid, overlay: Overlay.Liquid },
+      { action: KeyAction.OverlayGas, overlay: Overlay.Gas },
+      { action: KeyAction.OverlayAutomation, overlay: Overlay.Automation },
+      { action: KeyAction.OverlayConveyor, overlay: Overlay.Conveyor },
+      { action: KeyAction.OverlayRoom, overlay: Overlay.Room },
+    ];
+    let overlay = overlays.find((o) => o.action == action);
+    if (overlay != undefined) this.cameraService.overlay = overlay.overlay;
   }
 
   prepareOverlayInfo() {
@@ -691,7 +746,17 @@ export class ComponentCanvasComponent
     //console.log('updateThumbnail')
     this.blueprintService.thumbnail = null;
 
-    let clone = this.blueprint.clone();
+    this.renderThumbnail(this.blueprint, 200).then((thumbnail) => {
+      this.blueprintService.thumbnail = thumbnail;
+    });
+  }
+
+  // Renders the blueprint in a square image, as a data url
+  renderThumbnail(
+    blueprint: Blueprint,
+    thumbnailSize: number
+  ): Promise<string> {
+    let clone = blueprint.clone();
     if (clone.blueprintItems.length == 0)
       throw new Error("No buildings to export");
 
@@ -704,7 +769,6 @@ export class ComponentCanvasComponent
       bottomRight.y - topLeft.y + 3
     );
 
-    let thumbnailSize = 200;
     let maxTotalSize = Math.max(totalTileSize.x, totalTileSize.y);
     let thumbnailTileSize = thumbnailSize / maxTotalSize;
     let cameraOffset = new Vector2(-topLeft.x + 1, bottomRight.y + 1);
@@ -741,14 +805,15 @@ export class ComponentCanvasComponent
     let rt = new PIXI.RenderTexture(brt);
 
     this.drawPixi.pixiApp.renderer.render(exportCamera.container, rt, false);
-    this.drawPixi.pixiApp.renderer.extract.canvas(rt).toBlob((blob) => {
-      let reader = new FileReader();
-      reader.onload = () => {
-        this.blueprintService.thumbnail = reader.result as string;
-      };
-      reader.readAsDataURL(blob);
-
-      /*
+    return new Promise((resolve) => {
+      this.drawPixi.pixiApp.renderer.extract.canvas(rt).toBlob((blob) => {
+        let reader = new FileReader();
+        reader.onload = () => {
+          resolve(reader.result as string);
+        };
+        reader.readAsDataURL(blob);
+
+        /*
       // Test download
       let a = document.createElement('a');
         document.body.append(a);
@@ -757,6 +822,7 @@ export class ComponentCanvasComponent
         a.click();
         a.remove();
       */
+      });
     });
   }
 
@@ -794,6 +860,12 @@ export class ComponentCanvasComponent
     graphics.drawRect(0, 0, sizeInPixels.x, sizeInPixels.y);
     graphics.endFill();
 
+    this.toolService.measureTool.drawExport(
+      this.drawPixi,
+      exportCamera,
+      exportCamera.container
+    );
+
     ComponentCanvasComponent.zip = new JSZip();
     ComponentCanvasComponent.nbBlob = 0;
     ComponentCanvasComponent.downloadFile = "export.zip";
@@ -933,7 +1005,9 @@ export class ComponentCanvasComponent
     if (this.blueprint != null) {
       for (var templateItem of this.blueprint.blueprintItems) {
         //templateItem.updateTileables(this.blueprint);
-        this.drawPixi.drawTemplateItem(templateItem, this.cameraService);
+        if (this.blueprint.layers.isItemVisible(templateItem))
+          this.drawPixi.drawTemplateItem(templateItem, this.cameraService);
+        else templateItem.hide();
         //templateItem.draw(ctx, this.camera);
       }
 
@@ -984,5 +1058,29 @@ export class ComponentCanvasComponent
       this.toolService.buildTool.templateItemToBuild != null
     )
       this.toolService.buildTool.templateItemToBuild.cameraChanged(camera);
+
+    if (
+      this.toolService != null &&
+      this.toolService.buildTool != null &&
+      this.toolService.buildTool.pasteItems != null
+    )
+      for (let pasteItem of this.toolService.buildTool.pasteItems)
+        pasteItem.cameraChanged(camera);
+
+    if (
+      this.toolService != null &&
+      this.toolService.buildTool != null &&
+      this.toolService.buildTool.shapeItems != null
+    )
+      for (let shapeItem of this.toolService.buildTool.shapeItems)
+        shapeItem.cameraChanged(camera);
+
+    if (
+      this.toolService != null &&
+      this.toolService.routeTool != null &&
+      this.toolService.routeTool.route != null
+    )
+      for (let routeItem of this.toolService.routeTool.route.items)
+        routeItem.cameraChanged(camera);
   }
 }
@@ -5,6 +5,7 @@ import {
   LOCALE_ID,
   OnInit,
   Output,
+  ViewChild,
 } from "@angular/core";
 import { Router } from "@angular/router";
 import { MenuItem, MessageService } from "primeng/api";
@@ -22,7 +23,11 @@ import {
   BlueprintFileType,
   BlueprintService,
 } from "../../services/blueprint-service";
+import { MirrorService } from "../../services/mirror-service";
+import { ModuleService } from "../../services/module-service";
 import { IObsToolChanged, ToolService } from "../../services/tool-service";
+import { DialogCommandPaletteComponent } from "../dialogs/dialog-command-palette/dialog-command-palette.component";
+import { DialogKeybindingsComponent } from "../dialogs/dialog-keybindings/dialog-keybindings.component";
 
 const ALL_LANGUAGES = [
   {
@@ -53,6 +58,12 @@ export class ComponentMenuComponent
 {
   @Output() menuCommand = new EventEmitter<MenuCommand>();
 
+  @ViewChild("commandPalette", { static: true })
+  commandPalette: DialogCommandPaletteComponent;
+
+  @ViewChild("keybindingsDialog", { static: true })
+  keybindingsDialog: DialogKeybindingsComponent;
+
   menuItems: MenuItem[];
   overlayMenuItems: MenuItem[];
   displayMenuItems: MenuItem[];
@@ -73,6 +84,8 @@ export class ComponentMenuComponent
     private messageService: MessageService,
     private toolService: ToolService,
     private blueprintService: BlueprintService,
+    private mirrorService: MirrorService,
+    private moduleService: ModuleService,
     private router: Router,
     @Inject(LOCALE_ID) private locale: string
   ) {
@@ -113,6 +126,7 @@ export class ComponentMenuComponent
         id: Overlay.Conveyor,
         name: $localize`:overlay switch on the menu:Shipment`,
       },
+      { id: Overlay.Room, name: $localize`:overlay switch on the menu:Rooms` },
     ];
     this.overlayMenuItems = [];
     overlayList.map((overlay) => {
@@ -179,6 +193,34 @@ export class ComponentMenuComponent
           this.clickTool(ToolType.build);
         },
       },
+      {
+        label: $localize`Route`,
+        id: ToolType[ToolType.route],
+        command: (event) => {
+          this.clickTool(ToolType.route);
+        },
+      },
+      {
+        label: $localize`Measure`,
+        id: ToolType[ToolType.measure],
+        command: (event) => {
+          this.clickTool(ToolType.measure);
+        },
+      },
+      {
+        label: $localize`Element brush`,
+        id: ToolType[ToolType.elementBrush],
+        command: (event) => {
+          this.clickTool(ToolType.elementBrush);
+        },
+      },
+      {
+        label: $localize`Logic simulator`,
+        id: ToolType[ToolType.logicSimulator],
+        command: (event) => {
+          this.clickTool(ToolType.logicSimulator);
+        },
+      },
     ];
 
     this.languagesMenuItems = [];
@@ -253,6 +295,24 @@ export class ComponentMenuComponent
                   });
                 },
               },
+              {
+                label: $localize`Blueprint (binary)`,
+                command: (event) => {
+                  this.menuCommand.emit({
+                    type: MenuCommandType.exportBlueprintBinary,
+                    data: null,
+                  });
+                },
+              },
+              {
+                label: $localize`Game (yaml)`,
+                command: (event) => {
+                  this.menuCommand.emit({
+                    type: MenuCommandType.exportBlueprintYaml,
+                    data: null,
+                  });
+                },
+              },
             ],
           },
           {
@@ -304,6 +364,85 @@ export class ComponentMenuComponent
               this.blueprintService.redo();
             },
           },
+          {
+            label: $localize`Copy`,
+            icon: "pi pi-copy",
+            command: (event) => {
+              this.toolService.selectTool.copySelection();
+            },
+          },
+          {
+            label: $localize`Cut`,
+            icon: "pi pi-clone",
+            command: (event) => {
+              this.toolService.selectTool.cutSelection();
+            },
+          },
+          {
+            label: $localize`Paste`,
+            icon: "pi pi-file",
+            command: (event) => {
+              this.toolService.paste();
+            },
+          },
+          {
+            label: $localize`Mirror`,
+            icon: "pi pi-arrows-h",
+            items: [
+              {
+                label: $localize`Vertical axis`,
+                command: (event) => {
+                  this.mirrorService.startPlacing(true);
+                },
+              },
+              {
+                label: $localize`Horizontal axis`,
+                command: (event) => {
+                  this.mirrorService.startPlacing(false);
+                },
+              },
+              {
+                label: $localize`Shift axis by half a tile`,
+                command: (event) => {
+                  this.mirrorService.shiftHalfTile();
+                },
+              },
+              {
+                label: $localize`Off`,
+                command: (event) => {
+                  this.mirrorService.disable();
+                },
+              },
+            ],
+          },
+          {
+            label: $localize`History`,
+            icon: "pi pi-list",
+            command: (event) => {
+              this.blueprintService.historyVisible = true;
+            },
+          },
+          {
+            label: $localize`Layers`,
+            icon: "pi pi-th-large",
+            command: (event) => {
+              this.blueprintService.layersVisible = true;
+            },
+          },
+          {
+            label: $localize`Module library`,
+            icon: "pi pi-clone",
+            command: (event) => {
+              this.moduleService.visible = true;
+            },
+          },
+          {
+            label: $localize`Validate`,
+            icon: "pi pi-check-square",
+            command: (event) => {
+              this.toolService.validationReport.visible = true;
+            },
+          },
         ],
       },
       {
@@ -325,6 +464,21 @@ export class ComponentMenuComponent
       {
         label: $localize`More`,
         items: [
+          {
+            id: "commandPalette",
+            label: $localize`Command palette (Ctrl+K)`,
+            icon: "pi pi-search",
+            command: (event) => {
+              this.commandPalette.showDialog();
+            },
+          },
+          {
+            label: $localize`Keyboard shortcuts`,
+            icon: "pi pi-key",
+            command: (event) => {
+              this.keybindingsDialog.showDialog();
+            },
+          },
           {
             label: $localize`About`,
             icon: "pi pi-info-circle",
@@ -531,6 +685,8 @@ export enum MenuCommandType {
   getShareableUrl,
   exportImages,
   exportBlueprint,
+  exportBlueprintBinary,
+  exportBlueprintYaml,
 
   fetchIcons,
   downloadIcons,
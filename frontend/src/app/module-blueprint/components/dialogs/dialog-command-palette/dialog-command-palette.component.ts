@@ -0,0 +1,199 @@
+import { Component, ElementRef, Input, ViewChild } from "@angular/core";
+import { MenuItem } from "primeng/api";
+import {
+  BlueprintHelpers,
+  BuildMenuItem,
+  KeyAction,
+  Keybindings,
+  OniItem,
+  StringHelpers,
+} from "../../../../../../../lib/index";
+import { ToolType } from "../../../common/tools/tool";
+import { ToolService } from "../../../services/tool-service";
+import {
+  IObsKeyAction,
+  KeybindingService,
+} from "../../../services/keybinding-service";
+
+export interface PaletteCommand {
+  label: string;
+  // Menu the action comes from, or the build category
+  detail: string;
+  icon?: string;
+  iconUrl?: string;
+  // Also searched, but after the label
+  alias?: string;
+  run: () => void;
+}
+
+// Ctrl+K (by default) opens a search over the menu actions and the buildings
+@Component({
+  selector: "app-dialog-command-palette",
+  templateUrl: "./dialog-command-palette.component.html",
+  styleUrls: ["./dialog-command-palette.component.css"],
+})
+export class DialogCommandPaletteComponent implements IObsKeyAction {
+  @Input() menuItems: MenuItem[];
+  @ViewChild("searchInput") searchInput: ElementRef;
+
+  static maxResults: number = 12;
+
+  visible: boolean = false;
+  query: string = "";
+  results: PaletteCommand[] = [];
+  selectedIndex: number = 0;
+
+  private commands: PaletteCommand[] = [];
+
+  constructor(
+    private toolService: ToolService,
+    private keybindingService: KeybindingService
+  ) {
+    this.keybindingService.subscribeKeyAction(this);
+  }
+
+  showDialog() {
+    // The menus change with the login and the database, so the list is made on each opening
+    this.commands = this.getMenuCommands(this.menuItems, []).concat(
+      this.getBuildingCommands()
+    );
+    this.query = "";
+    this.search();
+    this.visible = true;
+  }
+
+  hideDialog() {
+    this.visible = false;
+  }
+
+  onShow() {
+    this.searchInput.nativeElement.focus();
+  }
+
+  keyActionPressed(actionId: string) {
+    if (Keybindings.getAction(actionId) == KeyAction.CommandPalette) {
+      if (this.visible) this.hideDialog();
+      else this.showDialog();
+    }
+  }
+
+  // The keys typed in the search are not for the canvas tools
+  inputKeyDown(event: any) {
+    event.stopPropagation();
+
+    if (event.key == "ArrowDown") {
+      event.preventDefault();
+      this.selectedIndex = Math.min(
+        this.selectedIndex + 1,
+        this.results.length - 1
+      );
+    } else if (event.key == "ArrowUp") {
+      event.preventDefault();
+      this.selectedIndex = Math.max(this.selectedIndex - 1, 0);
+    } else if (event.key == "Enter") {
+      if (this.results.length > 0) this.run(this.results[this.selectedIndex]);
+    } else if (event.key == "Escape") this.hideDialog();
+    else if (
+      Keybindings.eventToKeys(event) ==
+      this.keybindingService.keybindings.getBinding(
+        KeyAction[KeyAction.CommandPalette]
+      )
+    ) {
+      event.preventDefault();
+      this.hideDialog();
+    }
+  }
+
+  search() {
+    let scored: { command: PaletteCommand; score: number }[] = [];
+
+    for (let command of this.commands) {
+      let score = StringHelpers.fuzzyScore(this.query, command.label);
+      if (score == undefined && command.alias != undefined)
+        score = StringHelpers.fuzzyScore(this.query, command.alias);
+      if (score == undefined)
+        score = StringHelpers.fuzzyScore(
+          this.query,
+          command.detail + " " + command.label
+        );
+
+      if (score != undefined) scored.push({ command: command, score: score });
+    }
+
+    // The sort is stable, so an empty query keeps the menu order
+    this.results = scored
+      .sort((s1, s2) => s2.score - s1.score)
+      .slice(0, DialogCommandPaletteComponent.maxResults)
+      .map((s) => s.command);
+    this.selectedIndex = 0;
+  }
+
+  run(command: PaletteCommand) {
+    this.hideDialog();
+    command.run();
+  }
+
+  private getMenuCommands(
+    menuItems: MenuItem[],
+    path: string[]
+  ): PaletteCommand[] {
+    let returnValue: PaletteCommand[] = [];
+    if (menuItems == null) return returnValue;
+
+    for (let menuItem of menuItems) {
+      if (
+        menuItem.separator ||
+        menuItem.disabled ||
+        menuItem.id == "commandPalette"
+      )
+        continue;
+
+      if (menuItem.items != null)
+        returnValue = returnValue.concat(
+          this.getMenuCommands(
+            menuItem.items as MenuItem[],
+            path.concat(menuItem.label)
+          )
+        );
+      else if (menuItem.command != null)
+        returnValue.push({
+          label: menuItem.label,
+          detail: path.join(" > "),
+          icon: menuItem.icon,
+          run: () => menuItem.command({ originalEvent: null, item: menuItem }),
+        });
+    }
+
+    return returnValue;
+  }
+
+  private getBuildingCommands(): PaletteCommand[] {
+    let returnValue: PaletteCommand[] = [];
+    if (BuildMenuItem.buildMenuItems == null) return returnValue;
+
+    let detail = $localize`Build`;
+    for (let buildMenuItem of BuildMenuItem.buildMenuItems) {
+      let oniItem = OniItem.getOniItem(buildMenuItem.buildingId);
+
+      // The elements and the info items need more than a click to be set up
+      if (oniItem == null || oniItem.isElement || oniItem.isInfo) continue;
+
+      // The names are localized by the game string service when the database is loaded,
+      // the id lets the english names be found in every language
+      returnValue.push({
+        label: oniItem.name,
+        detail: detail,
+        iconUrl: oniItem.iconUrl,
+        alias: oniItem.id,
+        run: () => {
+          this.toolService.changeTool(ToolType.build);
+          this.toolService.buildTool.changeItem(
+            BlueprintHelpers.createInstance(oniItem.id)
+          );
+        },
+      });
+    }
+
+    return returnValue;
+  }
+}
@@ -0,0 +1,29 @@
+import { waitForAsync, ComponentFixture, TestBed } from "@angular/core/testing";
+import { HttpClientModule } from "@angular/common/http";
+import { RouterTestingModule } from "@angular/router/testing";
+
+import { DialogKeybindingsComponent } from "./dialog-keybindings.component";
+import { AuthenticationService } from "src/app/module-blueprint/services/authentification-service";
+
+xdescribe("DialogKeybindingsComponent", () => {
+  let component: DialogKeybindingsComponent;
+  let fixture: ComponentFixture<DialogKeybindingsComponent>;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientModule, RouterTestingModule.withRoutes([])],
+      declarations: [DialogKeybindingsComponent],
+      providers: [AuthenticationService],
+    }).compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(DialogKeybindingsComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it("should create", () => {
+    expect(component).toBeTruthy();
+  });
+});
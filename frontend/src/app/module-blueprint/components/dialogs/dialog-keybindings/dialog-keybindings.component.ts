@@ -0,0 +1,293 @@
+import { Component } from "@angular/core";
+import {
+  BuildMenuCategory,
+  BuildMenuItem,
+  KeyAction,
+  Keybindings,
+  OniItem,
+  StringHelpers,
+} from "../../../../../../../lib/index";
+import { KeybindingService } from "../../../services/keybinding-service";
+
+export interface KeybindingLine {
+  actionId: string;
+  label: string;
+  iconUrl?: string;
+}
+
+export interface KeybindingGroup {
+  name: string;
+  lines: KeybindingLine[];
+}
+
+// Lists the shortcuts and records new ones. The changes are only kept when saved
+@Component({
+  selector: "app-dialog-keybindings",
+  templateUrl: "./dialog-keybindings.component.html",
+  styleUrls: ["./dialog-keybindings.component.css"],
+})
+export class DialogKeybindingsComponent {
+  // Like in the game, two strokes at most : the category, then the building
+  static maxStrokes: number = 2;
+
+  visible: boolean = false;
+  filter: string = "";
+  groups: KeybindingGroup[] = [];
+
+  // Copy of the shortcuts, edited until saved
+  keybindings: Keybindings;
+
+  recordingLine: KeybindingLine = null;
+  recordedStrokes: string[] = [];
+  // Actions that lost their shortcut to the last recorded one
+  unbound: string[] = [];
+
+  private allGroups: KeybindingGroup[] = [];
+
+  constructor(private keybindingService: KeybindingService) {}
+
+  get recordedKeys() {
+    return this.recordedStrokes.join(" ");
+  }
+
+  // Actions that will lose their shortcut if the recorded one is kept
+  get conflicts(): string[] {
+    if (this.recordingLine == null || this.recordedStrokes.length == 0)
+      return [];
+
+    return this.keybindings
+      .getConflicts(this.recordingLine.actionId, this.recordedKeys)
+      .map((actionId) => this.getLabel(actionId));
+  }
+
+  showDialog() {
+    this.keybindings = new Keybindings();
+    this.keybindings.importMdb(this.keybindingService.keybindings.toMdb());
+
+    this.allGroups = this.getGroups();
+    this.filter = "";
+    this.unbound = [];
+    this.updateFilter();
+    this.visible = true;
+  }
+
+  hideDialog() {
+    this.stopRecording();
+    this.visible = false;
+  }
+
+  save() {
+    this.keybindingService.save(this.keybindings.toMdb());
+    this.hideDialog();
+  }
+
+  resetToDefaults() {
+    this.stopRecording();
+    this.keybindings.resetToDefaults();
+    this.unbound = [];
+  }
+
+  updateFilter() {
+    this.groups = [];
+    for (let group of this.allGroups) {
+      let lines = group.lines.filter(
+        (line) =>
+          StringHelpers.fuzzyScore(this.filter, line.label) != undefined ||
+          StringHelpers.fuzzyScore(this.filter, group.name) != undefined ||
+          this.keybindings
+            .getBinding(line.actionId)
+            .toLowerCase()
+            .startsWith(this.filter.toLowerCase())
+      );
+
+      if (lines.length > 0)
+        this.groups.push({ name: group.name, lines: lines });
+    }
+  }
+
+  getKeys(line: KeybindingLine) {
+    if (line == this.recordingLine)
+      return this.recordedStrokes.length == 0
+        ? $localize`Press the keys...`
+        : this.recordedKeys + "...";
+
+    let returnValue = this.keybindings.getBinding(line.actionId);
+    return returnValue == "" ? $localize`None` : returnValue;
+  }
+
+  isDefault(line: KeybindingLine) {
+    return (
+      this.keybindings.getBinding(line.actionId) ==
+      this.keybindings.getDefault(line.actionId)
+    );
+  }
+
+  startRecording(line: KeybindingLine) {
+    this.recordingLine = line;
+    this.recordedStrokes = [];
+    this.unbound = [];
+    this.keybindingService.recording = true;
+  }
+
+  stopRecording() {
+    this.recordingLine = null;
+    this.recordedStrokes = [];
+    this.keybindingService.recording = false;
+  }
+
+  documentKeyPress(event: any) {
+    if (this.recordingLine == null) return;
+
+    event.preventDefault();
+
+    if (event.key == "Escape") this.stopRecording();
+    else if (event.key == "Backspace") this.confirm("");
+    else if (event.key == "Enter") {
+      if (this.recordedStrokes.length > 0) this.confirm(this.recordedKeys);
+    } else {
+      let keys = Keybindings.eventToKeys(event);
+      if (keys == undefined) return;
+
+      this.recordedStrokes.push(keys);
+      if (this.recordedStrokes.length == DialogKeybindingsComponent.maxStrokes)
+        this.confirm(this.recordedKeys);
+    }
+  }
+
+  // The actions using the same keys are unbound, so every shortcut does only one thing
+  private confirm(keys: string) {
+    let actionId = this.recordingLine.actionId;
+    let conflicts = this.keybindings.getConflicts(actionId, keys);
+
+    for (let conflict of conflicts) this.keybindings.setBinding(conflict, "");
+    this.keybindings.setBinding(actionId, keys);
+
+    this.stopRecording();
+    this.unbound = conflicts.map((conflict) => this.getLabel(conflict));
+  }
+
+  private getGroups(): KeybindingGroup[] {
+    let returnValue: KeybindingGroup[] = [];
+    let getGroup = (name: string) => {
+      let group = returnValue.find((g) => g.name == name);
+      if (group == undefined) {
+        group = { name: name, lines: [] };
+        returnValue.push(group);
+      }
+      return group;
+    };
+
+    for (let actionId of this.keybindings.actionIds) {
+      let action = Keybindings.getAction(actionId);
+      if (action != undefined) {
+        getGroup(DialogKeybindingsComponent.getActionGroup(action)).lines.push({
+          actionId: actionId,
+          label: this.getLabel(actionId),
+        });
+        continue;
+      }
+
+      let buildingId = Keybindings.getBuildingId(actionId);
+      let oniItem =
+        buildingId == undefined ? null : OniItem.getOniItem(buildingId);
+      let buildMenuItem =
+        BuildMenuItem.buildMenuItems == null
+          ? undefined
+          : BuildMenuItem.buildMenuItems.find(
+              (item) => item.buildingId == buildingId
+            );
+      if (oniItem == null || buildMenuItem == undefined) continue;
+
+      getGroup(
+        BuildMenuCategory.getCategory(buildMenuItem.category).categoryShowName
+      ).lines.push({
+        actionId: actionId,
+        label: oniItem.name,
+        iconUrl: oniItem.iconUrl,
+      });
+    }
+
+    return returnValue;
+  }
+
+  private getLabel(actionId: string): string {
+    let action = Keybindings.getAction(actionId);
+    if (action != undefined)
+      return DialogKeybindingsComponent.getActionLabel(action);
+
+    let oniItem = OniItem.getOniItem(Keybindings.getBuildingId(actionId));
+    return oniItem == null ? actionId : oniItem.name;
+  }
+
+  private static getActionGroup(action: KeyAction): string {
+    if (action <= KeyAction.CommandPalette) return $localize`Editing`;
+    else if (action <= KeyAction.ToolLogicSimulator) return $localize`Tools`;
+    else if (action <= KeyAction.OverlayRoom) return $localize`Overlays`;
+    else return $localize`Camera`;
+  }
+
+  private static getActionLabel(action: KeyAction): string {
+    switch (action) {
+      case KeyAction.Undo:
+        return $localize`Undo`;
+      case KeyAction.Redo:
+        return $localize`Redo`;
+      case KeyAction.Copy:
+        return $localize`Copy`;
+      case KeyAction.Cut:
+        return $localize`Cut`;
+      case KeyAction.Paste:
+        return $localize`Paste`;
+      case KeyAction.Delete:
+        return $localize`Delete the selection`;
+      case KeyAction.Rotate:
+        return $localize`Rotate`;
+      case KeyAction.FlipHorizontal:
+        return $localize`Flip horizontally`;
+      case KeyAction.FlipVertical:
+        return $localize`Flip vertically`;
+      case KeyAction.CopyBuilding:
+        return $localize`Build the selected building`;
+      case KeyAction.CommandPalette:
+        return $localize`Command palette`;
+      case KeyAction.ToolSelect:
+        return $localize`Select tool`;
+      case KeyAction.ToolBuild:
+        return $localize`Build tool`;
+      case KeyAction.ToolRoute:
+        return $localize`Route tool`;
+      case KeyAction.ToolMeasure:
+        return $localize`Measure tool`;
+      case KeyAction.ToolElementBrush:
+        return $localize`Element brush`;
+      case KeyAction.ToolLogicSimulator:
+        return $localize`Logic simulator`;
+      case KeyAction.OverlayBase:
+        return $localize`:overlay switch on the menu:Buildings`;
+      case KeyAction.OverlayPower:
+        return $localize`:overlay switch on the menu:Power`;
+      case KeyAction.OverlayLiquid:
+        return $localize`:overlay switch on the menu:Plumbing`;
+      case KeyAction.OverlayGas:
+        return $localize`:overlay switch on the menu:Ventilation`;
+      case KeyAction.OverlayAutomation:
+        return $localize`:overlay switch on the menu:Automation`;
+      case KeyAction.OverlayConveyor:
+        return $localize`:overlay switch on the menu:Shipment`;
+      case KeyAction.OverlayRoom:
+        return $localize`:overlay switch on the menu:Rooms`;
+      case KeyAction.CameraLeft:
+        return $localize`Move left`;
+      case KeyAction.CameraRight:
+        return $localize`Move right`;
+      case KeyAction.CameraUp:
+        return $localize`Move up`;
+      case KeyAction.CameraDown:
+        return $localize`Move down`;
+      case KeyAction.ZoomIn:
+        return $localize`Zoom in`;
+      case KeyAction.ZoomOut:
+        return $localize`Zoom out`;
+    }
+  }
+}
@@ -21,7 +21,10 @@ import {
   ToolService,
   IObsToolChanged,
 } from "src/app/module-blueprint/services/tool-service";
-import { IObsBuildItemChanged } from "src/app/module-blueprint/common/tools/build-tool";
+import {
+  BuildMode,
+  IObsBuildItemChanged,
+} from "src/app/module-blueprint/common/tools/build-tool";
 import { OverlayPanel } from "primeng/overlaypanel";
 import { ElementChangeInfo } from "../buildable-element-picker/buildable-element-picker.component";
 import { BlueprintItemInfo } from "../../../../../../../lib/src/blueprint/blueprint-item-info";
@@ -50,6 +53,34 @@ export class ComponentSideBuildToolComponent
     return this.currentItemToBuild.oniItem.isElement;
   }
 
+  buildModes: BuildModeButton[] = [
+    {
+      buildMode: BuildMode.Drag,
+      icon: "pi pi-pencil",
+      label: $localize`Build along the mouse`,
+    },
+    {
+      buildMode: BuildMode.Line,
+      icon: "pi pi-minus",
+      label: $localize`Build a straight line`,
+    },
+    {
+      buildMode: BuildMode.Rectangle,
+      icon: "pi pi-stop",
+      label: $localize`Build the outline of a rectangle`,
+    },
+    {
+      buildMode: BuildMode.FilledRectangle,
+      icon: "pi pi-th-large",
+      label: $localize`Build a filled rectangle`,
+    },
+    {
+      buildMode: BuildMode.FloodFill,
+      icon: "pi pi-palette",
+      label: $localize`Fill the area enclosed by tiles`,
+    },
+  ];
+
   @ViewChild("categoryPanel") categoryPanel: OverlayPanel;
   @ViewChildren(OverlayPanel) itemPanels!: QueryList<OverlayPanel>;
 
@@ -144,6 +175,10 @@ export class ComponentSideBuildToolComponent
     this.uiItemChanged();
   }
 
+  changeBuildMode(buildMode: BuildMode) {
+    this.toolService.buildTool.changeBuildMode(buildMode);
+  }
+
   changeElement(elementChangeInfo: ElementChangeInfo) {
     this.toolService.buildTool.templateItemToBuild.reloadCamera = true;
     //this.toolService.buildTool.templateItemToBuild.setElement(elementChangeInfo.newElement.id, elementChangeInfo.index);
@@ -177,3 +212,9 @@ export class ComponentSideBuildToolComponent
       });
   }
 }
+
+interface BuildModeButton {
+  buildMode: BuildMode;
+  icon: string;
+  label: string;
+}
@@ -0,0 +1,64 @@
+import { Component } from "@angular/core";
+import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import { BrushMode } from "src/app/module-blueprint/common/tools/element-brush-tool";
+import { BrushGradient, ElementBrush } from "../../../../../../../lib/index";
+
+@Component({
+  selector: "app-element-brush-tool",
+  templateUrl: "./element-brush-tool.component.html",
+  styleUrls: ["./element-brush-tool.component.css"],
+})
+export class ElementBrushToolComponent {
+  gradients = BrushGradient;
+  maxRadius = ElementBrush.maxRadius;
+  maxTiles = ElementBrush.maxTiles;
+
+  brushModes: BrushModeButton[] = [
+    {
+      brushMode: BrushMode.brush,
+      icon: "pi pi-pencil",
+      label: $localize`Paint with a round brush`,
+    },
+    {
+      brushMode: BrushMode.rectangle,
+      icon: "pi pi-stop",
+      label: $localize`Paint a rectangle`,
+    },
+    {
+      brushMode: BrushMode.eraser,
+      icon: "pi pi-times-circle",
+      label: $localize`Erase the element cells`,
+    },
+  ];
+
+  get brushTool() {
+    return this.toolService.elementBrushTool;
+  }
+
+  get isRectangle() {
+    return this.brushTool.mode == BrushMode.rectangle;
+  }
+
+  get isEraser() {
+    return this.brushTool.mode == BrushMode.eraser;
+  }
+
+  get gradient() {
+    return this.brushTool.gradient;
+  }
+  set gradient(value: BrushGradient) {
+    this.brushTool.gradient = value;
+  }
+
+  constructor(private toolService: ToolService) {}
+
+  changeBrushMode(brushMode: BrushMode) {
+    this.brushTool.setMode(brushMode);
+  }
+}
+
+interface BrushModeButton {
+  brushMode: BrushMode;
+  icon: string;
+  label: string;
+}
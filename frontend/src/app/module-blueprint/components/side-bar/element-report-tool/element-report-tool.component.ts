@@ -1,10 +1,13 @@
 import { Component, OnInit } from "@angular/core";
 import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import { BlueprintService } from "src/app/module-blueprint/services/blueprint-service";
 import {
   CameraService,
   Visualization,
   BuildableElement,
 } from "../../../../../../../lib/index";
+import { DownloadHelper } from "src/app/module-blueprint/common/download-helper";
+var sanitize = require("sanitize-filename");
 
 @Component({
   selector: "app-element-report-tool",
@@ -16,9 +19,23 @@ export class ElementReportToolComponent {
     return this.toolService.elementReport.data;
   }
 
+  get billOfMaterials() {
+    return this.toolService.elementReport.billOfMaterials;
+  }
+
+  get selectionOnly() {
+    return this.toolService.elementReport.selectionOnly;
+  }
+  set selectionOnly(value: boolean) {
+    this.toolService.elementReport.selectionOnly = value;
+  }
+
   private cameraService: CameraService;
 
-  constructor(private toolService: ToolService) {
+  constructor(
+    private toolService: ToolService,
+    private blueprintService: BlueprintService
+  ) {
     this.cameraService = CameraService.cameraService;
   }
 
@@ -26,6 +43,27 @@ export class ElementReportToolComponent {
     this.toolService.selectTool.selectEveryElement(buildableElement);
   }
 
+  downloadCsv() {
+    this.downloadFile(".csv", this.billOfMaterials.toCsv());
+  }
+
+  downloadJson() {
+    this.downloadFile(
+      ".json",
+      JSON.stringify(this.billOfMaterials.toJson(), null, 2)
+    );
+  }
+
+  private downloadFile(extension: string, content: string) {
+    let name = this.blueprintService.name;
+    if (name == undefined) name = "new blueprint";
+
+    DownloadHelper.downloadFile(
+      sanitize(name + " materials") + extension,
+      content
+    );
+  }
+
   close() {
     this.cameraService.visualization = Visualization.none;
   }
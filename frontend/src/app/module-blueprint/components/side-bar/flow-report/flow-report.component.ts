@@ -0,0 +1,60 @@
+import { Component } from "@angular/core";
+import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import {
+  PipeBuildingFlow,
+  PipeNetworkFlow,
+} from "../../../../../../../lib/index";
+
+@Component({
+  selector: "app-flow-report",
+  templateUrl: "./flow-report.component.html",
+  styleUrls: ["./flow-report.component.css"],
+})
+export class FlowReportComponent {
+  get data() {
+    return this.toolService.flowReport.data;
+  }
+
+  get heatmap() {
+    return this.toolService.flowReport.heatmap;
+  }
+  set heatmap(value: boolean) {
+    this.toolService.flowReport.heatmap = value;
+  }
+
+  constructor(private toolService: ToolService) {}
+
+  getThroughputText(flow: PipeNetworkFlow): string {
+    return $localize`${FlowReportComponent.format(
+      flow.throughput
+    )} kg/s delivered, ${flow.capacity} kg packets`;
+  }
+
+  getStarvedText(consumer: PipeBuildingFlow): string {
+    let name = consumer.blueprintItem.oniItem.name;
+    let received = FlowReportComponent.format(consumer.received);
+
+    if (consumer.demand > 0)
+      return $localize`${name} starved : ${received} kg/s of ${FlowReportComponent.format(
+        consumer.demand
+      )} kg/s`;
+    else return $localize`${name} receives nothing`;
+  }
+
+  getBackedUpText(flow: PipeNetworkFlow): string {
+    return $localize`${flow.backedUpSegments.length} backed-up pipes`;
+  }
+
+  hasProblems(flow: PipeNetworkFlow): boolean {
+    return flow.starvedConsumers.length > 0 || flow.backedUpSegments.length > 0;
+  }
+
+  highlight(flow: PipeNetworkFlow) {
+    this.toolService.selectTool.hoveredNetwork =
+      flow == null ? null : flow.network;
+  }
+
+  static format(rate: number): string {
+    return (Math.round(rate * 1000) / 1000).toString();
+  }
+}
@@ -0,0 +1,48 @@
+import { Component } from "@angular/core";
+import { BlueprintService } from "src/app/module-blueprint/services/blueprint-service";
+import {
+  HistoryAction,
+  HistoryCommand,
+  OniItem,
+} from "../../../../../../../lib/index";
+
+@Component({
+  selector: "app-history-panel",
+  templateUrl: "./history-panel.component.html",
+  styleUrls: ["./history-panel.component.css"],
+})
+export class HistoryPanelComponent {
+  get history() {
+    return this.blueprintService.history;
+  }
+
+  constructor(private blueprintService: BlueprintService) {}
+
+  getCommandText(command: HistoryCommand): string {
+    let name = $localize`buildings`;
+    if (command.itemId != null) {
+      let oniItem = OniItem.getOniItem(command.itemId);
+      name = oniItem != null ? oniItem.name : command.itemId;
+    }
+
+    switch (command.action) {
+      case HistoryAction.Build:
+        return $localize`Built ${command.count} ${name}`;
+      case HistoryAction.Destroy:
+        return $localize`Destroyed ${command.count} ${name}`;
+      case HistoryAction.Modify:
+        return $localize`Modified ${command.count} ${name}`;
+      case HistoryAction.Edit:
+        return $localize`Edited ${command.count} ${name}`;
+    }
+  }
+
+  // Index is the number of commands applied once the entry is selected
+  goTo(index: number) {
+    this.history.goTo(index);
+  }
+
+  close() {
+    this.blueprintService.historyVisible = false;
+  }
+}
@@ -47,12 +47,9 @@ export class ItemCollectionInfoComponent implements OnInit, IObsSelected {
     else return undefined;
   }
 
-  // TODO boolean in export
+  // Element cells can be gases, liquids or natural tiles
   get isGasLiquid() {
-    return (
-      this.itemCollection.items[0].buildableElements[0].hasTag("Gas") ||
-      this.itemCollection.items[0].buildableElements[0].hasTag("Liquid")
-    );
+    return this.itemCollection.oniItem.isElement;
   }
   get showPipeContent() {
     return (
@@ -103,6 +100,7 @@ export class ItemCollectionInfoComponent implements OnInit, IObsSelected {
   changeElement(elementChangeInfo: ElementChangeInfo) {
     // TODO confirm dialog
 
+    this.blueprintService.history.markModified(this.itemCollection.items);
     this.itemCollection.items.map((item) => {
       item.setElement(elementChangeInfo.newElement.id, elementChangeInfo.index);
     });
@@ -112,6 +110,7 @@ export class ItemCollectionInfoComponent implements OnInit, IObsSelected {
   }
 
   changePipeElement(element: BuildableElement) {
+    this.blueprintService.history.markModified(this.itemCollection.items);
     this.itemCollection.items.map((item) => {
       let blueprintItemWire = item as BlueprintItemWire;
       if (blueprintItemWire != null) blueprintItemWire.pipeElement = element;
@@ -122,10 +121,12 @@ export class ItemCollectionInfoComponent implements OnInit, IObsSelected {
   }
 
   changeTemperature(temperature: number) {
+    this.blueprintService.history.markModified(this.itemCollection.items);
     this.itemCollection.items.map((item) => {
       item.temperature = temperature;
     });
 
     this.itemCollection.updateTemperatureWarning();
+    this.blueprintService.blueprint.emitBlueprintChanged();
   }
 }
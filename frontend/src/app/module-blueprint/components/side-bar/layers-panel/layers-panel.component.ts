@@ -0,0 +1,79 @@
+import { Component } from "@angular/core";
+import { BlueprintService } from "src/app/module-blueprint/services/blueprint-service";
+import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import {
+  BlueprintLayer,
+  BlueprintLayers,
+} from "../../../../../../../lib/index";
+
+@Component({
+  selector: "app-layers-panel",
+  templateUrl: "./layers-panel.component.html",
+  styleUrls: ["./layers-panel.component.css"],
+})
+export class LayersPanelComponent {
+  layers = BlueprintLayers.layers;
+
+  get blueprintLayers() {
+    return this.blueprintService.blueprint.layers;
+  }
+
+  constructor(
+    private blueprintService: BlueprintService,
+    private toolService: ToolService
+  ) {}
+
+  getLayerName(layer: BlueprintLayer): string {
+    switch (layer) {
+      case BlueprintLayer.Buildings:
+        return $localize`Buildings`;
+      case BlueprintLayer.Tiles:
+        return $localize`Tiles`;
+      case BlueprintLayer.Backwalls:
+        return $localize`Backwalls`;
+      case BlueprintLayer.Elements:
+        return $localize`Elements`;
+      case BlueprintLayer.Power:
+        return $localize`Power`;
+      case BlueprintLayer.Liquid:
+        return $localize`Plumbing`;
+      case BlueprintLayer.Gas:
+        return $localize`Ventilation`;
+      case BlueprintLayer.Conveyor:
+        return $localize`Shipment`;
+      case BlueprintLayer.Automation:
+        return $localize`Automation`;
+    }
+  }
+
+  toggleHidden(layer: BlueprintLayer) {
+    this.blueprintLayers.setHidden(
+      layer,
+      !this.blueprintLayers.isHidden(layer)
+    );
+    this.deselectUneditable();
+  }
+
+  toggleLocked(layer: BlueprintLayer) {
+    this.blueprintLayers.setLocked(
+      layer,
+      !this.blueprintLayers.isLocked(layer)
+    );
+    this.deselectUneditable();
+  }
+
+  // The selection should not keep what can't be edited anymore
+  private deselectUneditable() {
+    let selectTool = this.toolService.selectTool;
+    if (
+      selectTool.selectedItems.find(
+        (item) => !this.blueprintLayers.isItemEditable(item)
+      ) != undefined
+    )
+      selectTool.deselectAll();
+  }
+
+  close() {
+    this.blueprintService.layersVisible = false;
+  }
+}
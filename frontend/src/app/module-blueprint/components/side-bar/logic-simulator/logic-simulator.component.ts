@@ -0,0 +1,52 @@
+import { Component, OnDestroy } from "@angular/core";
+import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import {
+  ConnectionHelper,
+  LogicSimulator,
+  NetworkPort,
+} from "../../../../../../../lib/index";
+
+@Component({
+  selector: "app-logic-simulator",
+  templateUrl: "./logic-simulator.component.html",
+  styleUrls: ["./logic-simulator.component.css"],
+})
+export class LogicSimulatorComponent implements OnDestroy {
+  get simulatorTool() {
+    return this.toolService.logicSimulatorTool;
+  }
+
+  constructor(private toolService: ToolService) {}
+
+  ngOnDestroy() {
+    this.simulatorTool.pause();
+  }
+
+  getTickText(): string {
+    return $localize`Tick ${
+      this.simulatorTool.simulator?.tick ?? 0
+    } : ${this.simulatorTool.seconds.toFixed(1)} s`;
+  }
+
+  getPortName(port: NetworkPort): string {
+    return ConnectionHelper.getConnectionName(port.utilityConnection.type);
+  }
+
+  // Ribbons show their four bits, the first one on the right like in the game
+  getPortValue(port: NetworkPort): string {
+    let value = this.simulatorTool.simulator.getPortValue(port);
+
+    if (LogicSimulator.isRibbon(port))
+      return value.toString(2).padStart(4, "0");
+    else return value != 0 ? $localize`Green` : $localize`Red`;
+  }
+
+  isPortActive(port: NetworkPort): boolean {
+    return this.simulatorTool.simulator.getPortValue(port) != 0;
+  }
+
+  clickPlay() {
+    if (this.simulatorTool.playing) this.simulatorTool.pause();
+    else this.simulatorTool.play();
+  }
+}
@@ -0,0 +1,47 @@
+import { waitForAsync, ComponentFixture, TestBed } from "@angular/core/testing";
+import { HttpClientModule } from "@angular/common/http";
+import { RouterTestingModule } from "@angular/router/testing";
+
+import { AuthenticationService } from "src/app/module-blueprint/services/authentification-service";
+import { BuildTool } from "src/app/module-blueprint/common/tools/build-tool";
+import { ElementReport } from "src/app/module-blueprint/common/tools/element-report";
+import { ValidationReport } from "src/app/module-blueprint/common/tools/validation-report";
+import { PowerReport } from "src/app/module-blueprint/common/tools/power-report";
+import { MeasureToolComponent } from "./measure-tool.component";
+import { SelectTool } from "src/app/module-blueprint/common/tools/select-tool";
+import { RouteTool } from "src/app/module-blueprint/common/tools/route-tool";
+import { MeasureTool } from "src/app/module-blueprint/common/tools/measure-tool";
+import { RoomReport } from "src/app/module-blueprint/common/tools/room-report";
+
+xdescribe("MeasureToolComponent", () => {
+  let component: MeasureToolComponent;
+  let fixture: ComponentFixture<MeasureToolComponent>;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientModule, RouterTestingModule.withRoutes([])],
+      declarations: [MeasureToolComponent],
+      providers: [
+        AuthenticationService,
+        BuildTool,
+        ElementReport,
+        ValidationReport,
+        PowerReport,
+        RoomReport,
+        RouteTool,
+        MeasureTool,
+        SelectTool,
+      ],
+    }).compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(MeasureToolComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it("should create", () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,41 @@
+import { Component } from "@angular/core";
+import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import { MeasureMode } from "src/app/module-blueprint/common/tools/measure-tool";
+
+@Component({
+  selector: "app-measure-tool",
+  templateUrl: "./measure-tool.component.html",
+  styleUrls: ["./measure-tool.component.css"],
+})
+export class MeasureToolComponent {
+  modes = MeasureMode;
+
+  get measureTool() {
+    return this.toolService.measureTool;
+  }
+
+  get mode() {
+    return this.measureTool.mode;
+  }
+  set mode(value: MeasureMode) {
+    this.measureTool.setMode(value);
+  }
+
+  constructor(private toolService: ToolService) {}
+
+  getRulerText(): string {
+    let ruler = this.measureTool.ruler;
+    return $localize`${ruler.dx} tiles horizontally, ${ruler.dy} tiles vertically`;
+  }
+
+  getDistanceText(): string {
+    return $localize`Distance : ${this.measureTool.ruler.distance.toFixed(
+      2
+    )} tiles`;
+  }
+
+  getBoxText(): string {
+    let box = this.measureTool.box;
+    return $localize`${box.width} x ${box.height} tiles, ${box.area} tiles in total`;
+  }
+}
@@ -0,0 +1,29 @@
+import { waitForAsync, ComponentFixture, TestBed } from "@angular/core/testing";
+import { HttpClientModule } from "@angular/common/http";
+import { RouterTestingModule } from "@angular/router/testing";
+
+import { AuthenticationService } from "src/app/module-blueprint/services/authentification-service";
+import { ModuleLibraryComponent } from "./module-library.component";
+
+xdescribe("ModuleLibraryComponent", () => {
+  let component: ModuleLibraryComponent;
+  let fixture: ComponentFixture<ModuleLibraryComponent>;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientModule, RouterTestingModule.withRoutes([])],
+      declarations: [ModuleLibraryComponent],
+      providers: [AuthenticationService],
+    }).compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(ModuleLibraryComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it("should create", () => {
+    expect(component).toBeTruthy();
+  });
+});
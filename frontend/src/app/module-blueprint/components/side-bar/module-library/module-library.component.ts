@@ -0,0 +1,81 @@
+import { Component, EventEmitter, Output } from "@angular/core";
+import { SelectItem } from "primeng/api";
+import { ModuleService } from "src/app/module-blueprint/services/module-service";
+import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import {
+  BlueprintClipboard,
+  BlueprintModules,
+  MdbModule,
+  ModuleAnchor,
+} from "../../../../../../../lib/index";
+
+@Component({
+  selector: "app-module-library",
+  templateUrl: "./module-library.component.html",
+  styleUrls: ["./module-library.component.css"],
+})
+export class ModuleLibraryComponent {
+  // The parent renders the thumbnail before adding the module
+  @Output() saveModule = new EventEmitter<MdbModule>();
+
+  maxNameLength = BlueprintModules.maxNameLength;
+
+  name: string = "";
+  anchor: ModuleAnchor = ModuleAnchor.BottomLeft;
+  anchorOptions: SelectItem[] = [
+    { label: $localize`Bottom left`, value: ModuleAnchor.BottomLeft },
+    { label: $localize`Bottom right`, value: ModuleAnchor.BottomRight },
+    { label: $localize`Top left`, value: ModuleAnchor.TopLeft },
+    { label: $localize`Top right`, value: ModuleAnchor.TopRight },
+    { label: $localize`Center`, value: ModuleAnchor.Center },
+  ];
+
+  get modules() {
+    return this.moduleService.modules;
+  }
+
+  get selectedItems() {
+    return this.toolService.selectTool.selectedItems;
+  }
+
+  get canSave() {
+    return this.name.trim().length > 0 && this.selectedItems.length > 0;
+  }
+
+  constructor(
+    private moduleService: ModuleService,
+    private toolService: ToolService
+  ) {}
+
+  save() {
+    if (!this.canSave) return;
+
+    this.saveModule.emit(
+      BlueprintModules.create(this.name.trim(), this.selectedItems, this.anchor)
+    );
+    this.name = "";
+  }
+
+  build(mdbModule: MdbModule) {
+    this.toolService.pasteFragment(
+      BlueprintModules.getAnchoredFragment(mdbModule)
+    );
+  }
+
+  // The canvas builds the fragment where it is dropped
+  dragStart(event: DragEvent, mdbModule: MdbModule) {
+    event.dataTransfer.setData(
+      "text/plain",
+      BlueprintClipboard.toText(BlueprintModules.getAnchoredFragment(mdbModule))
+    );
+    event.dataTransfer.effectAllowed = "copy";
+  }
+
+  delete(mdbModule: MdbModule) {
+    this.moduleService.delete(mdbModule);
+  }
+
+  close() {
+    this.moduleService.visible = false;
+  }
+}
@@ -0,0 +1,41 @@
+import { Component } from "@angular/core";
+import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import {
+  CircuitBudget,
+  PowerWarningType,
+} from "../../../../../../../lib/index";
+
+@Component({
+  selector: "app-power-report",
+  templateUrl: "./power-report.component.html",
+  styleUrls: ["./power-report.component.css"],
+})
+export class PowerReportComponent {
+  get data() {
+    return this.toolService.powerReport.data;
+  }
+
+  constructor(private toolService: ToolService) {}
+
+  getBudgetText(budget: CircuitBudget): string {
+    let returnValue = $localize`${budget.consumption} W used, ${budget.generation} W generated`;
+    if (budget.capacity > 0)
+      returnValue += $localize`, wires rated for ${budget.capacity} W`;
+
+    return returnValue;
+  }
+
+  getWarningText(budget: CircuitBudget, warning: PowerWarningType): string {
+    switch (warning) {
+      case PowerWarningType.Overloaded:
+        return $localize`Overloaded : ${budget.consumption} W on ${budget.capacity} W wires`;
+      case PowerWarningType.NoGenerator:
+        return $localize`No generator on this circuit`;
+    }
+  }
+
+  highlight(budget: CircuitBudget) {
+    this.toolService.selectTool.hoveredNetwork =
+      budget == null ? null : budget.network;
+  }
+}
@@ -0,0 +1,43 @@
+import { waitForAsync, ComponentFixture, TestBed } from "@angular/core/testing";
+import { HttpClientModule } from "@angular/common/http";
+import { RouterTestingModule } from "@angular/router/testing";
+
+import { AuthenticationService } from "src/app/module-blueprint/services/authentification-service";
+import { BuildTool } from "src/app/module-blueprint/common/tools/build-tool";
+import { ElementReport } from "src/app/module-blueprint/common/tools/element-report";
+import { ValidationReport } from "src/app/module-blueprint/common/tools/validation-report";
+import { PowerReport } from "src/app/module-blueprint/common/tools/power-report";
+import { RoomReport } from "src/app/module-blueprint/common/tools/room-report";
+import { RoomReportComponent } from "./room-report.component";
+import { SelectTool } from "src/app/module-blueprint/common/tools/select-tool";
+
+xdescribe("RoomReportComponent", () => {
+  let component: RoomReportComponent;
+  let fixture: ComponentFixture<RoomReportComponent>;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientModule, RouterTestingModule.withRoutes([])],
+      declarations: [RoomReportComponent],
+      providers: [
+        AuthenticationService,
+        BuildTool,
+        ElementReport,
+        ValidationReport,
+        PowerReport,
+        RoomReport,
+        SelectTool,
+      ],
+    }).compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(RoomReportComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it("should create", () => {
+    expect(component).toBeTruthy();
+  });
+});
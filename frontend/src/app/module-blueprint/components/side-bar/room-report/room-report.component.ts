@@ -0,0 +1,114 @@
+import { Component } from "@angular/core";
+import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import {
+  Room,
+  RoomRequirementType,
+  RoomTypeId,
+} from "../../../../../../../lib/index";
+
+@Component({
+  selector: "app-room-report",
+  templateUrl: "./room-report.component.html",
+  styleUrls: ["./room-report.component.css"],
+})
+export class RoomReportComponent {
+  get data() {
+    return this.toolService.roomReport.data;
+  }
+
+  constructor(private toolService: ToolService) {}
+
+  getRoomName(room: Room): string {
+    if (room.roomType == undefined) return $localize`Miscellaneous room`;
+
+    switch (room.roomType.id) {
+      case RoomTypeId.Latrine:
+        return $localize`Latrine`;
+      case RoomTypeId.Washroom:
+        return $localize`Washroom`;
+      case RoomTypeId.Barracks:
+        return $localize`Barracks`;
+      case RoomTypeId.MessHall:
+        return $localize`Mess Hall`;
+      case RoomTypeId.GreatHall:
+        return $localize`Great Hall`;
+      case RoomTypeId.Hospital:
+        return $localize`Hospital`;
+      case RoomTypeId.MassageClinic:
+        return $localize`Massage Clinic`;
+      case RoomTypeId.RecreationRoom:
+        return $localize`Recreation Room`;
+      case RoomTypeId.Stable:
+        return $localize`Stable`;
+      case RoomTypeId.Greenhouse:
+        return $localize`Greenhouse`;
+      case RoomTypeId.PowerPlant:
+        return $localize`Power Plant`;
+    }
+  }
+
+  getSizeText(room: Room): string {
+    if (room.roomType == undefined) return $localize`${room.size} tiles`;
+    else
+      return $localize`${room.size} tiles (${room.roomType.minSize} to ${room.roomType.maxSize})`;
+  }
+
+  getErrors(room: Room): string[] {
+    let returnValue: string[] = [];
+
+    if (room.tooSmall)
+      returnValue.push(
+        $localize`Too small : at least ${room.roomType.minSize} tiles`
+      );
+    if (room.tooBig)
+      returnValue.push(
+        $localize`Too big : at most ${room.roomType.maxSize} tiles`
+      );
+
+    for (let requirement of room.missingRequirements)
+      returnValue.push(this.getRequirementText(requirement));
+
+    return returnValue;
+  }
+
+  getRequirementText(requirement: RoomRequirementType): string {
+    switch (requirement) {
+      case RoomRequirementType.Toilet:
+        return $localize`Missing a toilet`;
+      case RoomRequirementType.FlushToilet:
+        return $localize`Missing a lavatory`;
+      case RoomRequirementType.WashStation:
+        return $localize`Missing a sink or a hand sanitizer`;
+      case RoomRequirementType.NoOuthouse:
+        return $localize`Outhouses are not allowed`;
+      case RoomRequirementType.Bed:
+        return $localize`Missing a bed`;
+      case RoomRequirementType.MessTable:
+        return $localize`Missing a mess table`;
+      case RoomRequirementType.Recreation:
+        return $localize`Missing a recreational building`;
+      case RoomRequirementType.Decor:
+        return $localize`Missing a decor item`;
+      case RoomRequirementType.Medical:
+        return $localize`Missing a medical building`;
+      case RoomRequirementType.MassageTable:
+        return $localize`Missing a massage table`;
+      case RoomRequirementType.CritterFeeder:
+        return $localize`Missing a critter feeder`;
+      case RoomRequirementType.GroomingStation:
+        return $localize`Missing a grooming station`;
+      case RoomRequirementType.FarmStation:
+        return $localize`Missing a farm station`;
+      case RoomRequirementType.Planter:
+        return $localize`Missing a planter`;
+      case RoomRequirementType.PowerControlStation:
+        return $localize`Missing a power control station`;
+      case RoomRequirementType.Generator:
+        return $localize`Missing a generator`;
+    }
+  }
+
+  highlight(room: Room) {
+    this.toolService.roomReport.highlighted = room;
+  }
+}
@@ -0,0 +1,23 @@
+import { Component } from "@angular/core";
+import { ToolService } from "src/app/module-blueprint/services/tool-service";
+
+@Component({
+  selector: "app-route-tool",
+  templateUrl: "./route-tool.component.html",
+  styleUrls: ["./route-tool.component.css"],
+})
+export class RouteToolComponent {
+  get routeTool() {
+    return this.toolService.routeTool;
+  }
+
+  constructor(private toolService: ToolService) {}
+
+  getRouteText(): string {
+    return $localize`${this.routeTool.route.path.length} tiles of ${this.routeTool.conduitName}`;
+  }
+
+  getBridgeText(): string {
+    return $localize`A crossing is unavoidable, the route uses ${this.routeTool.route.bridges} bridge(s)`;
+  }
+}
@@ -46,4 +46,12 @@ export class ComponentSideSelectionToolComponent {
   destroyAll() {
     this.toolService.selectTool.destroyAll();
   }
+
+  rotateSelection() {
+    this.toolService.selectTool.rotateSelection();
+  }
+
+  flipSelection(horizontal: boolean) {
+    this.toolService.selectTool.flipSelection(horizontal);
+  }
 }
@@ -0,0 +1,59 @@
+import { Component } from "@angular/core";
+import { ToolService } from "src/app/module-blueprint/services/tool-service";
+import { BuildTool } from "src/app/module-blueprint/common/tools/build-tool";
+import { ToolType } from "src/app/module-blueprint/common/tools/tool";
+import {
+  ValidationIssue,
+  ValidationIssueType,
+  ValidationSeverity,
+} from "../../../../../../../lib/index";
+
+@Component({
+  selector: "app-validation-report",
+  templateUrl: "./validation-report.component.html",
+  styleUrls: ["./validation-report.component.css"],
+})
+export class ValidationReportComponent {
+  get data() {
+    return this.toolService.validationReport.data;
+  }
+
+  constructor(private toolService: ToolService) {}
+
+  isError(issue: ValidationIssue) {
+    return issue.severity == ValidationSeverity.Error;
+  }
+
+  getIssueText(issue: ValidationIssue): string {
+    let name = issue.item != null ? issue.item.oniItem.name : issue.itemId;
+    let otherName = issue.other != null ? issue.other.oniItem.name : "";
+
+    switch (issue.type) {
+      case ValidationIssueType.Overlap:
+        return $localize`${name} overlaps ${otherName}`;
+      case ValidationIssueType.PortCollision:
+        return $localize`${name} : The ${issue.detail} from ${otherName} is in the way`;
+      case ValidationIssueType.PlacementRule:
+        return (
+          name + " : " + BuildTool.getPlacementFailureReason(issue.placementFailure)
+        );
+      case ValidationIssueType.UnknownBuilding:
+        return $localize`Unknown building : ${issue.itemId}`;
+      case ValidationIssueType.UnknownElement:
+        return $localize`${name} is made of an unknown element`;
+      case ValidationIssueType.DanglingConnection:
+        return $localize`${name} is connected to nothing`;
+    }
+  }
+
+  selectIssue(issue: ValidationIssue) {
+    if (issue.item == null) return;
+
+    this.toolService.changeTool(ToolType.select);
+    this.toolService.selectTool.selectThis(issue.item);
+  }
+
+  close() {
+    this.toolService.validationReport.visible = false;
+  }
+}
@@ -10,6 +10,8 @@ import { Dialog } from "primeng/dialog";
 import { LoginFormComponent } from "../login-form/login-form.component";
 import { RegisterFormComponent } from "../register-form/register-form.component";
 import { disableDebugTools } from "@angular/platform-browser";
+import { KeybindingService } from "../../../services/keybinding-service";
+import { ModuleService } from "../../../services/module-service";
 
 @Component({
   selector: "app-login-dialog",
@@ -50,7 +52,11 @@ export class ComponentLoginDialogComponent implements OnInit {
     else return false;
   }
 
-  constructor(private cdRef: ChangeDetectorRef) {}
+  constructor(
+    private cdRef: ChangeDetectorRef,
+    private keybindingService: KeybindingService,
+    private moduleService: ModuleService
+  ) {}
 
   ngOnInit() {
     // This is here because we have getters with static=false ViewChild
@@ -79,6 +85,13 @@ export class ComponentLoginDialogComponent implements OnInit {
     this.visible = false;
   }
 
+  // The shortcuts and modules saved in the account replace the ones of this browser
+  loggedIn() {
+    this.hideDialog();
+    this.keybindingService.loadFromAccount();
+    this.moduleService.loadFromAccount();
+  }
+
   get isLogin(): boolean {
     return this.loginType == LoginType.Login;
   }
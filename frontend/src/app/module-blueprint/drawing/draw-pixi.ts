@@ -58,8 +58,13 @@ export class DrawPixi implements PixiUtil {
   utilityGraphicsBack: PIXI.Graphics;
   utilityGraphicsFront: PIXI.Graphics;
   blueprintContainer: PIXI.Container;
+  textContainer: PIXI.Container;
   parent: ComponentCanvasComponent;
 
+  // Texts are reused from one frame to the next
+  private texts: PIXI.Text[] = [];
+  private nbTexts: number = 0;
+
   Init(canvas: ElementRef, parent: ComponentCanvasComponent) {
     DrawPixi.instance = this;
 
@@ -90,6 +95,8 @@ export class DrawPixi implements PixiUtil {
     this.pixiApp.stage.addChild(this.backGraphics);
     this.pixiApp.stage.addChild(this.frontGraphics);
     this.pixiApp.stage.addChild(this.blueprintContainer);
+    this.textContainer = new PIXI.Container();
+    this.pixiApp.stage.addChild(this.textContainer);
 
     //this.pixiApp.stage.sortableChildren = true;
     this.pixiApp.ticker.add(() => {
@@ -135,6 +142,9 @@ export class DrawPixi implements PixiUtil {
     this.frontGraphics.clear();
     this.utilityGraphicsBack.clear();
     this.utilityGraphicsFront.clear();
+
+    for (let text of this.texts) text.visible = false;
+    this.nbTexts = 0;
   }
 
   FillRect(color: number, x: number, y: number, w: number, h: number) {
@@ -168,7 +178,8 @@ export class DrawPixi implements PixiUtil {
     fillColor: number,
     borderColor: number,
     fillAlpha: number,
-    borderAlpha: number
+    borderAlpha: number,
+    graphics: PIXI.Graphics = null
   ) {
     let rectanglePosition = new Vector2(
       (topLeft.x + camera.cameraOffset.x) * camera.currentZoom,
@@ -179,7 +190,8 @@ export class DrawPixi implements PixiUtil {
       (topLeft.y - bottomRight.y) * camera.currentZoom
     );
 
-    let graphics = frontGraphics ? this.frontGraphics : this.backGraphics;
+    if (graphics == null)
+      graphics = frontGraphics ? this.frontGraphics : this.backGraphics;
 
     graphics.beginFill(fillColor, fillAlpha);
     graphics.drawRect(
@@ -208,4 +220,70 @@ export class DrawPixi implements PixiUtil {
       graphics.lineTo(rectanglePosition.x, rectanglePosition.y);
     }
   }
+
+  // Line between two positions in tiles
+  drawTileLine(
+    camera: CameraService,
+    start: Vector2,
+    end: Vector2,
+    lineWidth: number,
+    color: number,
+    alpha: number,
+    graphics: PIXI.Graphics = null
+  ) {
+    if (graphics == null) graphics = this.frontGraphics;
+
+    graphics.lineStyle(lineWidth, color, alpha);
+    graphics.moveTo(
+      (start.x + camera.cameraOffset.x) * camera.currentZoom,
+      (-start.y + camera.cameraOffset.y) * camera.currentZoom
+    );
+    graphics.lineTo(
+      (end.x + camera.cameraOffset.x) * camera.currentZoom,
+      (-end.y + camera.cameraOffset.y) * camera.currentZoom
+    );
+  }
+
+  // Text centered on a position in tiles
+  // With a container (for image exports), a new text is added to it
+  drawTileText(
+    camera: CameraService,
+    position: Vector2,
+    text: string,
+    color: number,
+    container: PIXI.Container = null
+  ) {
+    let pixiText: PIXI.Text;
+    if (container != null) {
+      pixiText = this.getNewText();
+      container.addChild(pixiText);
+    } else {
+      if (this.nbTexts == this.texts.length) {
+        let newText = this.getNewText();
+        this.texts.push(newText);
+        this.textContainer.addChild(newText);
+      }
+      pixiText = this.texts[this.nbTexts++];
+    }
+
+    pixiText.visible = true;
+    pixiText.text = text;
+    pixiText.style.fill = color;
+    pixiText.x = (position.x + camera.cameraOffset.x) * camera.currentZoom;
+    pixiText.y = (-position.y + camera.cameraOffset.y) * camera.currentZoom;
+  }
+
+  private getNewText(): PIXI.Text {
+    let returnValue = new PIXI.Text("", {
+      fontFamily: "Arial",
+      fontSize: 14,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 3,
+    });
+    returnValue.anchor.set(0.5);
+    returnValue.zIndex = 1000;
+
+    return returnValue;
+  }
 }
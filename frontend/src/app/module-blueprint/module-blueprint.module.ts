@@ -53,6 +53,8 @@ import { SelectTool } from "./common/tools/select-tool";
 import { BuildTool } from "./common/tools/build-tool";
 import { ComponentSaveDialogComponent } from "./components/dialogs/component-save-dialog/component-save-dialog.component";
 import { DialogShareUrlComponent } from "./components/dialogs/dialog-share-url/dialog-share-url.component";
+import { DialogCommandPaletteComponent } from "./components/dialogs/dialog-command-palette/dialog-command-palette.component";
+import { DialogKeybindingsComponent } from "./components/dialogs/dialog-keybindings/dialog-keybindings.component";
 import { ComponentSideBuildToolComponent } from "./components/side-bar/build-tool/build-tool.component";
 import { ItemCollectionInfoComponent } from "./components/side-bar/item-collection-info/item-collection-info.component";
 import { DialogBrowseComponent } from "./components/dialogs/dialog-browse/dialog-browse.component";
@@ -62,6 +64,25 @@ import { LikeWidgetComponent } from "./components/like-widget/like-widget.compon
 import { BuildableElementPickerComponent } from "./components/side-bar/buildable-element-picker/buildable-element-picker.component";
 import { ElementReport } from "./common/tools/element-report";
 import { ElementReportToolComponent } from "./components/side-bar/element-report-tool/element-report-tool.component";
+import { ValidationReport } from "./common/tools/validation-report";
+import { ValidationReportComponent } from "./components/side-bar/validation-report/validation-report.component";
+import { PowerReport } from "./common/tools/power-report";
+import { PowerReportComponent } from "./components/side-bar/power-report/power-report.component";
+import { RoomReport } from "./common/tools/room-report";
+import { RoomReportComponent } from "./components/side-bar/room-report/room-report.component";
+import { FlowReport } from "./common/tools/flow-report";
+import { FlowReportComponent } from "./components/side-bar/flow-report/flow-report.component";
+import { RouteTool } from "./common/tools/route-tool";
+import { RouteToolComponent } from "./components/side-bar/route-tool/route-tool.component";
+import { MeasureTool } from "./common/tools/measure-tool";
+import { MeasureToolComponent } from "./components/side-bar/measure-tool/measure-tool.component";
+import { ElementBrushTool } from "./common/tools/element-brush-tool";
+import { ElementBrushToolComponent } from "./components/side-bar/element-brush-tool/element-brush-tool.component";
+import { LogicSimulatorTool } from "./common/tools/logic-simulator-tool";
+import { LogicSimulatorComponent } from "./components/side-bar/logic-simulator/logic-simulator.component";
+import { HistoryPanelComponent } from "./components/side-bar/history-panel/history-panel.component";
+import { LayersPanelComponent } from "./components/side-bar/layers-panel/layers-panel.component";
+import { ModuleLibraryComponent } from "./components/side-bar/module-library/module-library.component";
 import { UiScreenContainerComponent } from "./components/side-bar/ui-screens/ui-screen-container/ui-screen-container.component";
 import { SingleSliderScreenComponent } from "./components/side-bar/ui-screens/single-slider-screen/single-slider-screen.component";
 import { ThresholdSwhitchScreenComponent } from "./components/side-bar/ui-screens/threshold-switch-screen/threshold-switch-screen.component";
@@ -132,12 +153,25 @@ import { ResetPasswordComponent } from "./components/user-auth/reset-password/re
     RegisterFormComponent,
     LoginFormComponent,
     DialogShareUrlComponent,
+    DialogCommandPaletteComponent,
+    DialogKeybindingsComponent,
     ItemCollectionInfoComponent,
     DialogBrowseComponent,
     DialogExportImagesComponent,
     LikeWidgetComponent,
     BuildableElementPickerComponent,
     ElementReportToolComponent,
+    ValidationReportComponent,
+    PowerReportComponent,
+    RoomReportComponent,
+    FlowReportComponent,
+    RouteToolComponent,
+    MeasureToolComponent,
+    ElementBrushToolComponent,
+    LogicSimulatorComponent,
+    HistoryPanelComponent,
+    LayersPanelComponent,
+    ModuleLibraryComponent,
     UiScreenContainerComponent,
     SingleSliderScreenComponent,
     ThresholdSwhitchScreenComponent,
@@ -164,7 +198,15 @@ import { ResetPasswordComponent } from "./components/user-auth/reset-password/re
     ToolService,
     SelectTool,
     BuildTool,
+    RouteTool,
+    MeasureTool,
+    ElementBrushTool,
+    LogicSimulatorTool,
     ElementReport,
+    ValidationReport,
+    PowerReport,
+    RoomReport,
+    FlowReport,
     DatePipe,
     MessageService,
     {
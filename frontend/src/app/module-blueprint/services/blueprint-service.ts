@@ -2,11 +2,12 @@ import { Injectable } from "@angular/core";
 import { Location } from "@angular/common";
 import { HttpClient } from "@angular/common/http";
 import { AuthenticationService } from "./authentification-service";
+import { HistoryStorageService } from "./history-storage-service";
 import { map } from "rxjs/operators";
 import {
   Blueprint,
-  IObsBlueprintChange,
-  BlueprintItem,
+  BlueprintHistory,
+  IObsHistoryChange,
   Overlay,
   Display,
   BniBlueprint,
@@ -20,7 +21,7 @@ import {
 import * as yaml from "node_modules/js-yaml/lib/js-yaml";
 
 @Injectable({ providedIn: "root" })
-export class BlueprintService implements IObsBlueprintChange {
+export class BlueprintService implements IObsHistoryChange {
   static baseUrl: string = window.location.origin;
 
   id: string;
@@ -48,13 +49,14 @@ export class BlueprintService implements IObsBlueprintChange {
   constructor(
     private http: HttpClient,
     private authService: AuthenticationService,
-    private location: Location
+    private location: Location,
+    private historyStorage: HistoryStorageService
   ) {
     this.blueprint = new Blueprint();
 
     // Undo / Redo stuff
-    this.blueprint.subscribeBlueprintChanged(this);
-    this.resetUndoStates();
+    this.history = new BlueprintHistory(this.blueprint);
+    this.history.subscribeHistoryChanged(this);
 
     this.observersBlueprintChanged = [];
 
@@ -78,8 +80,6 @@ export class BlueprintService implements IObsBlueprintChange {
         this.openJsonBlueprint(fileList[0]);
       else if (fileType == BlueprintFileType.BSON)
         this.openBsonBlueprint(fileList[0]);
-
-      this.resetUndoStates();
     }
   }
 
@@ -98,9 +98,7 @@ export class BlueprintService implements IObsBlueprintChange {
     this.name = templateYaml.name;
     newBlueprint.importFromOni(templateYaml);
 
-    this.observersBlueprintChanged.map((observer) => {
-      observer.blueprintChanged(newBlueprint);
-    });
+    this.emitBlueprintLoaded(newBlueprint);
   }
 
   private openJsonBlueprint(file: File) {
@@ -118,9 +116,7 @@ export class BlueprintService implements IObsBlueprintChange {
     this.name = templateJson.friendlyname;
     newBlueprint.importFromBni(templateJson);
 
-    this.observersBlueprintChanged.map((observer) => {
-      observer.blueprintChanged(newBlueprint);
-    });
+    this.emitBlueprintLoaded(newBlueprint);
   }
 
   private openBsonBlueprint(file: File) {
@@ -135,9 +131,7 @@ export class BlueprintService implements IObsBlueprintChange {
     let newBlueprint = new Blueprint();
     newBlueprint.importFromBinary(template);
 
-    this.observersBlueprintChanged.map((observer) => {
-      observer.blueprintChanged(newBlueprint);
-    });
+    this.emitBlueprintLoaded(newBlueprint);
   }
 
   public loadUrlBlueprint(url: string) {
@@ -151,11 +145,26 @@ export class BlueprintService implements IObsBlueprintChange {
     this.reset();
     let newBlueprint = new Blueprint();
     this.location.replaceState("/");
-    this.observersBlueprintChanged.map((observer) => {
-      observer.blueprintChanged(newBlueprint);
-    });
-    this.resetUndoStates();
-    // TODO firing the observable and then restting the states is duplicated. fix this
+
+    // Starting over on purpose, the unsaved history is not wanted anymore
+    this.historyStorage.delete(BlueprintService.newHistoryKey);
+    this.emitBlueprintLoaded(newBlueprint, false);
+  }
+
+  private emitBlueprintLoaded(
+    blueprint: Blueprint,
+    restoreHistory: boolean = true
+  ) {
+    // Loading is not an undoable change, the history starts over once it is done
+    this.history.suspend();
+    try {
+      this.observersBlueprintChanged.map((observer) => {
+        observer.blueprintChanged(blueprint);
+      });
+    } finally {
+      this.history.resume();
+      this.resetUndoStates(restoreHistory);
+    }
   }
 
   reset() {
@@ -163,67 +172,80 @@ export class BlueprintService implements IObsBlueprintChange {
     this.likedByMe = false;
   }
 
-  suppressChanges: boolean;
-  undoStates: MdbBlueprint[];
-  undoIndex: number;
+  history: BlueprintHistory;
+  historyVisible: boolean = false;
+  layersVisible: boolean = false;
   undo() {
-    let tempUndoIndex = this.undoIndex - 1;
-
-    if (tempUndoIndex < 0 || tempUndoIndex >= this.undoStates.length) return;
-
-    this.undoIndex = tempUndoIndex;
-    this.reloadUndoIndex();
+    this.history.undo();
   }
 
   redo() {
-    let tempUndoIndex = this.undoIndex + 1;
-
-    if (tempUndoIndex >= this.undoStates.length) return;
-
-    this.undoIndex = tempUndoIndex;
-    this.reloadUndoIndex();
-  }
-
-  reloadUndoIndex() {
-    let newBlueprint = new Blueprint();
-    newBlueprint.importFromMdb(this.undoStates[this.undoIndex]);
-
-    this.suppressChanges = true;
-    this.blueprint.destroyAndCopyItems(newBlueprint);
-    this.blueprint.refreshOverlayInfo();
-    this.suppressChanges = false;
-  }
-
-  resetUndoStates() {
-    this.suppressChanges = false;
-    this.undoStates = [];
-    this.undoIndex = 0;
-
-    this.blueprintChanged();
+    this.history.redo();
   }
 
-  itemDestroyed() {}
-  itemAdded(blueprintItem: BlueprintItem) {}
-  blueprintChanged() {
-    // We don't want to add a state if the changes come from the undo / redo action
-    if (this.suppressChanges) return;
-
-    // If we are in the middle of the states, doing anythings scraps the further redos
-    if (this.undoIndex < this.undoStates.length - 1)
-      this.undoStates.splice(this.undoIndex + 1);
-
-    let newState = this.blueprint.toMdbBlueprint();
-    /*if (this.undoStates.length > 0) {
-      let oldState = this.undoStates[this.undoStates.length - 1];
-      let oldHash = this.hashMdb(oldState);
-      let newHash = this.hashMdb(newState);
-      if (oldHash != newHash) this.undoStates.push(newState);
+  // The stored history is only restored on the blueprint it was recorded on
+  static newHistoryKey: string = "new";
+  private historyKey: string = BlueprintService.newHistoryKey;
+  private historyBaseHash: number;
+  private historyBaseIndex: number;
+  private historyLoaded: boolean = false;
+  private saveHistoryTimeout: any;
+
+  resetUndoStates(restoreHistory: boolean = true) {
+    // Nothing is stored until the previous history had a chance to be restored
+    this.historyLoaded = false;
+    this.history.reset();
+
+    this.historyKey =
+      this.id != null ? this.id : BlueprintService.newHistoryKey;
+    this.historyBaseHash = this.hashMdb(this.blueprint.toMdbBlueprint());
+    this.historyBaseIndex = 0;
+
+    if (!restoreHistory) {
+      this.historyLoaded = true;
+      return;
     }
-    else */ this.undoStates.push(newState);
 
-    while (this.undoStates.length > 50) this.undoStates.splice(0, 1);
+    let historyKey = this.historyKey;
+    let historyBaseHash = this.historyBaseHash;
+    this.historyStorage.load(historyKey).then((storedHistory) => {
+      // Another blueprint might have been opened in the meantime
+      if (
+        historyKey != this.historyKey ||
+        historyBaseHash != this.historyBaseHash ||
+        this.historyLoaded
+      )
+        return;
+
+      if (
+        storedHistory != null &&
+        storedHistory.baseHash == historyBaseHash &&
+        this.history.commands.length == 0
+      ) {
+        this.history.restore(storedHistory.commands, storedHistory.baseIndex);
+        this.history.goTo(storedHistory.index);
+        this.historyBaseIndex = storedHistory.baseIndex;
+      }
+
+      this.historyLoaded = true;
+      this.historyChanged();
+    });
+  }
 
-    this.undoIndex = this.undoStates.length - 1;
+  historyChanged() {
+    if (!this.historyLoaded) return;
+
+    // Commands come in bursts while editing, only store the last state
+    clearTimeout(this.saveHistoryTimeout);
+    this.saveHistoryTimeout = setTimeout(() => {
+      this.historyStorage.save({
+        key: this.historyKey,
+        baseHash: this.historyBaseHash,
+        baseIndex: this.historyBaseIndex,
+        commands: this.history.commands,
+        index: this.history.index,
+      });
+    }, 1000);
   }
 
   hashMdb(mdb: MdbBlueprint) {
@@ -250,10 +272,7 @@ export class BlueprintService implements IObsBlueprintChange {
   }
 
   handleGetBlueprint(blueprint: Blueprint) {
-    this.observersBlueprintChanged.map((observer) => {
-      observer.blueprintChanged(blueprint);
-    });
-    this.resetUndoStates();
+    this.emitBlueprintLoaded(blueprint);
   }
 
   handleGetBlueprintError(error: any) {
@@ -357,6 +376,14 @@ export class BlueprintService implements IObsBlueprintChange {
           if (response.id) {
             this.id = response.id;
             this.location.replaceState(`/b/${this.id}`);
+
+            // The saved blueprint is the new base of the history
+            if (this.historyKey != this.id)
+              this.historyStorage.delete(this.historyKey);
+            this.historyKey = this.id;
+            this.historyBaseHash = this.hashMdb(saveBlueprint);
+            this.historyBaseIndex = this.history.index;
+            this.historyChanged();
           }
           return response;
         })
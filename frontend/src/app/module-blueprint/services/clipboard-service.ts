@@ -0,0 +1,44 @@
+import { Injectable } from "@angular/core";
+import {
+  BlueprintClipboard,
+  BlueprintItem,
+  MdbBlueprint,
+} from "../../../../../lib/index";
+
+// Copied items go to the system clipboard as json, so they can be pasted in another tab
+// The last copy is also kept here, for browsers that don't let us read the clipboard
+@Injectable({ providedIn: "root" })
+export class ClipboardService {
+  private lastCopy: string = null;
+
+  copy(blueprintItems: BlueprintItem[]) {
+    if (blueprintItems.length == 0) return;
+
+    let text = BlueprintClipboard.toText(
+      BlueprintClipboard.copy(blueprintItems)
+    );
+    this.lastCopy = text;
+
+    if (navigator.clipboard != null)
+      navigator.clipboard.writeText(text).catch((error) => {
+        console.log(error);
+      });
+  }
+
+  read(): Promise<MdbBlueprint> {
+    let readText: Promise<string> =
+      navigator.clipboard != null && navigator.clipboard.readText != null
+        ? navigator.clipboard.readText().catch(() => this.lastCopy)
+        : Promise.resolve(this.lastCopy);
+
+    return readText.then((text) => {
+      let fragment = text != null ? BlueprintClipboard.fromText(text) : null;
+
+      // Something else was copied since, but this is not a blueprint
+      if (fragment == null && this.lastCopy != null)
+        fragment = BlueprintClipboard.fromText(this.lastCopy);
+
+      return fragment;
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import { Injectable } from "@angular/core";
+import { HistoryCommand } from "../../../../../lib/index";
+
+// The undo history is kept in the browser so it survives a reload
+// Storage is best effort : if IndexedDB is unavailable, nothing is stored or restored
+@Injectable({ providedIn: "root" })
+export class HistoryStorageService {
+  private static databaseName: string = "blueprintnotincluded-history";
+  private static storeName: string = "histories";
+
+  private database: Promise<IDBDatabase>;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.database != null) return this.database;
+
+    this.database = new Promise((resolve) => {
+      if (window.indexedDB == null) {
+        resolve(null);
+        return;
+      }
+
+      let request = window.indexedDB.open(
+        HistoryStorageService.databaseName,
+        1
+      );
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(HistoryStorageService.storeName, {
+          keyPath: "key",
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+
+    return this.database;
+  }
+
+  load(key: string): Promise<StoredHistory> {
+    return this.openDatabase().then((database) => {
+      return new Promise((resolve) => {
+        if (database == null) {
+          resolve(null);
+          return;
+        }
+
+        let request = database
+          .transaction(HistoryStorageService.storeName, "readonly")
+          .objectStore(HistoryStorageService.storeName)
+          .get(key);
+        request.onsuccess = () => resolve(request.result as StoredHistory);
+        request.onerror = () => resolve(null);
+      });
+    });
+  }
+
+  save(history: StoredHistory): Promise<void> {
+    return this.write((store) => store.put(history));
+  }
+
+  delete(key: string): Promise<void> {
+    return this.write((store) => store.delete(key));
+  }
+
+  private write(action: (store: IDBObjectStore) => void): Promise<void> {
+    return this.openDatabase().then((database) => {
+      return new Promise((resolve) => {
+        if (database == null) {
+          resolve();
+          return;
+        }
+
+        let transaction = database.transaction(
+          HistoryStorageService.storeName,
+          "readwrite"
+        );
+        action(transaction.objectStore(HistoryStorageService.storeName));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => resolve();
+        transaction.onabort = () => resolve();
+      });
+    });
+  }
+}
+
+export interface StoredHistory {
+  // The blueprint id, or "new" for a blueprint that was never saved
+  key: string;
+  // Hash of the blueprint as it was opened, the history is only restored on the same blueprint
+  baseHash: number;
+  // Position in the commands matching the blueprint as it was opened
+  baseIndex: number;
+  commands: HistoryCommand[];
+  index: number;
+}
@@ -0,0 +1,124 @@
+import { HttpClient } from "@angular/common/http";
+import { Injectable } from "@angular/core";
+import {
+  Keybindings,
+  MdbKeybindings,
+  UserKeybindings,
+} from "../../../../../lib/index";
+import { AuthenticationService } from "./authentification-service";
+
+// Keyboard shortcuts : kept in the browser, and in the account when the user is logged in
+@Injectable({ providedIn: "root" })
+export class KeybindingService {
+  private static localStorage: string = "blueprintnotincluded-keybindings";
+
+  keybindings: Keybindings = new Keybindings();
+
+  // The settings dialog reads the keys itself while a shortcut is recorded
+  recording: boolean = false;
+
+  private observers: IObsKeyAction[] = [];
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthenticationService
+  ) {
+    this.loadFromBrowser();
+  }
+
+  subscribeKeyAction(observer: IObsKeyAction) {
+    this.observers.push(observer);
+  }
+
+  // The building shortcuts follow the build menu of the database
+  databaseLoaded() {
+    this.keybindings.loadDefaults();
+    this.loadFromAccount();
+  }
+
+  keyDown(event: any) {
+    if (this.recording) return;
+
+    // Text fields keep their keys
+    let textboxElements = ["INPUT", "TEXTAREA"];
+    if (textboxElements.includes(document.activeElement.tagName)) return;
+
+    if (event.key == "Escape") {
+      this.keybindings.clearPending();
+      return;
+    }
+
+    let keys = Keybindings.eventToKeys(event);
+    if (keys == undefined) return;
+
+    let actionId = this.keybindings.press(keys);
+
+    // Some shortcuts are also browser shortcuts, like Ctrl+K or F1
+    if (actionId != undefined || this.keybindings.pendingKeys != "")
+      event.preventDefault();
+
+    if (actionId != undefined)
+      this.observers.map((observer) => observer.keyActionPressed(actionId));
+  }
+
+  save(mdbKeybindings: MdbKeybindings) {
+    this.keybindings.importMdb(mdbKeybindings);
+    localStorage.setItem(
+      KeybindingService.localStorage,
+      JSON.stringify(this.keybindings.toMdb())
+    );
+
+    if (this.authService.isLoggedIn()) {
+      let body: UserKeybindings = { keybindings: this.keybindings.toMdb() };
+      this.http
+        .post("/api/savekeybindings", body, {
+          headers: { Authorization: `Bearer ${this.authService.getToken()}` },
+        })
+        .subscribe({
+          error: (error) => console.log(error),
+        });
+    }
+  }
+
+  // The account shortcuts replace the browser ones, so they follow the user on every computer
+  loadFromAccount() {
+    if (!this.authService.isLoggedIn()) return;
+
+    this.http
+      .get<UserKeybindings>("/api/getkeybindings", {
+        headers: { Authorization: `Bearer ${this.authService.getToken()}` },
+      })
+      .subscribe({
+        next: (response) => {
+          if (response == null || response.keybindings == null) return;
+
+          // An account without shortcuts gets the ones made before logging in
+          if (Object.keys(response.keybindings).length == 0) {
+            let local = this.keybindings.toMdb();
+            if (Object.keys(local).length > 0) this.save(local);
+            return;
+          }
+
+          this.keybindings.importMdb(response.keybindings);
+          localStorage.setItem(
+            KeybindingService.localStorage,
+            JSON.stringify(this.keybindings.toMdb())
+          );
+        },
+        error: (error) => console.log(error),
+      });
+  }
+
+  private loadFromBrowser() {
+    try {
+      let stored = localStorage.getItem(KeybindingService.localStorage);
+      if (stored != null) this.keybindings.importMdb(JSON.parse(stored));
+    } catch (error) {
+      console.log(error);
+    }
+  }
+}
+
+export interface IObsKeyAction {
+  keyActionPressed(actionId: string);
+}
@@ -0,0 +1,155 @@
+import { Injectable } from "@angular/core";
+import {
+  Blueprint,
+  BlueprintItem,
+  CameraService,
+  GroupTransform,
+  MirrorAxis,
+  Vector2,
+} from "../../../../../lib/index";
+import { DrawPixi } from "../drawing/draw-pixi";
+
+// Mirror axis used by the build and select tools : everything built or destroyed
+// on one side of the axis is also built or destroyed on the other side
+@Injectable({ providedIn: "root" })
+export class MirrorService {
+  axis: MirrorAxis = null;
+
+  // The next click on the canvas places an axis in this direction
+  placingVertical: boolean = null;
+  private hoverTile: Vector2 = null;
+
+  get placing() {
+    return this.placingVertical != null;
+  }
+
+  startPlacing(vertical: boolean) {
+    this.placingVertical = vertical;
+    this.hoverTile = null;
+  }
+
+  stopPlacing() {
+    this.placingVertical = null;
+    this.hoverTile = null;
+  }
+
+  hover(tile: Vector2) {
+    this.hoverTile = Vector2.clone(tile);
+  }
+
+  // The axis goes through the middle of the clicked tile
+  place(tile: Vector2) {
+    this.axis = MirrorService.getAxis(this.placingVertical, tile);
+    this.stopPlacing();
+  }
+
+  // Moves the axis between two tiles, or back to the middle of one
+  shiftHalfTile() {
+    if (this.axis == null) return;
+
+    this.axis = {
+      vertical: this.axis.vertical,
+      position:
+        this.axis.position % 1 == 0
+          ? this.axis.position + 0.5
+          : this.axis.position - 0.5,
+    };
+  }
+
+  disable() {
+    this.axis = null;
+    this.stopPlacing();
+  }
+
+  // Returns null when there is no axis, or when the item is its own mirror
+  mirror(blueprintItem: BlueprintItem): BlueprintItem {
+    if (this.axis == null) return null;
+
+    let returnValue = GroupTransform.mirror(blueprintItem, this.axis);
+    if (
+      returnValue.position.equals(blueprintItem.position) &&
+      returnValue.orientation == blueprintItem.orientation
+    )
+      return null;
+
+    return returnValue;
+  }
+
+  mirrorPosition(position: Vector2): Vector2 {
+    if (this.axis == null) return Vector2.clone(position);
+
+    return this.axis.vertical
+      ? new Vector2(2 * this.axis.position - position.x, position.y)
+      : new Vector2(position.x, 2 * this.axis.position - position.y);
+  }
+
+  // Items of the blueprint that mirror the given ones, without the given ones
+  getMirroredItems(
+    blueprint: Blueprint,
+    blueprintItems: BlueprintItem[]
+  ): BlueprintItem[] {
+    let returnValue: BlueprintItem[] = [];
+    if (this.axis == null) return returnValue;
+
+    for (let blueprintItem of blueprintItems) {
+      let mirrored = GroupTransform.mirror(blueprintItem, this.axis);
+      let match = blueprint
+        .getBlueprintItemsAt(mirrored.position)
+        .find(
+          (other) =>
+            other.id == mirrored.id &&
+            other.position.equals(mirrored.position) &&
+            other.orientation == mirrored.orientation
+        );
+      mirrored.destroy();
+
+      if (
+        match != undefined &&
+        blueprintItems.indexOf(match) == -1 &&
+        returnValue.indexOf(match) == -1
+      )
+        returnValue.push(match);
+    }
+
+    return returnValue;
+  }
+
+  draw(drawPixi: DrawPixi, camera: CameraService) {
+    let axis = this.axis;
+    if (this.placing)
+      axis =
+        this.hoverTile == null
+          ? null
+          : MirrorService.getAxis(this.placingVertical, this.hoverTile);
+    if (axis == null) return;
+
+    // Tiles span from x to x + 1, and from y - 1 to y
+    let screen = drawPixi.pixiApp.screen;
+    let left = -camera.cameraOffset.x;
+    let top = camera.cameraOffset.y;
+    let right = left + screen.width / camera.currentZoom;
+    let bottom = top - screen.height / camera.currentZoom;
+    let halfWidth = 2 / camera.currentZoom;
+
+    let center = axis.vertical ? axis.position + 0.5 : axis.position - 0.5;
+    drawPixi.drawTileRectangle(
+      camera,
+      axis.vertical
+        ? new Vector2(center - halfWidth, top)
+        : new Vector2(left, center + halfWidth),
+      axis.vertical
+        ? new Vector2(center + halfWidth, bottom)
+        : new Vector2(right, center - halfWidth),
+      true,
+      0,
+      0xff00ff,
+      0xff00ff,
+      this.placing ? 0.4 : 0.8,
+      0
+    );
+  }
+
+  private static getAxis(vertical: boolean, tile: Vector2): MirrorAxis {
+    return { vertical: vertical, position: vertical ? tile.x : tile.y };
+  }
+}
@@ -0,0 +1,110 @@
+import { HttpClient } from "@angular/common/http";
+import { Injectable } from "@angular/core";
+import {
+  BlueprintModules,
+  MdbModule,
+  ModuleDelete,
+  ModuleListResponse,
+  ModuleSaveResponse,
+} from "../../../../../lib/index";
+import { AuthenticationService } from "./authentification-service";
+
+// Module library : parts of blueprints saved to be built again.
+// Modules are kept in the browser, and in the account when the user is logged in
+@Injectable({ providedIn: "root" })
+export class ModuleService {
+  private static localStorage: string = "blueprintnotincluded-modules";
+
+  modules: MdbModule[] = [];
+
+  // The library panel
+  visible: boolean = false;
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthenticationService
+  ) {
+    this.loadFromBrowser();
+  }
+
+  private get headers() {
+    return { Authorization: `Bearer ${this.authService.getToken()}` };
+  }
+
+  add(mdbModule: MdbModule) {
+    this.modules.push(mdbModule);
+    this.storeInBrowser();
+    this.upload(mdbModule);
+  }
+
+  delete(mdbModule: MdbModule) {
+    this.modules = this.modules.filter((m) => m != mdbModule);
+    this.storeInBrowser();
+
+    if (mdbModule.id != null && this.authService.isLoggedIn()) {
+      let body: ModuleDelete = { moduleId: mdbModule.id };
+      this.http
+        .post("/api/deletemodule", body, { headers: this.headers })
+        .subscribe({ error: (error) => console.log(error) });
+    }
+  }
+
+  // The account modules replace the synced ones of this browser,
+  // and the modules saved while logged out are added to the account
+  loadFromAccount() {
+    if (!this.authService.isLoggedIn()) return;
+
+    this.http
+      .get<ModuleListResponse>("/api/getmodules", { headers: this.headers })
+      .subscribe({
+        next: (response) => {
+          if (response == null || response.modules == null) return;
+
+          let notSynced = this.modules.filter((m) => m.id == null);
+          this.modules = response.modules.concat(notSynced);
+          this.storeInBrowser();
+
+          for (let mdbModule of notSynced) this.upload(mdbModule);
+        },
+        error: (error) => console.log(error),
+      });
+  }
+
+  private upload(mdbModule: MdbModule) {
+    if (!this.authService.isLoggedIn()) return;
+
+    this.http
+      .post<ModuleSaveResponse>("/api/savemodule", mdbModule, {
+        headers: this.headers,
+      })
+      .subscribe({
+        next: (response) => {
+          mdbModule.id = response.id;
+          this.storeInBrowser();
+        },
+        error: (error) => console.log(error),
+      });
+  }
+
+  private storeInBrowser() {
+    try {
+      localStorage.setItem(
+        ModuleService.localStorage,
+        JSON.stringify(this.modules)
+      );
+    } catch (error) {
+      // The storage is full, the modules are still in the account
+      console.log(error);
+    }
+  }
+
+  private loadFromBrowser() {
+    try {
+      let stored = JSON.parse(localStorage.getItem(ModuleService.localStorage));
+      if (Array.isArray(stored))
+        this.modules = stored.filter((m) => BlueprintModules.isMdbModule(m));
+    } catch (error) {
+      console.log(error);
+    }
+  }
+}
@@ -2,16 +2,31 @@ import { Injectable } from "@angular/core";
 import { ToolType, ITool, IChangeTool } from "../common/tools/tool";
 import { SelectTool } from "../common/tools/select-tool";
 import {
+  BlueprintHelpers,
   BlueprintItem,
   CameraService,
+  KeyAction,
+  Keybindings,
+  MdbBlueprint,
   Vector2,
 } from "../../../../../lib/index";
 import { DrawPixi } from "../drawing/draw-pixi";
 import { BuildTool } from "../common/tools/build-tool";
 import { ElementReport } from "../common/tools/element-report";
+import { ValidationReport } from "../common/tools/validation-report";
+import { PowerReport } from "../common/tools/power-report";
+import { RoomReport } from "../common/tools/room-report";
+import { FlowReport } from "../common/tools/flow-report";
+import { RouteTool } from "../common/tools/route-tool";
+import { MeasureTool } from "../common/tools/measure-tool";
+import { ElementBrushTool } from "../common/tools/element-brush-tool";
+import { LogicSimulatorTool } from "../common/tools/logic-simulator-tool";
+import { ClipboardService } from "./clipboard-service";
+import { MirrorService } from "./mirror-service";
+import { IObsKeyAction, KeybindingService } from "./keybinding-service";
 
 @Injectable({ providedIn: "root" })
-export class ToolService implements ITool, IChangeTool {
+export class ToolService implements ITool, IChangeTool, IObsKeyAction {
   private allTools: ITool[];
   private currentTool: ITool;
 
@@ -27,7 +42,18 @@ export class ToolService implements ITool, IChangeTool {
   constructor(
     public selectTool: SelectTool,
     public buildTool: BuildTool,
-    public elementReport: ElementReport
+    public routeTool: RouteTool,
+    public measureTool: MeasureTool,
+    public elementBrushTool: ElementBrushTool,
+    public logicSimulatorTool: LogicSimulatorTool,
+    public elementReport: ElementReport,
+    public validationReport: ValidationReport,
+    public powerReport: PowerReport,
+    public roomReport: RoomReport,
+    public flowReport: FlowReport,
+    private clipboardService: ClipboardService,
+    private mirrorService: MirrorService,
+    keybindingService: KeybindingService
   ) {
     this.observers = [];
 
@@ -36,9 +62,19 @@ export class ToolService implements ITool, IChangeTool {
     this.allTools = [];
     this.allTools.push(this.selectTool);
     this.allTools.push(this.buildTool);
+    this.allTools.push(this.routeTool);
+    this.allTools.push(this.measureTool);
+    this.allTools.push(this.elementBrushTool);
+    this.allTools.push(this.logicSimulatorTool);
 
     this.buildTool.parent = this;
+    this.routeTool.parent = this;
+    this.measureTool.parent = this;
+    this.elementBrushTool.parent = this;
+    this.logicSimulatorTool.parent = this;
     this.selectTool.parent = this;
+
+    keybindingService.subscribeKeyAction(this);
   }
 
   subscribeToolChanged(observer: IObsToolChanged) {
@@ -77,6 +113,41 @@ export class ToolService implements ITool, IChangeTool {
     this.observers.map((observer) => observer.toolChanged(newTool));
   }
 
+  // The pasted items are placed with the build tool
+  paste() {
+    this.clipboardService.read().then((fragment) => {
+      if (fragment == null) return;
+
+      this.pasteFragment(fragment);
+    });
+  }
+
+  pasteFragment(fragment: MdbBlueprint) {
+    this.changeTool(ToolType.build);
+    this.buildTool.paste(fragment);
+  }
+
+  // Key Action interface
+  keyActionPressed(actionId: string) {
+    let buildingId = Keybindings.getBuildingId(actionId);
+    if (buildingId != undefined) {
+      this.changeTool(ToolType.build);
+      this.buildTool.changeItem(BlueprintHelpers.createInstance(buildingId));
+      return;
+    }
+
+    let action = Keybindings.getAction(actionId);
+    if (action == KeyAction.ToolSelect) this.changeTool(ToolType.select);
+    else if (action == KeyAction.ToolBuild) this.changeTool(ToolType.build);
+    else if (action == KeyAction.ToolRoute) this.changeTool(ToolType.route);
+    else if (action == KeyAction.ToolMeasure) this.changeTool(ToolType.measure);
+    else if (action == KeyAction.ToolElementBrush)
+      this.changeTool(ToolType.elementBrush);
+    else if (action == KeyAction.ToolLogicSimulator)
+      this.changeTool(ToolType.logicSimulator);
+    else this.keyAction(action);
+  }
+
   // Tool interface
   switchFrom() {}
 
@@ -86,34 +157,42 @@ export class ToolService implements ITool, IChangeTool {
     this.currentTool.mouseOut();
   }
   mouseDown(tile: Vector2) {
-    this.currentTool.mouseDown(tile);
+    if (!this.mirrorService.placing) this.currentTool.mouseDown(tile);
   }
   leftClick(tile: Vector2) {
-    this.currentTool.leftClick(tile);
+    // Placing the mirror axis takes the click from the current tool
+    if (this.mirrorService.placing) this.mirrorService.place(tile);
+    else this.currentTool.leftClick(tile);
   }
   rightClick(tile: Vector2) {
     this.currentTool.rightClick(tile);
   }
   hover(tile: Vector2) {
+    if (this.mirrorService.placing) this.mirrorService.hover(tile);
     this.currentTool.hover(tile);
   }
   drag(tileStart: Vector2, tileStop: Vector2) {
-    this.currentTool.drag(tileStart, tileStop);
+    if (!this.mirrorService.placing) this.currentTool.drag(tileStart, tileStop);
   }
   dragStop() {
     this.currentTool.dragStop();
   }
   keyDown(keyCode: string) {
-    // TODO This is hacky, but when I press B on the info icons, the UI changes tool.
-    // I have to figure out a way of suppressing key presses when in a text area
-    if (false)
-      /*if (keyCode == 'b' && this.currentTool.toolType != ToolType.build)*/ this.changeTool(
-        ToolType.build
-      );
-    else this.currentTool.keyDown(keyCode);
+    if (keyCode == "Escape" && this.mirrorService.placing) {
+      this.mirrorService.stopPlacing();
+      return;
+    }
+
+    this.currentTool.keyDown(keyCode);
+  }
+  keyAction(action: KeyAction) {
+    this.currentTool.keyAction(action);
   }
   draw(drawPixi: DrawPixi, camera: CameraService) {
+    if (this.roomReport.visible) this.roomReport.draw(drawPixi, camera);
+    if (this.flowReport.visible) this.flowReport.draw(drawPixi, camera);
     this.currentTool.draw(drawPixi, camera);
+    this.mirrorService.draw(drawPixi, camera);
   }
 
   // These should never be used
@@ -1,6 +1,8 @@
 export * from './src/vector2';
 export * from './src/utility-connection';
 export * from './src/oni-item';
+export * from './src/string-helpers';
+export * from './src/keybindings';
 export * from './src/enums/connection-type';
 export * from './src/enums/display';
 export * from './src/enums/orientation';
@@ -10,6 +12,8 @@ export * from './src/enums/sprite-tag';
 export * from './src/enums/visualization';
 export * from './src/enums/z-index';
 export * from './src/enums/build-location-rule';
+export * from './src/enums/placement-failure';
+export * from './src/enums/blueprint-layer';
 export * from './src/io/bni/bni-building';
 export * from './src/io/bni/bni-blueprint';
 export * from './src/io/mdb/mdb-building';
@@ -17,6 +21,7 @@ export * from './src/io/mdb/mdb-blueprint';
 export * from './src/io/oni/oni-cell';
 export * from './src/io/oni/oni-building';
 export * from './src/io/oni/oni-template';
+export * from './src/io/binary/binary-blueprint';
 export * from './src/b-export/b-build-order';
 export * from './src/b-export/b-building';
 export * from './src/b-export/b-element';
@@ -34,9 +39,27 @@ export * from './src/drawing/draw-part';
 export * from './src/drawing/camera-service';
 export * from './src/drawing/pixi-util';
 export * from './src/blueprint/blueprint';
+export * from './src/blueprint/spatial-index';
+export * from './src/blueprint/blueprint-layers';
 export * from './src/blueprint/blueprint-helpers';
 export * from './src/blueprint/blueprint-item';
 export * from './src/blueprint/blueprint-item-element';
 export * from './src/blueprint/blueprint-item-tile';
 export * from './src/blueprint/blueprint-item-wire';
+export * from './src/blueprint/placement-rules';
+export * from './src/blueprint/blueprint-validator';
+export * from './src/blueprint/network-analyzer';
+export * from './src/blueprint/power-budget';
+export * from './src/blueprint/bill-of-materials';
+export * from './src/blueprint/blueprint-history';
+export * from './src/blueprint/blueprint-clipboard';
+export * from './src/blueprint/group-transform';
+export * from './src/blueprint/build-shapes';
+export * from './src/blueprint/utility-router';
+export * from './src/blueprint/room-detector';
+export * from './src/blueprint/measurement';
+export * from './src/blueprint/blueprint-module';
+export * from './src/blueprint/element-brush';
+export * from './src/blueprint/logic-simulator';
+export * from './src/blueprint/pipe-flow';
 //# sourceMappingURL=index.d.ts.map
\ No newline at end of file
@@ -33,6 +33,11 @@ export declare class BBuilding {
     buildLocationRule: BuildLocationRule;
     tileableLeftRight: boolean;
     tileableTopBottom: boolean;
+    energyConsumptionWhenActive: number;
+    generatorWattageRating: number;
+    maxWattageRating: number;
+    conduitInputRate: number;
+    conduitOutputRate: number;
 }
 export declare class BSpriteGroup {
     groupName: string;
@@ -39,6 +39,16 @@ export class BBuilding {
 
   tileableLeftRight: boolean = false;
   tileableTopBottom: boolean = false;
+
+  // Power, in watts
+  energyConsumptionWhenActive: number = 0;
+  generatorWattageRating: number = 0;
+  // Wires and wire bridges only
+  maxWattageRating: number = 0;
+
+  // Liquid or gas taken from the input port and sent to the output port, in kg/s
+  conduitInputRate: number = 0;
+  conduitOutputRate: number = 0;
 }
 
 // All sprites for a building
@@ -15,6 +15,7 @@ export declare class BuildableElement {
     static init(): void;
     static load(originals: BuildableElement[]): void;
     static getElement(id: string): BuildableElement;
+    static getElementByTag(tag: number): BuildableElement | undefined;
     static getElementsFromTag(tag: string): BuildableElement[];
     static getElementsFromTags(tags: string[]): BuildableElement[][];
 }
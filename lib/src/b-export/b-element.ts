@@ -66,6 +66,13 @@ export class BuildableElement {
     throw new Error('BuildableElement.getElement : Element not found');
   }
 
+  // Mod files store selected elements as hashed tags
+  public static getElementByTag(tag: number): BuildableElement | undefined {
+    for (let element of BuildableElement.elements) if (element.tag == tag) return element;
+
+    return undefined;
+  }
+
   // Get a list of elements that have the parameter tag
   public static getElementsFromTag(tag: string): BuildableElement[] {
     let returnValue: BuildableElement[] = [];
@@ -0,0 +1,26 @@
+import { BlueprintItem } from './blueprint-item';
+import { OniItem } from '../oni-item';
+import { BuildableElement } from '../b-export/b-element';
+export interface MaterialAmount {
+    buildableElement: BuildableElement;
+    mass: number;
+}
+export interface BuildingAmount {
+    oniItem: OniItem;
+    count: number;
+    materials: MaterialAmount[];
+}
+export declare class BillOfMaterials {
+    buildings: BuildingAmount[];
+    elements: MaterialAmount[];
+    tileCount: number;
+    digCount: number;
+    get totalMass(): number;
+    static fromItems(blueprintItems: BlueprintItem[]): BillOfMaterials;
+    toCsv(): string;
+    toJson(): any;
+    private static addMaterial;
+    private static materialToJson;
+    private static escapeCsv;
+}
+//# sourceMappingURL=bill-of-materials.d.ts.map
\ No newline at end of file
@@ -0,0 +1,137 @@
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintItemElement } from './blueprint-item-element';
+import { OniItem } from '../oni-item';
+import { BuildableElement } from '../b-export/b-element';
+
+export interface MaterialAmount {
+  buildableElement: BuildableElement;
+  mass: number;
+}
+
+export interface BuildingAmount {
+  oniItem: OniItem;
+  count: number;
+  // Material used by all the buildings of this type
+  materials: MaterialAmount[];
+}
+
+export class BillOfMaterials {
+  buildings: BuildingAmount[] = [];
+  // Totals per element, including the mass of element cells
+  elements: MaterialAmount[] = [];
+
+  // Tiles to build, and cells to clear for the other buildings
+  tileCount: number = 0;
+  digCount: number = 0;
+
+  get totalMass(): number {
+    let returnValue = 0;
+    for (let element of this.elements) returnValue += element.mass;
+    return returnValue;
+  }
+
+  public static fromItems(blueprintItems: BlueprintItem[]): BillOfMaterials {
+    let returnValue = new BillOfMaterials();
+    let digTiles = new Set<number>();
+
+    for (let item of blueprintItems) {
+      if (item.oniItem.isInfo) continue;
+
+      if (item.oniItem.isElement) {
+        BillOfMaterials.addMaterial(
+          returnValue.elements,
+          item.buildableElements[0],
+          (item as BlueprintItemElement).mass
+        );
+        continue;
+      }
+
+      let building = returnValue.buildings.find(b => b.oniItem == item.oniItem);
+      if (building == undefined) {
+        building = { oniItem: item.oniItem, count: 0, materials: [] };
+        returnValue.buildings.push(building);
+      }
+      building.count++;
+
+      for (let index = 0; index < item.oniItem.buildableElementsArray.length; index++) {
+        let element = item.buildableElements[index];
+        let mass = item.oniItem.materialMass[index];
+        BillOfMaterials.addMaterial(building.materials, element, mass);
+        BillOfMaterials.addMaterial(returnValue.elements, element, mass);
+      }
+
+      if (item.oniItem.isTile) returnValue.tileCount++;
+      else for (let tileIndex of item.tileIndexes) digTiles.add(tileIndex);
+    }
+
+    returnValue.digCount = digTiles.size;
+
+    returnValue.buildings = returnValue.buildings.sort((b1, b2) => b2.count - b1.count);
+    returnValue.elements = returnValue.elements.sort((e1, e2) => e2.mass - e1.mass);
+
+    return returnValue;
+  }
+
+  public toCsv(): string {
+    let lines: string[][] = [['Type', 'Id', 'Name', 'Count', 'Element', 'Mass']];
+
+    for (let building of this.buildings)
+      for (let material of building.materials)
+        lines.push([
+          'Building',
+          building.oniItem.id,
+          building.oniItem.name,
+          building.count.toString(),
+          material.buildableElement.name,
+          material.mass.toString(),
+        ]);
+
+    for (let element of this.elements)
+      lines.push(['Element', '', '', '', element.buildableElement.name, element.mass.toString()]);
+
+    lines.push(['Tiles', '', '', this.tileCount.toString(), '', '']);
+    lines.push(['Dig', '', '', this.digCount.toString(), '', '']);
+
+    return lines.map(line => line.map(BillOfMaterials.escapeCsv).join(',')).join('\n') + '\n';
+  }
+
+  public toJson(): any {
+    return {
+      buildings: this.buildings.map(building => {
+        return {
+          id: building.oniItem.id,
+          name: building.oniItem.name,
+          count: building.count,
+          materials: building.materials.map(BillOfMaterials.materialToJson),
+        };
+      }),
+      elements: this.elements.map(BillOfMaterials.materialToJson),
+      tileCount: this.tileCount,
+      digCount: this.digCount,
+      totalMass: this.totalMass,
+    };
+  }
+
+  private static addMaterial(
+    materials: MaterialAmount[],
+    buildableElement: BuildableElement,
+    mass: number
+  ) {
+    let material = materials.find(m => m.buildableElement == buildableElement);
+    if (material == undefined) materials.push({ buildableElement: buildableElement, mass: mass });
+    else material.mass += mass;
+  }
+
+  private static materialToJson(material: MaterialAmount) {
+    return {
+      element: material.buildableElement.id,
+      name: material.buildableElement.name,
+      mass: material.mass,
+    };
+  }
+
+  private static escapeCsv(value: string): string {
+    if (/[",\n]/.test(value)) return '"' + value.replace(/"/g, '""') + '"';
+    return value;
+  }
+}
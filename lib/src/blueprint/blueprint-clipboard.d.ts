@@ -0,0 +1,12 @@
+import { BlueprintItem } from './blueprint-item';
+import { MdbBlueprint } from '../io/mdb/mdb-blueprint';
+import { Vector2 } from '../vector2';
+export declare class BlueprintClipboard {
+    static copy(blueprintItems: BlueprintItem[]): MdbBlueprint;
+    static toText(fragment: MdbBlueprint): string;
+    static fromText(text: string): MdbBlueprint | undefined;
+    static createItems(fragment: MdbBlueprint, origin: Vector2): BlueprintItem[];
+    private static keepConnections;
+    private static wireKey;
+}
+//# sourceMappingURL=blueprint-clipboard.d.ts.map
\ No newline at end of file
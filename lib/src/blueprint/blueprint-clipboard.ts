@@ -0,0 +1,110 @@
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintItemWire } from './blueprint-item-wire';
+import { BlueprintHelpers } from './blueprint-helpers';
+import { MdbBlueprint } from '../io/mdb/mdb-blueprint';
+import { MdbBuilding } from '../io/mdb/mdb-building';
+import { Vector2 } from '../vector2';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+// Copied items are stored as a blueprint fragment,
+// with positions relative to the bottom left corner of the copied items
+export class BlueprintClipboard {
+  public static copy(blueprintItems: BlueprintItem[]): MdbBlueprint {
+    let returnValue: MdbBlueprint = { blueprintItems: [] };
+    if (blueprintItems.length == 0) return returnValue;
+
+    let origin = new Vector2(Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER);
+    for (let blueprintItem of blueprintItems)
+      for (let tileIndex of blueprintItem.tileIndexes) {
+        let position = DrawHelpers.getTilePosition(tileIndex);
+        if (position.x < origin.x) origin.x = position.x;
+        if (position.y < origin.y) origin.y = position.y;
+      }
+
+    let wireTiles = new Set<string>();
+    for (let blueprintItem of blueprintItems)
+      if (blueprintItem.oniItem.isWire)
+        wireTiles.add(BlueprintClipboard.wireKey(blueprintItem, blueprintItem.position));
+
+    for (let blueprintItem of blueprintItems) {
+      let mdbBuilding = blueprintItem.toMdbBuilding();
+      mdbBuilding.position = new Vector2(
+        blueprintItem.position.x - origin.x,
+        blueprintItem.position.y - origin.y
+      );
+
+      // Connections to wires that were not copied would be left dangling
+      if (blueprintItem.oniItem.isWire)
+        mdbBuilding.connections = BlueprintClipboard.keepConnections(
+          blueprintItem as BlueprintItemWire,
+          wireTiles
+        );
+
+      returnValue.blueprintItems.push(mdbBuilding);
+    }
+
+    return returnValue;
+  }
+
+  public static toText(fragment: MdbBlueprint): string {
+    return JSON.stringify(fragment);
+  }
+
+  // Returns undefined if the text is not a blueprint fragment
+  public static fromText(text: string): MdbBlueprint | undefined {
+    let fragment: any;
+    try {
+      fragment = JSON.parse(text);
+    } catch (error) {
+      return undefined;
+    }
+
+    if (fragment == null || !Array.isArray(fragment.blueprintItems)) return undefined;
+    for (let mdbBuilding of fragment.blueprintItems)
+      if (mdbBuilding == null || typeof mdbBuilding.id != 'string') return undefined;
+
+    return fragment as MdbBlueprint;
+  }
+
+  // Creates the items of the fragment with its origin on the given position
+  // Buildings missing from the database are skipped
+  public static createItems(fragment: MdbBlueprint, origin: Vector2): BlueprintItem[] {
+    let returnValue: BlueprintItem[] = [];
+
+    for (let original of fragment.blueprintItems) {
+      let position = Vector2.cloneNullToZero(original.position);
+      let mdbBuilding: MdbBuilding = {
+        ...original,
+        position: new Vector2(position.x + origin.x, position.y + origin.y),
+      };
+
+      let blueprintItem: BlueprintItem;
+      try {
+        blueprintItem = BlueprintHelpers.createInstance(original.id);
+      } catch (error) {
+        continue;
+      }
+
+      blueprintItem.importMdbBuilding(mdbBuilding);
+      returnValue.push(blueprintItem);
+    }
+
+    return returnValue;
+  }
+
+  private static keepConnections(wire: BlueprintItemWire, wireTiles: Set<string>): number {
+    let connectionsArray = DrawHelpers.getConnectionArray(wire.connections);
+
+    for (let i = 0; i < 4; i++) {
+      let vector = DrawHelpers.connectionVectors[i];
+      let neighbour = new Vector2(wire.position.x + vector.x, wire.position.y + vector.y);
+      if (!wireTiles.has(BlueprintClipboard.wireKey(wire, neighbour))) connectionsArray[i] = false;
+    }
+
+    return DrawHelpers.getConnection(connectionsArray);
+  }
+
+  private static wireKey(wire: BlueprintItem, position: Vector2): string {
+    return position.x + ',' + position.y + ',' + wire.oniItem.objectLayer;
+  }
+}
@@ -0,0 +1,59 @@
+import { Blueprint, IObsBlueprintChange } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { MdbBuilding } from '../io/mdb/mdb-building';
+export declare enum HistoryAction {
+    Build = 0,
+    Destroy = 1,
+    Modify = 2,
+    Edit = 3
+}
+export interface HistoryOperation {
+    before?: MdbBuilding;
+    after?: MdbBuilding;
+}
+export interface HistoryCommand {
+    action: HistoryAction;
+    count: number;
+    itemId?: string;
+    operations: HistoryOperation[];
+}
+export interface IObsHistoryChange {
+    historyChanged(): void;
+}
+export declare class BlueprintHistory implements IObsBlueprintChange {
+    static maxCommands: number;
+    commands: HistoryCommand[];
+    index: number;
+    private blueprint;
+    private states;
+    private touched;
+    private transactionDepth;
+    private applying;
+    private suspended;
+    constructor(blueprint: Blueprint);
+    get canUndo(): boolean;
+    get canRedo(): boolean;
+    reset(): void;
+    restore(commands: HistoryCommand[], index: number): void;
+    beginTransaction(): void;
+    endTransaction(): void;
+    suspend(): void;
+    resume(): void;
+    markModified(blueprintItems: BlueprintItem[]): void;
+    undo(): void;
+    redo(): void;
+    goTo(index: number): void;
+    private takeSnapshot;
+    private commit;
+    private touchNeighbours;
+    private apply;
+    private findItem;
+    private static createCommand;
+    observersHistoryChanged: IObsHistoryChange[];
+    subscribeHistoryChanged(observer: IObsHistoryChange): void;
+    private emitHistoryChanged;
+    itemDestroyed(): void;
+    itemAdded(blueprintItem: BlueprintItem): void;
+    blueprintChanged(): void;
+}
+//# sourceMappingURL=blueprint-history.d.ts.map
\ No newline at end of file
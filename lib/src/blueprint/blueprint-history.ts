@@ -0,0 +1,282 @@
+import { Blueprint, IObsBlueprintChange } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintHelpers } from './blueprint-helpers';
+import { MdbBuilding } from '../io/mdb/mdb-building';
+import { Vector2 } from '../vector2';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+export enum HistoryAction {
+  Build,
+  Destroy,
+  Modify,
+  Edit,
+}
+
+// A missing before means the building was added, a missing after that it was removed
+export interface HistoryOperation {
+  before?: MdbBuilding;
+  after?: MdbBuilding;
+}
+
+export interface HistoryCommand {
+  action: HistoryAction;
+  // Number of buildings concerned by the action
+  count: number;
+  // Only set when all the buildings concerned are of the same kind
+  itemId?: string;
+  operations: HistoryOperation[];
+}
+
+export interface IObsHistoryChange {
+  historyChanged(): void;
+}
+
+// Records the changes made to a blueprint as commands that can be undone and redone.
+// Only the items added, removed or touched by a change are serialized,
+// so recording stays cheap on big blueprints.
+export class BlueprintHistory implements IObsBlueprintChange {
+  static maxCommands: number = 200;
+
+  commands: HistoryCommand[] = [];
+  // Commands before this index are applied to the blueprint
+  index: number = 0;
+
+  private blueprint: Blueprint;
+  // Last recorded state of every item, as json
+  private states: Map<BlueprintItem, string> = new Map<BlueprintItem, string>();
+  private touched: Set<BlueprintItem> = new Set<BlueprintItem>();
+  private transactionDepth: number = 0;
+  private applying: boolean = false;
+  private suspended: boolean = false;
+
+  constructor(blueprint: Blueprint) {
+    this.blueprint = blueprint;
+    this.blueprint.subscribeBlueprintChanged(this);
+    this.reset();
+  }
+
+  get canUndo(): boolean {
+    return this.index > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.index < this.commands.length;
+  }
+
+  public reset() {
+    this.commands = [];
+    this.index = 0;
+    this.transactionDepth = 0;
+    this.takeSnapshot();
+    this.emitHistoryChanged();
+  }
+
+  // Replaces the commands, the blueprint must be in the state matching the given index
+  public restore(commands: HistoryCommand[], index: number) {
+    this.commands = commands;
+    this.index = Math.max(0, Math.min(index, commands.length));
+    this.takeSnapshot();
+    this.emitHistoryChanged();
+  }
+
+  // Changes made during a transaction are recorded as a single command
+  public beginTransaction() {
+    this.transactionDepth++;
+  }
+
+  public endTransaction() {
+    if (this.transactionDepth == 0) return;
+
+    this.transactionDepth--;
+    if (this.transactionDepth == 0) this.commit();
+  }
+
+  // Changes made while suspended are not recorded, the history should be reset once resumed
+  public suspend() {
+    this.suspended = true;
+  }
+
+  public resume() {
+    this.suspended = false;
+  }
+
+  // Modifications are only looked for on the items marked here, and next to added or removed items
+  public markModified(blueprintItems: BlueprintItem[]) {
+    for (let blueprintItem of blueprintItems) this.touched.add(blueprintItem);
+  }
+
+  public undo() {
+    if (!this.canUndo) return;
+
+    this.index--;
+    this.apply(this.commands[this.index], true);
+    this.emitHistoryChanged();
+  }
+
+  public redo() {
+    if (!this.canRedo) return;
+
+    this.apply(this.commands[this.index], false);
+    this.index++;
+    this.emitHistoryChanged();
+  }
+
+  public goTo(index: number) {
+    while (this.index > index && this.canUndo) {
+      this.index--;
+      this.apply(this.commands[this.index], true);
+    }
+    while (this.index < index && this.canRedo) {
+      this.apply(this.commands[this.index], false);
+      this.index++;
+    }
+
+    this.emitHistoryChanged();
+  }
+
+  private takeSnapshot() {
+    this.states = new Map<BlueprintItem, string>();
+    for (let blueprintItem of this.blueprint.blueprintItems)
+      this.states.set(blueprintItem, JSON.stringify(blueprintItem.toMdbBuilding()));
+    this.touched = new Set<BlueprintItem>();
+  }
+
+  private commit() {
+    let current = new Set<BlueprintItem>(this.blueprint.blueprintItems);
+    let removed: HistoryOperation[] = [];
+    let added: HistoryOperation[] = [];
+    let modified: HistoryOperation[] = [];
+
+    this.states.forEach((state, blueprintItem) => {
+      if (current.has(blueprintItem)) return;
+
+      removed.push({ before: JSON.parse(state) });
+      this.states.delete(blueprintItem);
+      this.touchNeighbours(blueprintItem);
+    });
+
+    for (let blueprintItem of this.blueprint.blueprintItems) {
+      if (this.states.has(blueprintItem)) continue;
+
+      let state = JSON.stringify(blueprintItem.toMdbBuilding());
+      added.push({ after: JSON.parse(state) });
+      this.states.set(blueprintItem, state);
+      this.touchNeighbours(blueprintItem);
+    }
+
+    this.touched.forEach(blueprintItem => {
+      let oldState = this.states.get(blueprintItem);
+      if (oldState == undefined || !current.has(blueprintItem)) return;
+
+      let newState = JSON.stringify(blueprintItem.toMdbBuilding());
+      if (newState == oldState) return;
+
+      modified.push({ before: JSON.parse(oldState), after: JSON.parse(newState) });
+      this.states.set(blueprintItem, newState);
+    });
+    this.touched = new Set<BlueprintItem>();
+
+    let operations = removed.concat(added, modified);
+    if (operations.length == 0) return;
+
+    // Doing anything in the middle of the history scraps the redos
+    this.commands.splice(this.index);
+    this.commands.push(BlueprintHistory.createCommand(removed, added, modified));
+    while (this.commands.length > BlueprintHistory.maxCommands) this.commands.shift();
+    this.index = this.commands.length;
+
+    this.emitHistoryChanged();
+  }
+
+  private touchNeighbours(blueprintItem: BlueprintItem) {
+    for (let tileIndex of blueprintItem.tileIndexes) {
+      let position = DrawHelpers.getTilePosition(tileIndex);
+      for (let vector of DrawHelpers.connectionVectors)
+        for (let neighbour of this.blueprint.getBlueprintItemsAt(
+          new Vector2(position.x + vector.x, position.y + vector.y)
+        ))
+          this.touched.add(neighbour);
+    }
+  }
+
+  private apply(command: HistoryCommand, undo: boolean) {
+    this.applying = true;
+    this.blueprint.pauseChangeEvents();
+
+    let operations = undo ? command.operations.slice().reverse() : command.operations;
+    for (let operation of operations) {
+      let from = undo ? operation.after : operation.before;
+      let to = undo ? operation.before : operation.after;
+
+      // Wires are replaced as they were recorded, so their neighbours are left alone
+      if (from != undefined) {
+        let blueprintItem = this.findItem(from);
+        if (blueprintItem != undefined) {
+          this.blueprint.destroyBlueprintItem(blueprintItem, false);
+          this.states.delete(blueprintItem);
+        }
+      }
+
+      if (to != undefined) {
+        let blueprintItem = BlueprintHelpers.createInstance(to.id);
+        blueprintItem.importMdbBuilding(to);
+        this.blueprint.addBlueprintItem(blueprintItem);
+        this.states.set(blueprintItem, JSON.stringify(blueprintItem.toMdbBuilding()));
+      }
+    }
+
+    this.blueprint.resumeChangeEvents();
+    this.applying = false;
+  }
+
+  private findItem(state: MdbBuilding): BlueprintItem | undefined {
+    return this.blueprint
+      .getBlueprintItemsAt(Vector2.cloneNullToZero(state.position))
+      .find(blueprintItem => blueprintItem.id == state.id);
+  }
+
+  private static createCommand(
+    removed: HistoryOperation[],
+    added: HistoryOperation[],
+    modified: HistoryOperation[]
+  ): HistoryCommand {
+    let action = HistoryAction.Edit;
+    let concerned = removed.concat(added);
+    if (removed.length == 0 && added.length == 0) {
+      action = HistoryAction.Modify;
+      concerned = modified;
+    } else if (removed.length == 0) action = HistoryAction.Build;
+    else if (added.length == 0) action = HistoryAction.Destroy;
+
+    let ids = concerned.map(operation => (operation.after || operation.before)!.id);
+    let itemId: string | undefined = ids[0];
+    if (ids.find(id => id != itemId) != undefined) itemId = undefined;
+
+    return {
+      action: action,
+      count: concerned.length,
+      itemId: itemId,
+      operations: removed.concat(added, modified),
+    };
+  }
+
+  // History change events
+  observersHistoryChanged: IObsHistoryChange[] = [];
+  public subscribeHistoryChanged(observer: IObsHistoryChange) {
+    this.observersHistoryChanged.push(observer);
+  }
+
+  private emitHistoryChanged() {
+    this.observersHistoryChanged.map(observer => {
+      observer.historyChanged();
+    });
+  }
+
+  // Blueprint Change interface
+  itemDestroyed() {}
+  itemAdded(blueprintItem: BlueprintItem) {}
+  blueprintChanged() {
+    if (this.applying || this.suspended || this.transactionDepth > 0) return;
+    this.commit();
+  }
+}
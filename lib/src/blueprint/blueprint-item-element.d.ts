@@ -2,16 +2,22 @@ import { Blueprint } from './blueprint';
 import { BlueprintItem } from './blueprint-item';
 import { CameraService } from '../drawing/camera-service';
 import { MdbBuilding } from '../io/mdb/mdb-building';
+import { OniCell } from '../io/oni/oni-cell';
+import { BuildableElement } from '../b-export/b-element';
 export declare class BlueprintItemElement extends BlueprintItem {
     static defaultMass: number;
     mass: number;
     get header(): string;
+    get isSolid(): boolean;
+    static isCellElement(element: BuildableElement | undefined): boolean;
+    static isSolidElement(element: BuildableElement | undefined): boolean;
     constructor(id: string);
     prepareSpriteVisibility(camera: CameraService): void;
     updateTileables(blueprint: Blueprint): void;
     drawTemplateItem(templateItem: BlueprintItem, camera: CameraService): void;
     importMdbBuilding(original: MdbBuilding): void;
     toMdbBuilding(): MdbBuilding;
+    toOniCell(): OniCell;
     cleanUp(): void;
     cameraChanged(camera: CameraService): void;
     modulateSelectedTint(camera: CameraService): void;
@@ -2,11 +2,14 @@ import { Blueprint } from './blueprint';
 import { BlueprintItem } from './blueprint-item';
 import { CameraService } from '../drawing/camera-service';
 import { MdbBuilding } from '../io/mdb/mdb-building';
+import { OniCell } from '../io/oni/oni-cell';
 import { Overlay } from '../enums/overlay';
 import { SpriteTag } from '../enums/sprite-tag';
 import { Display } from '../enums/display';
 import { Visualization } from '../enums/visualization';
 import { DrawHelpers } from '../drawing/draw-helpers';
+import { BuildableElement } from '../b-export/b-element';
+import { ZIndex } from '../enums/z-index';
 
 export class BlueprintItemElement extends BlueprintItem {
   static defaultMass = 0;
@@ -16,6 +19,26 @@ export class BlueprintItemElement extends BlueprintItem {
     return this.buildableElements[0].name;
   }
 
+  // Natural tiles, like abyssalite or obsidian, are ground for the buildings around them
+  get isSolid() {
+    return BlueprintItemElement.isSolidElement(this.buildableElements[0]);
+  }
+
+  // TODO boolean in export
+  public static isCellElement(element: BuildableElement | undefined): boolean {
+    return (
+      element != undefined &&
+      (element.hasTag('Liquid') ||
+        element.hasTag('Gas') ||
+        element.hasTag('Vacuum') ||
+        element.hasTag('Solid'))
+    );
+  }
+
+  public static isSolidElement(element: BuildableElement | undefined): boolean {
+    return element != undefined && element.hasTag('Solid');
+  }
+
   constructor(id: string) {
     super(id);
   }
@@ -40,6 +63,18 @@ export class BlueprintItemElement extends BlueprintItem {
     return returnValue;
   }
 
+  public toOniCell(): OniCell {
+    let returnValue: OniCell = {
+      element: this.buildableElements[0].id,
+      temperature: this.temperature,
+      mass: this.mass,
+      location_x: this.position.x,
+      location_y: this.position.y,
+    };
+
+    return returnValue;
+  }
+
   public cleanUp() {
     if (this.mass == null) this.mass = BlueprintItemElement.defaultMass;
     super.cleanUp();
@@ -51,7 +86,8 @@ export class BlueprintItemElement extends BlueprintItem {
     this.isOpaque = camera.overlay == Overlay.Gas || camera.overlay == Overlay.Base;
 
     // TODO use enum
-    if (camera.overlay == Overlay.Gas) this.depth = 17 + 50;
+    if (this.isSolid) this.depth = ZIndex.Ground;
+    else if (camera.overlay == Overlay.Gas) this.depth = 17 + 50;
     else this.depth = 17;
 
     this.alpha = 1;
@@ -104,6 +140,21 @@ export class BlueprintItemElement extends BlueprintItem {
           drawPart.alpha = 0.8;
           drawPart.tint = 0xffffff;
         }
+      } else if (this.isSolid) {
+        // Natural tiles are drawn in every overlay, like the tiles built on them
+        if (drawPart.hasTag(SpriteTag.element_back)) {
+          drawPart.visible = true;
+          drawPart.zIndex = 0;
+          if (camera.overlay != Overlay.Base) drawPart.alpha = 0.3;
+          else if (camera.display == Display.solid) drawPart.alpha = 1;
+          else drawPart.alpha = 0.6;
+
+          if (camera.visualization == Visualization.temperature)
+            this.visualizationTint = DrawHelpers.temperatureToColor(this.temperature);
+          else this.visualizationTint = this.buildableElements[0].uiColor;
+
+          drawPart.tint = this.visualizationTint;
+        }
       } else if (
         this.buildableElements[0].hasTag('Vacuum') &&
         camera.display == Display.solid &&
@@ -23,6 +23,7 @@ export declare class BlueprintItemWire extends BlueprintItem {
     private updateDrawPartVisibilityBasedOnConnections;
     drawPixi(camera: CameraService, pixiUtil: PixiUtil): void;
     toMdbBuilding(): MdbBuilding;
+    toOniBuilding(): OniBuilding;
     toBniBuilding(): BniBuilding;
     updateTileables(blueprint: Blueprint): void;
 }
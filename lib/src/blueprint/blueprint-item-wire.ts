@@ -149,6 +149,14 @@ export class BlueprintItemWire extends BlueprintItem {
     return returnValue;
   }
 
+  public toOniBuilding(): OniBuilding {
+    let returnValue = super.toOniBuilding();
+
+    returnValue.connections = this.connections;
+
+    return returnValue;
+  }
+
   public toBniBuilding(): BniBuilding {
     let returnValue = super.toBniBuilding();
 
@@ -9,6 +9,7 @@ import { OniBuilding } from '../io/oni/oni-building';
 import { BniBuilding } from '../io/bni/bni-building';
 import { MdbBuilding } from '../io/mdb/mdb-building';
 import { CameraService } from '../drawing/camera-service';
+import { UtilityConnection } from '../utility-connection';
 import { PixiUtil } from '../drawing/pixi-util';
 export declare class BlueprintItem {
     static defaultRotation: number;
@@ -59,7 +60,9 @@ export declare class BlueprintItem {
     changeOrientation(newOrientation: Orientation | undefined): void;
     cleanUp(): void;
     toMdbBuilding(): MdbBuilding;
+    toOniBuilding(): OniBuilding;
     toBniBuilding(): BniBuilding;
+    getConnectionPosition(connection: UtilityConnection): Vector2;
     getSelectedElementsTag(): number[];
     prepareBoundingBox(): void;
     private updateTileableParts;
@@ -76,6 +79,7 @@ export declare class BlueprintItem {
     containerCreated: boolean;
     reloadCamera: boolean;
     drawPixi(camera: CameraService, pixiUtil: PixiUtil): void;
+    hide(): void;
     private drawPixiUtility;
     sortChildren(): void;
     destroyed: boolean;
@@ -14,7 +14,7 @@ import { CameraService } from '../drawing/camera-service';
 import { Overlay } from '../enums/overlay';
 import { Display } from '../enums/display';
 import { Visualization } from '../enums/visualization';
-import { ConnectionHelper } from '../utility-connection';
+import { ConnectionHelper, UtilityConnection } from '../utility-connection';
 import { SpriteInfo } from '../drawing/sprite-info';
 import { PixiUtil } from '../drawing/pixi-util';
 
@@ -188,6 +188,17 @@ export class BlueprintItem {
 
     this.changeOrientation(building.orientation);
 
+    if (building.selected_elements != null)
+      for (
+        let indexElement = 0;
+        indexElement < building.selected_elements.length &&
+        indexElement < this.oniItem.buildableElementsArray.length;
+        indexElement++
+      ) {
+        let element = BuildableElement.getElementByTag(building.selected_elements[indexElement]);
+        if (element != undefined) this.buildableElements[indexElement] = element;
+      }
+
     this.cleanUp();
     this.prepareBoundingBox();
   }
@@ -347,6 +358,20 @@ export class BlueprintItem {
     return returnValue;
   }
 
+  public toOniBuilding(): OniBuilding {
+    let returnValue: OniBuilding = {
+      id: this.id,
+      location_x: this.position.x,
+      location_y: this.position.y,
+      connections: 0,
+      rotationOrientation: Orientation[this.orientation],
+      element: this.buildableElements[0].id,
+      temperature: this.temperature,
+    };
+
+    return returnValue;
+  }
+
   public toBniBuilding(): BniBuilding {
     let returnValue: BniBuilding = {
       buildingdef: this.id,
@@ -359,6 +384,18 @@ export class BlueprintItem {
     return returnValue;
   }
 
+  // Position of a utility port once the item's rotation and flip are applied
+  public getConnectionPosition(connection: UtilityConnection): Vector2 {
+    let returnValue = Vector2.cloneNullToZero(connection.offset);
+    returnValue = DrawHelpers.rotateVector2(returnValue, Vector2.Zero, this.rotation);
+    returnValue = DrawHelpers.scaleVector2(returnValue, Vector2.Zero, this.scale);
+
+    return new Vector2(
+      Math.round(returnValue.x + this.position.x),
+      Math.round(returnValue.y + this.position.y)
+    );
+  }
+
   public getSelectedElementsTag(): number[] {
     let returnValue: number[] = [];
 
@@ -467,15 +504,17 @@ export class BlueprintItem {
     // TODO general case for elements
     if (camera.overlay == Overlay.Unknown) Overlay.Base;
 
+    // The rooms are drawn over the buildings as they are in the base overlay
+    let overlay = camera.overlay == Overlay.Room ? Overlay.Base : camera.overlay;
+
     this.isOpaque =
-      this.oniItem.isOverlayPrimary(camera.overlay) ||
-      this.oniItem.isOverlaySecondary(camera.overlay);
+      this.oniItem.isOverlayPrimary(overlay) || this.oniItem.isOverlaySecondary(overlay);
 
     if (this.isOpaque) this.alpha = 1;
     else this.alpha = 0.3;
 
-    if (this.oniItem.isOverlayPrimary(camera.overlay)) this.depth = this.oniItem.zIndex + 100;
-    else if (this.oniItem.isOverlaySecondary(camera.overlay)) this.depth = this.oniItem.zIndex + 50;
+    if (this.oniItem.isOverlayPrimary(overlay)) this.depth = this.oniItem.zIndex + 100;
+    else if (this.oniItem.isOverlaySecondary(overlay)) this.depth = this.oniItem.zIndex + 50;
     else this.depth = this.oniItem.zIndex;
 
     if (this.isBuildCandidate) this.depth = 199;
@@ -658,6 +697,14 @@ export class BlueprintItem {
     // Overlay stuff
     this.container.zIndex = this.depth;
     this.container.alpha = this.alpha;
+    this.container.visible = true;
+  }
+
+  // Items in a hidden layer are not drawn, but they keep their sprites
+  public hide() {
+    if (this.container != null) this.container.visible = false;
+    for (let utilitySprite of this.utilitySprites)
+      if (utilitySprite != null) utilitySprite.visible = false;
   }
 
   private drawPixiUtility(camera: CameraService, pixiUtil: PixiUtil) {
@@ -0,0 +1,21 @@
+import { BlueprintItem } from './blueprint-item';
+import { OniItem } from '../oni-item';
+import { BlueprintLayer } from '../enums/blueprint-layer';
+import { MdbBlueprintView } from '../io/mdb/mdb-blueprint';
+export declare class BlueprintLayers {
+    static layers: BlueprintLayer[];
+    private static backwallObjectLayer;
+    private hidden;
+    private locked;
+    static getLayer(oniItem: OniItem): BlueprintLayer;
+    isHidden(layer: BlueprintLayer): boolean;
+    setHidden(layer: BlueprintLayer, hidden: boolean): void;
+    isLocked(layer: BlueprintLayer): boolean;
+    setLocked(layer: BlueprintLayer, locked: boolean): void;
+    isItemVisible(blueprintItem: BlueprintItem): boolean;
+    isItemEditable(blueprintItem: BlueprintItem): boolean;
+    copyFrom(source: BlueprintLayers): void;
+    toMdbView(): MdbBlueprintView | undefined;
+    importMdbView(view: MdbBlueprintView | undefined): void;
+}
+//# sourceMappingURL=blueprint-layers.d.ts.map
\ No newline at end of file
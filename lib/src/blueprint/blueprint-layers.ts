@@ -0,0 +1,115 @@
+import { BlueprintItem } from './blueprint-item';
+import { OniItem } from '../oni-item';
+import { ZIndex } from '../enums/z-index';
+import { BlueprintLayer } from '../enums/blueprint-layer';
+import { MdbBlueprintView } from '../io/mdb/mdb-blueprint';
+
+// Visibility and locking of the buildings, grouped by the layer they are drawn in
+// Hidden layers are not drawn, locked layers can not be selected or destroyed
+export class BlueprintLayers {
+  public static layers: BlueprintLayer[] = [
+    BlueprintLayer.Buildings,
+    BlueprintLayer.Tiles,
+    BlueprintLayer.Backwalls,
+    BlueprintLayer.Elements,
+    BlueprintLayer.Power,
+    BlueprintLayer.Liquid,
+    BlueprintLayer.Gas,
+    BlueprintLayer.Conveyor,
+    BlueprintLayer.Automation,
+  ];
+
+  // The game puts backwalls in their own object layer
+  private static backwallObjectLayer: number = 2;
+
+  private hidden: Set<BlueprintLayer> = new Set<BlueprintLayer>();
+  private locked: Set<BlueprintLayer> = new Set<BlueprintLayer>();
+
+  public static getLayer(oniItem: OniItem): BlueprintLayer {
+    if (oniItem.isElement) return BlueprintLayer.Elements;
+    if (oniItem.objectLayer == BlueprintLayers.backwallObjectLayer) return BlueprintLayer.Backwalls;
+
+    switch (oniItem.zIndex) {
+      case ZIndex.TileMain:
+      case ZIndex.TileFront:
+      case ZIndex.GlassTile:
+        return BlueprintLayer.Tiles;
+      case ZIndex.Wires:
+      case ZIndex.WireBridges:
+      case ZIndex.WireBridgesFront:
+        return BlueprintLayer.Power;
+      case ZIndex.LiquidConduits:
+      case ZIndex.LiquidConduitBridges:
+        return BlueprintLayer.Liquid;
+      case ZIndex.GasConduits:
+      case ZIndex.GasConduitBridges:
+        return BlueprintLayer.Gas;
+      case ZIndex.SolidConduits:
+      case ZIndex.SolidConduitContents:
+      case ZIndex.SolidConduitBridges:
+        return BlueprintLayer.Conveyor;
+      case ZIndex.LogicGates:
+      case ZIndex.LogicGatesFront:
+      case ZIndex.LogicWires:
+        return BlueprintLayer.Automation;
+      default:
+        return BlueprintLayer.Buildings;
+    }
+  }
+
+  public isHidden(layer: BlueprintLayer): boolean {
+    return this.hidden.has(layer);
+  }
+
+  public setHidden(layer: BlueprintLayer, hidden: boolean) {
+    if (hidden) this.hidden.add(layer);
+    else this.hidden.delete(layer);
+  }
+
+  public isLocked(layer: BlueprintLayer): boolean {
+    return this.locked.has(layer);
+  }
+
+  public setLocked(layer: BlueprintLayer, locked: boolean) {
+    if (locked) this.locked.add(layer);
+    else this.locked.delete(layer);
+  }
+
+  public isItemVisible(blueprintItem: BlueprintItem): boolean {
+    return !this.hidden.has(BlueprintLayers.getLayer(blueprintItem.oniItem));
+  }
+
+  // Hidden items can not be picked either, since they can not be seen
+  public isItemEditable(blueprintItem: BlueprintItem): boolean {
+    let layer = BlueprintLayers.getLayer(blueprintItem.oniItem);
+    return !this.hidden.has(layer) && !this.locked.has(layer);
+  }
+
+  public copyFrom(source: BlueprintLayers) {
+    this.hidden = new Set<BlueprintLayer>(source.hidden);
+    this.locked = new Set<BlueprintLayer>(source.locked);
+  }
+
+  // Returns undefined if every layer is shown and unlocked
+  public toMdbView(): MdbBlueprintView | undefined {
+    if (this.hidden.size == 0 && this.locked.size == 0) return undefined;
+
+    return {
+      hiddenLayers: Array.from(this.hidden.values()),
+      lockedLayers: Array.from(this.locked.values()),
+    };
+  }
+
+  public importMdbView(view: MdbBlueprintView | undefined) {
+    this.hidden.clear();
+    this.locked.clear();
+    if (view == undefined) return;
+
+    // Layers unknown to this version are ignored
+    let isLayer = (layer: number) => BlueprintLayers.layers.indexOf(layer) != -1;
+    if (view.hiddenLayers != undefined)
+      for (let layer of view.hiddenLayers.filter(isLayer)) this.hidden.add(layer);
+    if (view.lockedLayers != undefined)
+      for (let layer of view.lockedLayers.filter(isLayer)) this.locked.add(layer);
+  }
+}
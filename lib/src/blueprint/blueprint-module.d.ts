@@ -0,0 +1,27 @@
+import { BlueprintItem } from './blueprint-item';
+import { MdbBlueprint } from '../io/mdb/mdb-blueprint';
+export declare enum ModuleAnchor {
+    BottomLeft = 0,
+    BottomRight = 1,
+    TopLeft = 2,
+    TopRight = 3,
+    Center = 4
+}
+export interface MdbModule {
+    id?: string;
+    name: string;
+    fragment: MdbBlueprint;
+    anchor: {
+        x: number;
+        y: number;
+    };
+    thumbnail?: string;
+}
+export declare class BlueprintModules {
+    static maxNameLength: number;
+    static maxItems: number;
+    static create(name: string, blueprintItems: BlueprintItem[], anchor: ModuleAnchor): MdbModule;
+    static getAnchoredFragment(mdbModule: MdbModule): MdbBlueprint;
+    static isMdbModule(obj: any): obj is MdbModule;
+}
+//# sourceMappingURL=blueprint-module.d.ts.map
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintClipboard } from './blueprint-clipboard';
+import { GroupTransform } from './group-transform';
+import { MdbBlueprint } from '../io/mdb/mdb-blueprint';
+import { Vector2 } from '../vector2';
+
+export enum ModuleAnchor {
+  BottomLeft,
+  BottomRight,
+  TopLeft,
+  TopRight,
+  Center,
+}
+
+// A part of a blueprint saved to be built again in other blueprints, like a bathroom or a dock
+export interface MdbModule {
+  // Given by the server, modules saved while logged out have none
+  id?: string;
+  name: string;
+  fragment: MdbBlueprint;
+  // Tile of the fragment under the mouse when the module is built
+  anchor: { x: number; y: number };
+  thumbnail?: string;
+}
+
+export class BlueprintModules {
+  public static maxNameLength: number = 60;
+  public static maxItems: number = 5000;
+
+  public static create(
+    name: string,
+    blueprintItems: BlueprintItem[],
+    anchor: ModuleAnchor
+  ): MdbModule {
+    // The fragment positions start from the bottom left corner of the items
+    let bounds = GroupTransform.getBounds(blueprintItems);
+    let size = new Vector2(bounds[1].x - bounds[0].x, bounds[1].y - bounds[0].y);
+
+    let anchorPosition = Vector2.zero();
+    if (anchor == ModuleAnchor.BottomRight || anchor == ModuleAnchor.TopRight)
+      anchorPosition.x = size.x;
+    if (anchor == ModuleAnchor.TopLeft || anchor == ModuleAnchor.TopRight)
+      anchorPosition.y = size.y;
+    if (anchor == ModuleAnchor.Center)
+      anchorPosition = new Vector2(Math.floor(size.x / 2), Math.floor(size.y / 2));
+
+    return {
+      name: name,
+      fragment: BlueprintClipboard.copy(blueprintItems),
+      anchor: { x: anchorPosition.x, y: anchorPosition.y },
+    };
+  }
+
+  // The fragment moved so the anchor is its origin, ready to be pasted under the mouse
+  public static getAnchoredFragment(mdbModule: MdbModule): MdbBlueprint {
+    return {
+      blueprintItems: mdbModule.fragment.blueprintItems.map(mdbBuilding => {
+        let position = Vector2.cloneNullToZero(mdbBuilding.position);
+        return {
+          ...mdbBuilding,
+          position: new Vector2(position.x - mdbModule.anchor.x, position.y - mdbModule.anchor.y),
+        };
+      }),
+    };
+  }
+
+  // Checks the shape of a module received from outside, not the buildings in it
+  public static isMdbModule(obj: any): obj is MdbModule {
+    return (
+      obj != null &&
+      typeof obj.name == 'string' &&
+      obj.name.trim().length > 0 &&
+      obj.name.length <= BlueprintModules.maxNameLength &&
+      obj.anchor != null &&
+      Number.isInteger(obj.anchor.x) &&
+      Number.isInteger(obj.anchor.y) &&
+      (obj.thumbnail == null || typeof obj.thumbnail == 'string') &&
+      obj.fragment != null &&
+      Array.isArray(obj.fragment.blueprintItems) &&
+      obj.fragment.blueprintItems.length > 0 &&
+      obj.fragment.blueprintItems.length <= BlueprintModules.maxItems
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { Vector2 } from '../vector2';
+import { MdbBlueprint } from '../io/mdb/mdb-blueprint';
+import { PlacementFailure } from '../enums/placement-failure';
+export declare enum ValidationIssueType {
+    Overlap = 0,
+    PortCollision = 1,
+    PlacementRule = 2,
+    UnknownBuilding = 3,
+    UnknownElement = 4,
+    DanglingConnection = 5
+}
+export declare enum ValidationSeverity {
+    Error = 0,
+    Warning = 1
+}
+export interface ValidationIssue {
+    type: ValidationIssueType;
+    severity: ValidationSeverity;
+    position: Vector2;
+    itemId: string;
+    item?: BlueprintItem;
+    other?: BlueprintItem;
+    placementFailure?: PlacementFailure;
+    detail?: string;
+}
+export declare class BlueprintValidator {
+    static validate(blueprint: Blueprint): ValidationIssue[];
+    static validateMdbBlueprint(mdbBlueprint: MdbBlueprint): ValidationIssue[];
+    static hasErrors(issues: ValidationIssue[]): boolean;
+    private static isKnownElement;
+    private static checkOverlaps;
+    private static checkPortCollisions;
+    private static checkElements;
+    private static checkPlacement;
+    private static checkConnections;
+    private static isBridge;
+}
+//# sourceMappingURL=blueprint-validator.d.ts.map
\ No newline at end of file
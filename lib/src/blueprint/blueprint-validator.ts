@@ -0,0 +1,230 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintItemWire } from './blueprint-item-wire';
+import { PlacementRules } from './placement-rules';
+import { Vector2 } from '../vector2';
+import { OniItem } from '../oni-item';
+import { BuildableElement } from '../b-export/b-element';
+import { MdbBlueprint } from '../io/mdb/mdb-blueprint';
+import { BuildLocationRule } from '../enums/build-location-rule';
+import { PlacementFailure } from '../enums/placement-failure';
+import { ConnectionHelper } from '../utility-connection';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+export enum ValidationIssueType {
+  Overlap,
+  PortCollision,
+  PlacementRule,
+  UnknownBuilding,
+  UnknownElement,
+  DanglingConnection,
+}
+
+export enum ValidationSeverity {
+  Error,
+  Warning,
+}
+
+export interface ValidationIssue {
+  type: ValidationIssueType;
+  severity: ValidationSeverity;
+  position: Vector2;
+  itemId: string;
+  // Not set when the issue comes from raw data that could not be imported
+  item?: BlueprintItem;
+  other?: BlueprintItem;
+  placementFailure?: PlacementFailure;
+  // Element id, connection name, etc
+  detail?: string;
+}
+
+export class BlueprintValidator {
+  public static validate(blueprint: Blueprint): ValidationIssue[] {
+    let returnValue: ValidationIssue[] = [];
+
+    for (let unrecognized of blueprint.unrecognizedBuildings)
+      returnValue.push({
+        type: ValidationIssueType.UnknownBuilding,
+        severity: ValidationSeverity.Error,
+        position: unrecognized.position,
+        itemId: unrecognized.id,
+      });
+
+    BlueprintValidator.checkOverlaps(blueprint, returnValue);
+    BlueprintValidator.checkPortCollisions(blueprint, returnValue);
+
+    for (let item of blueprint.blueprintItems) {
+      BlueprintValidator.checkElements(item, returnValue);
+      BlueprintValidator.checkPlacement(blueprint, item, returnValue);
+      if (item instanceof BlueprintItemWire)
+        BlueprintValidator.checkConnections(blueprint, item, returnValue);
+    }
+
+    return returnValue;
+  }
+
+  // Element ids have to be checked before the import, which throws on unknown elements
+  public static validateMdbBlueprint(mdbBlueprint: MdbBlueprint): ValidationIssue[] {
+    let returnValue: ValidationIssue[] = [];
+
+    for (let building of mdbBlueprint.blueprintItems) {
+      let elementIds: (string | undefined)[] = [];
+      if (building.elements != null) elementIds = elementIds.concat(building.elements);
+      elementIds.push(building.pipeElement);
+
+      for (let elementId of elementIds)
+        if (elementId != null && !BlueprintValidator.isKnownElement(elementId))
+          returnValue.push({
+            type: ValidationIssueType.UnknownElement,
+            severity: ValidationSeverity.Error,
+            position: Vector2.cloneNullToZero(building.position),
+            itemId: building.id,
+            detail: elementId,
+          });
+    }
+
+    if (returnValue.length > 0) return returnValue;
+
+    let blueprint = new Blueprint();
+    blueprint.importFromMdb(mdbBlueprint);
+
+    return BlueprintValidator.validate(blueprint);
+  }
+
+  public static hasErrors(issues: ValidationIssue[]): boolean {
+    return issues.find(issue => issue.severity == ValidationSeverity.Error) != undefined;
+  }
+
+  private static isKnownElement(elementId: string): boolean {
+    return BuildableElement.elements.find(element => element.id == elementId) != undefined;
+  }
+
+  private static checkOverlaps(blueprint: Blueprint, issues: ValidationIssue[]) {
+    let reported: BlueprintItem[][] = [];
+
+    blueprint.templateTiles.forEach((itemsAtTile, position) => {
+      for (let i = 0; i < itemsAtTile.length; i++)
+        for (let j = i + 1; j < itemsAtTile.length; j++) {
+          let item = itemsAtTile[i];
+          let other = itemsAtTile[j];
+
+          // Bridges only care about their utility ports, like in the build tool
+          if (
+            item.oniItem.objectLayer != other.oniItem.objectLayer ||
+            BlueprintValidator.isBridge(item.oniItem) ||
+            BlueprintValidator.isBridge(other.oniItem) ||
+            reported.find(pair => pair.indexOf(item) != -1 && pair.indexOf(other) != -1)
+          )
+            continue;
+
+          reported.push([item, other]);
+          issues.push({
+            type: ValidationIssueType.Overlap,
+            severity: ValidationSeverity.Error,
+            position: position,
+            itemId: item.id,
+            item: item,
+            other: other,
+          });
+        }
+    });
+  }
+
+  private static checkPortCollisions(blueprint: Blueprint, issues: ValidationIssue[]) {
+    blueprint.utilities.forEach((trackers, position) => {
+      for (let i = 0; i < trackers.length; i++)
+        for (let j = i + 1; j < trackers.length; j++) {
+          let tracker = trackers[i];
+          let other = trackers[j];
+
+          if (
+            tracker.blueprintItem != other.blueprintItem &&
+            ConnectionHelper.getConnectionOverlay(tracker.utilityConnection.type) ==
+              ConnectionHelper.getConnectionOverlay(other.utilityConnection.type)
+          )
+            issues.push({
+              type: ValidationIssueType.PortCollision,
+              severity: ValidationSeverity.Error,
+              position: position,
+              itemId: tracker.blueprintItem.id,
+              item: tracker.blueprintItem,
+              other: other.blueprintItem,
+              detail: ConnectionHelper.getConnectionName(other.utilityConnection.type),
+            });
+        }
+    });
+  }
+
+  private static checkElements(item: BlueprintItem, issues: ValidationIssue[]) {
+    let nbElements = item.oniItem.isElement ? 1 : item.oniItem.buildableElementsArray.length;
+
+    for (let indexElement = 0; indexElement < nbElements; indexElement++) {
+      let element = item.buildableElements[indexElement];
+      if (element == null || BuildableElement.elements.indexOf(element) == -1)
+        issues.push({
+          type: ValidationIssueType.UnknownElement,
+          severity: ValidationSeverity.Error,
+          position: item.position,
+          itemId: item.id,
+          item: item,
+          detail: element == null ? undefined : element.id,
+        });
+    }
+  }
+
+  private static checkPlacement(
+    blueprint: Blueprint,
+    item: BlueprintItem,
+    issues: ValidationIssue[]
+  ) {
+    let placementFailure = PlacementRules.check(blueprint, item);
+    if (placementFailure != PlacementFailure.None)
+      issues.push({
+        type: ValidationIssueType.PlacementRule,
+        severity: ValidationSeverity.Warning,
+        position: item.position,
+        itemId: item.id,
+        item: item,
+        placementFailure: placementFailure,
+      });
+  }
+
+  private static checkConnections(
+    blueprint: Blueprint,
+    wire: BlueprintItemWire,
+    issues: ValidationIssue[]
+  ) {
+    let connectionArray = DrawHelpers.getConnectionArray(wire.connections);
+
+    for (let i = 0; i < 4; i++) {
+      if (!connectionArray[i]) continue;
+
+      let neighbourPosition = new Vector2(
+        wire.position.x + DrawHelpers.connectionVectors[i].x,
+        wire.position.y + DrawHelpers.connectionVectors[i].y
+      );
+
+      let neighbour = blueprint
+        .getBlueprintItemsAt(neighbourPosition)
+        .find(item => item != wire && item.oniItem.objectLayer == wire.oniItem.objectLayer);
+
+      if (neighbour == undefined)
+        issues.push({
+          type: ValidationIssueType.DanglingConnection,
+          severity: ValidationSeverity.Warning,
+          position: wire.position,
+          itemId: wire.id,
+          item: wire,
+          detail: DrawHelpers.connectionBits[i].toString(),
+        });
+    }
+  }
+
+  private static isBridge(oniItem: OniItem): boolean {
+    return (
+      oniItem.buildLocationRule == BuildLocationRule.Conduit ||
+      oniItem.buildLocationRule == BuildLocationRule.WireBridge ||
+      oniItem.buildLocationRule == BuildLocationRule.LogicBridge
+    );
+  }
+}
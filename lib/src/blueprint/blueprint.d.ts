@@ -5,24 +5,30 @@ import { BniBlueprint } from '../io/bni/bni-blueprint';
 import { MdbBlueprint } from '../io/mdb/mdb-blueprint';
 import { Overlay } from '../enums/overlay';
 import { UtilityConnectionTracker } from '../utility-connection';
+import { SpatialIndex } from './spatial-index';
+import { BlueprintLayers } from './blueprint-layers';
 export declare class Blueprint {
     blueprintItems: BlueprintItem[];
-    templateTiles: BlueprintItem[][];
-    utilities: UtilityConnectionTracker[][];
+    templateTiles: SpatialIndex<BlueprintItem>;
+    utilities: SpatialIndex<UtilityConnectionTracker>;
     innerYaml: any;
+    layers: BlueprintLayers;
+    unrecognizedBuildings: UnrecognizedBuilding[];
     constructor();
     importFromOni(oniBlueprint: OniTemplate): void;
     importFromBni(bniBlueprint: BniBlueprint): void;
     importFromMdb(mdbBlueprint: MdbBlueprint): void;
-    importFromBinary(template: ArrayBuffer): void;
+    private createInstanceOrReport;
+    importFromBinary(template: ArrayBuffer | Uint8Array): void;
     destroyAndCopyItems(source: Blueprint, emitChanges?: boolean): void;
     private currentOverlay;
     prepareOverlayInfo(currentOverlay: Overlay): void;
     refreshOverlayInfo(): void;
     addBlueprintItem(blueprintItem: BlueprintItem): void;
-    destroyBlueprintItem(templateItem: BlueprintItem): void;
+    destroyBlueprintItem(templateItem: BlueprintItem, disconnectWires?: boolean): void;
     getBlueprintItemsAt(position: Vector2): BlueprintItem[];
     getBlueprintItemsAtIndex(index: number): BlueprintItem[];
+    getBlueprintItemsInRectangle(topLeft: Vector2, bottomRight: Vector2): BlueprintItem[];
     getUtilityConnectionsAtIndex(index: number): UtilityConnectionTracker[];
     private pauseChangeEvents_;
     pauseChangeEvents(): void;
@@ -34,6 +40,8 @@ export declare class Blueprint {
     emitBlueprintChanged(): void;
     toMdbBlueprint(): MdbBlueprint;
     toBniBlueprint(friendlyname: string): BniBlueprint;
+    toBinaryBlueprint(friendlyname: string): Uint8Array;
+    toOniTemplate(name: string): OniTemplate;
     clone(): Blueprint;
     getBoundingBox(): Vector2[];
     sortChildren(): void;
@@ -44,4 +52,8 @@ export interface IObsBlueprintChange {
     itemAdded(blueprintItem: BlueprintItem): void;
     blueprintChanged(): void;
 }
+export interface UnrecognizedBuilding {
+    id: string;
+    position: Vector2;
+}
 //# sourceMappingURL=blueprint.d.ts.map
\ No newline at end of file
@@ -1,6 +1,5 @@
 import { BlueprintItem } from './blueprint-item';
 import { BlueprintItemWire } from './blueprint-item-wire';
-import { BinaryReader, Encoding } from 'csharp-binary-stream';
 import { BlueprintHelpers } from './blueprint-helpers';
 import { BlueprintItemElement } from './blueprint-item-element';
 import { Vector2 } from '../vector2';
@@ -9,19 +8,28 @@ import { OniItem } from '../oni-item';
 import { BniBlueprint } from '../io/bni/bni-blueprint';
 import { MdbBlueprint } from '../io/mdb/mdb-blueprint';
 import { BniBuilding } from '../io/bni/bni-building';
+import { BinaryBlueprint } from '../io/binary/binary-blueprint';
 import { Overlay } from '../enums/overlay';
 import { DrawHelpers } from '../drawing/draw-helpers';
 import { UtilityConnectionTracker } from '../utility-connection';
+import { SpatialIndex } from './spatial-index';
+import { BlueprintLayers } from './blueprint-layers';
 
 export class Blueprint {
   blueprintItems: BlueprintItem[];
-  templateTiles: BlueprintItem[][] = [];
+  templateTiles: SpatialIndex<BlueprintItem> = new SpatialIndex<BlueprintItem>();
 
   // We need a utility map because some objects have utilities outside of their size (HighWattageWireBridge)
-  utilities: UtilityConnectionTracker[][] = [];
+  utilities: SpatialIndex<UtilityConnectionTracker> = new SpatialIndex<UtilityConnectionTracker>();
 
   innerYaml: any;
 
+  // Saved with the blueprint, but not part of the undo history
+  layers: BlueprintLayers = new BlueprintLayers();
+
+  // Buildings skipped by the last import because their id is not in the database
+  unrecognizedBuildings: UnrecognizedBuilding[] = [];
+
   constructor() {
     this.blueprintItems = [];
 
@@ -30,12 +38,14 @@ export class Blueprint {
 
   public importFromOni(oniBlueprint: OniTemplate) {
     this.blueprintItems = [];
+    this.unrecognizedBuildings = [];
 
     // Copy the buildings
     for (let building of oniBlueprint.buildings) {
-      let oniItem = OniItem.getOniItem(building.id);
-
-      let newTemplateItem = BlueprintHelpers.createInstance(building.id);
+      let newTemplateItem = this.createInstanceOrReport(
+        building.id,
+        new Vector2(building.location_x, building.location_y)
+      );
       if (newTemplateItem == null) continue;
 
       newTemplateItem.importOniBuilding(building);
@@ -43,8 +53,8 @@ export class Blueprint {
       this.addBlueprintItem(newTemplateItem);
     }
 
-    // Copy the cells
-    for (let cell of oniBlueprint.cells) {
+    // Copy the cells, a template can leave them out
+    for (let cell of oniBlueprint.cells ?? []) {
       let elementPosition = new Vector2();
       if (cell.location_x != null) elementPosition.x = cell.location_x;
       if (cell.location_y != null) elementPosition.y = cell.location_y;
@@ -66,12 +76,7 @@ export class Blueprint {
         currentElement.setElement(cell.element, 0);
         currentElement.cleanUp();
 
-        // TODO boolean in export instead
-        if (
-          currentElement.buildableElements[0].hasTag('Liquid') ||
-          currentElement.buildableElements[0].hasTag('Gas') ||
-          currentElement.buildableElements[0].hasTag('Vacuum')
-        )
+        if (BlueprintItemElement.isCellElement(currentElement.buildableElements[0]))
           this.addBlueprintItem(currentElement);
       }
     }
@@ -82,26 +87,37 @@ export class Blueprint {
 
   public importFromBni(bniBlueprint: BniBlueprint) {
     this.blueprintItems = [];
+    this.unrecognizedBuildings = [];
 
+    // A building that can not be read is skipped and reported, the others are still imported
     for (let building of bniBlueprint.buildings) {
+      let id = building != null && building.buildingdef != null ? building.buildingdef : '';
+      let position = Vector2.zero();
+
       try {
-        let newTemplateItem = BlueprintHelpers.createInstance(building.buildingdef);
+        position = Vector2.cloneNullToZero(building.offset);
+        let newTemplateItem = this.createInstanceOrReport(id, position);
         if (newTemplateItem == null) continue;
 
         newTemplateItem.importBniBuilding(building);
-
         this.addBlueprintItem(newTemplateItem);
       } catch (error) {
         console.log(error);
+        this.unrecognizedBuildings.push({ id: id, position: position });
       }
     }
   }
 
   public importFromMdb(mdbBlueprint: MdbBlueprint) {
     this.blueprintItems = [];
+    this.unrecognizedBuildings = [];
+    this.layers.importMdbView(mdbBlueprint.view);
 
     for (let originalTemplateItem of mdbBlueprint.blueprintItems) {
-      let newTemplateItem = BlueprintHelpers.createInstance(originalTemplateItem.id);
+      let newTemplateItem = this.createInstanceOrReport(
+        originalTemplateItem.id,
+        Vector2.cloneNullToZero(originalTemplateItem.position)
+      );
 
       // Don't import buildings we don't recognise
       if (newTemplateItem == null) continue;
@@ -111,44 +127,22 @@ export class Blueprint {
     }
   }
 
-  public importFromBinary(template: ArrayBuffer) {
-    const reader = new BinaryReader(template);
-
-    let bniBlueprint = new BniBlueprint();
-    bniBlueprint.friendlyname = reader.readString(Encoding.Utf8);
-    bniBlueprint.buildings = [];
-
-    let buildingCount = reader.readInt();
-
-    for (let buildingIndex = 0; buildingIndex < buildingCount; buildingIndex++) {
-      let bniBuilding = new BniBuilding();
-
-      let offsetX = reader.readInt();
-      let offsetY = reader.readInt();
-      bniBuilding.offset = new Vector2(offsetX, offsetY);
-
-      let buildingDef = reader.readString(Encoding.Utf8);
-      bniBuilding.buildingdef = buildingDef;
-
-      let selectedElementCount = reader.readInt();
-      for (let elementIndex = 0; elementIndex < selectedElementCount; elementIndex++) {
-        let tag = reader.readInt();
-      }
-
-      let orientation = reader.readInt();
-      bniBuilding.orientation = orientation;
-
-      let flags = reader.readInt();
-      bniBuilding.flags = flags;
-
-      bniBlueprint.buildings.push(bniBuilding);
+  private createInstanceOrReport(id: string, position: Vector2): BlueprintItem | undefined {
+    try {
+      return BlueprintHelpers.createInstance(id);
+    } catch (error) {
+      this.unrecognizedBuildings.push({ id: id, position: position });
+      return undefined;
     }
+  }
 
-    this.importFromBni(bniBlueprint);
+  public importFromBinary(template: ArrayBuffer | Uint8Array) {
+    this.importFromBni(BinaryBlueprint.read(template));
   }
 
   public destroyAndCopyItems(source: Blueprint, emitChanges: boolean = true) {
     this.destroy(emitChanges);
+    this.layers.copyFrom(source.layers);
 
     this.pauseChangeEvents();
     for (let blueprintItem of source.blueprintItems) this.addBlueprintItem(blueprintItem);
@@ -170,8 +164,11 @@ export class Blueprint {
 
     if (blueprintItem.tileIndexes == null) blueprintItem.prepareBoundingBox();
 
-    for (let tileIndex of blueprintItem.tileIndexes)
-      this.getBlueprintItemsAtIndex(tileIndex).push(blueprintItem);
+    for (let tileIndex of blueprintItem.tileIndexes) {
+      let position = DrawHelpers.getTilePosition(tileIndex);
+      this.templateTiles.getAt(position).push(blueprintItem);
+      this.templateTiles.markDirty(position);
+    }
     for (let connection of blueprintItem.oniItem.utilityConnections) {
       let connectionPosition = Vector2.cloneNullToZero(connection.offset);
       connectionPosition = DrawHelpers.rotateVector2(
@@ -200,9 +197,9 @@ export class Blueprint {
     this.emitItemAdded(blueprintItem);
   }
 
-  public destroyBlueprintItem(templateItem: BlueprintItem) {
+  public destroyBlueprintItem(templateItem: BlueprintItem, disconnectWires: boolean = true) {
     // If the item is a wire, we need to disconnect it
-    if (templateItem.oniItem.isWire) {
+    if (templateItem.oniItem.isWire && disconnectWires) {
       let templateItemWire = templateItem as BlueprintItemWire;
 
       let connectionsArray = DrawHelpers.getConnectionArray(templateItemWire.connections);
@@ -235,8 +232,11 @@ export class Blueprint {
     // First remove from the tilemap
     if (templateItem.tileIndexes != null && templateItem.tileIndexes.length > 0)
       for (let tileIndex of templateItem.tileIndexes) {
-        const indexInTileMap = this.templateTiles[tileIndex].indexOf(templateItem, 0);
-        if (indexInTileMap > -1) this.templateTiles[tileIndex].splice(indexInTileMap, 1);
+        let position = DrawHelpers.getTilePosition(tileIndex);
+        let itemsAtTile = this.templateTiles.getAt(position);
+        const indexInTileMap = itemsAtTile.indexOf(templateItem, 0);
+        if (indexInTileMap > -1) itemsAtTile.splice(indexInTileMap, 1);
+        this.templateTiles.markDirty(position);
       }
 
     // Then from the utility map
@@ -282,32 +282,20 @@ export class Blueprint {
   }
 
   public getBlueprintItemsAt(position: Vector2): BlueprintItem[] {
-    let arrayIndex = DrawHelpers.getTileIndex(position);
-    return this.getBlueprintItemsAtIndex(arrayIndex);
+    return this.templateTiles.getAt(position);
   }
 
   public getBlueprintItemsAtIndex(index: number): BlueprintItem[] {
-    if (this.templateTiles == null) this.templateTiles = [];
-
-    let returnValue = this.templateTiles[index];
-    if (returnValue == null) {
-      returnValue = [];
-      this.templateTiles[index] = returnValue;
-    }
+    return this.templateTiles.getAtIndex(index);
+  }
 
-    return returnValue;
+  // topLeft and bottomRight are included, y goes up
+  public getBlueprintItemsInRectangle(topLeft: Vector2, bottomRight: Vector2): BlueprintItem[] {
+    return this.templateTiles.queryRectangle(topLeft, bottomRight);
   }
 
   public getUtilityConnectionsAtIndex(index: number): UtilityConnectionTracker[] {
-    if (this.utilities == null) this.utilities = [];
-
-    let returnValue = this.utilities[index];
-    if (returnValue == null) {
-      returnValue = [];
-      this.utilities[index] = returnValue;
-    }
-
-    return returnValue;
+    return this.utilities.getAtIndex(index);
   }
 
   // Sometimes we need to pause the events (when lots of changes are happening at once)
@@ -349,7 +337,8 @@ export class Blueprint {
         observer.blueprintChanged();
       });
 
-      for (let blueprintItem of this.blueprintItems) blueprintItem.updateTileables(this);
+      // Only the items around the tiles that changed since the last time can have new tileables
+      for (let blueprintItem of this.templateTiles.takeDirty()) blueprintItem.updateTileables(this);
     }
   }
 
@@ -361,6 +350,9 @@ export class Blueprint {
     for (let originalTemplateItem of this.blueprintItems)
       returnValue.blueprintItems.push(originalTemplateItem.toMdbBuilding());
 
+    let view = this.layers.toMdbView();
+    if (view != undefined) returnValue.view = view;
+
     return returnValue;
   }
 
@@ -378,6 +370,43 @@ export class Blueprint {
     return returnValue;
   }
 
+  public toBinaryBlueprint(friendlyname: string): Uint8Array {
+    return BinaryBlueprint.write(this.toBniBlueprint(friendlyname));
+  }
+
+  public toOniTemplate(name: string): OniTemplate {
+    let returnValue: OniTemplate = {
+      name: name,
+      buildings: [],
+      cells: [],
+    };
+
+    let occupiedTiles: number[] = [];
+    for (let originalTemplateItem of this.blueprintItems) {
+      if (originalTemplateItem.id == OniItem.infoId) continue;
+
+      if (originalTemplateItem.id == OniItem.elementId)
+        returnValue.cells.push((originalTemplateItem as BlueprintItemElement).toOniCell());
+      else returnValue.buildings.push(originalTemplateItem.toOniBuilding());
+
+      for (let tileIndex of originalTemplateItem.tileIndexes)
+        if (occupiedTiles.indexOf(tileIndex) == -1) occupiedTiles.push(tileIndex);
+    }
+
+    if (occupiedTiles.length > 0) {
+      let boundingBox = this.getBoundingBox();
+      returnValue.info = {
+        size: {
+          X: boundingBox[1].x - boundingBox[0].x + 1,
+          Y: boundingBox[1].y - boundingBox[0].y + 1,
+        },
+        area: occupiedTiles.length,
+      };
+    }
+
+    return returnValue;
+  }
+
   public clone(): Blueprint {
     let mdb = this.toMdbBlueprint();
 
@@ -426,3 +455,8 @@ export interface IObsBlueprintChange {
   itemAdded(blueprintItem: BlueprintItem): void;
   blueprintChanged(): void;
 }
+
+export interface UnrecognizedBuilding {
+  id: string;
+  position: Vector2;
+}
@@ -0,0 +1,12 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { Vector2 } from '../vector2';
+export declare class BuildShapes {
+    static maxFillTiles: number;
+    static line(start: Vector2, end: Vector2): Vector2[];
+    static rectangle(start: Vector2, end: Vector2, filled: boolean): Vector2[];
+    static floodFill(blueprint: Blueprint, start: Vector2, item: BlueprintItem): Vector2[] | undefined;
+    static getConnections(positions: Vector2[]): number[];
+    private static isBlocked;
+}
+//# sourceMappingURL=build-shapes.d.ts.map
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { PlacementRules } from './placement-rules';
+import { Vector2 } from '../vector2';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+// Tiles covered by the multi-tile build modes, in build order
+export class BuildShapes {
+  // Flood fills bigger than this are considered open
+  public static maxFillTiles: number = 1000;
+
+  // Straight line along the axis where the mouse moved the most
+  public static line(start: Vector2, end: Vector2): Vector2[] {
+    let returnValue: Vector2[] = [];
+
+    let horizontal = Math.abs(end.x - start.x) >= Math.abs(end.y - start.y);
+    let length = horizontal ? Math.abs(end.x - start.x) : Math.abs(end.y - start.y);
+    let step = horizontal ? Math.sign(end.x - start.x) : Math.sign(end.y - start.y);
+
+    for (let i = 0; i <= length; i++)
+      returnValue.push(
+        horizontal
+          ? new Vector2(start.x + i * step, start.y)
+          : new Vector2(start.x, start.y + i * step)
+      );
+
+    return returnValue;
+  }
+
+  // The outline goes around the rectangle, so consecutive tiles are neighbours
+  public static rectangle(start: Vector2, end: Vector2, filled: boolean): Vector2[] {
+    let min = new Vector2(Math.min(start.x, end.x), Math.min(start.y, end.y));
+    let max = new Vector2(Math.max(start.x, end.x), Math.max(start.y, end.y));
+
+    let returnValue: Vector2[] = [];
+    if (filled) {
+      for (let y = min.y; y <= max.y; y++)
+        for (let x = min.x; x <= max.x; x++) returnValue.push(new Vector2(x, y));
+      return returnValue;
+    }
+
+    // A single row or column has no inside
+    if (min.x == max.x || min.y == max.y)
+      return BuildShapes.line(min, min.x == max.x ? new Vector2(min.x, max.y) : max);
+
+    for (let x = min.x; x < max.x; x++) returnValue.push(new Vector2(x, min.y));
+    for (let y = min.y; y < max.y; y++) returnValue.push(new Vector2(max.x, y));
+    for (let x = max.x; x > min.x; x--) returnValue.push(new Vector2(x, max.y));
+    for (let y = max.y; y > min.y; y--) returnValue.push(new Vector2(min.x, y));
+
+    return returnValue;
+  }
+
+  // Fills the area around start, bounded by tiles and by buildings in the layer of the item to build
+  // Returns undefined if the area is not closed
+  public static floodFill(
+    blueprint: Blueprint,
+    start: Vector2,
+    item: BlueprintItem
+  ): Vector2[] | undefined {
+    let returnValue: Vector2[] = [];
+    if (BuildShapes.isBlocked(blueprint, start, item)) return returnValue;
+
+    let visited = new Set<number>([DrawHelpers.getTileIndex(start)]);
+    let toVisit: Vector2[] = [start];
+
+    while (toVisit.length > 0) {
+      let position = toVisit.shift()!;
+      returnValue.push(position);
+      if (returnValue.length > BuildShapes.maxFillTiles) return undefined;
+
+      for (let vector of DrawHelpers.connectionVectors) {
+        let neighbour = new Vector2(position.x + vector.x, position.y + vector.y);
+        let tileIndex = DrawHelpers.getTileIndex(neighbour);
+        if (visited.has(tileIndex)) continue;
+
+        visited.add(tileIndex);
+        if (!BuildShapes.isBlocked(blueprint, neighbour, item)) toVisit.push(neighbour);
+      }
+    }
+
+    return returnValue;
+  }
+
+  // Connections of each tile of a shape to its neighbours in the shape, for wires and pipes
+  public static getConnections(positions: Vector2[]): number[] {
+    let tileIndexes = new Set<number>(
+      positions.map(position => DrawHelpers.getTileIndex(position))
+    );
+
+    return positions.map(position =>
+      DrawHelpers.getConnection(
+        DrawHelpers.connectionVectors.map(vector =>
+          tileIndexes.has(
+            DrawHelpers.getTileIndex(new Vector2(position.x + vector.x, position.y + vector.y))
+          )
+        )
+      )
+    );
+  }
+
+  private static isBlocked(blueprint: Blueprint, position: Vector2, item: BlueprintItem): boolean {
+    let tileIndex = DrawHelpers.getTileIndex(position);
+
+    return (
+      PlacementRules.isSolidAtIndex(blueprint, tileIndex) ||
+      blueprint
+        .getBlueprintItemsAtIndex(tileIndex)
+        .find(other => other.oniItem.objectLayer == item.oniItem.objectLayer) != undefined
+    );
+  }
+}
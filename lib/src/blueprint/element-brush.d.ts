@@ -0,0 +1,24 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { Vector2 } from '../vector2';
+export declare enum BrushGradient {
+    None = 0,
+    Mass = 1,
+    Temperature = 2
+}
+export interface ElementPaint {
+    position: Vector2;
+    mass: number;
+    temperature: number;
+}
+export declare class ElementBrush {
+    static maxRadius: number;
+    static maxTiles: number;
+    static disc(center: Vector2, radius: number): Vector2[];
+    static interpolate(start: Vector2, end: Vector2, position: Vector2, from: number, to: number): number;
+    static getPaints(positions: Vector2[], mass: number, temperature: number, gradient?: BrushGradient, start?: Vector2, end?: Vector2, gradientEnd?: number): ElementPaint[];
+    static paint(blueprint: Blueprint, elementId: string, paints: ElementPaint[]): BlueprintItem[];
+    static erase(blueprint: Blueprint, positions: Vector2[]): number;
+    private static getCellAtIndex;
+}
+//# sourceMappingURL=element-brush.d.ts.map
\ No newline at end of file
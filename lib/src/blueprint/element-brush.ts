@@ -0,0 +1,158 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintItemElement } from './blueprint-item-element';
+import { BlueprintHelpers } from './blueprint-helpers';
+import { PlacementRules } from './placement-rules';
+import { OniItem } from '../oni-item';
+import { Vector2 } from '../vector2';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+export enum BrushGradient {
+  None,
+  Mass,
+  Temperature,
+}
+
+// What is painted on one cell
+export interface ElementPaint {
+  position: Vector2;
+  mass: number;
+  temperature: number;
+}
+
+// Paints element cells (gas and liquid pockets) on a blueprint, one cell per tile
+export class ElementBrush {
+  public static maxRadius: number = 10;
+  // Rectangles bigger than this are not painted
+  public static maxTiles: number = 5000;
+
+  // Tiles around the center, a radius of 0 is a single tile
+  public static disc(center: Vector2, radius: number): Vector2[] {
+    let returnValue: Vector2[] = [];
+
+    // A bit over the radius, so the edges of the disc are not a single tile
+    let maxDistance = (radius + 0.25) * (radius + 0.25);
+    for (let y = center.y - radius; y <= center.y + radius; y++)
+      for (let x = center.x - radius; x <= center.x + radius; x++) {
+        let dx = x - center.x;
+        let dy = y - center.y;
+        if (dx * dx + dy * dy <= maxDistance) returnValue.push(new Vector2(x, y));
+      }
+
+    return returnValue;
+  }
+
+  // Goes from the from value on the start tile to the to value on the end tile,
+  // tiles are projected on the line between the two
+  public static interpolate(
+    start: Vector2,
+    end: Vector2,
+    position: Vector2,
+    from: number,
+    to: number
+  ): number {
+    let direction = new Vector2(end.x - start.x, end.y - start.y);
+    let lengthSquared = direction.x * direction.x + direction.y * direction.y;
+    if (lengthSquared == 0) return from;
+
+    let ratio =
+      ((position.x - start.x) * direction.x + (position.y - start.y) * direction.y) / lengthSquared;
+    ratio = Math.max(0, Math.min(1, ratio));
+
+    return from + (to - from) * ratio;
+  }
+
+  // Mass and temperature of every position, the gradient goes from the start tile to the end tile
+  public static getPaints(
+    positions: Vector2[],
+    mass: number,
+    temperature: number,
+    gradient: BrushGradient = BrushGradient.None,
+    start?: Vector2,
+    end?: Vector2,
+    gradientEnd?: number
+  ): ElementPaint[] {
+    return positions.map(position => {
+      let paint: ElementPaint = { position: position, mass: mass, temperature: temperature };
+
+      if (start != undefined && end != undefined && gradientEnd != undefined) {
+        if (gradient == BrushGradient.Mass)
+          paint.mass = ElementBrush.interpolate(start, end, position, mass, gradientEnd);
+        else if (gradient == BrushGradient.Temperature)
+          paint.temperature = ElementBrush.interpolate(
+            start,
+            end,
+            position,
+            temperature,
+            gradientEnd
+          );
+      }
+
+      return paint;
+    });
+  }
+
+  // The cells already there are repainted, natural tiles included, built tiles are skipped
+  // Returns the repainted cells, so the caller can record their changes
+  public static paint(
+    blueprint: Blueprint,
+    elementId: string,
+    paints: ElementPaint[]
+  ): BlueprintItem[] {
+    let returnValue: BlueprintItem[] = [];
+
+    for (let paint of paints) {
+      let tileIndex = DrawHelpers.getTileIndex(paint.position);
+      let cell = ElementBrush.getCellAtIndex(blueprint, tileIndex);
+      if (PlacementRules.isSolidAtIndex(blueprint, tileIndex, cell)) continue;
+
+      let mass = Math.max(0, paint.mass);
+      let temperature = Math.max(0, paint.temperature);
+
+      if (cell != undefined) {
+        cell.setElement(elementId, 0);
+        cell.mass = mass;
+        cell.temperature = temperature;
+        returnValue.push(cell);
+        continue;
+      }
+
+      cell = BlueprintHelpers.createInstance(OniItem.elementId) as BlueprintItemElement;
+      cell.importMdbBuilding({
+        id: OniItem.elementId,
+        position: Vector2.clone(paint.position)!,
+        elements: [elementId],
+        mass: mass,
+        temperature: temperature,
+      });
+      cell.prepareBoundingBox();
+      blueprint.addBlueprintItem(cell);
+    }
+
+    return returnValue;
+  }
+
+  // Returns the number of cells removed
+  public static erase(blueprint: Blueprint, positions: Vector2[]): number {
+    let returnValue = 0;
+
+    for (let position of positions) {
+      let cell = ElementBrush.getCellAtIndex(blueprint, DrawHelpers.getTileIndex(position));
+      if (cell == undefined) continue;
+
+      blueprint.destroyBlueprintItem(cell);
+      returnValue++;
+    }
+
+    return returnValue;
+  }
+
+  private static getCellAtIndex(
+    blueprint: Blueprint,
+    tileIndex: number
+  ): BlueprintItemElement | undefined {
+    return blueprint.getBlueprintItemsAtIndex(tileIndex).find(item => item.oniItem.isElement) as
+      | BlueprintItemElement
+      | undefined;
+  }
+}
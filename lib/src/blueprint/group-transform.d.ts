@@ -0,0 +1,26 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { Vector2 } from '../vector2';
+export interface MirrorAxis {
+    vertical: boolean;
+    position: number;
+}
+export declare class GroupTransform {
+    static move(blueprint: Blueprint, blueprintItems: BlueprintItem[], offset: Vector2): BlueprintItem[] | undefined;
+    static rotate(blueprint: Blueprint, blueprintItems: BlueprintItem[]): BlueprintItem[] | undefined;
+    static flip(blueprint: Blueprint, blueprintItems: BlueprintItem[], horizontal: boolean): BlueprintItem[] | undefined;
+    static mirror(blueprintItem: BlueprintItem, axis: MirrorAxis): BlueprintItem;
+    static getBounds(blueprintItems: BlueprintItem[]): Vector2[];
+    private static apply;
+    private static identity;
+    private static rotation;
+    private static flipH;
+    private static flipV;
+    private static orientationMatrices;
+    private static transformOrientation;
+    private static transformConnections;
+    private static transformVector;
+    private static multiply;
+    private static equals;
+}
+//# sourceMappingURL=group-transform.d.ts.map
\ No newline at end of file
@@ -0,0 +1,254 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintClipboard } from './blueprint-clipboard';
+import { BlueprintHelpers } from './blueprint-helpers';
+import { MdbBuilding } from '../io/mdb/mdb-building';
+import { Orientation } from '../enums/orientation';
+import { Vector2 } from '../vector2';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+// 2x2 matrix as [xx, xy, yx, yy], applied to (x, y) as (xx * x + xy * y, yx * x + yy * y)
+type Matrix = number[];
+
+// Vertical axes mirror left and right, horizontal axes mirror up and down
+// The position can end in .5 for an axis between two tiles
+export interface MirrorAxis {
+  vertical: boolean;
+  position: number;
+}
+
+// Moves, rotates and flips a group of items as a whole.
+// The items are replaced by new ones, so the functions return the items that replaced them,
+// or undefined if the result would overlap buildings outside of the group.
+export class GroupTransform {
+  public static move(
+    blueprint: Blueprint,
+    blueprintItems: BlueprintItem[],
+    offset: Vector2
+  ): BlueprintItem[] | undefined {
+    return GroupTransform.apply(
+      blueprint,
+      blueprintItems,
+      GroupTransform.identity,
+      position => new Vector2(position.x + offset.x, position.y + offset.y)
+    );
+  }
+
+  // Clockwise, around the centre of the group
+  public static rotate(
+    blueprint: Blueprint,
+    blueprintItems: BlueprintItem[]
+  ): BlueprintItem[] | undefined {
+    let bounds = GroupTransform.getBounds(blueprintItems);
+    // The centre is rounded so the items stay on the grid
+    let centre = new Vector2(
+      Math.floor((bounds[0].x + bounds[1].x) / 2),
+      Math.floor((bounds[0].y + bounds[1].y) / 2)
+    );
+
+    return GroupTransform.apply(
+      blueprint,
+      blueprintItems,
+      GroupTransform.rotation,
+      position => new Vector2(centre.x + position.y - centre.y, centre.y - (position.x - centre.x))
+    );
+  }
+
+  public static flip(
+    blueprint: Blueprint,
+    blueprintItems: BlueprintItem[],
+    horizontal: boolean
+  ): BlueprintItem[] | undefined {
+    let bounds = GroupTransform.getBounds(blueprintItems);
+
+    return GroupTransform.apply(
+      blueprint,
+      blueprintItems,
+      horizontal ? GroupTransform.flipH : GroupTransform.flipV,
+      position =>
+        horizontal
+          ? new Vector2(bounds[0].x + bounds[1].x - position.x, position.y)
+          : new Vector2(position.x, bounds[0].y + bounds[1].y - position.y)
+    );
+  }
+
+  // Returns a new item, mirrored on the other side of the axis
+  public static mirror(blueprintItem: BlueprintItem, axis: MirrorAxis): BlueprintItem {
+    let mdbBuilding = blueprintItem.toMdbBuilding();
+    mdbBuilding.position = axis.vertical
+      ? new Vector2(2 * axis.position - blueprintItem.position.x, blueprintItem.position.y)
+      : new Vector2(blueprintItem.position.x, 2 * axis.position - blueprintItem.position.y);
+
+    let matrix = axis.vertical ? GroupTransform.flipH : GroupTransform.flipV;
+    mdbBuilding.orientation = GroupTransform.transformOrientation(blueprintItem, matrix);
+    if (mdbBuilding.connections != undefined)
+      mdbBuilding.connections = GroupTransform.transformConnections(
+        mdbBuilding.connections,
+        matrix
+      );
+
+    let returnValue = BlueprintHelpers.createInstance(blueprintItem.id);
+    returnValue.importMdbBuilding(mdbBuilding);
+
+    // Buildings that can not be flipped keep their orientation, so they are shifted
+    // to cover the mirrored tiles instead
+    let shift = axis.vertical
+      ? 2 * axis.position - blueprintItem.bottomRight.x - returnValue.topLeft.x
+      : 2 * axis.position - blueprintItem.bottomRight.y - returnValue.topLeft.y;
+    if (shift != 0) {
+      mdbBuilding.position = axis.vertical
+        ? new Vector2(mdbBuilding.position.x + shift, mdbBuilding.position.y)
+        : new Vector2(mdbBuilding.position.x, mdbBuilding.position.y + shift);
+      returnValue.importMdbBuilding(mdbBuilding);
+    }
+
+    return returnValue;
+  }
+
+  // Returns the minimum and maximum tiles covered by the items
+  public static getBounds(blueprintItems: BlueprintItem[]): Vector2[] {
+    let min = new Vector2(Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER);
+    let max = new Vector2(-Number.MAX_SAFE_INTEGER, -Number.MAX_SAFE_INTEGER);
+
+    for (let blueprintItem of blueprintItems)
+      for (let tileIndex of blueprintItem.tileIndexes) {
+        let position = DrawHelpers.getTilePosition(tileIndex);
+        if (position.x < min.x) min.x = position.x;
+        if (position.y < min.y) min.y = position.y;
+        if (position.x > max.x) max.x = position.x;
+        if (position.y > max.y) max.y = position.y;
+      }
+
+    return [min, max];
+  }
+
+  private static apply(
+    blueprint: Blueprint,
+    blueprintItems: BlueprintItem[],
+    matrix: Matrix,
+    transformPosition: (position: Vector2) => Vector2
+  ): BlueprintItem[] | undefined {
+    if (blueprintItems.length == 0) return [];
+
+    // The clipboard fragment drops the connections to wires outside of the group
+    let fragment = BlueprintClipboard.copy(blueprintItems);
+
+    let returnValue: BlueprintItem[] = [];
+    for (let index = 0; index < blueprintItems.length; index++) {
+      let original = blueprintItems[index];
+      let mdbBuilding: MdbBuilding = fragment.blueprintItems[index];
+
+      mdbBuilding.position = transformPosition(original.position);
+      mdbBuilding.orientation = GroupTransform.transformOrientation(original, matrix);
+      if (mdbBuilding.connections != undefined)
+        mdbBuilding.connections = GroupTransform.transformConnections(
+          mdbBuilding.connections,
+          matrix
+        );
+
+      let blueprintItem = BlueprintHelpers.createInstance(original.id);
+      blueprintItem.importMdbBuilding(mdbBuilding);
+
+      // Buildings that can not turn or flip keep their orientation, so they are shifted
+      // to cover the transformed tiles instead
+      let corners = [original.topLeft, original.bottomRight].map(transformPosition);
+      let shift = new Vector2(
+        Math.min(corners[0].x, corners[1].x) - blueprintItem.topLeft.x,
+        Math.max(corners[0].y, corners[1].y) - blueprintItem.topLeft.y
+      );
+      if (shift.x != 0 || shift.y != 0) {
+        mdbBuilding.position = new Vector2(
+          mdbBuilding.position.x + shift.x,
+          mdbBuilding.position.y + shift.y
+        );
+        blueprintItem.importMdbBuilding(mdbBuilding);
+      }
+
+      returnValue.push(blueprintItem);
+    }
+
+    let group = new Set<BlueprintItem>(blueprintItems);
+    for (let blueprintItem of returnValue)
+      for (let tileIndex of blueprintItem.tileIndexes)
+        for (let other of blueprint.getBlueprintItemsAtIndex(tileIndex))
+          if (!group.has(other) && other.oniItem.objectLayer == blueprintItem.oniItem.objectLayer)
+            return undefined;
+
+    blueprint.pauseChangeEvents();
+    for (let blueprintItem of blueprintItems) blueprint.destroyBlueprintItem(blueprintItem);
+    for (let blueprintItem of returnValue) blueprint.addBlueprintItem(blueprintItem);
+    blueprint.resumeChangeEvents();
+
+    return returnValue;
+  }
+
+  private static identity: Matrix = [1, 0, 0, 1];
+  private static rotation: Matrix = [0, 1, -1, 0];
+  private static flipH: Matrix = [-1, 0, 0, 1];
+  private static flipV: Matrix = [1, 0, 0, -1];
+
+  private static orientationMatrices: Map<Orientation, Matrix> = new Map<Orientation, Matrix>([
+    [Orientation.Neutral, [1, 0, 0, 1]],
+    [Orientation.R90, [0, 1, -1, 0]],
+    [Orientation.R180, [-1, 0, 0, -1]],
+    [Orientation.R270, [0, -1, 1, 0]],
+    [Orientation.FlipH, [-1, 0, 0, 1]],
+    [Orientation.FlipV, [1, 0, 0, -1]],
+  ]);
+
+  // Picks the permitted orientation closest to the transformed one
+  private static transformOrientation(blueprintItem: BlueprintItem, matrix: Matrix): Orientation {
+    let current = GroupTransform.orientationMatrices.get(blueprintItem.orientation);
+    if (current == undefined) current = GroupTransform.identity;
+    let target = GroupTransform.multiply(matrix, current);
+    let halfTurn = GroupTransform.multiply([-1, 0, 0, -1], target);
+
+    let orientations = blueprintItem.oniItem.orientations;
+    let matches = (wanted: Matrix) =>
+      orientations.find(orientation =>
+        GroupTransform.equals(GroupTransform.orientationMatrices.get(orientation)!, wanted)
+      );
+
+    // Buildings that can not turn all the way around usually look the same upside down,
+    // but a flip that is not permitted should not become the other flip
+    let isRotation = target[0] * target[3] - target[1] * target[2] == 1;
+    let returnValue = matches(target);
+    if (returnValue == undefined && isRotation) returnValue = matches(halfTurn);
+    if (returnValue == undefined) returnValue = blueprintItem.orientation;
+
+    return returnValue;
+  }
+
+  private static transformConnections(connections: number, matrix: Matrix): number {
+    let connectionsArray = DrawHelpers.getConnectionArray(connections);
+    let returnValue = [false, false, false, false];
+
+    for (let i = 0; i < 4; i++) {
+      if (!connectionsArray[i]) continue;
+
+      let vector = GroupTransform.transformVector(DrawHelpers.connectionVectors[i], matrix);
+      let j = DrawHelpers.connectionVectors.findIndex(v => v.x == vector.x && v.y == vector.y);
+      returnValue[j] = true;
+    }
+
+    return DrawHelpers.getConnection(returnValue);
+  }
+
+  private static transformVector(v: Vector2, matrix: Matrix): Vector2 {
+    return new Vector2(matrix[0] * v.x + matrix[1] * v.y, matrix[2] * v.x + matrix[3] * v.y);
+  }
+
+  private static multiply(a: Matrix, b: Matrix): Matrix {
+    return [
+      a[0] * b[0] + a[1] * b[2],
+      a[0] * b[1] + a[1] * b[3],
+      a[2] * b[0] + a[3] * b[2],
+      a[2] * b[1] + a[3] * b[3],
+    ];
+  }
+
+  private static equals(a: Matrix, b: Matrix): boolean {
+    for (let i = 0; i < 4; i++) if (a[i] != b[i]) return false;
+    return true;
+  }
+}
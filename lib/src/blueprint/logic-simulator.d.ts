@@ -0,0 +1,66 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { NetworkAnalysis, NetworkPort, UtilityNetwork } from './network-analyzer';
+export declare enum LogicGateType {
+    Manual = 0,
+    And = 1,
+    Or = 2,
+    Xor = 3,
+    Not = 4,
+    Buffer = 5,
+    Filter = 6,
+    Memory = 7,
+    Multiplexer = 8,
+    Demultiplexer = 9,
+    RibbonWriter = 10,
+    RibbonReader = 11
+}
+export declare class LogicGate {
+    blueprintItem: BlueprintItem;
+    type: LogicGateType;
+    inputs: NetworkPort[];
+    controls: NetworkPort[];
+    resets: NetworkPort[];
+    outputs: NetworkPort[];
+    outputValues: number[];
+    timer: number;
+    memory: number;
+    constructor(blueprintItem: BlueprintItem, type: LogicGateType);
+    get ports(): NetworkPort[];
+}
+export declare class LogicSimulator {
+    static ticksPerSecond: number;
+    static defaultDelay: number;
+    static gateTypes: {
+        [id: string]: LogicGateType;
+    };
+    tick: number;
+    gates: LogicGate[];
+    analysis: NetworkAnalysis;
+    private blueprint;
+    private networkValues;
+    private portNetworks;
+    private manualValues;
+    constructor(blueprint: Blueprint);
+    analyze(): void;
+    reset(): void;
+    step(): void;
+    isManual(blueprintItem: BlueprintItem): boolean;
+    toggleOutput(blueprintItem: BlueprintItem): void;
+    getGate(blueprintItem: BlueprintItem): LogicGate | undefined;
+    getNetworkValue(network: UtilityNetwork): number;
+    getSegmentValue(segment: BlueprintItem): number | undefined;
+    getPortValue(port: NetworkPort): number;
+    static isRibbonSegment(segment: BlueprintItem): boolean;
+    static isRibbon(port: NetworkPort): boolean;
+    static isBitActive(value: number, bit: number): boolean;
+    private static getGateType;
+    private static getDelay;
+    private static getBit;
+    private getManualValue;
+    private readPort;
+    private updateNetworks;
+    private evaluate;
+    private getControlValue;
+}
+//# sourceMappingURL=logic-simulator.d.ts.map
\ No newline at end of file
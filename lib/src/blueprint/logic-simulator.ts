@@ -0,0 +1,330 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { NetworkAnalysis, NetworkAnalyzer, NetworkPort, UtilityNetwork } from './network-analyzer';
+import { Overlay } from '../enums/overlay';
+import { ConnectionType } from '../enums/connection-type';
+
+export enum LogicGateType {
+  // Sensors, switches and every building not simulated : their outputs are set by the user
+  Manual,
+  And,
+  Or,
+  Xor,
+  Not,
+  Buffer,
+  Filter,
+  Memory,
+  Multiplexer,
+  Demultiplexer,
+  RibbonWriter,
+  RibbonReader,
+}
+
+// A building with automation ports, and its state in the simulation
+export class LogicGate {
+  blueprintItem: BlueprintItem;
+  type: LogicGateType;
+
+  // In the order of the building ports
+  inputs: NetworkPort[] = [];
+  controls: NetworkPort[] = [];
+  resets: NetworkPort[] = [];
+  outputs: NetworkPort[] = [];
+
+  // One value per output, ribbon outputs hold 4 bits
+  outputValues: number[] = [];
+
+  // Ticks left for buffers, ticks spent green for filters
+  timer: number = 0;
+  // Latched bit of the memory toggles
+  memory: number = 0;
+
+  constructor(blueprintItem: BlueprintItem, type: LogicGateType) {
+    this.blueprintItem = blueprintItem;
+    this.type = type;
+  }
+
+  get ports(): NetworkPort[] {
+    return this.inputs.concat(this.controls, this.resets, this.outputs);
+  }
+}
+
+// Steps the signals of the automation networks, one tick at a time.
+// Outputs are written from the inputs of the previous tick, so every gate adds a tick of delay
+export class LogicSimulator {
+  public static ticksPerSecond: number = 10;
+  // Delay of the buffer and filter gates, in seconds, when not set in their settings
+  public static defaultDelay: number = 5;
+
+  static gateTypes: { [id: string]: LogicGateType } = {
+    LogicGateAND: LogicGateType.And,
+    LogicGateOR: LogicGateType.Or,
+    LogicGateXOR: LogicGateType.Xor,
+    LogicGateNOT: LogicGateType.Not,
+    LogicGateBUFFER: LogicGateType.Buffer,
+    LogicGateFILTER: LogicGateType.Filter,
+    LogicMemory: LogicGateType.Memory,
+    LogicGateMultiplexer: LogicGateType.Multiplexer,
+    LogicGateDemultiplexer: LogicGateType.Demultiplexer,
+    LogicRibbonWriter: LogicGateType.RibbonWriter,
+    LogicRibbonReader: LogicGateType.RibbonReader,
+  };
+
+  tick: number = 0;
+  gates: LogicGate[] = [];
+  analysis: NetworkAnalysis = new NetworkAnalysis();
+
+  private blueprint: Blueprint;
+  private networkValues = new Map<UtilityNetwork, number>();
+  private portNetworks = new Map<NetworkPort, UtilityNetwork>();
+  // Outputs set by the user, kept when the networks are analyzed again
+  private manualValues = new Map<BlueprintItem, number>();
+
+  constructor(blueprint: Blueprint) {
+    this.blueprint = blueprint;
+    this.analyze();
+  }
+
+  // Reads the automation networks of the blueprint again, the state of the gates still there is kept
+  public analyze() {
+    let previousGates = this.gates;
+
+    this.analysis = NetworkAnalyzer.analyzeOverlay(this.blueprint, Overlay.Automation);
+    this.gates = [];
+    this.portNetworks.clear();
+
+    let gatesByItem = new Map<BlueprintItem, LogicGate>();
+    let addPort = (port: NetworkPort, network: UtilityNetwork | undefined) => {
+      if (network != undefined) this.portNetworks.set(port, network);
+
+      let gate = gatesByItem.get(port.blueprintItem);
+      if (gate == undefined) {
+        gate = new LogicGate(port.blueprintItem, LogicSimulator.getGateType(port.blueprintItem));
+        gatesByItem.set(port.blueprintItem, gate);
+        this.gates.push(gate);
+      }
+
+      let type = port.utilityConnection.type;
+      if (type == ConnectionType.LOGIC_OUTPUT || type == ConnectionType.LOGIC_RIBBON_OUTPUT)
+        gate.outputs.push(port);
+      else if (type == ConnectionType.LOGIC_CONTROL_INPUT) gate.controls.push(port);
+      else if (type == ConnectionType.LOGIC_RESET_UPDATE) gate.resets.push(port);
+      else gate.inputs.push(port);
+    };
+
+    for (let network of this.analysis.networks)
+      for (let port of network.producers.concat(network.consumers)) addPort(port, network);
+    for (let port of this.analysis.unconnectedPorts) addPort(port, undefined);
+
+    for (let gate of this.gates) {
+      let connections = gate.blueprintItem.oniItem.utilityConnections;
+      let byConnection = (p1: NetworkPort, p2: NetworkPort) =>
+        connections.indexOf(p1.utilityConnection) - connections.indexOf(p2.utilityConnection);
+      gate.inputs.sort(byConnection);
+      gate.controls.sort(byConnection);
+      gate.resets.sort(byConnection);
+      gate.outputs.sort(byConnection);
+
+      let previous = previousGates.find(g => g.blueprintItem == gate.blueprintItem);
+      if (previous != undefined && previous.outputs.length == gate.outputs.length) {
+        gate.outputValues = previous.outputValues.slice();
+        gate.timer = previous.timer;
+        gate.memory = previous.memory;
+      } else gate.outputValues = gate.outputs.map(() => 0);
+
+      if (gate.type == LogicGateType.Manual)
+        gate.outputValues = gate.outputs.map(() => this.getManualValue(gate.blueprintItem));
+    }
+
+    for (let item of Array.from(this.manualValues.keys()))
+      if (!gatesByItem.has(item)) this.manualValues.delete(item);
+
+    this.updateNetworks();
+  }
+
+  // Everything back to red, the outputs set by the user included
+  public reset() {
+    this.tick = 0;
+    this.manualValues.clear();
+
+    for (let gate of this.gates) {
+      gate.outputValues = gate.outputs.map(() => 0);
+      gate.timer = 0;
+      gate.memory = 0;
+    }
+
+    this.updateNetworks();
+  }
+
+  public step() {
+    // Every gate reads the networks before any of them writes
+    let newValues = this.gates.map(gate => this.evaluate(gate));
+    for (let i = 0; i < this.gates.length; i++) this.gates[i].outputValues = newValues[i];
+
+    this.updateNetworks();
+    this.tick++;
+  }
+
+  public isManual(blueprintItem: BlueprintItem): boolean {
+    let gate = this.getGate(blueprintItem);
+    return gate != undefined && gate.type == LogicGateType.Manual && gate.outputs.length > 0;
+  }
+
+  // Sensors are switched by hand, the change reaches their networks without waiting for a tick
+  public toggleOutput(blueprintItem: BlueprintItem) {
+    let gate = this.getGate(blueprintItem);
+    if (gate == undefined || !this.isManual(blueprintItem)) return;
+
+    let value = this.getManualValue(blueprintItem) == 0 ? 1 : 0;
+    this.manualValues.set(blueprintItem, value);
+    gate.outputValues = gate.outputs.map(() => value);
+
+    this.updateNetworks();
+  }
+
+  public getGate(blueprintItem: BlueprintItem): LogicGate | undefined {
+    return this.gates.find(gate => gate.blueprintItem == blueprintItem);
+  }
+
+  public getNetworkValue(network: UtilityNetwork): number {
+    return this.networkValues.get(network) ?? 0;
+  }
+
+  // Value carried by a wire, a ribbon or a bridge, undefined if it is not an automation segment
+  public getSegmentValue(segment: BlueprintItem): number | undefined {
+    let network = this.analysis.getNetworkOf(segment);
+    if (network == undefined) return undefined;
+    else return this.getNetworkValue(network);
+  }
+
+  // Outputs hold what they write, inputs what they read
+  public getPortValue(port: NetworkPort): number {
+    let gate = this.getGate(port.blueprintItem);
+    if (gate != undefined) {
+      let outputIndex = gate.outputs.indexOf(port);
+      if (outputIndex != -1) return gate.outputValues[outputIndex];
+    }
+
+    return this.readPort(port);
+  }
+
+  // Wires and bridges of the ribbon networks
+  public static isRibbonSegment(segment: BlueprintItem): boolean {
+    return segment.id == 'LogicRibbon' || segment.id == 'LogicRibbonBridge';
+  }
+
+  public static isRibbon(port: NetworkPort): boolean {
+    return (
+      port.utilityConnection.type == ConnectionType.LOGIC_RIBBON_INPUT ||
+      port.utilityConnection.type == ConnectionType.LOGIC_RIBBON_OUTPUT
+    );
+  }
+
+  public static isBitActive(value: number, bit: number): boolean {
+    return ((value >> bit) & 1) == 1;
+  }
+
+  private static getGateType(blueprintItem: BlueprintItem): LogicGateType {
+    return LogicSimulator.gateTypes[blueprintItem.id] ?? LogicGateType.Manual;
+  }
+
+  // Delay of the buffer and filter gates, in ticks
+  private static getDelay(blueprintItem: BlueprintItem): number {
+    let seconds = LogicSimulator.defaultDelay;
+    let settings = blueprintItem.getUiSettings('SingleSliderSideScreen');
+    if (settings != undefined && typeof settings.values[0] == 'number')
+      seconds = settings.values[0];
+
+    return Math.round(seconds * LogicSimulator.ticksPerSecond);
+  }
+
+  // Ribbon bit of the readers and writers, set with the bit selector
+  private static getBit(blueprintItem: BlueprintItem): number {
+    let settings = blueprintItem.getUiSettings('LogicBitSelectorSideScreen');
+    if (settings != undefined && typeof settings.values[0] == 'number')
+      return Math.max(0, Math.min(3, settings.values[0]));
+    else return 0;
+  }
+
+  private getManualValue(blueprintItem: BlueprintItem): number {
+    return this.manualValues.get(blueprintItem) ?? 0;
+  }
+
+  private readPort(port: NetworkPort | undefined): number {
+    if (port == undefined) return 0;
+
+    let network = this.portNetworks.get(port);
+    if (network == undefined) return 0;
+
+    let value = this.getNetworkValue(network);
+    // Wire inputs only see the first bit
+    return LogicSimulator.isRibbon(port) ? value : value & 1;
+  }
+
+  // Green when any port on it writes green, bit by bit for the ribbons
+  private updateNetworks() {
+    this.networkValues.clear();
+
+    for (let gate of this.gates)
+      for (let i = 0; i < gate.outputs.length; i++) {
+        let network = this.portNetworks.get(gate.outputs[i]);
+        if (network == undefined) continue;
+
+        this.networkValues.set(network, this.getNetworkValue(network) | gate.outputValues[i]);
+      }
+  }
+
+  private evaluate(gate: LogicGate): number[] {
+    let input = (index: number) => this.readPort(gate.inputs[index]);
+
+    switch (gate.type) {
+      case LogicGateType.And:
+        return [input(0) & input(1)];
+      case LogicGateType.Or:
+        return [input(0) | input(1)];
+      case LogicGateType.Xor:
+        return [input(0) ^ input(1)];
+      case LogicGateType.Not:
+        return [input(0) == 0 ? 1 : 0];
+      case LogicGateType.Buffer:
+        // Stays green for the delay after the input turns red
+        if (input(0) == 1) gate.timer = LogicSimulator.getDelay(gate.blueprintItem);
+        else if (gate.timer > 0) gate.timer--;
+        else return [0];
+        return [1];
+      case LogicGateType.Filter:
+        // Turns green once the input has been green for the delay
+        if (input(0) == 0) gate.timer = 0;
+        else if (gate.timer < LogicSimulator.getDelay(gate.blueprintItem)) gate.timer++;
+        else return [1];
+        return [0];
+      case LogicGateType.Memory:
+        if (this.readPort(gate.resets[0]) == 1) gate.memory = 0;
+        else if (input(0) == 1) gate.memory = 1;
+        return [gate.memory];
+      case LogicGateType.Multiplexer:
+        return [input(this.getControlValue(gate))];
+      case LogicGateType.Demultiplexer: {
+        let control = this.getControlValue(gate);
+        return gate.outputs.map((output, index) => (index == control ? input(0) : 0));
+      }
+      case LogicGateType.RibbonWriter:
+        return [input(0) << LogicSimulator.getBit(gate.blueprintItem)];
+      case LogicGateType.RibbonReader:
+        return [
+          LogicSimulator.isBitActive(input(0), LogicSimulator.getBit(gate.blueprintItem)) ? 1 : 0,
+        ];
+      default:
+        return gate.outputValues;
+    }
+  }
+
+  // The control inputs pick one of the channels, the first one when they are missing
+  private getControlValue(gate: LogicGate): number {
+    let returnValue = 0;
+    for (let i = 0; i < gate.controls.length; i++)
+      returnValue |= this.readPort(gate.controls[i]) << i;
+
+    return returnValue;
+  }
+}
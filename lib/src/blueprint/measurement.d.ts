@@ -0,0 +1,25 @@
+import { Blueprint } from './blueprint';
+import { OniItem } from '../oni-item';
+import { Vector2 } from '../vector2';
+export interface RulerMeasure {
+    dx: number;
+    dy: number;
+    distance: number;
+}
+export interface ItemCount {
+    oniItem: OniItem;
+    count: number;
+}
+export interface BoxMeasure {
+    topLeft: Vector2;
+    bottomRight: Vector2;
+    width: number;
+    height: number;
+    area: number;
+    items: ItemCount[];
+}
+export declare class Measurement {
+    static ruler(start: Vector2, end: Vector2): RulerMeasure;
+    static box(blueprint: Blueprint, corner1: Vector2, corner2: Vector2): BoxMeasure;
+}
+//# sourceMappingURL=measurement.d.ts.map
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { Blueprint } from './blueprint';
+import { OniItem } from '../oni-item';
+import { Vector2 } from '../vector2';
+
+export interface RulerMeasure {
+  dx: number;
+  dy: number;
+  // Between the centers of the two tiles
+  distance: number;
+}
+
+export interface ItemCount {
+  oniItem: OniItem;
+  count: number;
+}
+
+export interface BoxMeasure {
+  topLeft: Vector2;
+  bottomRight: Vector2;
+  width: number;
+  height: number;
+  area: number;
+  // Buildings with at least one tile in the box, the most common first
+  items: ItemCount[];
+}
+
+export class Measurement {
+  public static ruler(start: Vector2, end: Vector2): RulerMeasure {
+    let dx = Math.abs(end.x - start.x);
+    let dy = Math.abs(end.y - start.y);
+
+    return { dx: dx, dy: dy, distance: Math.sqrt(dx * dx + dy * dy) };
+  }
+
+  // The two corners can be given in any order, both tiles are in the box
+  public static box(blueprint: Blueprint, corner1: Vector2, corner2: Vector2): BoxMeasure {
+    let topLeft = new Vector2(Math.min(corner1.x, corner2.x), Math.max(corner1.y, corner2.y));
+    let bottomRight = new Vector2(Math.max(corner1.x, corner2.x), Math.min(corner1.y, corner2.y));
+    let width = bottomRight.x - topLeft.x + 1;
+    let height = topLeft.y - bottomRight.y + 1;
+
+    let items: ItemCount[] = [];
+    for (let item of blueprint.getBlueprintItemsInRectangle(topLeft, bottomRight)) {
+      // Element cells are not something that was built
+      if (item.oniItem.isElement) continue;
+
+      let itemCount = items.find(i => i.oniItem == item.oniItem);
+      if (itemCount == undefined) {
+        itemCount = { oniItem: item.oniItem, count: 0 };
+        items.push(itemCount);
+      }
+      itemCount.count++;
+    }
+
+    return {
+      topLeft: topLeft,
+      bottomRight: bottomRight,
+      width: width,
+      height: height,
+      area: width * height,
+      items: items.sort((i1, i2) => i2.count - i1.count),
+    };
+  }
+}
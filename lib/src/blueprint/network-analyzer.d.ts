@@ -0,0 +1,33 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintItemWire } from './blueprint-item-wire';
+import { Vector2 } from '../vector2';
+import { Overlay } from '../enums/overlay';
+import { UtilityConnection } from '../utility-connection';
+export interface NetworkPort {
+    blueprintItem: BlueprintItem;
+    utilityConnection: UtilityConnection;
+    position: Vector2;
+}
+export declare class UtilityNetwork {
+    overlay: Overlay;
+    segments: BlueprintItem[];
+    producers: NetworkPort[];
+    consumers: NetworkPort[];
+    danglingEnds: Vector2[];
+    constructor(overlay: Overlay);
+    contains(blueprintItem: BlueprintItem): boolean;
+}
+export declare class NetworkAnalysis {
+    networks: UtilityNetwork[];
+    unconnectedPorts: NetworkPort[];
+    getNetworkOf(blueprintItem: BlueprintItem): UtilityNetwork | undefined;
+}
+export declare class NetworkAnalyzer {
+    static overlays: Overlay[];
+    static analyze(blueprint: Blueprint): NetworkAnalysis;
+    static analyzeOverlay(blueprint: Blueprint, overlay: Overlay): NetworkAnalysis;
+    static getConnectedNeighbours(blueprint: Blueprint, wire: BlueprintItemWire): BlueprintItemWire[];
+    private static getWireAt;
+}
+//# sourceMappingURL=network-analyzer.d.ts.map
\ No newline at end of file
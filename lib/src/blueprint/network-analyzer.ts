@@ -0,0 +1,204 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintItemWire } from './blueprint-item-wire';
+import { Vector2 } from '../vector2';
+import { Overlay } from '../enums/overlay';
+import { ConnectionHelper, UtilityConnection } from '../utility-connection';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+export interface NetworkPort {
+  blueprintItem: BlueprintItem;
+  utilityConnection: UtilityConnection;
+  position: Vector2;
+}
+
+export class UtilityNetwork {
+  overlay: Overlay;
+
+  // Wires and bridges
+  segments: BlueprintItem[] = [];
+  producers: NetworkPort[] = [];
+  consumers: NetworkPort[] = [];
+  danglingEnds: Vector2[] = [];
+
+  constructor(overlay: Overlay) {
+    this.overlay = overlay;
+  }
+
+  public contains(blueprintItem: BlueprintItem): boolean {
+    return (
+      this.segments.indexOf(blueprintItem) != -1 ||
+      this.producers.find(port => port.blueprintItem == blueprintItem) != undefined ||
+      this.consumers.find(port => port.blueprintItem == blueprintItem) != undefined
+    );
+  }
+}
+
+export class NetworkAnalysis {
+  networks: UtilityNetwork[] = [];
+
+  // Building ports with no wire or pipe on them
+  unconnectedPorts: NetworkPort[] = [];
+
+  public getNetworkOf(blueprintItem: BlueprintItem): UtilityNetwork | undefined {
+    return this.networks.find(network => network.segments.indexOf(blueprintItem) != -1);
+  }
+}
+
+export class NetworkAnalyzer {
+  static overlays: Overlay[] = [
+    Overlay.Power,
+    Overlay.Liquid,
+    Overlay.Gas,
+    Overlay.Conveyor,
+    Overlay.Automation,
+  ];
+
+  public static analyze(blueprint: Blueprint): NetworkAnalysis {
+    let returnValue = new NetworkAnalysis();
+
+    for (let overlay of NetworkAnalyzer.overlays) {
+      let overlayAnalysis = NetworkAnalyzer.analyzeOverlay(blueprint, overlay);
+      returnValue.networks = returnValue.networks.concat(overlayAnalysis.networks);
+      returnValue.unconnectedPorts = returnValue.unconnectedPorts.concat(
+        overlayAnalysis.unconnectedPorts
+      );
+    }
+
+    return returnValue;
+  }
+
+  public static analyzeOverlay(blueprint: Blueprint, overlay: Overlay): NetworkAnalysis {
+    let returnValue = new NetworkAnalysis();
+
+    // Union find over the segments of this overlay
+    let parents = new Map<BlueprintItem, BlueprintItem>();
+    let find = (item: BlueprintItem): BlueprintItem => {
+      let root = item;
+      while (parents.get(root) != root) root = parents.get(root)!;
+      parents.set(item, root);
+      return root;
+    };
+    let union = (a: BlueprintItem, b: BlueprintItem) => {
+      parents.set(find(a), find(b));
+    };
+
+    let wires: BlueprintItemWire[] = [];
+    let bridges: BlueprintItem[] = [];
+    for (let item of blueprint.blueprintItems)
+      if (item.oniItem.isWire && item.oniItem.overlay == overlay) {
+        wires.push(item as BlueprintItemWire);
+        parents.set(item, item);
+      } else if (
+        item.oniItem.isBridge &&
+        item.oniItem.utilityConnections.find(
+          connection => ConnectionHelper.getConnectionOverlay(connection.type) == overlay
+        )
+      ) {
+        bridges.push(item);
+        parents.set(item, item);
+      }
+
+    for (let wire of wires)
+      for (let neighbour of NetworkAnalyzer.getConnectedNeighbours(blueprint, wire))
+        union(wire, neighbour);
+
+    // Bridges join whatever sits under each of their ends
+    for (let bridge of bridges)
+      for (let connection of bridge.oniItem.utilityConnections) {
+        let wire = NetworkAnalyzer.getWireAt(
+          blueprint,
+          bridge.getConnectionPosition(connection),
+          overlay
+        );
+        if (wire != undefined) union(bridge, wire);
+      }
+
+    let networksByRoot = new Map<BlueprintItem, UtilityNetwork>();
+    for (let segment of parents.keys()) {
+      let root = find(segment);
+      let network = networksByRoot.get(root);
+      if (network == undefined) {
+        network = new UtilityNetwork(overlay);
+        networksByRoot.set(root, network);
+        returnValue.networks.push(network);
+      }
+
+      network.segments.push(segment);
+    }
+
+    // Building ports, secondary ports are tracked like any other port
+    let portPositions: number[] = [];
+    for (let item of blueprint.blueprintItems) {
+      if (item.oniItem.isBridge) continue;
+
+      for (let connection of item.oniItem.utilityConnections) {
+        if (ConnectionHelper.getConnectionOverlay(connection.type) != overlay) continue;
+
+        let port: NetworkPort = {
+          blueprintItem: item,
+          utilityConnection: connection,
+          position: item.getConnectionPosition(connection),
+        };
+        portPositions.push(DrawHelpers.getTileIndex(port.position));
+
+        let wire = NetworkAnalyzer.getWireAt(blueprint, port.position, overlay);
+        if (wire == undefined) returnValue.unconnectedPorts.push(port);
+        else {
+          let network = networksByRoot.get(find(wire))!;
+          if (ConnectionHelper.isOutput(connection.type)) network.producers.push(port);
+          else network.consumers.push(port);
+        }
+      }
+    }
+
+    for (let bridge of bridges)
+      for (let connection of bridge.oniItem.utilityConnections)
+        portPositions.push(DrawHelpers.getTileIndex(bridge.getConnectionPosition(connection)));
+
+    // A dead end is a segment that leads nowhere and has nothing plugged into it
+    for (let wire of wires)
+      if (
+        NetworkAnalyzer.getConnectedNeighbours(blueprint, wire).length <= 1 &&
+        portPositions.indexOf(DrawHelpers.getTileIndex(wire.position)) == -1
+      )
+        networksByRoot.get(find(wire))!.danglingEnds.push(wire.position);
+
+    return returnValue;
+  }
+
+  public static getConnectedNeighbours(
+    blueprint: Blueprint,
+    wire: BlueprintItemWire
+  ): BlueprintItemWire[] {
+    let returnValue: BlueprintItemWire[] = [];
+
+    let connectionArray = DrawHelpers.getConnectionArray(wire.connections);
+    for (let i = 0; i < 4; i++) {
+      if (!connectionArray[i]) continue;
+
+      let neighbour = blueprint
+        .getBlueprintItemsAt(
+          new Vector2(
+            wire.position.x + DrawHelpers.connectionVectors[i].x,
+            wire.position.y + DrawHelpers.connectionVectors[i].y
+          )
+        )
+        .find(item => item.oniItem.isWire && item.oniItem.objectLayer == wire.oniItem.objectLayer);
+
+      if (neighbour != undefined) returnValue.push(neighbour as BlueprintItemWire);
+    }
+
+    return returnValue;
+  }
+
+  private static getWireAt(
+    blueprint: Blueprint,
+    position: Vector2,
+    overlay: Overlay
+  ): BlueprintItem | undefined {
+    return blueprint
+      .getBlueprintItemsAt(position)
+      .find(item => item.oniItem.isWire && item.oniItem.overlay == overlay);
+  }
+}
@@ -0,0 +1,67 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { UtilityNetwork } from './network-analyzer';
+import { Overlay } from '../enums/overlay';
+export declare class PipeSegmentFlow {
+    segment: BlueprintItem;
+    throughput: number;
+    load: number;
+    backedUp: boolean;
+    constructor(segment: BlueprintItem);
+}
+export declare class PipeBuildingFlow {
+    blueprintItem: BlueprintItem;
+    demand: number;
+    received: number;
+    sent: number;
+    starved: boolean;
+    blocked: boolean;
+    constructor(blueprintItem: BlueprintItem);
+}
+export declare class PipeNetworkFlow {
+    network: UtilityNetwork;
+    capacity: number;
+    segments: PipeSegmentFlow[];
+    consumers: PipeBuildingFlow[];
+    producers: PipeBuildingFlow[];
+    constructor(network: UtilityNetwork, capacity: number);
+    get throughput(): number;
+    get starvedConsumers(): PipeBuildingFlow[];
+    get backedUpSegments(): PipeSegmentFlow[];
+    getSegmentFlow(segment: BlueprintItem): PipeSegmentFlow | undefined;
+}
+export declare class PipeFlowSimulator {
+    capacity: number;
+    tick: number;
+    private pipes;
+    private mass;
+    private downstream;
+    private order;
+    private bridges;
+    private buildings;
+    private measuredTicks;
+    private moved;
+    private stalledTicks;
+    private bridgeMoved;
+    constructor(blueprint: Blueprint, overlay: Overlay);
+    step(): void;
+    resetMeasure(): void;
+    getNetworkFlows(networks: UtilityNetwork[]): PipeNetworkFlow[];
+    private getStorageLimit;
+    private static compareDistances;
+    private static getDistances;
+}
+export declare class PipeFlow {
+    static overlays: Overlay[];
+    static liquidCapacity: number;
+    static gasCapacity: number;
+    static warmupTicks: number;
+    static measureTicks: number;
+    static starvedRatio: number;
+    static backedUpRatio: number;
+    static epsilon: number;
+    static getCapacity(overlay: Overlay): number;
+    static analyze(blueprint: Blueprint): PipeNetworkFlow[];
+    static analyzeOverlay(blueprint: Blueprint, overlay: Overlay): PipeNetworkFlow[];
+}
+//# sourceMappingURL=pipe-flow.d.ts.map
\ No newline at end of file
@@ -0,0 +1,430 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintItemWire } from './blueprint-item-wire';
+import { NetworkAnalyzer, UtilityNetwork } from './network-analyzer';
+import { Overlay } from '../enums/overlay';
+import { ConnectionHelper } from '../utility-connection';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+// Flow through a pipe or a bridge, averaged once the network is steady
+export class PipeSegmentFlow {
+  segment: BlueprintItem;
+
+  // In kg/s
+  throughput: number = 0;
+  // Part of the pipe capacity used, from 0 to 1
+  load: number = 0;
+  // Most of the time, its content could not move forward
+  backedUp: boolean = false;
+
+  constructor(segment: BlueprintItem) {
+    this.segment = segment;
+  }
+}
+
+// What a building takes from its input pipes and sends to its output pipes
+export class PipeBuildingFlow {
+  blueprintItem: BlueprintItem;
+
+  // In kg/s, 0 when the building rate is unknown
+  demand: number = 0;
+  received: number = 0;
+  sent: number = 0;
+
+  // Receives less than its demand, or nothing when the demand is unknown
+  starved: boolean = false;
+  // Its output pipe is full most of the time
+  blocked: boolean = false;
+
+  constructor(blueprintItem: BlueprintItem) {
+    this.blueprintItem = blueprintItem;
+  }
+}
+
+export class PipeNetworkFlow {
+  network: UtilityNetwork;
+
+  // Mass of a packet, in kg
+  capacity: number = 0;
+
+  segments: PipeSegmentFlow[] = [];
+  consumers: PipeBuildingFlow[] = [];
+  producers: PipeBuildingFlow[] = [];
+
+  constructor(network: UtilityNetwork, capacity: number) {
+    this.network = network;
+    this.capacity = capacity;
+  }
+
+  // Delivered to the consumers, in kg/s
+  get throughput(): number {
+    return this.consumers.reduce((total, consumer) => total + consumer.received, 0);
+  }
+
+  get starvedConsumers(): PipeBuildingFlow[] {
+    return this.consumers.filter(consumer => consumer.starved);
+  }
+
+  get backedUpSegments(): PipeSegmentFlow[] {
+    return this.segments.filter(segment => segment.backedUp);
+  }
+
+  public getSegmentFlow(segment: BlueprintItem): PipeSegmentFlow | undefined {
+    return this.segments.find(segmentFlow => segmentFlow.segment == segment);
+  }
+}
+
+// Buildings as the simulation sees them
+class FlowBuilding {
+  blueprintItem: BlueprintItem;
+  inputs: number[] = [];
+  outputs: number[] = [];
+
+  // In kg per tick
+  inputRate: number = 0;
+  outputRate: number = 0;
+
+  // Mass waiting to be sent to the output pipes
+  storage: number = 0;
+
+  // Since the last measure
+  received: number = 0;
+  sent: number = 0;
+  blockedTicks: number = 0;
+
+  constructor(blueprintItem: BlueprintItem) {
+    this.blueprintItem = blueprintItem;
+  }
+}
+
+// Moves packets through the pipes of an overlay, one tick at a time.
+// Each pipe holds a single packet, and a packet moves one pipe per tick, away from the producers.
+// At a fork, packets go to the branch leading to the closest consumer first, and to the others when it is full
+export class PipeFlowSimulator {
+  capacity: number;
+  tick: number = 0;
+
+  private pipes: BlueprintItem[] = [];
+  private mass: number[] = [];
+  // Possible moves from each pipe, closest consumer first
+  private downstream: number[][] = [];
+  // Most downstream pipes first, so a packet only moves once per tick
+  private order: number[] = [];
+  // Bridges crossed by a move, by the index of the pipes
+  private bridges = new Map<string, BlueprintItem>();
+  private buildings: FlowBuilding[] = [];
+
+  // Since the last measure
+  private measuredTicks: number = 0;
+  private moved: number[] = [];
+  private stalledTicks: number[] = [];
+  private bridgeMoved = new Map<BlueprintItem, number>();
+
+  constructor(blueprint: Blueprint, overlay: Overlay) {
+    this.capacity = PipeFlow.getCapacity(overlay);
+
+    let pipeAt = new Map<number, number>();
+    let bridgeItems: BlueprintItem[] = [];
+    for (let item of blueprint.blueprintItems)
+      if (item.oniItem.isWire && item.oniItem.overlay == overlay) {
+        pipeAt.set(DrawHelpers.getTileIndex(item.position), this.pipes.length);
+        this.pipes.push(item);
+      } else if (
+        item.oniItem.isBridge &&
+        item.oniItem.utilityConnections.find(
+          connection => ConnectionHelper.getConnectionOverlay(connection.type) == overlay
+        )
+      )
+        bridgeItems.push(item);
+
+    let nbPipes = this.pipes.length;
+    let next: number[][] = this.pipes.map(() => []);
+    for (let i = 0; i < nbPipes; i++)
+      for (let neighbour of NetworkAnalyzer.getConnectedNeighbours(
+        blueprint,
+        this.pipes[i] as BlueprintItemWire
+      )) {
+        let j = pipeAt.get(DrawHelpers.getTileIndex(neighbour.position));
+        if (j != undefined) next[i].push(j);
+      }
+
+    // Bridges only go from their input to their output
+    for (let bridge of bridgeItems) {
+      let from: number | undefined = undefined;
+      let to: number | undefined = undefined;
+      for (let connection of bridge.oniItem.utilityConnections) {
+        let pipe = pipeAt.get(DrawHelpers.getTileIndex(bridge.getConnectionPosition(connection)));
+        if (ConnectionHelper.isOutput(connection.type)) to = pipe;
+        else from = pipe;
+      }
+
+      if (from == undefined || to == undefined) continue;
+      next[from].push(to);
+      this.bridges.set(from + ',' + to, bridge);
+    }
+
+    let buildingsByItem = new Map<BlueprintItem, FlowBuilding>();
+    for (let item of blueprint.blueprintItems) {
+      if (item.oniItem.isBridge) continue;
+
+      for (let connection of item.oniItem.utilityConnections) {
+        if (ConnectionHelper.getConnectionOverlay(connection.type) != overlay) continue;
+
+        let pipe = pipeAt.get(DrawHelpers.getTileIndex(item.getConnectionPosition(connection)));
+        if (pipe == undefined) continue;
+
+        let building = buildingsByItem.get(item);
+        if (building == undefined) {
+          building = new FlowBuilding(item);
+          buildingsByItem.set(item, building);
+          this.buildings.push(building);
+        }
+
+        if (ConnectionHelper.isOutput(connection.type)) building.outputs.push(pipe);
+        else building.inputs.push(pipe);
+      }
+    }
+
+    // Buildings without a known rate take or send a full packet each tick
+    for (let building of this.buildings) {
+      let oniItem = building.blueprintItem.oniItem;
+      building.inputRate = oniItem.conduitInputRate > 0 ? oniItem.conduitInputRate : this.capacity;
+      building.outputRate =
+        oniItem.conduitOutputRate > 0 ? oniItem.conduitOutputRate : this.capacity;
+    }
+
+    let fromProducers = PipeFlowSimulator.getDistances(
+      next,
+      ([] as number[]).concat(...this.buildings.map(building => building.outputs))
+    );
+    let previous: number[][] = this.pipes.map(() => []);
+    for (let i = 0; i < nbPipes; i++) for (let j of next[i]) previous[j].push(i);
+    let toConsumers = PipeFlowSimulator.getDistances(
+      previous,
+      ([] as number[]).concat(...this.buildings.map(building => building.inputs))
+    );
+
+    for (let i = 0; i < nbPipes; i++)
+      this.downstream[i] = next[i]
+        .filter(j => fromProducers[j] > fromProducers[i])
+        .sort((j1, j2) => PipeFlowSimulator.compareDistances(toConsumers[j1], toConsumers[j2]));
+
+    this.order = this.pipes
+      .map((pipe, index) => index)
+      .sort((i1, i2) => PipeFlowSimulator.compareDistances(fromProducers[i2], fromProducers[i1]));
+
+    this.mass = this.pipes.map(() => 0);
+    this.resetMeasure();
+  }
+
+  public step() {
+    // Buildings take from their input pipes
+    for (let building of this.buildings) {
+      let wanted = building.inputRate;
+      // Buildings with an output stop when they can not send what they made
+      if (building.outputs.length > 0)
+        wanted = Math.min(wanted, this.getStorageLimit(building) - building.storage);
+
+      for (let pipe of building.inputs) {
+        let taken = Math.min(wanted, this.mass[pipe]);
+        if (taken <= 0) continue;
+
+        this.mass[pipe] -= taken;
+        this.moved[pipe] += taken;
+        wanted -= taken;
+        building.received += taken;
+
+        if (building.outputs.length > 0)
+          building.storage +=
+            building.blueprintItem.oniItem.conduitOutputRate > 0
+              ? (building.outputRate * taken) / building.inputRate
+              : taken;
+      }
+    }
+
+    // Packets move forward
+    for (let i of this.order) {
+      if (this.mass[i] <= 0) continue;
+
+      for (let j of this.downstream[i]) {
+        let moving = Math.min(this.mass[i], this.capacity - this.mass[j]);
+        if (moving <= 0) continue;
+
+        this.mass[i] -= moving;
+        this.mass[j] += moving;
+        this.moved[i] += moving;
+
+        let bridge = this.bridges.get(i + ',' + j);
+        if (bridge != undefined)
+          this.bridgeMoved.set(bridge, (this.bridgeMoved.get(bridge) ?? 0) + moving);
+
+        if (this.mass[i] <= 0) break;
+      }
+
+      if (this.mass[i] > 0) this.stalledTicks[i]++;
+    }
+
+    // Buildings send what they made
+    for (let building of this.buildings) {
+      if (building.outputs.length == 0) continue;
+
+      if (building.inputs.length == 0)
+        building.storage = Math.min(
+          building.storage + building.outputRate,
+          this.getStorageLimit(building)
+        );
+
+      for (let pipe of building.outputs) {
+        let sending = Math.min(building.storage, this.capacity - this.mass[pipe]);
+        if (sending <= 0) continue;
+
+        this.mass[pipe] += sending;
+        building.storage -= sending;
+        building.sent += sending;
+      }
+
+      if (building.storage > PipeFlow.epsilon) building.blockedTicks++;
+    }
+
+    this.tick++;
+    this.measuredTicks++;
+  }
+
+  // Starts averaging the flows again, usually once the network is steady
+  public resetMeasure() {
+    this.measuredTicks = 0;
+    this.moved = this.pipes.map(() => 0);
+    this.stalledTicks = this.pipes.map(() => 0);
+    this.bridgeMoved.clear();
+
+    for (let building of this.buildings) {
+      building.received = 0;
+      building.sent = 0;
+      building.blockedTicks = 0;
+    }
+  }
+
+  // Flows of each network, averaged since the last measure
+  public getNetworkFlows(networks: UtilityNetwork[]): PipeNetworkFlow[] {
+    let ticks = Math.max(1, this.measuredTicks);
+
+    let buildingFlows = this.buildings.map(building => {
+      let flow = new PipeBuildingFlow(building.blueprintItem);
+      flow.received = building.received / ticks;
+      flow.sent = building.sent / ticks;
+      flow.blocked = building.blockedTicks / ticks >= PipeFlow.backedUpRatio;
+
+      if (building.inputs.length > 0) {
+        flow.demand = building.blueprintItem.oniItem.conduitInputRate;
+        flow.starved =
+          flow.demand > 0
+            ? flow.received < flow.demand * PipeFlow.starvedRatio
+            : flow.received <= PipeFlow.epsilon;
+      }
+
+      return flow;
+    });
+
+    let returnValue: PipeNetworkFlow[] = [];
+    for (let network of networks) {
+      let networkFlow = new PipeNetworkFlow(network, this.capacity);
+
+      for (let segment of network.segments) {
+        let segmentFlow = new PipeSegmentFlow(segment);
+
+        let pipe = this.pipes.indexOf(segment);
+        if (pipe != -1) {
+          segmentFlow.throughput = this.moved[pipe] / ticks;
+          segmentFlow.backedUp = this.stalledTicks[pipe] / ticks >= PipeFlow.backedUpRatio;
+        } else segmentFlow.throughput = (this.bridgeMoved.get(segment) ?? 0) / ticks;
+
+        segmentFlow.load = Math.min(1, segmentFlow.throughput / this.capacity);
+        networkFlow.segments.push(segmentFlow);
+      }
+
+      let inNetwork = (pipe: number) => network.segments.indexOf(this.pipes[pipe]) != -1;
+      for (let i = 0; i < this.buildings.length; i++) {
+        if (this.buildings[i].inputs.find(inNetwork) != undefined)
+          networkFlow.consumers.push(buildingFlows[i]);
+        if (this.buildings[i].outputs.find(inNetwork) != undefined)
+          networkFlow.producers.push(buildingFlows[i]);
+      }
+
+      returnValue.push(networkFlow);
+    }
+
+    return returnValue;
+  }
+
+  private getStorageLimit(building: FlowBuilding): number {
+    return Math.max(this.capacity, building.outputRate);
+  }
+
+  // Unreachable pipes are the furthest, Infinity - Infinity would break the sort
+  private static compareDistances(distance1: number, distance2: number): number {
+    if (distance1 == distance2) return 0;
+    else return distance1 < distance2 ? -1 : 1;
+  }
+
+  // Number of moves from the closest start, Infinity when none can be reached
+  private static getDistances(next: number[][], starts: number[]): number[] {
+    let returnValue = next.map(() => Infinity);
+
+    let queue: number[] = [];
+    for (let start of starts)
+      if (returnValue[start] == Infinity) {
+        returnValue[start] = 0;
+        queue.push(start);
+      }
+
+    for (let index = 0; index < queue.length; index++)
+      for (let j of next[queue[index]])
+        if (returnValue[j] == Infinity) {
+          returnValue[j] = returnValue[queue[index]] + 1;
+          queue.push(j);
+        }
+
+    return returnValue;
+  }
+}
+
+export class PipeFlow {
+  static overlays: Overlay[] = [Overlay.Liquid, Overlay.Gas];
+
+  // Mass of a packet, in kg. A tick lasts a second
+  public static liquidCapacity: number = 10;
+  public static gasCapacity: number = 1;
+
+  // Ticks before the flows are steady, then ticks averaged
+  public static warmupTicks: number = 200;
+  public static measureTicks: number = 100;
+
+  public static starvedRatio: number = 0.95;
+  public static backedUpRatio: number = 0.5;
+  public static epsilon: number = 0.0001;
+
+  public static getCapacity(overlay: Overlay): number {
+    return overlay == Overlay.Gas ? PipeFlow.gasCapacity : PipeFlow.liquidCapacity;
+  }
+
+  public static analyze(blueprint: Blueprint): PipeNetworkFlow[] {
+    let returnValue: PipeNetworkFlow[] = [];
+
+    for (let overlay of PipeFlow.overlays)
+      returnValue = returnValue.concat(PipeFlow.analyzeOverlay(blueprint, overlay));
+
+    return returnValue;
+  }
+
+  // Runs the pipes of an overlay until they are steady, and reports their average flows
+  public static analyzeOverlay(blueprint: Blueprint, overlay: Overlay): PipeNetworkFlow[] {
+    let analysis = NetworkAnalyzer.analyzeOverlay(blueprint, overlay);
+    let simulator = new PipeFlowSimulator(blueprint, overlay);
+
+    for (let tick = 0; tick < PipeFlow.warmupTicks; tick++) simulator.step();
+    simulator.resetMeasure();
+    for (let tick = 0; tick < PipeFlow.measureTicks; tick++) simulator.step();
+
+    return simulator.getNetworkFlows(analysis.networks);
+  }
+}
@@ -0,0 +1,12 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { PlacementFailure } from '../enums/placement-failure';
+export declare class PlacementRules {
+    static check(blueprint: Blueprint, item: BlueprintItem): PlacementFailure;
+    static isSolidAtIndex(blueprint: Blueprint, tileIndex: number, ignore?: BlueprintItem): boolean;
+    private static isSideSolid;
+    private static hasBuildingBelow;
+    private static getSideCells;
+    private static orient;
+}
+//# sourceMappingURL=placement-rules.d.ts.map
\ No newline at end of file
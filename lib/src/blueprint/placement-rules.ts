@@ -0,0 +1,147 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintItemElement } from './blueprint-item-element';
+import { Vector2 } from '../vector2';
+import { BuildLocationRule } from '../enums/build-location-rule';
+import { PlacementFailure } from '../enums/placement-failure';
+import { Overlay } from '../enums/overlay';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+// Evaluates the buildLocationRule of items against their surroundings in a blueprint
+export class PlacementRules {
+  public static check(blueprint: Blueprint, item: BlueprintItem): PlacementFailure {
+    switch (item.oniItem.buildLocationRule) {
+      case BuildLocationRule.OnFloor:
+      case BuildLocationRule.OnFloorOverSpace:
+        if (!PlacementRules.isSideSolid(blueprint, item, Vector2.Down))
+          return PlacementFailure.NeedsFloor;
+        break;
+
+      case BuildLocationRule.OnCeiling:
+        if (!PlacementRules.isSideSolid(blueprint, item, Vector2.Up))
+          return PlacementFailure.NeedsCeiling;
+        break;
+
+      case BuildLocationRule.OnWall:
+        if (
+          !PlacementRules.isSideSolid(blueprint, item, Vector2.Left) &&
+          !PlacementRules.isSideSolid(blueprint, item, Vector2.Right)
+        )
+          return PlacementFailure.NeedsWall;
+        break;
+
+      case BuildLocationRule.InCorner:
+        if (
+          !PlacementRules.isSideSolid(blueprint, item, Vector2.Up) ||
+          (!PlacementRules.isSideSolid(blueprint, item, Vector2.Left) &&
+            !PlacementRules.isSideSolid(blueprint, item, Vector2.Right))
+        )
+          return PlacementFailure.NeedsCorner;
+        break;
+
+      case BuildLocationRule.OnFoundationRotatable:
+        if (!PlacementRules.isSideSolid(blueprint, item, PlacementRules.orient(item, Vector2.Down)))
+          return PlacementFailure.NeedsFoundation;
+        break;
+
+      case BuildLocationRule.WallFloor:
+        if (
+          !PlacementRules.isSideSolid(blueprint, item, Vector2.Down) ||
+          !PlacementRules.isSideSolid(blueprint, item, PlacementRules.orient(item, Vector2.Left))
+        )
+          return PlacementFailure.NeedsFloorAndWall;
+        break;
+
+      case BuildLocationRule.NotInTiles:
+        for (let tileIndex of item.tileIndexes)
+          if (PlacementRules.isSolidAtIndex(blueprint, tileIndex, item))
+            return PlacementFailure.InsideTile;
+        break;
+
+      case BuildLocationRule.BuildingAttachPoint:
+        if (!PlacementRules.hasBuildingBelow(blueprint, item))
+          return PlacementFailure.NeedsAttachPoint;
+        break;
+
+      case BuildLocationRule.OnFloorOrBuildingAttachPoint:
+        if (
+          !PlacementRules.isSideSolid(blueprint, item, Vector2.Down) &&
+          !PlacementRules.hasBuildingBelow(blueprint, item)
+        )
+          return PlacementFailure.NeedsFloorOrAttachPoint;
+        break;
+
+      case BuildLocationRule.NoLiquidConduitAtOrigin:
+        for (let other of blueprint.getBlueprintItemsAt(item.position))
+          if (other != item && other.oniItem.isWire && other.oniItem.overlay == Overlay.Liquid)
+            return PlacementFailure.LiquidConduitAtOrigin;
+        break;
+    }
+
+    return PlacementFailure.None;
+  }
+
+  // Tiles (and tile-like buildings such as doors) and natural solid cells are the ground of a blueprint
+  public static isSolidAtIndex(
+    blueprint: Blueprint,
+    tileIndex: number,
+    ignore?: BlueprintItem
+  ): boolean {
+    for (let other of blueprint.getBlueprintItemsAtIndex(tileIndex))
+      if (
+        other != ignore &&
+        (other.oniItem.isTile ||
+          other.oniItem.buildLocationRule == BuildLocationRule.Tile ||
+          (other.oniItem.isElement && (other as BlueprintItemElement).isSolid))
+      )
+        return true;
+
+    return false;
+  }
+
+  // Every cell touching the footprint on this side must be solid
+  private static isSideSolid(blueprint: Blueprint, item: BlueprintItem, side: Vector2): boolean {
+    for (let cell of PlacementRules.getSideCells(item, side))
+      if (!PlacementRules.isSolidAtIndex(blueprint, DrawHelpers.getTileIndex(cell), item))
+        return false;
+
+    return true;
+  }
+
+  private static hasBuildingBelow(blueprint: Blueprint, item: BlueprintItem): boolean {
+    for (let cell of PlacementRules.getSideCells(item, Vector2.Down))
+      for (let other of blueprint.getBlueprintItemsAt(cell))
+        if (
+          other != item &&
+          other.oniItem.objectLayer == item.oniItem.objectLayer &&
+          !other.oniItem.isTile
+        )
+          return true;
+
+    return false;
+  }
+
+  private static getSideCells(item: BlueprintItem, side: Vector2): Vector2[] {
+    let returnValue: Vector2[] = [];
+
+    if (side.y != 0) {
+      let y = side.y > 0 ? item.topLeft.y + 1 : item.bottomRight.y - 1;
+      for (let x = item.topLeft.x; x <= item.bottomRight.x; x++)
+        returnValue.push(new Vector2(x, y));
+    } else {
+      let x = side.x > 0 ? item.bottomRight.x + 1 : item.topLeft.x - 1;
+      for (let y = item.bottomRight.y; y <= item.topLeft.y; y++)
+        returnValue.push(new Vector2(x, y));
+    }
+
+    return returnValue;
+  }
+
+  // Applies the item's rotation and flip to a direction
+  private static orient(item: BlueprintItem, direction: Vector2): Vector2 {
+    let returnValue = DrawHelpers.rotateVector2(direction, Vector2.Zero, item.rotation);
+    returnValue = DrawHelpers.scaleVector2(returnValue, Vector2.Zero, item.scale);
+
+    return new Vector2(Math.round(returnValue.x), Math.round(returnValue.y));
+  }
+}
@@ -0,0 +1,20 @@
+import { Blueprint } from './blueprint';
+import { UtilityNetwork } from './network-analyzer';
+export declare enum PowerWarningType {
+    Overloaded = 0,
+    NoGenerator = 1
+}
+export declare class CircuitBudget {
+    network: UtilityNetwork;
+    generation: number;
+    consumption: number;
+    capacity: number;
+    warnings: PowerWarningType[];
+    constructor(network: UtilityNetwork);
+}
+export declare class PowerBudget {
+    static analyze(blueprint: Blueprint): CircuitBudget[];
+    static analyzeCircuit(network: UtilityNetwork): CircuitBudget;
+    private static getBuildings;
+}
+//# sourceMappingURL=power-budget.d.ts.map
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { NetworkAnalyzer, NetworkPort, UtilityNetwork } from './network-analyzer';
+import { Overlay } from '../enums/overlay';
+
+export enum PowerWarningType {
+  Overloaded,
+  NoGenerator,
+}
+
+export class CircuitBudget {
+  network: UtilityNetwork;
+
+  // In watts
+  generation: number = 0;
+  consumption: number = 0;
+  // Rating of the weakest wire or bridge, 0 when unknown
+  capacity: number = 0;
+
+  warnings: PowerWarningType[] = [];
+
+  constructor(network: UtilityNetwork) {
+    this.network = network;
+  }
+}
+
+export class PowerBudget {
+  public static analyze(blueprint: Blueprint): CircuitBudget[] {
+    let returnValue: CircuitBudget[] = [];
+
+    let analysis = NetworkAnalyzer.analyzeOverlay(blueprint, Overlay.Power);
+    for (let network of analysis.networks) returnValue.push(PowerBudget.analyzeCircuit(network));
+
+    return returnValue;
+  }
+
+  public static analyzeCircuit(network: UtilityNetwork): CircuitBudget {
+    let returnValue = new CircuitBudget(network);
+
+    // Buildings with several ports on the same circuit only count once
+    for (let producer of PowerBudget.getBuildings(network.producers))
+      returnValue.generation += producer.oniItem.generatorWattageRating;
+    for (let consumer of PowerBudget.getBuildings(network.consumers))
+      returnValue.consumption += consumer.oniItem.energyConsumptionWhenActive;
+
+    for (let segment of network.segments) {
+      let rating = segment.oniItem.maxWattageRating;
+      if (rating > 0 && (returnValue.capacity == 0 || rating < returnValue.capacity))
+        returnValue.capacity = rating;
+    }
+
+    if (returnValue.capacity > 0 && returnValue.consumption > returnValue.capacity)
+      returnValue.warnings.push(PowerWarningType.Overloaded);
+
+    // Batteries alone do not count as a power source
+    if (network.consumers.length > 0 && returnValue.generation == 0)
+      returnValue.warnings.push(PowerWarningType.NoGenerator);
+
+    return returnValue;
+  }
+
+  private static getBuildings(ports: NetworkPort[]): BlueprintItem[] {
+    let returnValue: BlueprintItem[] = [];
+
+    for (let port of ports)
+      if (returnValue.indexOf(port.blueprintItem) == -1) returnValue.push(port.blueprintItem);
+
+    return returnValue;
+  }
+}
@@ -0,0 +1,69 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { Vector2 } from '../vector2';
+export declare enum RoomTypeId {
+    Latrine = 0,
+    Washroom = 1,
+    Barracks = 2,
+    MessHall = 3,
+    GreatHall = 4,
+    Hospital = 5,
+    MassageClinic = 6,
+    RecreationRoom = 7,
+    Stable = 8,
+    Greenhouse = 9,
+    PowerPlant = 10
+}
+export declare enum RoomRequirementType {
+    Toilet = 0,
+    FlushToilet = 1,
+    WashStation = 2,
+    NoOuthouse = 3,
+    Bed = 4,
+    MessTable = 5,
+    Recreation = 6,
+    Decor = 7,
+    Medical = 8,
+    MassageTable = 9,
+    CritterFeeder = 10,
+    GroomingStation = 11,
+    FarmStation = 12,
+    Planter = 13,
+    PowerControlStation = 14,
+    Generator = 15
+}
+export interface RoomRequirement {
+    type: RoomRequirementType;
+    buildingIds: string[];
+    forbidden?: boolean;
+}
+export interface RoomType {
+    id: RoomTypeId;
+    minSize: number;
+    maxSize: number;
+    requirements: RoomRequirement[];
+}
+export declare class Room {
+    tileIndexes: number[];
+    blueprintItems: BlueprintItem[];
+    roomType?: RoomType;
+    valid: boolean;
+    missingRequirements: RoomRequirementType[];
+    get size(): number;
+    get tooSmall(): boolean;
+    get tooBig(): boolean;
+    contains(position: Vector2): boolean;
+}
+export declare class RoomDetector {
+    static maxRoomSize: number;
+    private static toilets;
+    private static washStations;
+    private static recreation;
+    private static decor;
+    private static generators;
+    static roomTypes: RoomType[];
+    static detect(blueprint: Blueprint): Room[];
+    private static fillRoom;
+    private static matchRoomType;
+}
+//# sourceMappingURL=room-detector.d.ts.map
\ No newline at end of file
@@ -0,0 +1,325 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { PlacementRules } from './placement-rules';
+import { Vector2 } from '../vector2';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+export enum RoomTypeId {
+  Latrine,
+  Washroom,
+  Barracks,
+  MessHall,
+  GreatHall,
+  Hospital,
+  MassageClinic,
+  RecreationRoom,
+  Stable,
+  Greenhouse,
+  PowerPlant,
+}
+
+export enum RoomRequirementType {
+  Toilet,
+  FlushToilet,
+  WashStation,
+  NoOuthouse,
+  Bed,
+  MessTable,
+  Recreation,
+  Decor,
+  Medical,
+  MassageTable,
+  CritterFeeder,
+  GroomingStation,
+  FarmStation,
+  Planter,
+  PowerControlStation,
+  Generator,
+}
+
+export interface RoomRequirement {
+  type: RoomRequirementType;
+  // At least one of these buildings, or none of them if forbidden
+  buildingIds: string[];
+  forbidden?: boolean;
+}
+
+export interface RoomType {
+  id: RoomTypeId;
+  minSize: number;
+  maxSize: number;
+  // The first requirement is what the room is built around
+  requirements: RoomRequirement[];
+}
+
+export class Room {
+  // Tiles inside the room, not counting the walls
+  tileIndexes: number[] = [];
+  // Buildings inside the room, and the walls and floors around it
+  blueprintItems: BlueprintItem[] = [];
+
+  // Detected type, or the type the room is closest to when it is not valid
+  roomType?: RoomType;
+  valid: boolean = false;
+  missingRequirements: RoomRequirementType[] = [];
+
+  get size() {
+    return this.tileIndexes.length;
+  }
+
+  get tooSmall() {
+    return this.roomType != undefined && this.size < this.roomType.minSize;
+  }
+
+  get tooBig() {
+    return this.roomType != undefined && this.size > this.roomType.maxSize;
+  }
+
+  contains(position: Vector2): boolean {
+    return this.tileIndexes.indexOf(DrawHelpers.getTileIndex(position)) != -1;
+  }
+}
+
+// Finds the areas enclosed by tiles and doors, and the room type their buildings make
+export class RoomDetector {
+  // Bigger areas are not rooms in the game
+  public static maxRoomSize: number = 128;
+
+  private static toilets = ['Outhouse', 'FlushToilet'];
+  private static washStations = ['WashBasin', 'WashSink', 'HandSanitizer'];
+  private static recreation = [
+    'WaterCooler',
+    'ArcadeMachine',
+    'Phonobox',
+    'EspressoMachine',
+    'Juicer',
+    'SodaFountain',
+    'HotTub',
+    'MechanicalSurfboard',
+    'Sauna',
+    'BeachChair',
+    'VerticalWindTunnel',
+  ];
+  private static decor = [
+    'Canvas',
+    'CanvasTall',
+    'CanvasWide',
+    'CrownMoulding',
+    'FlowerVase',
+    'FlowerVaseHanging',
+    'FlowerVaseHangingFancy',
+    'FlowerVaseWall',
+    'ItemPedestal',
+    'IceSculpture',
+    'MarbleSculpture',
+    'MetalSculpture',
+    'Sculpture',
+    'SmallSculpture',
+  ];
+  private static generators = [
+    'Generator',
+    'ManualGenerator',
+    'WoodGasGenerator',
+    'HydrogenGenerator',
+    'MethaneGenerator',
+    'PetroleumGenerator',
+    'SteamTurbine2',
+  ];
+
+  // In the order they are tried, the more demanding types first
+  public static roomTypes: RoomType[] = [
+    {
+      id: RoomTypeId.Washroom,
+      minSize: 12,
+      maxSize: 64,
+      requirements: [
+        { type: RoomRequirementType.FlushToilet, buildingIds: ['FlushToilet'] },
+        { type: RoomRequirementType.WashStation, buildingIds: RoomDetector.washStations },
+        { type: RoomRequirementType.NoOuthouse, buildingIds: ['Outhouse'], forbidden: true },
+      ],
+    },
+    {
+      id: RoomTypeId.Latrine,
+      minSize: 12,
+      maxSize: 64,
+      requirements: [
+        { type: RoomRequirementType.Toilet, buildingIds: RoomDetector.toilets },
+        { type: RoomRequirementType.WashStation, buildingIds: RoomDetector.washStations },
+      ],
+    },
+    {
+      id: RoomTypeId.Barracks,
+      minSize: 12,
+      maxSize: 64,
+      requirements: [{ type: RoomRequirementType.Bed, buildingIds: ['Bed', 'LuxuryBed'] }],
+    },
+    {
+      id: RoomTypeId.GreatHall,
+      minSize: 32,
+      maxSize: 120,
+      requirements: [
+        { type: RoomRequirementType.MessTable, buildingIds: ['DiningTable'] },
+        { type: RoomRequirementType.Recreation, buildingIds: RoomDetector.recreation },
+        { type: RoomRequirementType.Decor, buildingIds: RoomDetector.decor },
+      ],
+    },
+    {
+      id: RoomTypeId.MessHall,
+      minSize: 12,
+      maxSize: 64,
+      requirements: [{ type: RoomRequirementType.MessTable, buildingIds: ['DiningTable'] }],
+    },
+    {
+      id: RoomTypeId.Hospital,
+      minSize: 12,
+      maxSize: 96,
+      requirements: [
+        {
+          type: RoomRequirementType.Medical,
+          buildingIds: ['MedicalCot', 'DoctorStation', 'AdvancedDoctorStation'],
+        },
+        { type: RoomRequirementType.Toilet, buildingIds: RoomDetector.toilets },
+        { type: RoomRequirementType.MessTable, buildingIds: ['DiningTable'] },
+      ],
+    },
+    {
+      id: RoomTypeId.MassageClinic,
+      minSize: 12,
+      maxSize: 64,
+      requirements: [
+        { type: RoomRequirementType.MassageTable, buildingIds: ['MassageTable'] },
+        { type: RoomRequirementType.Decor, buildingIds: RoomDetector.decor },
+      ],
+    },
+    {
+      id: RoomTypeId.RecreationRoom,
+      minSize: 12,
+      maxSize: 96,
+      requirements: [
+        { type: RoomRequirementType.Recreation, buildingIds: RoomDetector.recreation },
+        { type: RoomRequirementType.Decor, buildingIds: RoomDetector.decor },
+      ],
+    },
+    {
+      id: RoomTypeId.Stable,
+      minSize: 12,
+      maxSize: 96,
+      requirements: [
+        { type: RoomRequirementType.GroomingStation, buildingIds: ['RanchStation'] },
+        { type: RoomRequirementType.CritterFeeder, buildingIds: ['CreatureFeeder'] },
+      ],
+    },
+    {
+      id: RoomTypeId.Greenhouse,
+      minSize: 12,
+      maxSize: 96,
+      requirements: [
+        { type: RoomRequirementType.FarmStation, buildingIds: ['FarmStation'] },
+        {
+          type: RoomRequirementType.Planter,
+          buildingIds: ['PlanterBox', 'FarmTile', 'HydroponicFarm'],
+        },
+      ],
+    },
+    {
+      id: RoomTypeId.PowerPlant,
+      minSize: 12,
+      maxSize: 96,
+      requirements: [
+        { type: RoomRequirementType.PowerControlStation, buildingIds: ['PowerControlStation'] },
+        { type: RoomRequirementType.Generator, buildingIds: RoomDetector.generators },
+      ],
+    },
+  ];
+
+  public static detect(blueprint: Blueprint): Room[] {
+    let returnValue: Room[] = [];
+    let visited = new Set<number>();
+
+    // Every enclosed area touches a wall, so the walls are where the search starts
+    for (let item of blueprint.blueprintItems)
+      for (let tileIndex of item.tileIndexes) {
+        let position = DrawHelpers.getTilePosition(tileIndex);
+        let starts = PlacementRules.isSolidAtIndex(blueprint, tileIndex)
+          ? DrawHelpers.connectionVectors.map(v => new Vector2(position.x + v.x, position.y + v.y))
+          : [position];
+
+        for (let start of starts) {
+          let room = RoomDetector.fillRoom(blueprint, start, visited);
+          if (room != undefined) returnValue.push(room);
+        }
+      }
+
+    for (let room of returnValue) RoomDetector.matchRoomType(room);
+
+    return returnValue;
+  }
+
+  // Returns undefined if the area was already visited, is a wall, or is too big to be a room
+  private static fillRoom(
+    blueprint: Blueprint,
+    start: Vector2,
+    visited: Set<number>
+  ): Room | undefined {
+    let startIndex = DrawHelpers.getTileIndex(start);
+    if (visited.has(startIndex) || PlacementRules.isSolidAtIndex(blueprint, startIndex))
+      return undefined;
+
+    let returnValue = new Room();
+    let seen = new Set<number>([startIndex]);
+    let toVisit: Vector2[] = [start];
+    let items = new Set<BlueprintItem>();
+
+    while (toVisit.length > 0) {
+      let position = toVisit.shift()!;
+      let tileIndex = DrawHelpers.getTileIndex(position);
+      returnValue.tileIndexes.push(tileIndex);
+      visited.add(tileIndex);
+
+      // The rest of an open area is left for the next starts, they will stop as quickly
+      if (returnValue.tileIndexes.length > RoomDetector.maxRoomSize) return undefined;
+
+      for (let item of blueprint.getBlueprintItemsAtIndex(tileIndex)) items.add(item);
+
+      for (let vector of DrawHelpers.connectionVectors) {
+        let neighbour = new Vector2(position.x + vector.x, position.y + vector.y);
+        let neighbourIndex = DrawHelpers.getTileIndex(neighbour);
+        if (seen.has(neighbourIndex)) continue;
+
+        seen.add(neighbourIndex);
+        if (PlacementRules.isSolidAtIndex(blueprint, neighbourIndex))
+          for (let item of blueprint.getBlueprintItemsAtIndex(neighbourIndex)) items.add(item);
+        else toVisit.push(neighbour);
+      }
+    }
+
+    returnValue.blueprintItems = Array.from(items.values());
+    return returnValue;
+  }
+
+  private static matchRoomType(room: Room) {
+    let ids = new Set<string>(room.blueprintItems.map(item => item.id));
+    let isMet = (requirement: RoomRequirement) =>
+      requirement.buildingIds.find(id => ids.has(id)) != undefined
+        ? !requirement.forbidden
+        : requirement.forbidden == true;
+
+    for (let roomType of RoomDetector.roomTypes) {
+      let missing = roomType.requirements.filter(requirement => !isMet(requirement));
+      let fitsSize = room.size >= roomType.minSize && room.size <= roomType.maxSize;
+
+      if (missing.length == 0 && fitsSize) {
+        room.roomType = roomType;
+        room.valid = true;
+        room.missingRequirements = [];
+        return;
+      }
+
+      // The first type built around something in the room tells what the room is meant to be
+      if (room.roomType == undefined && isMet(roomType.requirements[0])) {
+        room.roomType = roomType;
+        room.missingRequirements = missing.map(requirement => requirement.type);
+      }
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { Vector2 } from '../vector2';
+export declare class SpatialIndex<T> {
+    static chunkSize: number;
+    private chunks;
+    getAt(position: Vector2): T[];
+    getAtIndex(tileIndex: number): T[];
+    getNeighbours(position: Vector2): T[][];
+    queryRectangle(topLeft: Vector2, bottomRight: Vector2): T[];
+    forEach(callback: (values: T[], position: Vector2) => void): void;
+    markDirty(position: Vector2): void;
+    takeDirty(): T[];
+    clear(): void;
+    private getChunk;
+    private static getChunkPosition;
+    private static getCellIndex;
+    private static getCellPosition;
+}
+//# sourceMappingURL=spatial-index.d.ts.map
\ No newline at end of file
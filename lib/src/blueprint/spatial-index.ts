@@ -0,0 +1,168 @@
+import { Vector2 } from '../vector2';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+// Values stored per tile, in square chunks created on demand, so coordinates are not bounded.
+// Chunks are marked dirty when a tile or one of its neighbours changes.
+export class SpatialIndex<T> {
+  public static chunkSize: number = 16;
+
+  private chunks: Map<number, SpatialChunk<T>> = new Map<number, SpatialChunk<T>>();
+
+  // Returns the live array of the tile, adding or removing values from it updates the index
+  public getAt(position: Vector2): T[] {
+    let chunk = this.getChunk(SpatialIndex.getChunkPosition(position), true)!;
+    let cellIndex = SpatialIndex.getCellIndex(chunk, position);
+
+    let returnValue = chunk.cells[cellIndex];
+    if (returnValue == null) {
+      returnValue = [];
+      chunk.cells[cellIndex] = returnValue;
+    }
+
+    return returnValue;
+  }
+
+  public getAtIndex(tileIndex: number): T[] {
+    return this.getAt(DrawHelpers.getTilePosition(tileIndex));
+  }
+
+  // The tiles on the left, right, top and bottom, in the order of DrawHelpers.connectionVectors
+  public getNeighbours(position: Vector2): T[][] {
+    return DrawHelpers.connectionVectors.map(vector =>
+      this.getAt(new Vector2(position.x + vector.x, position.y + vector.y))
+    );
+  }
+
+  // Every value on at least one tile of the rectangle, once
+  public queryRectangle(topLeft: Vector2, bottomRight: Vector2): T[] {
+    let returnValue: T[] = [];
+    let found = new Set<T>();
+
+    let minChunk = SpatialIndex.getChunkPosition(new Vector2(topLeft.x, bottomRight.y));
+    let maxChunk = SpatialIndex.getChunkPosition(new Vector2(bottomRight.x, topLeft.y));
+    let chunkCount = (maxChunk.x - minChunk.x + 1) * (maxChunk.y - minChunk.y + 1);
+
+    // Large rectangles are mostly empty, it is faster to go through the existing chunks
+    let chunks: SpatialChunk<T>[] = [];
+    if (chunkCount > this.chunks.size) {
+      this.chunks.forEach(chunk => {
+        if (
+          chunk.position.x >= minChunk.x &&
+          chunk.position.x <= maxChunk.x &&
+          chunk.position.y >= minChunk.y &&
+          chunk.position.y <= maxChunk.y
+        )
+          chunks.push(chunk);
+      });
+    } else
+      for (let x = minChunk.x; x <= maxChunk.x; x++)
+        for (let y = minChunk.y; y <= maxChunk.y; y++) {
+          let chunk = this.getChunk(new Vector2(x, y), false);
+          if (chunk != undefined) chunks.push(chunk);
+        }
+
+    for (let chunk of chunks)
+      chunk.cells.forEach((values, cellIndex) => {
+        let position = SpatialIndex.getCellPosition(chunk, cellIndex);
+        if (
+          position.x < topLeft.x ||
+          position.x > bottomRight.x ||
+          position.y > topLeft.y ||
+          position.y < bottomRight.y
+        )
+          return;
+
+        for (let value of values)
+          if (!found.has(value)) {
+            found.add(value);
+            returnValue.push(value);
+          }
+      });
+
+    return returnValue;
+  }
+
+  public forEach(callback: (values: T[], position: Vector2) => void) {
+    this.chunks.forEach(chunk => {
+      chunk.cells.forEach((values, cellIndex) => {
+        callback(values, SpatialIndex.getCellPosition(chunk, cellIndex));
+      });
+    });
+  }
+
+  // Neighbouring tiles can depend on this one (tileables), so their chunks are marked too
+  public markDirty(position: Vector2) {
+    this.getChunk(SpatialIndex.getChunkPosition(position), true)!.dirty = true;
+    for (let vector of DrawHelpers.connectionVectors)
+      this.getChunk(
+        SpatialIndex.getChunkPosition(new Vector2(position.x + vector.x, position.y + vector.y)),
+        true
+      )!.dirty = true;
+  }
+
+  // Returns the values of the dirty chunks, once, and marks every chunk clean
+  public takeDirty(): T[] {
+    let returnValue: T[] = [];
+    let found = new Set<T>();
+
+    this.chunks.forEach(chunk => {
+      if (!chunk.dirty) return;
+      chunk.dirty = false;
+
+      chunk.cells.forEach(values => {
+        for (let value of values)
+          if (!found.has(value)) {
+            found.add(value);
+            returnValue.push(value);
+          }
+      });
+    });
+
+    return returnValue;
+  }
+
+  public clear() {
+    this.chunks.clear();
+  }
+
+  private getChunk(chunkPosition: Vector2, create: boolean): SpatialChunk<T> | undefined {
+    let key = DrawHelpers.getTileIndex(chunkPosition);
+
+    let returnValue = this.chunks.get(key);
+    if (returnValue == undefined && create) {
+      returnValue = { position: chunkPosition, cells: [], dirty: false };
+      this.chunks.set(key, returnValue);
+    }
+
+    return returnValue;
+  }
+
+  private static getChunkPosition(position: Vector2): Vector2 {
+    return new Vector2(
+      Math.floor(position.x / SpatialIndex.chunkSize),
+      Math.floor(position.y / SpatialIndex.chunkSize)
+    );
+  }
+
+  private static getCellIndex(chunk: SpatialChunk<any>, position: Vector2): number {
+    return (
+      position.x -
+      chunk.position.x * SpatialIndex.chunkSize +
+      SpatialIndex.chunkSize * (position.y - chunk.position.y * SpatialIndex.chunkSize)
+    );
+  }
+
+  private static getCellPosition(chunk: SpatialChunk<any>, cellIndex: number): Vector2 {
+    return new Vector2(
+      chunk.position.x * SpatialIndex.chunkSize + (cellIndex % SpatialIndex.chunkSize),
+      chunk.position.y * SpatialIndex.chunkSize + Math.floor(cellIndex / SpatialIndex.chunkSize)
+    );
+  }
+}
+
+interface SpatialChunk<T> {
+  position: Vector2;
+  // Sparse, indexed by the position of the tile inside the chunk
+  cells: T[][];
+  dirty: boolean;
+}
@@ -0,0 +1,22 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { Vector2 } from '../vector2';
+import { ConnectionType } from '../enums/connection-type';
+import { UtilityConnectionTracker } from '../utility-connection';
+export interface UtilityRoute {
+    path: Vector2[];
+    items: BlueprintItem[];
+    bridges: number;
+}
+export declare class UtilityRouter {
+    static margin: number;
+    static bridgeCost: number;
+    private static conduitIds;
+    private static bridgeIds;
+    static getDefaultConduitId(connectionType: ConnectionType): string | undefined;
+    static getPortPosition(port: UtilityConnectionTracker): Vector2;
+    static route(blueprint: Blueprint, start: UtilityConnectionTracker, end: UtilityConnectionTracker, conduitId: string, allowBridges: boolean): UtilityRoute | undefined;
+    static build(blueprint: Blueprint, route: UtilityRoute): void;
+    private static createRoute;
+}
+//# sourceMappingURL=utility-router.d.ts.map
\ No newline at end of file
@@ -0,0 +1,226 @@
+import { Blueprint } from './blueprint';
+import { BlueprintItem } from './blueprint-item';
+import { BlueprintHelpers } from './blueprint-helpers';
+import { Vector2 } from '../vector2';
+import { OniItem } from '../oni-item';
+import { Overlay } from '../enums/overlay';
+import { Orientation } from '../enums/orientation';
+import { ConnectionType } from '../enums/connection-type';
+import { ConnectionHelper, UtilityConnectionTracker } from '../utility-connection';
+import { DrawHelpers } from '../drawing/draw-helpers';
+
+export interface UtilityRoute {
+  // Tiles of the conduits, from the start port to the end port
+  // Two consecutive tiles that are not neighbours are the ends of a bridge
+  path: Vector2[];
+  items: BlueprintItem[];
+  bridges: number;
+}
+
+// Finds the shortest conduit between two utility ports
+// The conduit avoids the tiles already used in its layer, and the ports of other buildings
+export class UtilityRouter {
+  // How far the route can go around the rectangle between the two ports
+  public static margin: number = 10;
+  // A bridge is only used when going around costs more than this
+  public static bridgeCost: number = 5;
+
+  private static conduitIds: Map<Overlay, string> = new Map<Overlay, string>([
+    [Overlay.Power, 'Wire'],
+    [Overlay.Gas, 'GasConduit'],
+    [Overlay.Liquid, 'LiquidConduit'],
+    [Overlay.Conveyor, 'SolidConduit'],
+    [Overlay.Automation, 'LogicWire'],
+  ]);
+
+  private static bridgeIds: Map<string, string> = new Map<string, string>([
+    ['Wire', 'WireBridge'],
+    ['HighWattageWire', 'WireBridgeHighWattage'],
+    ['WireRefined', 'WireRefinedBridge'],
+    ['WireRefinedHighWattage', 'WireRefinedBridgeHighWattage'],
+    ['GasConduit', 'GasConduitBridge'],
+    ['InsulatedGasConduit', 'GasConduitBridge'],
+    ['GasConduitRadiant', 'GasConduitBridge'],
+    ['LiquidConduit', 'LiquidConduitBridge'],
+    ['InsulatedLiquidConduit', 'LiquidConduitBridge'],
+    ['LiquidConduitRadiant', 'LiquidConduitBridge'],
+    ['SolidConduit', 'SolidConduitBridge'],
+    ['LogicWire', 'LogicWireBridge'],
+    ['LogicRibbon', 'LogicRibbonBridge'],
+  ]);
+
+  public static getDefaultConduitId(connectionType: ConnectionType): string | undefined {
+    if (
+      connectionType == ConnectionType.LOGIC_RIBBON_INPUT ||
+      connectionType == ConnectionType.LOGIC_RIBBON_OUTPUT
+    )
+      return 'LogicRibbon';
+
+    return UtilityRouter.conduitIds.get(ConnectionHelper.getConnectionOverlay(connectionType));
+  }
+
+  public static getPortPosition(port: UtilityConnectionTracker): Vector2 {
+    return port.blueprintItem.getConnectionPosition(port.utilityConnection);
+  }
+
+  // Returns undefined if the ports can't be linked with this conduit
+  public static route(
+    blueprint: Blueprint,
+    start: UtilityConnectionTracker,
+    end: UtilityConnectionTracker,
+    conduitId: string,
+    allowBridges: boolean
+  ): UtilityRoute | undefined {
+    let conduit = OniItem.getOniItem(conduitId);
+    let overlay = ConnectionHelper.getConnectionOverlay(start.utilityConnection.type);
+    if (
+      start == end ||
+      overlay != ConnectionHelper.getConnectionOverlay(end.utilityConnection.type) ||
+      overlay != conduit.overlay
+    )
+      return undefined;
+
+    let bridgeId = UtilityRouter.bridgeIds.get(conduitId);
+    let bridge = allowBridges && bridgeId != undefined ? OniItem.getOniItem(bridgeId) : undefined;
+
+    let startPosition = UtilityRouter.getPortPosition(start);
+    let endPosition = UtilityRouter.getPortPosition(end);
+    let min = new Vector2(
+      Math.min(startPosition.x, endPosition.x) - UtilityRouter.margin,
+      Math.min(startPosition.y, endPosition.y) - UtilityRouter.margin
+    );
+    let max = new Vector2(
+      Math.max(startPosition.x, endPosition.x) + UtilityRouter.margin,
+      Math.max(startPosition.y, endPosition.y) + UtilityRouter.margin
+    );
+
+    let isFree = (position: Vector2): boolean => {
+      if (position.x < min.x || position.x > max.x || position.y < min.y || position.y > max.y)
+        return false;
+
+      let tileIndex = DrawHelpers.getTileIndex(position);
+      for (let item of blueprint.getBlueprintItemsAtIndex(tileIndex))
+        if (item.oniItem.objectLayer == conduit.objectLayer) return false;
+
+      // A conduit on another port would connect to it
+      for (let tracker of blueprint.getUtilityConnectionsAtIndex(tileIndex))
+        if (
+          tracker != start &&
+          tracker != end &&
+          ConnectionHelper.getConnectionOverlay(tracker.utilityConnection.type) == overlay
+        )
+          return false;
+
+      return true;
+    };
+
+    // The bridge goes over the tile between its two ports
+    let canBridge = (position: Vector2, direction: Vector2): boolean => {
+      let middle = new Vector2(position.x + direction.x, position.y + direction.y);
+      if (bridge == undefined || isFree(middle)) return false;
+
+      let halfLength = Math.floor(bridge.size.x / 2);
+      for (let i = -halfLength; i <= halfLength; i++) {
+        let tile = new Vector2(middle.x + i * direction.x, middle.y + i * direction.y);
+        for (let item of blueprint.getBlueprintItemsAt(tile))
+          if (item.oniItem.objectLayer == bridge.objectLayer) return false;
+      }
+
+      return true;
+    };
+
+    if (!isFree(startPosition) || !isFree(endPosition)) return undefined;
+
+    // Dijkstra, with the costs as buckets since they are small integers
+    let startIndex = DrawHelpers.getTileIndex(startPosition);
+    let endIndex = DrawHelpers.getTileIndex(endPosition);
+    let costs = new Map<number, number>([[startIndex, 0]]);
+    let previous = new Map<number, Vector2>();
+    let buckets: Vector2[][] = [[startPosition]];
+
+    let isDone = (cost: number) => costs.has(endIndex) && costs.get(endIndex)! <= cost;
+    for (let cost = 0; cost < buckets.length && !isDone(cost); cost++) {
+      if (buckets[cost] == undefined) continue;
+
+      for (let position of buckets[cost]) {
+        let tileIndex = DrawHelpers.getTileIndex(position);
+        if (costs.get(tileIndex)! < cost) continue;
+
+        for (let direction of DrawHelpers.connectionVectors) {
+          let next = new Vector2(position.x + direction.x, position.y + direction.y);
+          let nextCost = cost + 1;
+
+          if (!isFree(next)) {
+            next = new Vector2(position.x + 2 * direction.x, position.y + 2 * direction.y);
+            nextCost = cost + UtilityRouter.bridgeCost;
+            if (!isFree(next) || !canBridge(position, direction)) continue;
+          }
+
+          let nextIndex = DrawHelpers.getTileIndex(next);
+          let previousCost = costs.get(nextIndex);
+          if (previousCost != undefined && previousCost <= nextCost) continue;
+
+          costs.set(nextIndex, nextCost);
+          previous.set(nextIndex, position);
+          if (buckets[nextCost] == undefined) buckets[nextCost] = [];
+          buckets[nextCost].push(next);
+        }
+      }
+    }
+
+    if (startIndex != endIndex && !previous.has(endIndex)) return undefined;
+
+    let path: Vector2[] = [endPosition];
+    while (DrawHelpers.getTileIndex(path[0]) != startIndex)
+      path.unshift(previous.get(DrawHelpers.getTileIndex(path[0]))!);
+
+    return UtilityRouter.createRoute(path, conduitId, bridgeId);
+  }
+
+  public static build(blueprint: Blueprint, route: UtilityRoute) {
+    blueprint.pauseChangeEvents();
+    for (let item of route.items) blueprint.addBlueprintItem(item);
+    blueprint.resumeChangeEvents();
+  }
+
+  private static createRoute(
+    path: Vector2[],
+    conduitId: string,
+    bridgeId: string | undefined
+  ): UtilityRoute {
+    let returnValue: UtilityRoute = { path: path, items: [], bridges: 0 };
+
+    let isNeighbour = (a: Vector2, b: Vector2) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) == 1;
+    let getConnectionBit = (from: Vector2, to: Vector2) =>
+      DrawHelpers.connectionBits[
+        DrawHelpers.connectionVectors.findIndex(v => v.x == to.x - from.x && v.y == to.y - from.y)
+      ];
+
+    for (let index = 0; index < path.length; index++) {
+      let position = path[index];
+      let connections = 0;
+      if (index > 0 && isNeighbour(position, path[index - 1]))
+        connections += getConnectionBit(position, path[index - 1]);
+      if (index < path.length - 1 && isNeighbour(position, path[index + 1]))
+        connections += getConnectionBit(position, path[index + 1]);
+
+      let conduit = BlueprintHelpers.createInstance(conduitId);
+      conduit.importMdbBuilding({ id: conduitId, position: position, connections: connections });
+      returnValue.items.push(conduit);
+
+      if (index < path.length - 1 && !isNeighbour(position, path[index + 1])) {
+        let next = path[index + 1];
+        let bridge = BlueprintHelpers.createInstance(bridgeId!);
+        bridge.importMdbBuilding({
+          id: bridgeId!,
+          position: new Vector2((position.x + next.x) / 2, (position.y + next.y) / 2),
+          orientation: position.y == next.y ? Orientation.Neutral : Orientation.R90,
+        });
+        returnValue.items.push(bridge);
+        returnValue.bridges++;
+      }
+    }
+
+    return returnValue;
+  }
+}
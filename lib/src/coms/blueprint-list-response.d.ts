@@ -1,3 +1,7 @@
+import { MdbKeybindings } from '../keybindings';
+import { MdbModule } from '../blueprint/blueprint-module';
+import { BniBlueprint } from '../io/bni/bni-blueprint';
+import { MdbBlueprint } from '../io/mdb/mdb-blueprint';
 export interface BlueprintListResponse {
     blueprints: BlueprintListItem[];
     oldest: Date;
@@ -30,4 +34,31 @@ export interface BlueprintResponse {
     likedByMe: boolean;
     nbLikes: number;
 }
+export interface BlueprintConvertResponse {
+    name: string;
+    format: string;
+    data: string | BniBlueprint | MdbBlueprint;
+    nbItems: number;
+    unrecognizedBuildings: BlueprintConvertUnrecognized[];
+}
+export interface BlueprintConvertUnrecognized {
+    id: string;
+    count: number;
+    positions: {
+        x: number;
+        y: number;
+    }[];
+}
+export interface UserKeybindings {
+    keybindings: MdbKeybindings;
+}
+export interface ModuleListResponse {
+    modules: MdbModule[];
+}
+export interface ModuleSaveResponse {
+    id: string;
+}
+export interface ModuleDelete {
+    moduleId: string;
+}
 //# sourceMappingURL=blueprint-list-response.d.ts.map
\ No newline at end of file
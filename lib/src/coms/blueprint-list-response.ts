@@ -1,3 +1,8 @@
+import { MdbKeybindings } from '../keybindings';
+import { MdbModule } from '../blueprint/blueprint-module';
+import { BniBlueprint } from '../io/bni/bni-blueprint';
+import { MdbBlueprint } from '../io/mdb/mdb-blueprint';
+
 export interface BlueprintListResponse {
   blueprints: BlueprintListItem[];
   oldest: Date;
@@ -34,3 +39,35 @@ export interface BlueprintResponse {
   likedByMe: boolean;
   nbLikes: number;
 }
+
+export interface BlueprintConvertResponse {
+  name: string;
+  format: string;
+  // yaml is sent as text, binary as base64
+  data: string | BniBlueprint | MdbBlueprint;
+  nbItems: number;
+  unrecognizedBuildings: BlueprintConvertUnrecognized[];
+}
+
+export interface BlueprintConvertUnrecognized {
+  id: string;
+  count: number;
+  positions: { x: number; y: number }[];
+}
+
+// Sent and received by the user settings routes
+export interface UserKeybindings {
+  keybindings: MdbKeybindings;
+}
+
+export interface ModuleListResponse {
+  modules: MdbModule[];
+}
+
+export interface ModuleSaveResponse {
+  id: string;
+}
+
+export interface ModuleDelete {
+  moduleId: string;
+}
@@ -23,6 +23,8 @@ export declare class DrawHelpers {
     static generateTileSpriteInfo(kanimPrefix: string, textureName: string): BSpriteInfo[];
     static getTileIndex(position: Vector2): number;
     static getTilePosition(index: number): Vector2;
+    private static foldInteger;
+    private static unfoldInteger;
     private static scaleSteps;
     static temperatureThresholds: TemperatureThreshold[];
     static temperatureToColor(temperature: number): number;
@@ -244,22 +244,35 @@ export class DrawHelpers {
     return returnValue;
   }
 
+  // Tile indexes pair the coordinates (folded to positive integers) without any bounds,
+  // so every integer position gets its own index
   public static getTileIndex(position: Vector2): number {
-    return position.x + 500 + 1001 * (position.y + 500);
+    let a = DrawHelpers.foldInteger(position.x);
+    let b = DrawHelpers.foldInteger(position.y);
+
+    return a >= b ? a * a + a + b : a + b * b;
   }
 
   public static getTilePosition(index: number): Vector2 {
-    let returnValue = new Vector2(0, 0);
+    let root = Math.floor(Math.sqrt(index));
+    // Math.sqrt can be one off on very large indexes
+    while (root * root > index) root--;
+    while ((root + 1) * (root + 1) <= index) root++;
 
-    returnValue.x = index % 1001;
-    index -= returnValue.x;
+    let rest = index - root * root;
+    let a = rest < root ? rest : root;
+    let b = rest < root ? root : rest - root;
 
-    returnValue.y = index / 1001;
+    return new Vector2(DrawHelpers.unfoldInteger(a), DrawHelpers.unfoldInteger(b));
+  }
 
-    returnValue.x -= 500;
-    returnValue.y -= 500;
+  // 0, -1, 1, -2, 2... become 0, 1, 2, 3, 4...
+  private static foldInteger(value: number): number {
+    return value >= 0 ? 2 * value : -2 * value - 1;
+  }
 
-    return returnValue;
+  private static unfoldInteger(value: number): number {
+    return value % 2 == 0 ? value / 2 : -(value + 1) / 2;
   }
 
   private static scaleSteps: ScaleStep[] = [
@@ -0,0 +1,12 @@
+export declare enum BlueprintLayer {
+    Buildings = 0,
+    Tiles = 1,
+    Backwalls = 2,
+    Elements = 3,
+    Power = 4,
+    Liquid = 5,
+    Gas = 6,
+    Conveyor = 7,
+    Automation = 8
+}
+//# sourceMappingURL=blueprint-layer.d.ts.map
\ No newline at end of file
@@ -0,0 +1,11 @@
+export enum BlueprintLayer {
+  Buildings,
+  Tiles,
+  Backwalls,
+  Elements,
+  Power,
+  Liquid,
+  Gas,
+  Conveyor,
+  Automation,
+}
@@ -14,4 +14,8 @@ export enum BuildLocationRule {
   BuildingAttachPoint,
   OnFloorOrBuildingAttachPoint,
   OnFoundationRotatable,
+  BelowRocketCeiling,
+  OnRocketEnvelope,
+  WallFloor,
+  NoLiquidConduitAtOrigin,
 }
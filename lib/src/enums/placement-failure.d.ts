@@ -0,0 +1,14 @@
+export declare enum PlacementFailure {
+    None = 0,
+    NeedsFloor = 1,
+    NeedsCeiling = 2,
+    NeedsWall = 3,
+    NeedsCorner = 4,
+    NeedsFoundation = 5,
+    NeedsFloorAndWall = 6,
+    NeedsAttachPoint = 7,
+    NeedsFloorOrAttachPoint = 8,
+    InsideTile = 9,
+    LiquidConduitAtOrigin = 10
+}
+//# sourceMappingURL=placement-failure.d.ts.map
\ No newline at end of file
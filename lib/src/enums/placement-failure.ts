@@ -0,0 +1,13 @@
+export enum PlacementFailure {
+  None,
+  NeedsFloor,
+  NeedsCeiling,
+  NeedsWall,
+  NeedsCorner,
+  NeedsFoundation,
+  NeedsFloorAndWall,
+  NeedsAttachPoint,
+  NeedsFloorOrAttachPoint,
+  InsideTile,
+  LiquidConduitAtOrigin,
+}
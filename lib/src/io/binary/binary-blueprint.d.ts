@@ -0,0 +1,6 @@
+import { BniBlueprint } from '../bni/bni-blueprint';
+export declare class BinaryBlueprint {
+    static read(buffer: ArrayBuffer | Uint8Array): BniBlueprint;
+    static write(bniBlueprint: BniBlueprint): Uint8Array;
+}
+//# sourceMappingURL=binary-blueprint.d.ts.map
\ No newline at end of file
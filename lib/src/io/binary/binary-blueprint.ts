@@ -0,0 +1,60 @@
+import { BinaryReader, BinaryWriter, Encoding } from 'csharp-binary-stream';
+import { Vector2 } from '../../vector2';
+import { BniBlueprint } from '../bni/bni-blueprint';
+import { BniBuilding } from '../bni/bni-building';
+
+// Binary format used by the Blueprints mod (.blueprint files)
+export class BinaryBlueprint {
+  public static read(buffer: ArrayBuffer | Uint8Array): BniBlueprint {
+    const reader = new BinaryReader(buffer);
+
+    let bniBlueprint = new BniBlueprint();
+    bniBlueprint.friendlyname = reader.readString(Encoding.Utf8);
+    bniBlueprint.buildings = [];
+
+    let buildingCount = reader.readInt();
+
+    for (let buildingIndex = 0; buildingIndex < buildingCount; buildingIndex++) {
+      let bniBuilding = new BniBuilding();
+
+      let offsetX = reader.readInt();
+      let offsetY = reader.readInt();
+      bniBuilding.offset = new Vector2(offsetX, offsetY);
+
+      bniBuilding.buildingdef = reader.readString(Encoding.Utf8);
+
+      let selectedElementCount = reader.readInt();
+      for (let elementIndex = 0; elementIndex < selectedElementCount; elementIndex++)
+        bniBuilding.selected_elements.push(reader.readInt());
+
+      bniBuilding.orientation = reader.readInt();
+      bniBuilding.flags = reader.readInt();
+
+      bniBlueprint.buildings.push(bniBuilding);
+    }
+
+    return bniBlueprint;
+  }
+
+  public static write(bniBlueprint: BniBlueprint): Uint8Array {
+    const writer = new BinaryWriter();
+
+    writer.writeString(bniBlueprint.friendlyname, Encoding.Utf8);
+    writer.writeInt(bniBlueprint.buildings.length);
+
+    for (let bniBuilding of bniBlueprint.buildings) {
+      writer.writeInt(bniBuilding.offset.x);
+      writer.writeInt(bniBuilding.offset.y);
+
+      writer.writeString(bniBuilding.buildingdef, Encoding.Utf8);
+
+      writer.writeInt(bniBuilding.selected_elements.length);
+      for (let tag of bniBuilding.selected_elements) writer.writeInt(tag);
+
+      writer.writeInt(bniBuilding.orientation);
+      writer.writeInt(bniBuilding.flags);
+    }
+
+    return writer.toUint8Array();
+  }
+}
@@ -1,5 +1,10 @@
 import { MdbBuilding } from './mdb-building';
 export interface MdbBlueprint {
     blueprintItems: MdbBuilding[];
+    view?: MdbBlueprintView;
+}
+export interface MdbBlueprintView {
+    hiddenLayers?: number[];
+    lockedLayers?: number[];
 }
 //# sourceMappingURL=mdb-blueprint.d.ts.map
\ No newline at end of file
@@ -2,4 +2,11 @@ import { MdbBuilding } from './mdb-building';
 
 export interface MdbBlueprint {
   blueprintItems: MdbBuilding[];
+  view?: MdbBlueprintView;
+}
+
+// How the blueprint was shown when it was saved, this does not change the buildings
+export interface MdbBlueprintView {
+  hiddenLayers?: number[];
+  lockedLayers?: number[];
 }
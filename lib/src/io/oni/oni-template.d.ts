@@ -2,7 +2,15 @@ import { OniBuilding } from './oni-building';
 import { OniCell } from './oni-cell';
 export interface OniTemplate {
     name: string;
+    info?: OniTemplateInfo;
     buildings: OniBuilding[];
     cells: OniCell[];
 }
+export interface OniTemplateInfo {
+    size: {
+        X: number;
+        Y: number;
+    };
+    area: number;
+}
 //# sourceMappingURL=oni-template.d.ts.map
\ No newline at end of file
@@ -3,6 +3,12 @@ import { OniCell } from './oni-cell';
 
 export interface OniTemplate {
   name: string;
+  info?: OniTemplateInfo;
   buildings: OniBuilding[];
   cells: OniCell[];
 }
+
+export interface OniTemplateInfo {
+  size: { X: number; Y: number };
+  area: number;
+}
@@ -0,0 +1,68 @@
+export declare enum KeyAction {
+    Undo = 0,
+    Redo = 1,
+    Copy = 2,
+    Cut = 3,
+    Paste = 4,
+    Delete = 5,
+    Rotate = 6,
+    FlipHorizontal = 7,
+    FlipVertical = 8,
+    CopyBuilding = 9,
+    CommandPalette = 10,
+    ToolSelect = 11,
+    ToolBuild = 12,
+    ToolRoute = 13,
+    ToolMeasure = 14,
+    ToolElementBrush = 15,
+    ToolLogicSimulator = 16,
+    OverlayBase = 17,
+    OverlayPower = 18,
+    OverlayLiquid = 19,
+    OverlayGas = 20,
+    OverlayAutomation = 21,
+    OverlayConveyor = 22,
+    OverlayRoom = 23,
+    CameraLeft = 24,
+    CameraRight = 25,
+    CameraUp = 26,
+    CameraDown = 27,
+    ZoomIn = 28,
+    ZoomOut = 29
+}
+export interface MdbKeybindings {
+    [actionId: string]: string;
+}
+export declare class Keybindings {
+    static buildPrefix: string;
+    static categoryKeys: string[];
+    private static defaultBindings;
+    private defaults;
+    private overrides;
+    private pending;
+    constructor();
+    loadDefaults(): void;
+    get actionIds(): string[];
+    getBinding(actionId: string): string;
+    getDefault(actionId: string): string;
+    setBinding(actionId: string, keys: string): void;
+    resetToDefaults(): void;
+    getConflicts(actionId: string, keys: string): string[];
+    press(keys: string): string | undefined;
+    get pendingKeys(): string;
+    clearPending(): void;
+    toMdb(): MdbKeybindings;
+    importMdb(mdbKeybindings: MdbKeybindings): void;
+    static getAction(actionId: string): KeyAction | undefined;
+    static getBuildingId(actionId: string): string | undefined;
+    static eventToKeys(event: {
+        key: string;
+        ctrlKey: boolean;
+        altKey: boolean;
+        shiftKey: boolean;
+        metaKey?: boolean;
+    }): string | undefined;
+    private static overlaps;
+    private static getLetters;
+}
+//# sourceMappingURL=keybindings.d.ts.map
\ No newline at end of file
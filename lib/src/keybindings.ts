@@ -0,0 +1,282 @@
+import { BuildMenuCategory, BuildMenuItem } from './b-export/b-build-order';
+import { OniItem } from './oni-item';
+
+export enum KeyAction {
+  Undo,
+  Redo,
+  Copy,
+  Cut,
+  Paste,
+  Delete,
+  Rotate,
+  FlipHorizontal,
+  FlipVertical,
+  CopyBuilding,
+  CommandPalette,
+  ToolSelect,
+  ToolBuild,
+  ToolRoute,
+  ToolMeasure,
+  ToolElementBrush,
+  ToolLogicSimulator,
+  OverlayBase,
+  OverlayPower,
+  OverlayLiquid,
+  OverlayGas,
+  OverlayAutomation,
+  OverlayConveyor,
+  OverlayRoom,
+  CameraLeft,
+  CameraRight,
+  CameraUp,
+  CameraDown,
+  ZoomIn,
+  ZoomOut,
+}
+
+// Shortcuts, as they are stored : action id -> keys, '' when the shortcut was removed
+export interface MdbKeybindings {
+  [actionId: string]: string;
+}
+
+// Keyboard shortcuts for the actions and the buildings.
+// Keys are written like 'Ctrl+Z' or 'Shift+F2', and a sequence of strokes is separated by spaces :
+// like in the game, '1 L' is the first building category, then the ladder.
+// Actions are identified by their KeyAction name, and buildings by 'Build:' + the building id
+export class Keybindings {
+  public static buildPrefix: string = 'Build:';
+
+  // The game uses the number keys for the build categories
+  public static categoryKeys: string[] = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'];
+
+  // Close to the game shortcuts, the tools have none in the game
+  private static defaultBindings: { action: KeyAction; keys: string }[] = [
+    { action: KeyAction.Undo, keys: 'Ctrl+Z' },
+    { action: KeyAction.Redo, keys: 'Ctrl+Y' },
+    { action: KeyAction.Copy, keys: 'Ctrl+C' },
+    { action: KeyAction.Cut, keys: 'Ctrl+X' },
+    { action: KeyAction.Paste, keys: 'Ctrl+V' },
+    { action: KeyAction.Delete, keys: 'Delete' },
+    { action: KeyAction.Rotate, keys: 'O' },
+    { action: KeyAction.FlipHorizontal, keys: 'F' },
+    { action: KeyAction.FlipVertical, keys: 'Shift+F' },
+    { action: KeyAction.CopyBuilding, keys: 'B' },
+    { action: KeyAction.CommandPalette, keys: 'Ctrl+K' },
+    { action: KeyAction.ToolSelect, keys: 'S' },
+    { action: KeyAction.ToolBuild, keys: 'Shift+B' },
+    { action: KeyAction.ToolRoute, keys: 'R' },
+    { action: KeyAction.ToolMeasure, keys: 'M' },
+    { action: KeyAction.ToolElementBrush, keys: 'P' },
+    { action: KeyAction.ToolLogicSimulator, keys: 'L' },
+    { action: KeyAction.OverlayBase, keys: 'F1' },
+    { action: KeyAction.OverlayPower, keys: 'F2' },
+    { action: KeyAction.OverlayLiquid, keys: 'F6' },
+    { action: KeyAction.OverlayGas, keys: 'F7' },
+    { action: KeyAction.OverlayAutomation, keys: 'Shift+F2' },
+    { action: KeyAction.OverlayConveyor, keys: 'Shift+F3' },
+    { action: KeyAction.OverlayRoom, keys: 'F11' },
+    { action: KeyAction.CameraLeft, keys: 'ArrowLeft' },
+    { action: KeyAction.CameraRight, keys: 'ArrowRight' },
+    { action: KeyAction.CameraUp, keys: 'ArrowUp' },
+    { action: KeyAction.CameraDown, keys: 'ArrowDown' },
+    { action: KeyAction.ZoomIn, keys: '+' },
+    { action: KeyAction.ZoomOut, keys: '-' },
+  ];
+
+  private defaults = new Map<string, string>();
+  private overrides = new Map<string, string>();
+
+  // Strokes of a sequence that is not finished yet
+  private pending: string[] = [];
+
+  constructor() {
+    this.loadDefaults();
+  }
+
+  // The building shortcuts need the build menu, so this is called again once the database is loaded
+  public loadDefaults() {
+    this.defaults.clear();
+    this.pending = [];
+
+    for (let defaultBinding of Keybindings.defaultBindings)
+      this.defaults.set(KeyAction[defaultBinding.action], defaultBinding.keys);
+
+    if (BuildMenuCategory.buildMenuCategories == null || BuildMenuItem.buildMenuItems == null)
+      return;
+
+    for (let category of BuildMenuCategory.buildMenuCategories) {
+      let categoryIndex = BuildMenuCategory.buildMenuCategories.indexOf(category);
+      let categoryKey = Keybindings.categoryKeys[categoryIndex];
+
+      let usedLetters: string[] = [];
+      for (let buildMenuItem of BuildMenuItem.buildMenuItems) {
+        if (buildMenuItem.category != category.category) continue;
+
+        let oniItem = OniItem.getOniItem(buildMenuItem.buildingId);
+        if (oniItem == null || oniItem.isElement || oniItem.isInfo) continue;
+
+        let actionId = Keybindings.buildPrefix + buildMenuItem.buildingId;
+        let letter = Keybindings.getLetters(buildMenuItem.buildingId).find(
+          l => usedLetters.indexOf(l) == -1
+        );
+
+        // The buildings past the number keys, or past the letters of their category, are only listed
+        if (categoryKey == undefined || letter == undefined) this.defaults.set(actionId, '');
+        else {
+          usedLetters.push(letter);
+          this.defaults.set(actionId, categoryKey + ' ' + letter);
+        }
+      }
+    }
+  }
+
+  // Every action, then every building
+  get actionIds(): string[] {
+    let returnValue = Array.from(this.defaults.keys());
+    for (let actionId of Array.from(this.overrides.keys()))
+      if (returnValue.indexOf(actionId) == -1) returnValue.push(actionId);
+
+    return returnValue;
+  }
+
+  // Returns '' when the action has no shortcut
+  public getBinding(actionId: string): string {
+    let returnValue = this.overrides.get(actionId);
+    if (returnValue == undefined) returnValue = this.defaults.get(actionId);
+    if (returnValue == undefined) returnValue = '';
+
+    return returnValue;
+  }
+
+  public getDefault(actionId: string): string {
+    let returnValue = this.defaults.get(actionId);
+    return returnValue == undefined ? '' : returnValue;
+  }
+
+  public setBinding(actionId: string, keys: string) {
+    if (keys == this.getDefault(actionId)) this.overrides.delete(actionId);
+    else this.overrides.set(actionId, keys);
+
+    this.pending = [];
+  }
+
+  public resetToDefaults() {
+    this.overrides.clear();
+    this.pending = [];
+  }
+
+  // Actions that would be shadowed by these keys : the same keys, or a sequence that starts the same
+  public getConflicts(actionId: string, keys: string): string[] {
+    return this.actionIds.filter(
+      other => other != actionId && Keybindings.overlaps(this.getBinding(other), keys)
+    );
+  }
+
+  // Returns the action once its keys are complete, and undefined while a sequence is being typed
+  public press(keys: string): string | undefined {
+    let sequence = this.pending.concat(keys).join(' ');
+    let actionIds = this.actionIds;
+
+    let returnValue = actionIds.find(actionId => this.getBinding(actionId) == sequence);
+    if (returnValue != undefined) {
+      this.pending = [];
+      return returnValue;
+    }
+
+    if (actionIds.find(actionId => this.getBinding(actionId).startsWith(sequence + ' '))) {
+      this.pending.push(keys);
+      return undefined;
+    }
+
+    // A stroke that does not continue the sequence starts a new one
+    if (this.pending.length > 0) {
+      this.pending = [];
+      return this.press(keys);
+    }
+
+    return undefined;
+  }
+
+  get pendingKeys(): string {
+    return this.pending.join(' ');
+  }
+
+  public clearPending() {
+    this.pending = [];
+  }
+
+  // Only the shortcuts changed by the user are stored, so new defaults still reach them
+  public toMdb(): MdbKeybindings {
+    let returnValue: MdbKeybindings = {};
+    this.overrides.forEach((keys, actionId) => (returnValue[actionId] = keys));
+
+    return returnValue;
+  }
+
+  public importMdb(mdbKeybindings: MdbKeybindings) {
+    this.resetToDefaults();
+    if (mdbKeybindings == null) return;
+
+    // Stored as given : the building defaults may not be known yet when the shortcuts are read
+    for (let actionId of Object.keys(mdbKeybindings))
+      if (typeof mdbKeybindings[actionId] == 'string')
+        this.overrides.set(actionId, mdbKeybindings[actionId]);
+  }
+
+  // Undefined for the buildings
+  public static getAction(actionId: string): KeyAction | undefined {
+    return KeyAction[actionId as keyof typeof KeyAction];
+  }
+
+  public static getBuildingId(actionId: string): string | undefined {
+    if (!actionId.startsWith(Keybindings.buildPrefix)) return undefined;
+    return actionId.substring(Keybindings.buildPrefix.length);
+  }
+
+  // Undefined for the modifier keys alone
+  public static eventToKeys(event: {
+    key: string;
+    ctrlKey: boolean;
+    altKey: boolean;
+    shiftKey: boolean;
+    metaKey?: boolean;
+  }): string | undefined {
+    if (['Control', 'Alt', 'Shift', 'Meta', 'AltGraph'].indexOf(event.key) != -1) return undefined;
+
+    let key = event.key == ' ' ? 'Space' : event.key;
+    let isCharacter = key.length == 1;
+    if (isCharacter) key = key.toUpperCase();
+
+    // Shift is already in the symbols it types, like + or !
+    let hasLetterCase = key.toLowerCase() != key;
+    let returnValue = '';
+    if (event.ctrlKey || event.metaKey) returnValue += 'Ctrl+';
+    if (event.altKey) returnValue += 'Alt+';
+    if (event.shiftKey && (!isCharacter || hasLetterCase)) returnValue += 'Shift+';
+
+    return returnValue + key;
+  }
+
+  private static overlaps(keys1: string, keys2: string): boolean {
+    if (keys1 == '' || keys2 == '') return false;
+
+    let strokes1 = keys1.split(' ');
+    let strokes2 = keys2.split(' ');
+    for (let i = 0; i < Math.min(strokes1.length, strokes2.length); i++)
+      if (strokes1[i] != strokes2[i]) return false;
+
+    return true;
+  }
+
+  // First letter of the id, then the other words, then the rest of the letters
+  private static getLetters(buildingId: string): string[] {
+    let returnValue: string[] = [];
+    let letters = buildingId.replace(/[^A-Za-z]/g, '');
+    let words = letters.replace(/[a-z]/g, '');
+
+    for (let letter of (letters[0] + words + letters).toUpperCase())
+      if (returnValue.indexOf(letter) == -1) returnValue.push(letter);
+
+    return returnValue;
+  }
+}
@@ -39,6 +39,11 @@ export declare class OniItem {
     spriteGroup: SpriteModifierGroup;
     tileableLeftRight: boolean;
     tileableTopBottom: boolean;
+    energyConsumptionWhenActive: number;
+    generatorWattageRating: number;
+    maxWattageRating: number;
+    conduitInputRate: number;
+    conduitOutputRate: number;
     get isPartOfCircuit(): boolean;
     private permittedRotations_;
     get permittedRotations(): PermittedRotations;
@@ -51,6 +51,15 @@ export class OniItem {
   tileableLeftRight: boolean = false;
   tileableTopBottom: boolean = false;
 
+  // Power, in watts
+  energyConsumptionWhenActive: number = 0;
+  generatorWattageRating: number = 0;
+  maxWattageRating: number = 0;
+
+  // Pipes, in kg/s, 0 when unknown
+  conduitInputRate: number = 0;
+  conduitOutputRate: number = 0;
+
   get isPartOfCircuit(): boolean {
     for (let utility of this.utilityConnections)
       if (utility.type == ConnectionType.POWER_INPUT || utility.type == ConnectionType.POWER_OUTPUT)
@@ -118,6 +127,13 @@ export class OniItem {
     this.tileableTopBottom = original.tileableTopBottom;
     this.buildLocationRule = original.buildLocationRule;
 
+    this.energyConsumptionWhenActive = original.energyConsumptionWhenActive;
+    this.generatorWattageRating = original.generatorWattageRating;
+    this.maxWattageRating = original.maxWattageRating;
+
+    this.conduitInputRate = original.conduitInputRate;
+    this.conduitOutputRate = original.conduitOutputRate;
+
     // TODO not sure if this is usefull still
     let imageId: string = original.textureName;
     let imageUrl: string = StringHelpers.createUrl(imageId, false);
@@ -200,6 +216,11 @@ export class OniItem {
       this.defaultElement = [BuildableElement.getElement('Vacuum')];
     if (this.overlay == null) this.overlay = Overlay.Base;
     if (this.buildLocationRule == null) this.buildLocationRule = BuildLocationRule.Anywhere;
+    if (this.energyConsumptionWhenActive == null) this.energyConsumptionWhenActive = 0;
+    if (this.generatorWattageRating == null) this.generatorWattageRating = 0;
+    if (this.maxWattageRating == null) this.maxWattageRating = 0;
+    if (this.conduitInputRate == null) this.conduitInputRate = 0;
+    if (this.conduitOutputRate == null) this.conduitOutputRate = 0;
 
     if (Vector2.Zero.equals(this.size)) this.tileOffset = Vector2.Zero;
     else {
@@ -1,5 +1,7 @@
 export declare class StringHelpers {
     static stripHtml(html: string): string;
     static createUrl(ressource: string, ui: boolean): string;
+    static fuzzyScore(query: string, text: string): number | undefined;
+    private static normalize;
 }
 //# sourceMappingURL=string-helpers.d.ts.map
\ No newline at end of file
@@ -7,4 +7,39 @@ export class StringHelpers {
   public static createUrl(ressource: string, ui: boolean): string {
     return 'assets/images/' + (ui ? 'ui/' : '') + ressource + '.png';
   }
+
+  // Undefined when the letters of the query are not all in the text, in the same order.
+  // Letters that follow each other or start a word score more, and shorter texts win ties
+  public static fuzzyScore(query: string, text: string): number | undefined {
+    let queryLetters = StringHelpers.normalize(query).replace(/\s+/g, '');
+    let textLetters = StringHelpers.normalize(text);
+    if (queryLetters.length == 0) return 0;
+
+    let returnValue = 0;
+    let textIndex = 0;
+    let previousMatch = -2;
+    for (let letter of queryLetters) {
+      let match = textLetters.indexOf(letter, textIndex);
+      if (match == -1) return undefined;
+
+      returnValue += 1;
+      if (match == previousMatch + 1) returnValue += 3;
+      if (match == 0 || /[\s\-_(),.:]/.test(textLetters[match - 1])) returnValue += 5;
+
+      previousMatch = match;
+      textIndex = match + 1;
+    }
+
+    if (textLetters.indexOf(StringHelpers.normalize(query).trim()) != -1) returnValue += 10;
+
+    return returnValue - textLetters.length / 100;
+  }
+
+  // Lower case, without accents
+  private static normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '');
+  }
 }
@@ -18,6 +18,7 @@ export declare class ConnectionSprite {
 }
 export declare class ConnectionHelper {
     static getConnectionOverlay(connectionType: ConnectionType): Overlay;
+    static isOutput(connectionType: ConnectionType): boolean;
     static getConnectionName(connectionType: ConnectionType): string;
     static getConnectionSprite(connectionType: UtilityConnection): ConnectionSprite;
     static getOverlayFromLayer(sceneLayer: ZIndex): Overlay;
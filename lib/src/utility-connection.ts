@@ -47,6 +47,20 @@ export class ConnectionHelper {
     }
   }
 
+  public static isOutput(connectionType: ConnectionType): boolean {
+    switch (connectionType) {
+      case ConnectionType.POWER_OUTPUT:
+      case ConnectionType.GAS_OUTPUT:
+      case ConnectionType.LIQUID_OUTPUT:
+      case ConnectionType.LOGIC_OUTPUT:
+      case ConnectionType.LOGIC_RIBBON_OUTPUT:
+      case ConnectionType.SOLID_OUTPUT:
+        return true;
+      default:
+        return false;
+    }
+  }
+
   public static getConnectionName(connectionType: ConnectionType): string {
     switch (connectionType) {
       case ConnectionType.POWER_OUTPUT: